@@ -5,6 +5,7 @@ import LandingPage from './components/LandingPage';
 import AuthCallback from './app/auth/callback/page';
 import Dashboard from './components/Dashboard';
 import Resumes from './components/Resumes';
+import CoverLetters from './components/CoverLetters';
 import Settings from './components/Settings';
 import ProtectedRoute from './components/ProtectedRoute';
 import AdminRoute from './components/AdminRoute';
@@ -20,6 +21,7 @@ function App() {
           <Route element={<ProtectedRoute />}>
             <Route path="/dashboard" element={<Dashboard />} />
             <Route path="/resumes" element={<Resumes />} />
+            <Route path="/cover-letters" element={<CoverLetters />} />
             <Route path="/settings" element={<Settings />} />
           </Route>
           {/* Admin Route - Protected by AdminRoute component */}
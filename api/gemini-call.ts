@@ -13,7 +13,7 @@ const supabaseAdmin = (supabaseUrl && supabaseServiceKey)
     : null;
 
 // --- Feature Configuration (must match lib/aiConfig.ts) ---
-type AIFeature = 'resume_ai' | 'interview_ai' | 'linkedin_ai' | 'summary_ai' | 'chatbot_ai' | 'ats_ai';
+type AIFeature = 'resume_ai' | 'interview_ai' | 'linkedin_ai' | 'summary_ai' | 'chatbot_ai' | 'ats_ai' | 'cover_letter_ai';
 type AIModel = 'flash' | 'pro';
 
 const AI_CONFIG: Record<AIFeature, { model: AIModel; cost: number; maxInputChars: number }> = {
@@ -22,7 +22,8 @@ const AI_CONFIG: Record<AIFeature, { model: AIModel; cost: number; maxInputChars
     linkedin_ai: { model: 'pro', cost: 4, maxInputChars: 3000 },
     summary_ai: { model: 'flash', cost: 1, maxInputChars: 5000 },
     chatbot_ai: { model: 'flash', cost: 1, maxInputChars: 2000 },
-    ats_ai: { model: 'flash', cost: 1, maxInputChars: 5000 }
+    ats_ai: { model: 'flash', cost: 1, maxInputChars: 5000 },
+    cover_letter_ai: { model: 'flash', cost: 1, maxInputChars: 8000 }
 };
 
 const MODEL_IDS: Record<AIModel, string> = {
@@ -0,0 +1,45 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// --- Inlined Shared Logic ---
+// Must match the v2 layout in lib/resumeMetadata.ts
+const SIGNED_PART_PATTERN = /^v\d+\.[A-Za-z0-9_-]+$/;
+const MAX_PAYLOAD_LENGTH = 200_000;
+// ----------------------------
+
+// POST /api/metadata/verify { payload: "v2.<body>", signature } -> { valid }
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+    if (req.method === 'OPTIONS') return res.status(200).end();
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    try {
+        const secret = process.env.METADATA_SIGNING_SECRET;
+        if (!secret) {
+            console.error('METADATA_SIGNING_SECRET is not set');
+            return res.status(500).json({ error: 'Metadata signing not configured' });
+        }
+
+        const { payload, signature } = req.body || {};
+        if (typeof payload !== 'string' || payload.length > MAX_PAYLOAD_LENGTH || !SIGNED_PART_PATTERN.test(payload)) {
+            return res.status(400).json({ error: 'payload must be an encoded metadata block ("v<n>.<body>")' });
+        }
+        if (typeof signature !== 'string' || !signature) {
+            return res.status(400).json({ error: 'signature is required' });
+        }
+
+        const expected = createHmac('sha256', secret).update(payload).digest();
+        const provided = Buffer.from(signature, 'base64url');
+        const valid = provided.length === expected.length && timingSafeEqual(provided, expected);
+
+        return res.status(200).json({ valid });
+    } catch (error: any) {
+        console.error('Metadata verification error:', error);
+        return res.status(500).json({ error: error.message });
+    }
+}
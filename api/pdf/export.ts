@@ -1,15 +1,476 @@
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import PdfPrinter from 'pdfmake';
+import vfsFonts from 'pdfmake/build/vfs_fonts.js';
+import type { Content, TDocumentDefinitions } from 'pdfmake/interfaces';
+import { createHmac } from 'crypto';
+import { deflateRawSync } from 'zlib';
+import type {
+    ResumeData, ResumeDate, DatedItem, DateFormat, StandardSection, CustomSection, CustomSectionType
+} from '../../types';
+import type { PdfLayout } from '../../templates/types';
+import type { CoverLetter } from '../../lib/coverLetter';
 
-// Note: For full server-side PDF generation, you would typically use Puppeteer or a PDF library.
-// However, Puppeteer has significant bundle size and cold start issues on Vercel.
-// This endpoint provides a simpler approach using html-pdf-node or returns HTML for client-side generation.
+// Server-side PDF renderer: lays out resumeData directly with pdfmake (pdfkit underneath),
+// so exports no longer depend on the browser's print dialog, margins or scaling.
+// Roboto is embedded from pdfmake's bundled font files, which keeps all text selectable.
+// Colours, sizes and default section order come from the requesting template's `pdf` layout (templates/);
+// the resume's own sectionOrder / hiddenSections / customSections, entry order and date format are applied on top.
+// A coverLetter alongside resumeData renders that letter under the resume's header instead of the resume.
+// Sending raw html is still supported for the legacy PDF_SERVICE_URL / print-html path.
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
-    // Only allow POST requests
-    if (req.method !== 'POST') {
-        return res.status(405).json({ error: 'Method not allowed' });
+// --- Inlined Shared Logic ---
+// Must match the markers and v2 layout in lib/resumeMetadata.ts
+const METADATA_START_MARKER = "###NXT_DATA_START###";
+const METADATA_END_MARKER = "###NXT_DATA_END###";
+const METADATA_VERSION = 2;
+// ----------------------------
+
+type PdfFormat = 'a4' | 'letter';
+type UnknownRecord = Record<string, unknown>;
+
+// Used for requests without a layout and for any field that fails validation
+const DEFAULT_THEME: PdfLayout = {
+    accent: '#0ea5e9', headingColor: '#0ea5e9', nameSize: 26, bodySize: 9.5, align: 'left',
+    headingRule: false, italicMeta: false, sections: ['summary', 'experience', 'skills', 'education', 'certifications', 'languages']
+};
+
+const SECTION_TITLES: Record<StandardSection, string> = {
+    summary: 'Professional Summary',
+    experience: 'Experience',
+    education: 'Education',
+    skills: 'Skills',
+    certifications: 'Certifications',
+    languages: 'Languages'
+};
+
+// Fallback headings for untitled custom sections
+const CUSTOM_SECTION_TITLES: Record<CustomSectionType, string> = {
+    projects: 'Projects',
+    publications: 'Publications',
+    volunteering: 'Volunteering',
+    awards: 'Awards'
+};
+
+const DATE_FORMATS: DateFormat[] = ['short', 'long', 'numeric', 'year'];
+
+// Must match MONTH_NAMES in lib/dates.ts
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const PAGE_SIZES: Record<PdfFormat, { size: 'A4' | 'LETTER'; width: number }> = {
+    a4: { size: 'A4', width: 595.28 },
+    letter: { size: 'LETTER', width: 612 }
+};
+const PAGE_MARGIN = 42;
+
+const isRecord = (value: unknown): value is UnknownRecord => !!value && typeof value === 'object' && !Array.isArray(value);
+const records = (value: unknown): UnknownRecord[] => Array.isArray(value) ? value.filter(isRecord) : [];
+const strings = (value: unknown): string[] => Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+const str = (value: unknown) => typeof value === 'string' ? value : '';
+
+const isFontMap = (value: unknown): value is Record<string, string> =>
+    isRecord(value) && Object.values(value).every(file => typeof file === 'string');
+
+// pdfmake >= 0.2.8 exports the vfs map directly; older builds nest it under pdfMake.vfs
+const bundledFonts: unknown = vfsFonts;
+const vfsCandidate = isRecord(bundledFonts) && isRecord(bundledFonts.pdfMake) ? bundledFonts.pdfMake.vfs : bundledFonts;
+const vfs: Record<string, string> = isFontMap(vfsCandidate) ? vfsCandidate : {};
+const font = (file: string) => {
+    if (!vfs[file]) throw new Error(`pdfmake font ${file} is missing`);
+    return Buffer.from(vfs[file], 'base64');
+};
+
+const printer = new PdfPrinter({
+    Roboto: {
+        normal: font('Roboto-Regular.ttf'),
+        bold: font('Roboto-Medium.ttf'),
+        italics: font('Roboto-Italic.ttf'),
+        bolditalics: font('Roboto-MediumItalic.ttf')
+    }
+});
+
+const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+const nonEmpty = (values: unknown[]) => values.map(text).filter(Boolean);
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/**
+ * Accept a client-supplied layout field by field, keeping the default for anything malformed
+ */
+function normalizeTheme(layout: unknown): PdfLayout {
+    if (!isRecord(layout)) return DEFAULT_THEME;
+    const color = (value: unknown, fallback: string) => typeof value === 'string' && HEX_COLOR.test(value) ? value : fallback;
+    const size = (value: unknown, min: number, max: number, fallback: number) =>
+        typeof value === 'number' && value >= min && value <= max ? value : fallback;
+    const flag = (value: unknown, fallback: boolean) => typeof value === 'boolean' ? value : fallback;
+    const sections = strings(layout.sections).filter((section, i, all): section is StandardSection =>
+        Object.prototype.hasOwnProperty.call(SECTION_TITLES, section) && all.indexOf(section) === i);
+
+    return {
+        accent: color(layout.accent, DEFAULT_THEME.accent),
+        headingColor: color(layout.headingColor, DEFAULT_THEME.headingColor),
+        nameSize: size(layout.nameSize, 12, 48, DEFAULT_THEME.nameSize),
+        bodySize: size(layout.bodySize, 7, 14, DEFAULT_THEME.bodySize),
+        align: layout.align === 'center' ? 'center' : 'left',
+        headingRule: flag(layout.headingRule, DEFAULT_THEME.headingRule),
+        italicMeta: flag(layout.italicMeta, DEFAULT_THEME.italicMeta),
+        sections: sections.length > 0 ? sections : DEFAULT_THEME.sections
+    };
+}
+
+// A structured date with a usable year; a month outside 1-12 is dropped, anything else is no date
+function resumeDate(value: unknown): ResumeDate | null {
+    if (!isRecord(value) || typeof value.year !== 'number' || !Number.isInteger(value.year)) return null;
+    const month = value.month;
+    return typeof month === 'number' && Number.isInteger(month) && month >= 1 && month <= 12 ? { year: value.year, month } : { year: value.year };
+}
+
+const datedFields = (item: UnknownRecord): Required<DatedItem> => ({
+    startDate: resumeDate(item.startDate),
+    endDate: resumeDate(item.endDate),
+    current: item.current === true
+});
+
+const entryId = (value: unknown, fallback: number) => typeof value === 'number' ? value : fallback;
+
+const isCustomSectionType = (value: unknown): value is CustomSectionType =>
+    typeof value === 'string' && Object.prototype.hasOwnProperty.call(CUSTOM_SECTION_TITLES, value);
+
+/**
+ * Client-supplied resumeData as ResumeData: missing or mistyped fields become empty, malformed structured
+ * dates are dropped (the free-text date prints instead). Everything after this works on the typed copy.
+ */
+function normalizeResume(data: UnknownRecord): ResumeData {
+    return {
+        fullName: str(data.fullName),
+        phone: str(data.phone),
+        email: str(data.email),
+        location: str(data.location),
+        linkedin: str(data.linkedin),
+        website: str(data.website),
+        targetRole: str(data.targetRole),
+        summary: str(data.summary),
+        hardSkills: str(data.hardSkills),
+        softSkills: str(data.softSkills),
+        experience: records(data.experience).map((exp, i) => ({
+            id: entryId(exp.id, i), role: str(exp.role), company: str(exp.company), location: str(exp.location),
+            date: str(exp.date), bullets: strings(exp.bullets), ...datedFields(exp)
+        })),
+        education: records(data.education).map((edu, i) => ({
+            id: entryId(edu.id, i), degree: str(edu.degree), school: str(edu.school), year: str(edu.year),
+            grade: str(edu.grade), ...datedFields(edu)
+        })),
+        certifications: records(data.certifications).map((cert, i) => ({
+            id: entryId(cert.id, i), name: str(cert.name), issuer: str(cert.issuer), date: str(cert.date), ...datedFields(cert)
+        })),
+        languages: records(data.languages).map((lang, i) => ({ id: entryId(lang.id, i), name: str(lang.name), level: str(lang.level) })),
+        customSections: records(data.customSections).flatMap(section => typeof section.id === 'string' && isCustomSectionType(section.type)
+            ? [{
+                id: section.id,
+                type: section.type,
+                title: str(section.title),
+                entries: records(section.entries).map((entry, i) => ({
+                    id: entryId(entry.id, i), title: str(entry.title), subtitle: str(entry.subtitle), date: str(entry.date),
+                    url: str(entry.url), bullets: strings(entry.bullets)
+                }))
+            }]
+            : []),
+        sectionOrder: strings(data.sectionOrder),
+        hiddenSections: strings(data.hiddenSections),
+        dateFormat: DATE_FORMATS.find(format => format === data.dateFormat),
+        entryOrder: data.entryOrder === 'manual' || data.entryOrder === 'chronological' ? data.entryOrder : undefined
+    };
+}
+
+function normalizeLetter(letter: UnknownRecord): CoverLetter {
+    return {
+        date: str(letter.date),
+        recipient: str(letter.recipient),
+        greeting: str(letter.greeting),
+        hook: str(letter.hook),
+        evidence: strings(letter.evidence),
+        close: str(letter.close),
+        signOff: str(letter.signOff)
+    };
+}
+
+const entryHeader = (left: string, right: string): Content => ({
+    columns: [
+        { text: left, bold: true, width: '*' },
+        { text: right, width: 'auto', color: '#64748b' }
+    ],
+    columnGap: 12,
+    margin: [0, 6, 0, 1]
+});
+
+function sectionContent(section: StandardSection, data: ResumeData, theme: PdfLayout, contentWidth: number): Content[] {
+    const body: Content[] = [];
+
+    switch (section) {
+        case 'summary':
+            if (text(data.summary)) body.push({ text: text(data.summary), lineHeight: 1.25 });
+            break;
+
+        case 'experience':
+            for (const exp of data.experience) {
+                if (!text(exp.role) && !text(exp.company)) continue;
+                const bullets = nonEmpty(exp.bullets);
+                const meta = nonEmpty([exp.company, exp.location]).join(', ');
+                // Keep the role line with its first bullet instead of leaving it orphaned at a page bottom
+                body.push({
+                    stack: [
+                        entryHeader(text(exp.role), displayDate(exp, exp.date, data.dateFormat)),
+                        ...(meta ? [{ text: meta, color: theme.accent, italics: theme.italicMeta, margin: [0, 0, 0, 2] } as Content] : []),
+                        ...(bullets.length > 0 ? [{ ul: bullets.slice(0, 1), margin: [4, 0, 0, 0] } as Content] : [])
+                    ],
+                    unbreakable: true
+                });
+                if (bullets.length > 1) body.push({ ul: bullets.slice(1), margin: [4, 1, 0, 0], lineHeight: 1.2 });
+            }
+            break;
+
+        case 'education':
+            for (const edu of data.education) {
+                if (!text(edu.degree) && !text(edu.school)) continue;
+                const meta = nonEmpty([edu.school, edu.grade]).join(' | ');
+                body.push({
+                    stack: [entryHeader(text(edu.degree), displayDate(edu, edu.year, data.dateFormat)), ...(meta ? [{ text: meta, italics: theme.italicMeta } as Content] : [])],
+                    unbreakable: true
+                });
+            }
+            break;
+
+        case 'skills': {
+            const hard = nonEmpty(text(data.hardSkills).split(','));
+            const soft = nonEmpty(text(data.softSkills).split(','));
+            if (hard.length > 0) body.push({ text: [{ text: 'Technical: ', bold: true }, hard.join(', ')] });
+            if (soft.length > 0) body.push({ text: [{ text: 'Soft Skills: ', bold: true }, soft.join(', ')], margin: [0, 2, 0, 0] });
+            break;
+        }
+
+        case 'certifications':
+            for (const cert of data.certifications) {
+                if (!text(cert.name)) continue;
+                body.push(entryHeader(nonEmpty([cert.name, cert.issuer]).join(' - '), displayDate(cert, cert.date, data.dateFormat)));
+            }
+            break;
+
+        case 'languages': {
+            const languages = data.languages
+                .filter(l => text(l.name))
+                .map(l => text(l.level) ? `${text(l.name)} (${text(l.level)})` : text(l.name));
+            if (languages.length > 0) body.push({ text: languages.join('   ·   ') });
+            break;
+        }
+    }
+
+    return withHeading(SECTION_TITLES[section], body, theme, contentWidth);
+}
+
+function withHeading(title: string, body: Content[], theme: PdfLayout, contentWidth: number): Content[] {
+    if (body.length === 0) return [];
+
+    const heading: Content[] = [
+        { text: title.toUpperCase(), bold: true, color: theme.headingColor, fontSize: theme.bodySize + 1.5, characterSpacing: 1, margin: [0, 14, 0, 2] }
+    ];
+    if (theme.headingRule) {
+        heading.push({ canvas: [{ type: 'line', x1: 0, y1: 0, x2: contentWidth, y2: 0, lineWidth: 0.75, lineColor: theme.headingColor }], margin: [0, 0, 0, 4] });
     }
+    // Headings never end a page on their own
+    return [{ stack: [...heading, body[0]], unbreakable: true }, ...body.slice(1)];
+}
+
+// User-defined sections (projects, awards, ...): title, date, subtitle line and bullets per entry
+function customSectionContent(section: CustomSection, theme: PdfLayout, contentWidth: number): Content[] {
+    const body: Content[] = [];
+    for (const entry of section.entries) {
+        const bullets = nonEmpty(entry.bullets);
+        if (!text(entry.title) && !text(entry.subtitle) && bullets.length === 0) continue;
+        const meta = nonEmpty([entry.subtitle, entry.url]).join(' | ');
+        body.push({
+            stack: [
+                entryHeader(text(entry.title), text(entry.date)),
+                ...(meta ? [{ text: meta, color: theme.accent, italics: theme.italicMeta, margin: [0, 0, 0, 2] } as Content] : []),
+                ...(bullets.length > 0 ? [{ ul: bullets.slice(0, 1), margin: [4, 0, 0, 0] } as Content] : [])
+            ],
+            unbreakable: true
+        });
+        if (bullets.length > 1) body.push({ ul: bullets.slice(1), margin: [4, 1, 0, 0], lineHeight: 1.2 });
+    }
+    return withHeading(text(section.title) || CUSTOM_SECTION_TITLES[section.type], body, theme, contentWidth);
+}
+
+/**
+ * Section ids in render order: the user's order if they set one, else the layout's; hidden ones dropped.
+ * Must match orderSections in lib/resumeSections.ts
+ */
+function orderSections(data: ResumeData, shown: StandardSection[]): string[] {
+    const customIds = (data.customSections || []).map(s => s.id);
+    const hidden = data.hiddenSections || [];
+    return [...(data.sectionOrder || []), ...shown, ...customIds]
+        .filter((id, i, all) => all.indexOf(id) === i)
+        .filter(id => (shown as string[]).includes(id) || customIds.includes(id))
+        .filter(id => !hidden.includes(id));
+}
+
+// Must match formatDate in lib/dates.ts
+function formatDate(date: ResumeDate, format: DateFormat = 'short'): string {
+    if (!date.month || format === 'year') return String(date.year);
+    switch (format) {
+        case 'long': return `${MONTH_NAMES[date.month - 1]} ${date.year}`;
+        case 'numeric': return `${String(date.month).padStart(2, '0')}/${date.year}`;
+        default: return `${MONTH_NAMES[date.month - 1].substring(0, 3)} ${date.year}`;
+    }
+}
+
+/**
+ * Structured dates in the resume's format, or the free-text date for entries without them.
+ * Must match displayDate / formatDateRange in lib/dates.ts
+ */
+function displayDate(item: DatedItem, fallback: string, format?: DateFormat): string {
+    const start = item.startDate ? formatDate(item.startDate, format) : '';
+    const end = item.endDate ? formatDate(item.endDate, format) : '';
+    if (item.current) return start ? `${start} - Present` : 'Present';
+    if (!start && !end) return text(fallback);
+    if (!start || !end || start === end) return start || end;
+    return `${start} - ${end}`;
+}
+
+// Must match monthIndex in lib/dates.ts
+const monthIndex = (date: ResumeDate, edge: 'start' | 'end') =>
+    date.year * 12 + (date.month ? date.month - 1 : (edge === 'start' ? 0 : 11));
+
+/**
+ * Newest first: current entries, then by end date, then by start date. Undated entries stay at the bottom.
+ * Must match sortByRecency in lib/dates.ts
+ */
+function sortByRecency<T extends DatedItem>(items: T[]): T[] {
+    const key = (item: T): [number, number] | null => {
+        if (!item.startDate && !item.endDate && !item.current) return null;
+        const last = item.endDate || item.startDate;
+        const end = item.current || !last ? Infinity : monthIndex(last, 'end');
+        return [end, item.startDate ? monthIndex(item.startDate, 'start') : end];
+    };
+    return items
+        .map((item, position) => ({ item, position, key: key(item) }))
+        .sort((a, b) => {
+            if (!a.key || !b.key) return a.key ? -1 : b.key ? 1 : a.position - b.position;
+            return (b.key[0] - a.key[0]) || (b.key[1] - a.key[1]) || (a.position - b.position);
+        })
+        .map(entry => entry.item);
+}
+
+// Must match sortResumeEntries in lib/dates.ts
+function sortResumeEntries(data: ResumeData): ResumeData {
+    if (data.entryOrder === 'manual') return data;
+    return {
+        ...data,
+        experience: sortByRecency(data.experience),
+        education: sortByRecency(data.education),
+        certifications: sortByRecency(data.certifications)
+    };
+}
+
+/**
+ * Signed v2 metadata block that decodeMetadata() in lib/resumeMetadata.ts reads back from the PDF text.
+ * Left unsigned when METADATA_SIGNING_SECRET isn't configured.
+ */
+function encodeMetadata(data: ResumeData): string {
+    const payload = { v: METADATA_VERSION, source: 'builder', data };
+    const signedPart = `v${METADATA_VERSION}.${deflateRawSync(Buffer.from(JSON.stringify(payload), 'utf8'), { level: 9 }).toString('base64url')}`;
+    const secret = process.env.METADATA_SIGNING_SECRET;
+    return secret ? `${signedPart}.${createHmac('sha256', secret).update(signedPart).digest('base64url')}` : signedPart;
+}
+
+// Name, target role and contact line, shared by resumes and cover letters
+function headerContent(data: ResumeData, theme: PdfLayout): Content[] {
+    const contact = nonEmpty([data.email, data.phone, data.location, data.linkedin, data.website]).join('   |   ');
+    return [
+        { text: (text(data.fullName) || 'Your Name').toUpperCase(), fontSize: theme.nameSize, bold: true, color: '#0f172a', alignment: theme.align },
+        ...(text(data.targetRole) ? [{ text: text(data.targetRole).toUpperCase(), color: theme.accent, bold: true, characterSpacing: 2, alignment: theme.align, margin: [0, 2, 0, 0] } as Content] : []),
+        ...(contact ? [{ text: contact, color: '#64748b', fontSize: theme.bodySize - 1, alignment: theme.align, margin: [0, 6, 0, 0] } as Content] : [])
+    ];
+}
 
+const documentInfo = (data: ResumeData, kind: string) => ({
+    title: nonEmpty([data.fullName, kind]).join(' - '),
+    author: text(data.fullName),
+    creator: 'NextStep Resume Builder',
+    producer: 'NextStep Resume Builder'
+});
+
+function buildDocument(data: ResumeData, theme: PdfLayout, format: PdfFormat): TDocumentDefinitions {
+    const page = PAGE_SIZES[format];
+    const sorted = sortResumeEntries(data);
+    const contentWidth = page.width - PAGE_MARGIN * 2;
+
+    return {
+        pageSize: page.size,
+        pageMargins: [PAGE_MARGIN, PAGE_MARGIN, PAGE_MARGIN, PAGE_MARGIN],
+        info: documentInfo(data, 'Resume'),
+        defaultStyle: { font: 'Roboto', fontSize: theme.bodySize, color: '#1e293b', lineHeight: 1.15 },
+        // Invisible 1pt marker text on page one; drawn as a background so it never shifts the layout
+        background: (currentPage: number) => currentPage === 1
+            ? { text: `${METADATA_START_MARKER}${encodeMetadata(data)}${METADATA_END_MARKER}`, fontSize: 1, color: '#ffffff', absolutePosition: { x: 2, y: 2 } }
+            : null,
+        content: [
+            ...headerContent(data, theme),
+            ...orderSections(data, theme.sections).flatMap(id => {
+                const standard = theme.sections.find(section => section === id);
+                if (standard) return sectionContent(standard, sorted, theme, contentWidth);
+                const custom = (data.customSections || []).find(s => s.id === id);
+                return custom ? customSectionContent(custom, theme, contentWidth) : [];
+            })
+        ]
+    };
+}
+
+// Cover letter under the resume's header
+function buildCoverLetterDocument(data: ResumeData, letter: CoverLetter, theme: PdfLayout, format: PdfFormat): TDocumentDefinitions {
+    const page = PAGE_SIZES[format];
+    const contentWidth = page.width - PAGE_MARGIN * 2;
+    // Must match letterParagraphs in lib/coverLetter.ts
+    const paragraphs = nonEmpty([letter.hook, ...letter.evidence, letter.close].flatMap(p => p.split(/\n+/)));
+    const recipient = nonEmpty(text(letter.recipient).split('\n'));
+    // Letters read better a touch larger and looser than resume body text
+    const bodySize = theme.bodySize + 1;
+
+    const divider: Content = theme.headingRule
+        ? { canvas: [{ type: 'line', x1: 0, y1: 0, x2: contentWidth, y2: 0, lineWidth: 0.75, lineColor: theme.headingColor }], margin: [0, 12, 0, 0] }
+        : { text: '', margin: [0, 6, 0, 0] };
+
+    return {
+        pageSize: page.size,
+        pageMargins: [PAGE_MARGIN, PAGE_MARGIN, PAGE_MARGIN, PAGE_MARGIN],
+        info: documentInfo(data, 'Cover Letter'),
+        defaultStyle: { font: 'Roboto', fontSize: bodySize, color: '#1e293b', lineHeight: 1.35 },
+        content: [
+            ...headerContent(data, theme),
+            divider,
+            ...(text(letter.date) ? [{ text: text(letter.date), color: '#64748b', margin: [0, 18, 0, 0] } as Content] : []),
+            ...(recipient.length > 0 ? [{ stack: recipient, margin: [0, 12, 0, 0] } as Content] : []),
+            { text: text(letter.greeting) || 'Dear Hiring Manager,', margin: [0, 18, 0, 10] },
+            ...paragraphs.map(p => ({ text: p, margin: [0, 0, 0, 10] } as Content)),
+            {
+                stack: [text(letter.signOff) || 'Sincerely,', { text: text(data.fullName), bold: true, margin: [0, 18, 0, 0] }],
+                margin: [0, 8, 0, 0],
+                unbreakable: true
+            }
+        ]
+    };
+}
+
+function renderPdf(definition: TDocumentDefinitions): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        const doc = printer.createPdfKitDocument(definition);
+        const chunks: Buffer[] = [];
+        doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+        doc.on('end', () => resolve(Buffer.concat(chunks)));
+        doc.on('error', reject);
+        doc.end();
+    });
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
     // Enable CORS
     res.setHeader('Access-Control-Allow-Origin', '*');
     res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
@@ -19,34 +480,46 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         return res.status(200).end();
     }
 
+    // Only allow POST requests
+    if (req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
     try {
-        const { html, resumeData, template = 'modern', format = 'a4' } = req.body;
+        const body: unknown = req.body;
+        const { html, resumeData, coverLetter, layout, format = 'a4' } = isRecord(body) ? body : {};
 
         if (!html && !resumeData) {
             return res.status(400).json({ error: 'Either html or resumeData is required' });
         }
 
-        // For now, we'll return a response that tells the client to use browser print
-        // This is because server-side PDF generation with Puppeteer/Chrome on Vercel 
-        // has cold start issues and requires special configuration
-
-        // Option 1: Return instructions to use client-side print
-        if (!html) {
-            return res.status(200).json({
-                success: true,
-                method: 'client_print',
-                message: 'Use window.print() for PDF generation',
-                instructions: 'Navigate to the resume preview and use browser print (Ctrl+P) to save as PDF'
-            });
+        const pageFormat = String(format).toLowerCase() as PdfFormat;
+        if (!PAGE_SIZES[pageFormat]) {
+            return res.status(400).json({ error: 'format must be "a4" or "letter"' });
         }
 
-        // Option 2: If HTML is provided, we could integrate with a PDF service
-        // For production, consider using:
-        // - Browserless.io API
-        // - PDFShift API  
-        // - html-pdf-chrome with a headless Chrome service
+        // Native renderer: structured data in, PDF out
+        if (resumeData) {
+            if (!isRecord(resumeData)) {
+                return res.status(400).json({ error: 'resumeData must be an object' });
+            }
+            if (coverLetter !== undefined && !isRecord(coverLetter)) {
+                return res.status(400).json({ error: 'coverLetter must be an object' });
+            }
+            const theme = normalizeTheme(layout);
+            const resume = normalizeResume(resumeData);
+            const pdf = await renderPdf(isRecord(coverLetter)
+                ? buildCoverLetterDocument(resume, normalizeLetter(coverLetter), theme, pageFormat)
+                : buildDocument(resume, theme, pageFormat));
+            const baseName = (text(resume.fullName) || 'resume').replace(/[^A-Za-z0-9_-]+/g, '_');
+            const filename = coverLetter ? `${baseName}_cover_letter.pdf` : `${baseName}.pdf`;
+
+            res.setHeader('Content-Type', 'application/pdf');
+            res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+            return res.status(200).send(pdf);
+        }
 
-        // Example integration placeholder:
+        // Legacy path: HTML snapshot rendered by an external service when configured
         const pdfServiceUrl = process.env.PDF_SERVICE_URL;
 
         if (pdfServiceUrl) {
@@ -59,7 +532,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
                 },
                 body: JSON.stringify({
                     html,
-                    format,
+                    format: pageFormat,
                     margin: { top: '0mm', right: '0mm', bottom: '0mm', left: '0mm' }
                 })
             });
@@ -86,13 +559,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   <title>Resume - Print</title>
   <style>
     @page {
-      size: ${format === 'letter' ? 'letter' : 'A4'};
+      size: ${pageFormat === 'letter' ? 'letter' : 'A4'};
       margin: 0;
     }
     @media print {
       html, body {
-        width: 210mm;
-        height: 297mm;
+        width: ${pageFormat === 'letter' ? '8.5in' : '210mm'};
+        height: ${pageFormat === 'letter' ? '11in' : '297mm'};
         margin: 0;
         padding: 0;
       }
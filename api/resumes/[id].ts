@@ -0,0 +1,224 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+
+// --- Inlined Shared Logic ---
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL || '';
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+const supabaseAdmin = (supabaseUrl && supabaseServiceKey)
+    ? createClient(supabaseUrl, supabaseServiceKey, {
+        auth: { autoRefreshToken: false, persistSession: false }
+    })
+    : null;
+
+async function getUserFromToken(authHeader: string | null) {
+    if (!authHeader || !authHeader.startsWith('Bearer ')) return null;
+    const token = authHeader.replace('Bearer ', '');
+    if (!supabaseAdmin) return null;
+    const { data: { user }, error } = await supabaseAdmin.auth.getUser(token);
+    if (error || !user) return null;
+    return user;
+}
+// ----------------------------
+
+const MAX_NAME_LENGTH = 120;
+const MAX_JOB_DESCRIPTION_LENGTH = 20000;
+const RESUME_COLUMNS = 'id, name, data, is_master, parent_id, job_description, overrides, created_at, updated_at';
+
+// Autosaves closer together than this get no snapshot of their own; the next save past the interval
+// (or a manual save, or a restore) captures their changes
+const SNAPSHOT_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * Write an immutable history snapshot if this save is "meaningful":
+ * explicitly requested, or the data changed and the last snapshot is old enough
+ */
+async function maybeSnapshot(resumeId: string, userId: string, data: unknown, force: boolean): Promise<boolean> {
+    if (!supabaseAdmin) return false;
+
+    const { data: latest } = await supabaseAdmin
+        .from('resume_versions')
+        .select('data, created_at')
+        .eq('resume_id', resumeId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    if (latest) {
+        const unchanged = JSON.stringify(latest.data) === JSON.stringify(data);
+        const age = Date.now() - new Date(latest.created_at).getTime();
+        if (unchanged || (!force && age < SNAPSHOT_INTERVAL_MS)) return false;
+    }
+
+    const { error } = await supabaseAdmin.from('resume_versions').insert({
+        resume_id: resumeId,
+        user_id: userId,
+        label: force ? 'Manual save' : 'Autosave',
+        data
+    });
+
+    if (error) {
+        console.error('Error writing resume snapshot:', error);
+        return false;
+    }
+    return true;
+}
+
+// GET    /api/resumes/:id  -> full resume including data (variants also get their master)
+// PATCH  /api/resumes/:id  -> update { name?, data?, snapshot?, isMaster?, overrides?, jobDescription? }
+// DELETE /api/resumes/:id  -> delete the resume
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, PATCH, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+    if (req.method === 'OPTIONS') return res.status(200).end();
+    if (req.method !== 'GET' && req.method !== 'PATCH' && req.method !== 'DELETE') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    try {
+        const user = await getUserFromToken(req.headers.authorization || null);
+        if (!user) return res.status(401).json({ error: 'Not authenticated' });
+
+        if (!supabaseAdmin) {
+            return res.status(500).json({ error: 'Server misconfigured: Missing Supabase Admin Key' });
+        }
+
+        const id = typeof req.query.id === 'string' ? req.query.id : '';
+        if (!id) return res.status(400).json({ error: 'Resume id is required' });
+
+        if (req.method === 'GET') {
+            const { data, error } = await supabaseAdmin
+                .from('resumes')
+                .select(RESUME_COLUMNS)
+                .eq('id', id)
+                .eq('user_id', user.id)
+                .single();
+
+            if (error || !data) return res.status(404).json({ error: 'Resume not found' });
+
+            // Variants are resolved client-side against the master's current data
+            let master = null;
+            if (data.parent_id) {
+                const { data: parent } = await supabaseAdmin
+                    .from('resumes')
+                    .select('id, name, data, updated_at')
+                    .eq('id', data.parent_id)
+                    .eq('user_id', user.id)
+                    .single();
+                master = parent || null;
+            }
+
+            return res.status(200).json({ success: true, resume: data, master });
+        }
+
+        if (req.method === 'DELETE') {
+            const { data, error } = await supabaseAdmin
+                .from('resumes')
+                .delete()
+                .eq('id', id)
+                .eq('user_id', user.id)
+                .select('id');
+
+            if (error) {
+                console.error('Error deleting resume:', error);
+                return res.status(500).json({ error: 'Failed to delete resume' });
+            }
+            if (!data || data.length === 0) return res.status(404).json({ error: 'Resume not found' });
+
+            return res.status(200).json({ success: true, id });
+        }
+
+        // PATCH
+        const { name, data, snapshot = false, isMaster, overrides, jobDescription } = req.body || {};
+        const updates: Record<string, unknown> = {};
+
+        if (name !== undefined) {
+            if (typeof name !== 'string' || !name.trim()) {
+                return res.status(400).json({ error: 'name must be a non-empty string' });
+            }
+            updates.name = name.trim().slice(0, MAX_NAME_LENGTH);
+        }
+
+        if (data !== undefined) {
+            if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+                return res.status(400).json({ error: 'data must be an object' });
+            }
+            updates.data = data;
+        }
+
+        if (overrides !== undefined) {
+            if (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides)) {
+                return res.status(400).json({ error: 'overrides must be an object' });
+            }
+            updates.overrides = overrides;
+        }
+
+        if (jobDescription !== undefined) {
+            if (typeof jobDescription !== 'string') {
+                return res.status(400).json({ error: 'jobDescription must be a string' });
+            }
+            updates.job_description = jobDescription.slice(0, MAX_JOB_DESCRIPTION_LENGTH);
+        }
+
+        if (isMaster !== undefined) {
+            if (typeof isMaster !== 'boolean') {
+                return res.status(400).json({ error: 'isMaster must be a boolean' });
+            }
+            updates.is_master = isMaster;
+        }
+
+        if (Object.keys(updates).length === 0) {
+            return res.status(400).json({ error: 'Nothing to update' });
+        }
+
+        const { data: existing } = await supabaseAdmin
+            .from('resumes')
+            .select('parent_id')
+            .eq('id', id)
+            .eq('user_id', user.id)
+            .single();
+
+        if (!existing) return res.status(404).json({ error: 'Resume not found' });
+
+        if (existing.parent_id && (updates.is_master === true || updates.data !== undefined)) {
+            return res.status(400).json({ error: 'Variants keep only overrides; edit the master resume instead' });
+        }
+        if (!existing.parent_id && (updates.overrides !== undefined || updates.job_description !== undefined)) {
+            return res.status(400).json({ error: 'Only variants have overrides or a job description' });
+        }
+
+        // Only one master per user: demote the previous one first
+        if (updates.is_master === true) {
+            await supabaseAdmin
+                .from('resumes')
+                .update({ is_master: false })
+                .eq('user_id', user.id)
+                .eq('is_master', true)
+                .neq('id', id);
+        }
+
+        const { data: updated, error: updateError } = await supabaseAdmin
+            .from('resumes')
+            .update(updates)
+            .eq('id', id)
+            .eq('user_id', user.id)
+            .select(RESUME_COLUMNS)
+            .single();
+
+        if (updateError || !updated) {
+            return res.status(404).json({ error: 'Resume not found' });
+        }
+
+        const snapshotted = data !== undefined
+            ? await maybeSnapshot(id, user.id, data, snapshot === true)
+            : false;
+
+        return res.status(200).json({ success: true, resume: updated, snapshotted });
+
+    } catch (error: any) {
+        console.error('Resume API error:', error);
+        return res.status(500).json({ error: error.message });
+    }
+}
@@ -0,0 +1,164 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+
+// --- Inlined Shared Logic ---
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL || '';
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+const supabaseAdmin = (supabaseUrl && supabaseServiceKey)
+    ? createClient(supabaseUrl, supabaseServiceKey, {
+        auth: { autoRefreshToken: false, persistSession: false }
+    })
+    : null;
+
+async function getUserFromToken(authHeader: string | null) {
+    if (!authHeader || !authHeader.startsWith('Bearer ')) return null;
+    const token = authHeader.replace('Bearer ', '');
+    if (!supabaseAdmin) return null;
+    const { data: { user }, error } = await supabaseAdmin.auth.getUser(token);
+    if (error || !user) return null;
+    return user;
+}
+// ----------------------------
+
+const MAX_NAME_LENGTH = 120;
+const MAX_JOB_DESCRIPTION_LENGTH = 20000;
+const SUMMARY_COLUMNS = 'id, name, is_master, parent_id, created_at, updated_at';
+const RESUME_COLUMNS = 'id, name, data, is_master, parent_id, job_description, overrides, created_at, updated_at';
+
+// GET  /api/resumes          -> list the user's resumes (without data)
+// POST /api/resumes          -> create { name?, data? }, duplicate { duplicateOf }
+//                               or create a job-targeted variant { parentId, jobDescription? }
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+    if (req.method === 'OPTIONS') return res.status(200).end();
+    if (req.method !== 'GET' && req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    try {
+        const user = await getUserFromToken(req.headers.authorization || null);
+        if (!user) return res.status(401).json({ error: 'Not authenticated' });
+
+        if (!supabaseAdmin) {
+            return res.status(500).json({ error: 'Server misconfigured: Missing Supabase Admin Key' });
+        }
+
+        if (req.method === 'GET') {
+            const { data, error } = await supabaseAdmin
+                .from('resumes')
+                .select(SUMMARY_COLUMNS)
+                .eq('user_id', user.id)
+                .order('updated_at', { ascending: false });
+
+            if (error) {
+                console.error('Error listing resumes:', error);
+                return res.status(500).json({ error: 'Failed to list resumes' });
+            }
+
+            return res.status(200).json({ success: true, resumes: data || [] });
+        }
+
+        const { name, data, duplicateOf, parentId, jobDescription } = req.body || {};
+
+        if (name !== undefined && typeof name !== 'string') {
+            return res.status(400).json({ error: 'name must be a string' });
+        }
+        if (jobDescription !== undefined && typeof jobDescription !== 'string') {
+            return res.status(400).json({ error: 'jobDescription must be a string' });
+        }
+
+        let resumeName = (name || '').trim().slice(0, MAX_NAME_LENGTH);
+        let resumeData = data;
+        let variantFields: Record<string, unknown> = {};
+
+        // Duplicate: copy data from an existing resume owned by the same user
+        if (duplicateOf) {
+            const { data: source, error: sourceError } = await supabaseAdmin
+                .from('resumes')
+                .select('name, data, parent_id, job_description, overrides')
+                .eq('id', duplicateOf)
+                .eq('user_id', user.id)
+                .single();
+
+            if (sourceError || !source) {
+                return res.status(404).json({ error: 'Resume to duplicate not found' });
+            }
+
+            resumeData = source.data;
+            resumeName = resumeName || `${source.name} (Copy)`.slice(0, MAX_NAME_LENGTH);
+            // Duplicating a variant yields another variant of the same master
+            if (source.parent_id) {
+                variantFields = {
+                    parent_id: source.parent_id,
+                    job_description: source.job_description,
+                    overrides: source.overrides
+                };
+            }
+        } else if (parentId) {
+            // Variant: stores only overrides on top of the master's data
+            const { data: parent, error: parentError } = await supabaseAdmin
+                .from('resumes')
+                .select('id, name, parent_id')
+                .eq('id', parentId)
+                .eq('user_id', user.id)
+                .single();
+
+            if (parentError || !parent) {
+                return res.status(404).json({ error: 'Master resume not found' });
+            }
+            if (parent.parent_id) {
+                return res.status(400).json({ error: 'Variants must be derived from a master resume, not another variant' });
+            }
+
+            resumeData = {};
+            resumeName = resumeName || `${parent.name} (Variant)`.slice(0, MAX_NAME_LENGTH);
+            variantFields = {
+                parent_id: parent.id,
+                job_description: (jobDescription || '').slice(0, MAX_JOB_DESCRIPTION_LENGTH),
+                overrides: {}
+            };
+        }
+
+        if (resumeData !== undefined && (typeof resumeData !== 'object' || resumeData === null || Array.isArray(resumeData))) {
+            return res.status(400).json({ error: 'data must be an object' });
+        }
+
+        const { data: created, error: insertError } = await supabaseAdmin
+            .from('resumes')
+            .insert({
+                user_id: user.id,
+                name: resumeName || 'Untitled Resume',
+                data: resumeData || {},
+                ...variantFields
+            })
+            .select(RESUME_COLUMNS)
+            .single();
+
+        if (insertError || !created) {
+            console.error('Error creating resume:', insertError);
+            return res.status(500).json({ error: 'Failed to create resume' });
+        }
+
+        // Every standalone resume starts its history with an initial snapshot
+        // (variants have no data of their own; their content lives in the master's history)
+        if (!created.parent_id) {
+            const { error: versionError } = await supabaseAdmin.from('resume_versions').insert({
+                resume_id: created.id,
+                user_id: user.id,
+                label: duplicateOf ? 'Duplicated' : 'Created',
+                data: created.data
+            });
+            if (versionError) console.error('Error writing initial snapshot:', versionError);
+        }
+
+        return res.status(201).json({ success: true, resume: created });
+
+    } catch (error: any) {
+        console.error('Resumes API error:', error);
+        return res.status(500).json({ error: error.message });
+    }
+}
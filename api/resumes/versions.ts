@@ -0,0 +1,130 @@
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import { createClient } from '@supabase/supabase-js';
+
+// --- Inlined Shared Logic ---
+const supabaseUrl = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL || '';
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+
+const supabaseAdmin = (supabaseUrl && supabaseServiceKey)
+    ? createClient(supabaseUrl, supabaseServiceKey, {
+        auth: { autoRefreshToken: false, persistSession: false }
+    })
+    : null;
+
+async function getUserFromToken(authHeader: string | null) {
+    if (!authHeader || !authHeader.startsWith('Bearer ')) return null;
+    const token = authHeader.replace('Bearer ', '');
+    if (!supabaseAdmin) return null;
+    const { data: { user }, error } = await supabaseAdmin.auth.getUser(token);
+    if (error || !user) return null;
+    return user;
+}
+// ----------------------------
+
+const MAX_VERSIONS = 50;
+const VERSION_COLUMNS = 'id, resume_id, label, data, created_at';
+
+// GET  /api/resumes/versions?resumeId=<id>          -> snapshot timeline (newest first)
+// POST /api/resumes/versions { resumeId, versionId } -> restore a snapshot as the current data
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+
+    if (req.method === 'OPTIONS') return res.status(200).end();
+    if (req.method !== 'GET' && req.method !== 'POST') {
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+
+    try {
+        const user = await getUserFromToken(req.headers.authorization || null);
+        if (!user) return res.status(401).json({ error: 'Not authenticated' });
+
+        if (!supabaseAdmin) {
+            return res.status(500).json({ error: 'Server misconfigured: Missing Supabase Admin Key' });
+        }
+
+        if (req.method === 'GET') {
+            const resumeId = typeof req.query.resumeId === 'string' ? req.query.resumeId : '';
+            if (!resumeId) return res.status(400).json({ error: 'resumeId is required' });
+
+            const { data, error } = await supabaseAdmin
+                .from('resume_versions')
+                .select(VERSION_COLUMNS)
+                .eq('resume_id', resumeId)
+                .eq('user_id', user.id)
+                .order('created_at', { ascending: false })
+                .limit(MAX_VERSIONS);
+
+            if (error) {
+                console.error('Error listing resume versions:', error);
+                return res.status(500).json({ error: 'Failed to list versions' });
+            }
+
+            return res.status(200).json({ success: true, versions: data || [] });
+        }
+
+        // POST: restore
+        const { resumeId, versionId } = req.body || {};
+        if (!resumeId || !versionId) {
+            return res.status(400).json({ error: 'resumeId and versionId are required' });
+        }
+
+        const { data: version, error: versionError } = await supabaseAdmin
+            .from('resume_versions')
+            .select(VERSION_COLUMNS)
+            .eq('id', versionId)
+            .eq('resume_id', resumeId)
+            .eq('user_id', user.id)
+            .single();
+
+        if (versionError || !version) return res.status(404).json({ error: 'Version not found' });
+
+        const { data: existing, error: existingError } = await supabaseAdmin
+            .from('resumes')
+            .select('data')
+            .eq('id', resumeId)
+            .eq('user_id', user.id)
+            .single();
+
+        if (existingError || !existing) return res.status(404).json({ error: 'Resume not found' });
+
+        // Autosaves only snapshot every few minutes, so the current data may be in no version yet.
+        // Without this copy the restore would lose it for good.
+        const { error: backupError } = await supabaseAdmin.from('resume_versions').insert({
+            resume_id: resumeId,
+            user_id: user.id,
+            label: 'Before restore',
+            data: existing.data
+        });
+        if (backupError) {
+            console.error('Error writing pre-restore snapshot:', backupError);
+            return res.status(500).json({ error: 'Could not save the current version, nothing was restored' });
+        }
+
+        const { data: updated, error: updateError } = await supabaseAdmin
+            .from('resumes')
+            .update({ data: version.data })
+            .eq('id', resumeId)
+            .eq('user_id', user.id)
+            .select('id, name, data, created_at, updated_at')
+            .single();
+
+        if (updateError || !updated) return res.status(404).json({ error: 'Resume not found' });
+
+        // Restoring is itself recorded, so the history stays append-only
+        const { error: snapshotError } = await supabaseAdmin.from('resume_versions').insert({
+            resume_id: resumeId,
+            user_id: user.id,
+            label: 'Restored',
+            data: version.data
+        });
+        if (snapshotError) console.error('Error writing restore snapshot:', snapshotError);
+
+        return res.status(200).json({ success: true, resume: updated });
+
+    } catch (error: any) {
+        console.error('Resume versions API error:', error);
+        return res.status(500).json({ error: error.message });
+    }
+}
@@ -76,7 +76,8 @@ const AIUsageStats: React.FC<AIUsageStatsProps> = ({ isLoading: externalLoading
         linkedin_ai: { name: 'LinkedIn AI', icon: 'fa-linkedin', color: 'bg-purple-100 text-purple-600' },
         summary_ai: { name: 'Summary AI', icon: 'fa-align-left', color: 'bg-amber-100 text-amber-600' },
         chatbot_ai: { name: 'Chat AI', icon: 'fa-comment', color: 'bg-pink-100 text-pink-600' },
-        ats_ai: { name: 'ATS AI', icon: 'fa-chart-line', color: 'bg-cyan-100 text-cyan-600' }
+        ats_ai: { name: 'ATS AI', icon: 'fa-chart-line', color: 'bg-cyan-100 text-cyan-600' },
+        cover_letter_ai: { name: 'Cover Letter AI', icon: 'fa-envelope-open-text', color: 'bg-rose-100 text-rose-600' }
     };
 
     const isLoading = externalLoading || loading;
@@ -4,7 +4,19 @@ import * as pdfjsLib from 'pdfjs-dist';
 import { verifyCredits, ToolAccessError } from '../lib/toolAccess';
 import { CREDIT_COSTS } from '../lib/pricing';
 import { useAuth } from '../lib/AuthContext';
-import { calculateATSScore, ATSScoreResult, ATSIssue } from '../lib/atsScoring';
+import { calculateATSScore, ATSScoreResult, ATSIssue, ScoreCategory } from '../lib/atsScoring';
+import { ACTIVE_RESUME_KEY } from '../lib/resumeService';
+import { readDocx, docxToText, parseDocxResume, DocxImportError } from '../lib/docxImport';
+import { decodeMetadata, verifyMetadata, MetadataTrust } from '../lib/resumeMetadata';
+import { SENIORITY_LABELS, EDUCATION_LABELS } from '../lib/jobDescription';
+import { listScoringProfiles, getScoringProfile, DEFAULT_PROFILE_ID } from '../lib/atsProfiles';
+import { readPdfLayout, DocumentLayout } from '../lib/pdfLayout';
+import { createPageOcr } from '../lib/pdfOcr';
+import { suggestFixes, ResumeFix } from '../lib/atsFixes';
+import { ResumeData } from '../types';
+import ATSFixes from './ATSFixes';
+import BatchATSChecker from './BatchATSChecker';
+import GapReportPanel from './GapReportPanel';
 
 // Initialize PDF.js worker
 pdfjsLib.GlobalWorkerOptions.workerSrc = `//unpkg.com/pdfjs-dist@${pdfjsLib.version}/build/pdf.worker.min.mjs`;
@@ -14,17 +26,72 @@ interface ATSCheckerProps {
   onOpenAuth: (mode: 'signin' | 'signup') => void;
 }
 
+const isDocx = (file: File) =>
+  file.name.toLowerCase().endsWith('.docx') || file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
 // Use the result type from our scoring engine
 interface AnalysisResult extends ATSScoreResult {
   optimizedData?: any;
+  metadataTrust?: MetadataTrust; // Set when the file carries a NextStep metadata block
 }
 
+// Text the parser pulled from a plain PDF or DOCX, as opposed to builder data read from embedded metadata
+const isParsed = (data: ResumeData) => (data as ResumeData & { source?: string }).source === 'parser';
+
+const TRACE_GROUPS: { category: ScoreCategory; label: string }[] = [
+  { category: 'presence', label: 'Section Presence' },
+  { category: 'keywords', label: 'Keyword Match' },
+  { category: 'formatting', label: 'Formatting' },
+  { category: 'hygiene', label: 'ATS Hygiene' },
+  { category: 'adjustment', label: 'Adjustments' }
+];
+
+const formatPoints = (points: number) => points > 0 ? `+${points}` : `${points}`;
+
+const TAMPERED_WARNING = "The NextStep data embedded in this PDF doesn't match its signature, so it was edited after export. Importing it may load content that differs from what the PDF shows.";
+
 const ATSChecker: React.FC<ATSCheckerProps> = ({ isLoggedIn, onOpenAuth }) => {
   const { user, session } = useAuth();
   const [file, setFile] = useState<File | null>(null);
   const [jobDescription, setJobDescription] = useState('');
   const [status, setStatus] = useState<'idle' | 'analyzing' | 'complete' | 'error'>('idle');
-  const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
+  const [profileIds, setProfileIds] = useState<string[]>([DEFAULT_PROFILE_ID]);
+  // One result per selected profile, scored from the same extracted text
+  const [results, setResults] = useState<AnalysisResult[]>([]);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [showTrace, setShowTrace] = useState(false);
+  // Set while a scanned page is being read with OCR
+  const [ocrProgress, setOcrProgress] = useState<{ page: number; progress: number } | null>(null);
+  const analysisResult = results[activeIndex] || null;
+  const [appliedFixes, setAppliedFixes] = useState<ResumeFix[]>([]);
+  const [batchMode, setBatchMode] = useState(false);
+  // Builder exports carry their ResumeData, so fixes can patch the exact field
+  const fixableData = analysisResult?.extractedData && !isParsed(analysisResult.extractedData) ? analysisResult.extractedData : null;
+
+  const toggleProfile = (id: string) => {
+    // Keep at least one profile selected
+    if (profileIds.includes(id)) {
+      if (profileIds.length > 1) setProfileIds(profileIds.filter(p => p !== id));
+    } else {
+      setProfileIds(listScoringProfiles().map(p => p.id).filter(p => p === id || profileIds.includes(p)));
+    }
+  };
+
+  const scoreWithProfiles = (text: string, layout?: DocumentLayout) => profileIds.map(id => calculateATSScore(text, jobDescription, getScoringProfile(id), layout));
+
+  const showResults = (next: AnalysisResult[]) => {
+    setResults(next);
+    setActiveIndex(0);
+    setShowTrace(false);
+    setAppliedFixes([]);
+    setStatus('complete');
+  };
+
+  // Re-score the patched data under every profile, keeping the selected one and the trust check
+  const updateFixedData = (data: ResumeData, applied: ResumeFix[]) => {
+    setResults(results.map(result => ({ ...result, ...calculateATSScore(data, jobDescription, result.profile) })));
+    setAppliedFixes(applied);
+  };
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const startAnalysis = async () => {
@@ -48,43 +115,51 @@ const ATSChecker: React.FC<ATSCheckerProps> = ({ isLoggedIn, onOpenAuth }) => {
       // Read file as ArrayBuffer
       const arrayBuffer = await file.arrayBuffer();
 
+      // Word documents: score the paragraph text, but import the structure read from headings and lists
+      if (isDocx(file)) {
+        const paragraphs = readDocx(arrayBuffer);
+        const extractedData = parseDocxResume(paragraphs);
+
+        showResults(scoreWithProfiles(docxToText(paragraphs)).map(result => ({
+          ...result,
+          extractedData,
+          optimizedData: undefined
+        })));
+        return;
+      }
+
       // Load PDF Document
       const loadingTask = pdfjsLib.getDocument(arrayBuffer);
       const pdf = await loadingTask.promise;
 
-      let fullText = '';
-
-      // Extract text from all pages
-      for (let i = 1; i <= pdf.numPages; i++) {
-        const page = await pdf.getPage(i);
-        const textContent = await page.getTextContent();
-        let pageText = '';
-        let lastY = -1;
-        for (const item of textContent.items) {
-          if (lastY !== -1 && Math.abs((item as any).transform[5] - lastY) > 5) {
-            pageText += '\n';
-          } else if (lastY !== -1) {
-            pageText += ' ';
-          }
-          pageText += (item as any).str;
-          lastY = (item as any).transform[5];
-        }
-        fullText += pageText + '\n\n';
+      // Extract positioned text from all pages and rebuild it in reading order; scanned pages go through OCR
+      const ocr = createPageOcr((page, progress) => setOcrProgress({ page, progress }));
+      let layout: DocumentLayout;
+      try {
+        layout = await readPdfLayout(pdf, ocr.readPage);
+      } finally {
+        await ocr.terminate();
+        setOcrProgress(null);
       }
 
-      console.log("Extracted Text Length:", fullText.length);
-
       // deterministic Scoring
-      const result = calculateATSScore(fullText, jobDescription);
+      // Builder exports are scored from their embedded data, which is read from the stream-order text
+      const metadata = decodeMetadata(layout.rawText);
+      const metadataTrust = metadata ? await verifyMetadata(metadata) : undefined;
 
-      setAnalysisResult({
+      showResults(scoreWithProfiles(metadata ? layout.rawText : layout.text, layout).map(result => ({
         ...result,
-        optimizedData: undefined // No AI optimization in this pass
-      });
-      setStatus('complete');
+        optimizedData: undefined, // No AI optimization in this pass
+        metadataTrust
+      })));
 
     } catch (e) {
       console.error("Analysis failed:", e);
+      if (e instanceof DocxImportError) {
+        alert(e.message);
+        setStatus('idle');
+        return;
+      }
       setStatus('error');
     }
   };
@@ -103,24 +178,32 @@ const ATSChecker: React.FC<ATSCheckerProps> = ({ isLoggedIn, onOpenAuth }) => {
           {/* Internal Glow Effect */}
           <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-transparent via-brand-500 to-transparent opacity-30"></div>
 
-          {status === 'idle' && (
+          {batchMode && <BatchATSChecker onExit={() => setBatchMode(false)} />}
+
+          {!batchMode && status === 'idle' && (
             <div className="flex flex-col items-center w-full">
               {!file ? (
                 <div
                   onClick={() => fileInputRef.current?.click()}
                   className="w-full max-w-3xl border-2 border-dashed border-slate-300 dark:border-white/10 rounded-[2rem] md:rounded-[3rem] p-10 md:p-24 text-center cursor-pointer hover:border-brand-500 hover:bg-brand-500/5 transition-all group/drop"
                 >
-                  <input ref={fileInputRef} type="file" className="hidden" onChange={(e) => e.target.files && setFile(e.target.files[0])} />
+                  <input ref={fileInputRef} type="file" accept=".pdf,.docx,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document" className="hidden" onChange={(e) => e.target.files && setFile(e.target.files[0])} />
                   <div className="w-16 h-16 md:w-24 md:h-24 bg-brand-500/10 rounded-full flex items-center justify-center mx-auto mb-6 md:mb-8 group-hover/drop:scale-110 transition-transform">
                     <i className="fas fa-cloud-upload-alt text-2xl md:text-4xl text-brand-500"></i>
                   </div>
                   <h3 className="text-2xl md:text-3xl font-black dark:text-white mb-2 md:mb-4">Upload Professional CV</h3>
                   <p className="text-slate-500 font-medium text-sm md:text-base">Select PDF or Word. Encrypted processing locally.</p>
+                  <button
+                    onClick={e => { e.stopPropagation(); setBatchMode(true); }}
+                    className="mt-6 text-[10px] font-black text-brand-500 hover:text-brand-600 uppercase tracking-widest"
+                  >
+                    <i className="fas fa-layer-group mr-2"></i> Scanning a whole class? Batch mode
+                  </button>
                 </div>
               ) : (
                 <div className="w-full max-w-5xl grid lg:grid-cols-2 gap-8 md:gap-16 items-start">
                   <div className="bg-navy-950 p-8 md:p-12 rounded-[2rem] md:rounded-[3rem] border border-white/10 flex flex-col items-center text-center shadow-2xl relative overflow-hidden">
-                    <div className="absolute top-0 right-0 p-4 opacity-10"><i className="fas fa-file-pdf text-4xl md:text-6xl"></i></div>
+                    <div className="absolute top-0 right-0 p-4 opacity-10"><i className={`fas ${isDocx(file) ? 'fa-file-word' : 'fa-file-pdf'} text-4xl md:text-6xl`}></i></div>
                     <div className="w-16 h-16 md:w-20 md:h-20 bg-brand-500 rounded-2xl flex items-center justify-center mb-6 md:mb-8 shadow-3xl shadow-brand-500/40 transform rotate-3">
                       <i className="fas fa-check text-xl md:text-2xl text-white"></i>
                     </div>
@@ -141,6 +224,25 @@ const ATSChecker: React.FC<ATSCheckerProps> = ({ isLoggedIn, onOpenAuth }) => {
                         className="w-full h-32 md:h-48 bg-slate-50 dark:bg-white/5 border border-slate-200 dark:border-white/10 rounded-2xl md:rounded-[2rem] p-6 md:p-8 outline-none focus:ring-4 focus:ring-brand-500/10 transition-all text-sm font-medium"
                       />
                     </div>
+                    <div>
+                      <label className="block text-[10px] font-black text-slate-500 uppercase tracking-widest mb-3 md:mb-4">Scoring Profiles</label>
+                      <div className="grid grid-cols-2 gap-2">
+                        {listScoringProfiles().map(profile => {
+                          const selected = profileIds.includes(profile.id);
+                          return (
+                            <button
+                              key={profile.id}
+                              onClick={() => toggleProfile(profile.id)}
+                              title={profile.description}
+                              className={`p-3 rounded-xl border text-left transition-all ${selected ? 'border-brand-500 bg-brand-500/10' : 'border-slate-200 dark:border-white/10 hover:border-brand-500/50'}`}
+                            >
+                              <p className="text-xs font-black dark:text-white"><i className={`fas ${selected ? 'fa-square-check text-brand-500' : 'fa-square text-slate-300'} mr-2`}></i>{profile.name}</p>
+                              <p className="text-[10px] text-slate-500 mt-1 leading-snug">{profile.description}</p>
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
                     <button
                       onClick={startAnalysis}
                       className="w-full py-5 md:py-6 bg-navy-900 dark:bg-brand-500 hover:bg-brand-600 text-white rounded-2xl md:rounded-[2.5rem] font-black text-xl md:text-2xl shadow-3xl shadow-brand-500/40 btn-premium"
@@ -153,19 +255,28 @@ const ATSChecker: React.FC<ATSCheckerProps> = ({ isLoggedIn, onOpenAuth }) => {
             </div>
           )}
 
-          {status === 'analyzing' && (
+          {!batchMode && status === 'analyzing' && (
             <div className="h-[300px] md:h-[400px] flex flex-col items-center justify-center text-center">
               <div className="relative w-24 h-24 md:w-32 md:h-32 mb-8 md:mb-12">
                 <div className="absolute inset-0 border-[6px] md:border-[8px] border-brand-500/10 rounded-full"></div>
                 <div className="absolute inset-0 border-[6px] md:border-[8px] border-brand-500 border-t-transparent rounded-full animate-spin"></div>
                 <i className="fas fa-brain absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 text-2xl md:text-4xl text-brand-500 animate-pulse"></i>
               </div>
-              <h3 className="text-2xl md:text-4xl font-black dark:text-white mb-2 md:mb-4 tracking-tighter">Deconstructing Lexical Patterns</h3>
-              <p className="text-slate-500 font-bold text-[10px] md:text-sm tracking-widest uppercase opacity-50">Mapping semantic relevance across 40+ clusters...</p>
+              {ocrProgress ? (
+                <>
+                  <h3 className="text-2xl md:text-4xl font-black dark:text-white mb-2 md:mb-4 tracking-tighter">Reading Scanned Page {ocrProgress.page}</h3>
+                  <p className="text-slate-500 font-bold text-[10px] md:text-sm tracking-widest uppercase opacity-50">No text layer found - running OCR... {Math.round(ocrProgress.progress * 100)}%</p>
+                </>
+              ) : (
+                <>
+                  <h3 className="text-2xl md:text-4xl font-black dark:text-white mb-2 md:mb-4 tracking-tighter">Deconstructing Lexical Patterns</h3>
+                  <p className="text-slate-500 font-bold text-[10px] md:text-sm tracking-widest uppercase opacity-50">Mapping semantic relevance across 40+ clusters...</p>
+                </>
+              )}
             </div>
           )}
 
-          {status === 'error' && (
+          {!batchMode && status === 'error' && (
             <div className="flex flex-col items-center justify-center text-center py-12 md:py-24 animate-reveal">
               <div className="w-20 h-20 md:w-24 md:h-24 bg-red-500/10 rounded-full flex items-center justify-center mb-6 md:mb-8">
                 <i className="fas fa-triangle-exclamation text-3xl md:text-5xl text-red-500"></i>
@@ -181,13 +292,48 @@ const ATSChecker: React.FC<ATSCheckerProps> = ({ isLoggedIn, onOpenAuth }) => {
             </div>
           )}
 
-          {status === 'complete' && analysisResult && (
+          {!batchMode && status === 'complete' && analysisResult && (
             <div className="animate-reveal grid lg:grid-cols-[1fr_2fr] gap-8 md:gap-16">
               <div className="space-y-6 md:space-y-8">
+                {results.length > 1 && (
+                  <div className="glass-premium dark:bg-white/5 p-4 md:p-6 rounded-2xl md:rounded-3xl border border-slate-100 dark:border-white/10">
+                    <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-3">Profile Comparison</p>
+                    <table className="w-full text-xs">
+                      <thead>
+                        <tr className="text-[9px] font-black text-slate-400 uppercase tracking-widest text-right">
+                          <th className="text-left font-black pb-2">Profile</th>
+                          <th className="pb-2" title="Section presence">Sec</th>
+                          <th className="pb-2" title="Keyword match">Key</th>
+                          <th className="pb-2" title="Formatting">Fmt</th>
+                          <th className="pb-2" title="ATS hygiene">Hyg</th>
+                          <th className="pb-2">Total</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {results.map((result, i) => (
+                          <tr
+                            key={result.profile.id}
+                            onClick={() => setActiveIndex(i)}
+                            className={`cursor-pointer text-right font-bold ${i === activeIndex ? 'text-brand-500' : 'text-slate-500 hover:text-navy-900 dark:hover:text-white'}`}
+                          >
+                            <td className="text-left py-1.5 font-black">{result.profile.name}</td>
+                            {(['presence', 'keywords', 'formatting', 'hygiene'] as const).map(category => (
+                              <td key={category} className="py-1.5">{result.breakdown[category]}<span className="text-slate-400 font-medium">/{result.profile.weights[category]}</span></td>
+                            ))}
+                            <td className="py-1.5 font-black text-sm">{result.overallScore}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    <p className="text-[10px] text-slate-400 mt-3">Select a profile to see its issues and score breakdown.</p>
+                  </div>
+                )}
+
                 <div className="glass-premium dark:bg-white/5 p-8 md:p-12 rounded-[2rem] md:rounded-[3.5rem] text-center border border-slate-200 dark:border-white/10 shadow-2xl relative overflow-hidden">
                   <div className="relative z-10 mb-6 md:mb-8">
                     <span className="text-6xl md:text-8xl font-black dark:text-white tracking-tighter">{analysisResult.overallScore}</span>
                     <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest mt-2">Overall Quality Index</p>
+                    {results.length > 1 && <p className="text-[10px] font-bold text-brand-500 mt-1">{analysisResult.profile.name}</p>}
                   </div>
                   <div className="h-2 w-full bg-slate-100 dark:bg-white/5 rounded-full overflow-hidden">
                     <div className="h-full bg-brand-500 animate-shimmer" style={{ width: `${analysisResult.overallScore}%` }}></div>
@@ -202,10 +348,101 @@ const ATSChecker: React.FC<ATSCheckerProps> = ({ isLoggedIn, onOpenAuth }) => {
                     </div>
                   ))}
                 </div>
+
+                <div className="glass-premium dark:bg-white/5 rounded-2xl md:rounded-3xl border border-slate-100 dark:border-white/10 overflow-hidden">
+                  <button onClick={() => setShowTrace(!showTrace)} className="w-full p-5 md:p-6 flex items-center justify-between text-left">
+                    <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest"><i className="fas fa-magnifying-glass-chart mr-2 text-brand-500"></i>Why this score?</span>
+                    <i className={`fas fa-chevron-${showTrace ? 'up' : 'down'} text-xs text-slate-400`}></i>
+                  </button>
+                  {showTrace && (
+                    <div className="px-5 md:px-6 pb-6 space-y-5">
+                      {TRACE_GROUPS.map(group => {
+                        const entries = analysisResult.trace.filter(entry => entry.category === group.category);
+                        if (entries.length === 0) return null;
+                        const total = entries.reduce((sum, entry) => sum + entry.points, 0);
+                        return (
+                          <div key={group.category}>
+                            <p className="flex justify-between text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2">
+                              <span>{group.label}</span>
+                              <span>{group.category === 'adjustment' ? formatPoints(total) : `${total}/${analysisResult.profile.weights[group.category]}`}</span>
+                            </p>
+                            <ul className="space-y-2">
+                              {entries.map((entry, i) => (
+                                <li key={i} className="text-xs">
+                                  <div className="flex justify-between gap-3">
+                                    <span className="font-bold dark:text-white">{entry.rule}</span>
+                                    <span className={`font-black shrink-0 ${entry.points > 0 ? 'text-green-600' : entry.points < 0 ? 'text-red-500' : 'text-slate-400'}`}>{formatPoints(entry.points)}</span>
+                                  </div>
+                                  <p className="text-[10px] text-slate-500 leading-relaxed">{entry.detail}</p>
+                                  {entry.evidence.length > 0 && <p className="text-[10px] text-green-600 truncate" title={entry.evidence.join(', ')}><i className="fas fa-check mr-1"></i>{entry.evidence.join(', ')}</p>}
+                                  {entry.missing && entry.missing.length > 0 && <p className="text-[10px] text-slate-400 truncate" title={entry.missing.join(', ')}><i className="fas fa-xmark mr-1"></i>{entry.missing.join(', ')}</p>}
+                                </li>
+                              ))}
+                            </ul>
+                          </div>
+                        );
+                      })}
+                      <p className="flex justify-between pt-3 border-t border-slate-100 dark:border-white/10 text-[10px] font-black uppercase tracking-widest dark:text-white">
+                        <span>Total</span>
+                        <span>{analysisResult.overallScore}/100</span>
+                      </p>
+                    </div>
+                  )}
+                </div>
+
+                {analysisResult.requirements && analysisResult.requirementMatch && (
+                  <div className="glass-premium dark:bg-white/5 p-6 md:p-8 rounded-2xl md:rounded-3xl border border-slate-100 dark:border-white/10 space-y-4">
+                    <div>
+                      <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">Job Requirements</p>
+                      <p className="text-sm font-black dark:text-white">{analysisResult.requirements.title || 'Target role'}</p>
+                      <p className="text-[10px] font-bold text-slate-500">
+                        {[
+                          analysisResult.requirements.seniority && SENIORITY_LABELS[analysisResult.requirements.seniority],
+                          analysisResult.requirements.minYears && `${analysisResult.requirements.minYears}+ years`,
+                          analysisResult.requirements.education[0] && EDUCATION_LABELS[analysisResult.requirements.education[0].level],
+                          ...analysisResult.requirements.workArrangements
+                        ].filter(Boolean).join(' • ')}
+                      </p>
+                    </div>
+                    {[
+                      { label: 'Required', matched: analysisResult.requirementMatch.matchedRequired, missing: analysisResult.requirementMatch.missingRequired },
+                      { label: 'Preferred', matched: analysisResult.requirementMatch.matchedPreferred, missing: analysisResult.requirementMatch.missingPreferred }
+                    ].filter(group => group.matched.length + group.missing.length > 0).map(group => (
+                      <div key={group.label}>
+                        <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2">{group.label} skills • {group.matched.length}/{group.matched.length + group.missing.length}</p>
+                        <div className="flex flex-wrap gap-1.5">
+                          {group.matched.map(skill => <span key={skill} className="px-2 py-1 rounded-md text-[10px] font-bold bg-green-500/10 text-green-600"><i className="fas fa-check mr-1"></i>{skill}</span>)}
+                          {group.missing.map(skill => <span key={skill} className="px-2 py-1 rounded-md text-[10px] font-bold bg-slate-100 dark:bg-white/5 text-slate-400">{skill}</span>)}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {analysisResult.requirements && analysisResult.extractedData && (
+                  <GapReportPanel data={analysisResult.extractedData} jobDescription={jobDescription} requirements={analysisResult.requirements} />
+                )}
               </div>
 
               <div className="space-y-6 md:space-y-8">
                 <h3 className="text-2xl md:text-3xl font-black dark:text-white tracking-tighter italic">Found {analysisResult.issues.length} Structural Gaps</h3>
+                {analysisResult.metadataTrust === 'tampered' && (
+                  <div className="p-4 bg-red-50 dark:bg-red-500/10 border border-red-200 dark:border-red-500/20 rounded-2xl text-sm text-red-600 dark:text-red-400 font-medium flex gap-3">
+                    <i className="fas fa-shield-halved mt-0.5"></i>
+                    <span>{TAMPERED_WARNING}</span>
+                  </div>
+                )}
+                {analysisResult.metadataTrust === 'verified' && (
+                  <p className="text-[10px] font-black text-green-600 uppercase tracking-widest"><i className="fas fa-circle-check mr-2"></i>Verified NextStep export</p>
+                )}
+                {fixableData && (
+                  <ATSFixes
+                    fixes={suggestFixes(fixableData, analysisResult)}
+                    applied={appliedFixes}
+                    onApply={fix => updateFixedData(fix.apply(fixableData), [...appliedFixes, fix])}
+                    onUndo={fix => updateFixedData(fix.revert(fixableData), appliedFixes.filter(f => f.id !== fix.id))}
+                  />
+                )}
                 <div className="space-y-4 md:space-y-6 max-h-[400px] md:max-h-[600px] overflow-y-auto pr-2 md:pr-4 custom-scrollbar">
                   {analysisResult.issues.map((issue, i) => (
                     <div key={i} className={`p-6 md:p-10 rounded-[2rem] md:rounded-[3rem] border-l-[8px] md:border-l-[12px] ${issue.severity === 'critical' ? 'border-l-red-500' : 'border-l-amber-500'} bg-slate-50 dark:bg-navy-950 border border-slate-100 dark:border-white/5 shadow-xl hover:translate-x-1 md:hover:translate-x-2 transition-all group`}>
@@ -233,11 +470,14 @@ const ATSChecker: React.FC<ATSCheckerProps> = ({ isLoggedIn, onOpenAuth }) => {
                         // @ts-ignore
                         const isRaw = analysisResult.extractedData.source === 'parser';
                         const confirmMsg = isRaw
-                          ? "We analyzed your PDF text. We'll import what we found into the Builder, but you'll likely need to fix formatting and add missing details. Continue?"
+                          ? `We analyzed your ${file && isDocx(file) ? 'Word document' : 'PDF text'}. We'll import what we found into the Builder, but you'll likely need to fix formatting and add missing details. Continue?`
                           : "This will load this resume into the Builder so you can apply improvements and export the new PDF. Unsaved changes in the Builder will be replaced. Continue?";
 
-                        if (confirm(confirmMsg)) {
+                        const tampered = analysisResult.metadataTrust === 'tampered';
+                        if (confirm(tampered ? `${TAMPERED_WARNING}\n\n${confirmMsg}` : confirmMsg)) {
                           localStorage.setItem('nextstep_resume_data', JSON.stringify(analysisResult.extractedData));
+                          // Imported data starts as a local draft; the user can save it as a new resume
+                          localStorage.removeItem(ACTIVE_RESUME_KEY);
                           window.dispatchEvent(new Event('resumeImported'));
                           // If it's a raw import, don't auto-print. User needs to edit first.
                           window.location.href = isRaw ? '/#builder' : '/?autoprint=true#builder';
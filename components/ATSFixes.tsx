@@ -0,0 +1,62 @@
+import React, { useState } from 'react';
+import { ResumeFix } from '../lib/atsFixes';
+
+interface ATSFixesProps {
+  fixes: ResumeFix[];
+  applied: ResumeFix[];
+  onApply: (fix: ResumeFix) => void;
+  onUndo: (fix: ResumeFix) => void;
+}
+
+const ATSFixes: React.FC<ATSFixesProps> = ({ fixes, applied, onApply, onUndo }) => {
+  const [previewId, setPreviewId] = useState<string | null>(null);
+  const appliedIds = new Set(applied.map(fix => fix.id));
+  const pending = fixes.filter(fix => !appliedIds.has(fix.id));
+
+  if (pending.length === 0 && applied.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      {pending.map(fix => (
+        <div key={fix.id} className="p-4 rounded-2xl border border-brand-500/20 bg-brand-500/5">
+          <div className="flex items-start justify-between gap-3">
+            <div className="min-w-0">
+              <p className="text-xs font-black dark:text-white">{fix.label}</p>
+              <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest truncate">{fix.issue} • {fix.field}</p>
+            </div>
+            <div className="flex gap-1.5 shrink-0">
+              <button onClick={() => setPreviewId(previewId === fix.id ? null : fix.id)} className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest text-slate-500 hover:text-navy-900 dark:hover:text-white">
+                {previewId === fix.id ? 'Hide' : 'Preview'}
+              </button>
+              <button onClick={() => { onApply(fix); setPreviewId(null); }} className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest bg-brand-500 text-white hover:bg-brand-600">
+                <i className="fas fa-wand-magic-sparkles mr-1"></i> Apply
+              </button>
+            </div>
+          </div>
+          {previewId === fix.id && (
+            <div className="mt-3 space-y-1.5 text-xs">
+              <p className="p-2 rounded-lg bg-red-500/5 text-red-500 line-through">{fix.before || '(empty)'}</p>
+              <p className="p-2 rounded-lg bg-green-500/10 text-green-600 font-bold">{fix.after}</p>
+            </div>
+          )}
+        </div>
+      ))}
+
+      {applied.length > 0 && (
+        <div className="p-4 rounded-2xl border border-slate-100 dark:border-white/10 space-y-2">
+          <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Applied fixes</p>
+          {applied.map(fix => (
+            <div key={fix.id} className="flex items-center justify-between gap-3 text-xs">
+              <span className="text-slate-600 dark:text-slate-300 truncate" title={fix.after}><i className="fas fa-check text-green-600 mr-2"></i>{fix.label} <span className="text-slate-400">• {fix.field}</span></span>
+              <button onClick={() => onUndo(fix)} className="shrink-0 text-[9px] font-black uppercase tracking-widest text-brand-500 hover:text-brand-600">
+                <i className="fas fa-rotate-left mr-1"></i> Undo
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ATSFixes;
@@ -0,0 +1,277 @@
+import React, { useState, useRef, useEffect } from 'react';
+import * as pdfjsLib from 'pdfjs-dist';
+import { verifyCredits } from '../lib/toolAccess';
+import { CREDIT_COSTS } from '../lib/pricing';
+import { useAuth } from '../lib/AuthContext';
+import { listScoringProfiles, getScoringProfile, DEFAULT_PROFILE_ID } from '../lib/atsProfiles';
+import { readDocx, docxToText } from '../lib/docxImport';
+import { readPdfPages } from '../lib/pdfLayout';
+import {
+  BatchFile,
+  BatchInput,
+  BatchRow,
+  BatchSortKey,
+  ScoringPool,
+  collectResumeFiles,
+  createScoringPool,
+  sortBatchRows,
+  batchToCsv,
+  isDocxName
+} from '../lib/batchAnalysis';
+
+interface BatchATSCheckerProps {
+  onExit: () => void;
+}
+
+const COLUMNS: { key: BatchSortKey; label: string; title?: string }[] = [
+  { key: 'fileName', label: 'File' },
+  { key: 'candidate', label: 'Candidate' },
+  { key: 'overallScore', label: 'Score' },
+  { key: 'presence', label: 'Sec', title: 'Section presence' },
+  { key: 'keywords', label: 'Key', title: 'Keyword match' },
+  { key: 'formatting', label: 'Fmt', title: 'Formatting' },
+  { key: 'hygiene', label: 'Hyg', title: 'ATS hygiene' }
+];
+
+const STATUS_LABELS: Record<BatchRow['status'], string> = {
+  queued: 'Queued', reading: 'Reading...', scoring: 'Scoring...', done: '', error: 'Failed'
+};
+
+/**
+ * Extract what the scoring worker needs. Scanned pages aren't OCR'd in a batch - they're reported as image-only.
+ */
+async function readBatchInput(file: BatchFile): Promise<BatchInput> {
+  if (isDocxName(file.name)) {
+    const buffer = file.data.buffer.slice(file.data.byteOffset, file.data.byteOffset + file.data.byteLength) as ArrayBuffer;
+    return { kind: 'text', text: docxToText(readDocx(buffer)) };
+  }
+  const pdf = await pdfjsLib.getDocument({ data: file.data }).promise;
+  try {
+    return { kind: 'pdf', pages: await readPdfPages(pdf) };
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+const BatchATSChecker: React.FC<BatchATSCheckerProps> = ({ onExit }) => {
+  const { session } = useAuth();
+  const [jobDescription, setJobDescription] = useState('');
+  const [profileId, setProfileId] = useState(DEFAULT_PROFILE_ID);
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  // The profile the current rows were scored with, which the table and CSV report against
+  const [scoredProfileId, setScoredProfileId] = useState(DEFAULT_PROFILE_ID);
+  const [running, setRunning] = useState(false);
+  const [sort, setSort] = useState<{ key: BatchSortKey; direction: 'asc' | 'desc' }>({ key: 'overallScore', direction: 'desc' });
+  const poolRef = useRef<ScoringPool | null>(null);
+  const cancelledRef = useRef(false);
+  const filesInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+
+  // Leaving mid-batch stops the workers instead of letting them score into an unmounted table
+  useEffect(() => () => {
+    cancelledRef.current = true;
+    poolRef.current?.terminate();
+  }, []);
+
+  const profile = getScoringProfile(profileId);
+  const scoredProfile = getScoringProfile(scoredProfileId);
+  const finished = rows.filter(row => row.status === 'done' || row.status === 'error').length;
+  const sortedRows = sortBatchRows(rows, sort.key, sort.direction);
+
+  const updateRow = (id: number, changes: Partial<BatchRow>) => {
+    setRows(current => current.map(row => row.id === id ? { ...row, ...changes } : row));
+  };
+
+  const runBatch = async (selected: File[]) => {
+    const files = await collectResumeFiles(selected);
+    if (files.length === 0) {
+      alert('No PDF or Word resumes found in that selection.');
+      return;
+    }
+
+    try {
+      await verifyCredits(session, CREDIT_COSTS.ATS_CHECK * files.length);
+    } catch (e: any) {
+      console.error("Credit check failed:", e);
+      alert(e.message || "An unexpected error occurred while checking credits.");
+      return;
+    }
+
+    setRows(files.map((file, id) => ({ id, fileName: file.name, status: 'queued' })));
+    setScoredProfileId(profileId);
+    setRunning(true);
+    cancelledRef.current = false;
+    const pool = createScoringPool();
+    poolRef.current = pool;
+
+    // Files are read one at a time on this thread while earlier ones are scored in the workers
+    const jobs: Promise<void>[] = [];
+    for (const [id, file] of files.entries()) {
+      if (cancelledRef.current) break;
+      updateRow(id, { status: 'reading' });
+      try {
+        const input = await readBatchInput(file);
+        updateRow(id, { status: 'scoring' });
+        jobs.push(pool.score(input, jobDescription, profileId).then(
+          score => updateRow(id, { status: 'done', score }),
+          (e: Error) => updateRow(id, { status: 'error', error: e.message })
+        ));
+      } catch (e) {
+        console.error(`Could not read ${file.name}:`, e);
+        updateRow(id, { status: 'error', error: 'Could not read this file' });
+      }
+    }
+
+    await Promise.all(jobs);
+    if (cancelledRef.current) {
+      setRows(current => current.map(row => row.status === 'queued' ? { ...row, status: 'error', error: 'Batch cancelled' } : row));
+    }
+    pool.terminate();
+    poolRef.current = null;
+    setRunning(false);
+  };
+
+  const cancelBatch = () => {
+    cancelledRef.current = true;
+    poolRef.current?.terminate();
+  };
+
+  const toggleSort = (key: BatchSortKey) => {
+    setSort(sort.key === key
+      ? { key, direction: sort.direction === 'asc' ? 'desc' : 'asc' }
+      : { key, direction: key === 'fileName' || key === 'candidate' ? 'asc' : 'desc' });
+  };
+
+  const exportCsv = () => {
+    const url = URL.createObjectURL(new Blob([batchToCsv(sortedRows, scoredProfileId)], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `ats_batch_${scoredProfile.id}_${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const onFilesPicked = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const picked: File[] = e.target.files ? Array.from(e.target.files) : [];
+    e.target.value = '';
+    if (picked.length > 0) runBatch(picked);
+  };
+
+  return (
+    <div className="w-full space-y-8">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h3 className="text-2xl md:text-3xl font-black dark:text-white tracking-tighter">Batch Audit</h3>
+          <p className="text-slate-500 text-sm font-medium">Score a folder or zip of resumes against one job description.</p>
+        </div>
+        <button onClick={onExit} disabled={running} className="text-[10px] font-black uppercase tracking-widest text-slate-500 hover:text-navy-900 dark:hover:text-white disabled:opacity-30">
+          <i className="fas fa-arrow-left mr-2"></i> Single resume
+        </button>
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-6 md:gap-8">
+        <div>
+          <label className="block text-[10px] font-black text-slate-500 uppercase tracking-widest mb-3">Job Description</label>
+          <textarea
+            value={jobDescription}
+            onChange={e => setJobDescription(e.target.value)}
+            disabled={running}
+            placeholder="Paste the Job Description every resume is scored against..."
+            className="w-full h-40 bg-slate-50 dark:bg-white/5 border border-slate-200 dark:border-white/10 rounded-2xl p-5 outline-none focus:ring-4 focus:ring-brand-500/10 transition-all text-sm font-medium"
+          />
+        </div>
+        <div className="space-y-6">
+          <div>
+            <label className="block text-[10px] font-black text-slate-500 uppercase tracking-widest mb-3">Scoring Profile</label>
+            <select
+              value={profileId}
+              onChange={e => setProfileId(e.target.value)}
+              disabled={running}
+              className="w-full p-3 bg-slate-50 dark:bg-white/5 border border-slate-200 dark:border-white/10 rounded-xl text-sm font-bold dark:text-white outline-none"
+            >
+              {listScoringProfiles().map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+            <p className="text-[10px] text-slate-500 mt-2">{profile.description}</p>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <input ref={filesInputRef} type="file" multiple accept=".pdf,.docx,.zip,application/pdf,application/zip" className="hidden" onChange={onFilesPicked} />
+            <input ref={folderInputRef} type="file" multiple className="hidden" onChange={onFilesPicked} {...{ webkitdirectory: '' }} />
+            <button onClick={() => folderInputRef.current?.click()} disabled={running} className="py-4 bg-navy-900 dark:bg-brand-500 hover:bg-brand-600 text-white rounded-2xl font-black text-xs uppercase tracking-widest disabled:opacity-50">
+              <i className="fas fa-folder-open mr-2"></i> Choose Folder
+            </button>
+            <button onClick={() => filesInputRef.current?.click()} disabled={running} className="py-4 border-2 border-navy-900 dark:border-white/20 text-navy-900 dark:text-white rounded-2xl font-black text-xs uppercase tracking-widest disabled:opacity-50">
+              <i className="fas fa-file-zipper mr-2"></i> Zip or Files
+            </button>
+          </div>
+          <p className="text-[10px] text-slate-400">PDF and Word files are read in your browser. Scanned PDFs aren't OCR'd in a batch; they're flagged as image-only.</p>
+        </div>
+      </div>
+
+      {rows.length > 0 && (
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">
+              {finished}/{rows.length} scored{rows.some(row => row.status === 'error') && ` • ${rows.filter(row => row.status === 'error').length} failed`}
+            </p>
+            <div className="flex gap-2">
+              {running && (
+                <button onClick={cancelBatch} className="px-4 py-2 text-[10px] font-black uppercase tracking-widest text-red-500 hover:text-red-400">Cancel</button>
+              )}
+              <button onClick={exportCsv} disabled={finished === 0} className="px-4 py-2 bg-brand-500 hover:bg-brand-600 text-white rounded-xl text-[10px] font-black uppercase tracking-widest disabled:opacity-50">
+                <i className="fas fa-file-csv mr-2"></i> Export CSV
+              </button>
+            </div>
+          </div>
+          <div className="h-1.5 w-full bg-slate-100 dark:bg-white/5 rounded-full overflow-hidden">
+            <div className="h-full bg-brand-500 transition-all" style={{ width: `${(finished / rows.length) * 100}%` }}></div>
+          </div>
+
+          <div className="overflow-x-auto max-h-[600px] overflow-y-auto custom-scrollbar rounded-2xl border border-slate-100 dark:border-white/10">
+            <table className="w-full text-xs">
+              <thead className="sticky top-0 bg-slate-50 dark:bg-navy-950">
+                <tr className="text-[9px] font-black text-slate-400 uppercase tracking-widest">
+                  {COLUMNS.map(column => (
+                    <th key={column.key} title={column.title} className={`p-3 ${column.key === 'fileName' || column.key === 'candidate' ? 'text-left' : 'text-right'}`}>
+                      <button onClick={() => toggleSort(column.key)} className={`uppercase tracking-widest ${sort.key === column.key ? 'text-brand-500' : 'hover:text-navy-900 dark:hover:text-white'}`}>
+                        {column.label}
+                        {sort.key === column.key && <i className={`fas fa-caret-${sort.direction === 'asc' ? 'up' : 'down'} ml-1`}></i>}
+                      </button>
+                    </th>
+                  ))}
+                  <th className="p-3 text-left">Top Issues</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sortedRows.map(row => (
+                  <tr key={row.id} className="border-t border-slate-100 dark:border-white/5 dark:text-slate-200">
+                    <td className="p-3 font-bold max-w-[220px] truncate" title={row.fileName}>{row.fileName}</td>
+                    <td className="p-3 max-w-[160px] truncate">{row.score?.candidate}</td>
+                    {row.score ? (
+                      <>
+                        <td className={`p-3 text-right font-black text-sm ${row.score.overallScore >= 80 ? 'text-green-600' : row.score.overallScore >= 60 ? 'text-amber-500' : 'text-red-500'}`}>{row.score.overallScore}</td>
+                        {(['presence', 'keywords', 'formatting', 'hygiene'] as const).map(category => (
+                          <td key={category} className="p-3 text-right font-bold">{row.score!.breakdown[category]}<span className="text-slate-400 font-medium">/{scoredProfile.weights[category]}</span></td>
+                        ))}
+                        <td className="p-3">
+                          <div className="flex flex-wrap gap-1">
+                            {row.score.issues.slice(0, 3).map(issue => (
+                              <span key={issue.title} className={`px-2 py-0.5 rounded-md text-[9px] font-bold whitespace-nowrap ${issue.severity === 'critical' ? 'bg-red-500/10 text-red-500' : 'bg-amber-500/10 text-amber-600'}`}>{issue.title}</span>
+                            ))}
+                          </div>
+                        </td>
+                      </>
+                    ) : (
+                      <td colSpan={6} className={`p-3 text-[10px] font-bold ${row.status === 'error' ? 'text-red-500' : 'text-slate-400'}`}>{row.error || STATUS_LABELS[row.status]}</td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchATSChecker;
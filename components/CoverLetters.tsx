@@ -0,0 +1,423 @@
+import React, { useEffect, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import Navbar from './Navbar';
+import Footer from './Footer';
+import { useAuth } from '../lib/AuthContext';
+import { ResumeSummary, ResumeData } from '../types';
+import { listResumes, getResume } from '../lib/resumeService';
+import { resolveVariant } from '../lib/resumeVariants';
+import { ToolAccessError } from '../lib/toolAccess';
+import { AI_CONFIG } from '../lib/aiConfig';
+import {
+    CoverLetter, SavedCoverLetter, MAX_EVIDENCE_PARAGRAPHS, emptyCoverLetter, draftCoverLetter, letterParagraphs, letterWordCount,
+    listCoverLetters, saveCoverLetter, deleteCoverLetter, linkCoverLetter
+} from '../lib/coverLetter';
+import { listTrackedJobs, addTrackedJob } from '../lib/gapReport';
+import { exportCoverLetterPdf } from '../lib/pdfExport';
+import { buildCoverLetterDocx, DOCX_MIME_TYPE } from '../lib/docxExport';
+import { listTemplates, getTemplate, resolvePageFormat, DEFAULT_TEMPLATE_ID, PageFormat, PAGE_FORMAT_KEY } from '../templates';
+
+const NEW_JOB = '__new__';
+
+const inputClass = 'w-full p-2.5 border border-slate-200 rounded-lg text-sm text-navy-900 bg-white outline-none focus:border-brand-500';
+const labelClass = 'block text-[10px] font-bold uppercase tracking-wider text-slate-500 mb-1';
+
+const CoverLetters: React.FC = () => {
+    const [searchParams] = useSearchParams();
+    const { user, session } = useAuth();
+    const [resumes, setResumes] = useState<ResumeSummary[]>([]);
+    const [resumeId, setResumeId] = useState<string>(searchParams.get('resume') || '');
+    const [resumeData, setResumeData] = useState<ResumeData | null>(null);
+    const [loadingResume, setLoadingResume] = useState(false);
+    const [jobTitle, setJobTitle] = useState('');
+    const [company, setCompany] = useState('');
+    const [jobDescription, setJobDescription] = useState('');
+    const [templateId, setTemplateId] = useState(DEFAULT_TEMPLATE_ID);
+    const [preferredFormat, setPreferredFormat] = useState<PageFormat>(() =>
+        localStorage.getItem(PAGE_FORMAT_KEY) === 'letter' ? 'letter' : 'a4'
+    );
+    const [letter, setLetter] = useState<CoverLetter | null>(null);
+    // The saved copy being edited; null until the letter is first saved
+    const [letterId, setLetterId] = useState<string | null>(null);
+    const [dirty, setDirty] = useState(false);
+    const [savedLetters, setSavedLetters] = useState<SavedCoverLetter[]>(listCoverLetters);
+    const [jobs, setJobs] = useState(listTrackedJobs);
+    const [drafting, setDrafting] = useState(false);
+    const [exportingPdf, setExportingPdf] = useState(false);
+
+    const template = getTemplate(templateId);
+    const pageFormat = resolvePageFormat(template, preferredFormat);
+    const current = savedLetters.find(l => l.id === letterId) || null;
+    const cost = AI_CONFIG.cover_letter_ai.cost;
+
+    useEffect(() => {
+        if (!session?.access_token) return;
+        listResumes(session.access_token)
+            .then(list => {
+                setResumes(list);
+                setResumeId(id => id || list.find(r => r.is_master)?.id || list[0]?.id || '');
+            })
+            .catch((err: any) => {
+                console.error('Error fetching resumes:', err);
+                alert('Could not load your resumes: ' + err.message);
+            });
+    }, [session?.access_token]);
+
+    // Opened from a tracker card
+    useEffect(() => {
+        const saved = savedLetters.find(l => l.id === searchParams.get('letter'));
+        if (saved) openLetter(saved);
+    }, []);
+
+    // Variants carry the job they were tailored for, which fills an empty job description
+    useEffect(() => {
+        if (!resumeId || !session?.access_token) return;
+        let cancelled = false;
+
+        setLoadingResume(true);
+        getResume(resumeId, session.access_token)
+            .then(resume => {
+                if (cancelled) return;
+                setResumeData(resume.parent_id && resume.master
+                    ? resolveVariant(resume.master.data, resume.overrides || {})
+                    : resume.data);
+                if (resume.job_description) setJobDescription(jd => jd || resume.job_description || '');
+            })
+            .catch((err: any) => {
+                if (cancelled) return;
+                console.error('Failed to load resume:', err);
+                setResumeData(null);
+                alert('Could not load that resume: ' + err.message);
+            })
+            .finally(() => { if (!cancelled) setLoadingResume(false); });
+
+        return () => { cancelled = true; };
+    }, [resumeId, session?.access_token]);
+
+    const openLetter = (saved: SavedCoverLetter) => {
+        setResumeId(saved.resumeId);
+        setJobTitle(saved.jobTitle);
+        setCompany(saved.company);
+        setJobDescription(saved.jobDescription);
+        setTemplateId(saved.templateId);
+        setLetter(saved.letter);
+        setLetterId(saved.id);
+        setDirty(false);
+    };
+
+    const updateLetter = (patch: Partial<CoverLetter>) => {
+        if (!letter) return;
+        setLetter({ ...letter, ...patch });
+        setDirty(true);
+    };
+
+    const updateEvidence = (index: number, value: string) => {
+        if (!letter) return;
+        updateLetter({ evidence: letter.evidence.map((p, i) => i === index ? value : p) });
+    };
+
+    const removeEvidence = (index: number) => {
+        if (!letter) return;
+        const evidence = letter.evidence.filter((_, i) => i !== index);
+        updateLetter({ evidence: evidence.length > 0 ? evidence : [''] });
+    };
+
+    const startLetter = (next: CoverLetter) => {
+        setLetter(next);
+        setLetterId(null);
+        setDirty(true);
+    };
+
+    const handleDraft = async () => {
+        if (!session?.access_token) {
+            alert('Please sign in to draft a cover letter.');
+            return;
+        }
+        if (!resumeData) {
+            alert('Pick a resume first. The letter is written from what is on it.');
+            return;
+        }
+        if (!jobDescription.trim()) {
+            alert('Paste the job description first.');
+            return;
+        }
+        if (letter && dirty && !confirm('Replace the letter you are editing with a new draft?')) return;
+
+        setDrafting(true);
+        try {
+            const draft = await draftCoverLetter(
+                resumeData,
+                { jobTitle: jobTitle.trim(), company: company.trim(), jobDescription },
+                { userId: user?.id || '', sessionToken: session.access_token }
+            );
+            startLetter(draft);
+        } catch (e: any) {
+            console.error('Cover letter draft error:', e);
+            alert(e instanceof ToolAccessError ? e.message : `Drafting failed: ${e.message || JSON.stringify(e)}`);
+        } finally {
+            setDrafting(false);
+        }
+    };
+
+    const handleSave = (): string | null => {
+        if (!letter || !resumeId) return null;
+        const id = letterId || `letter-${Date.now()}`;
+        setSavedLetters(saveCoverLetter({
+            id,
+            updatedAt: '',
+            resumeId,
+            resumeName: resumes.find(r => r.id === resumeId)?.name || '',
+            jobTitle: jobTitle.trim(),
+            company: company.trim(),
+            jobDescription,
+            templateId,
+            letter,
+            jobId: current?.jobId || null
+        }));
+        setLetterId(id);
+        setDirty(false);
+        return id;
+    };
+
+    const handleLink = (jobId: string) => {
+        let target: string | null = jobId || null;
+        if (jobId === NEW_JOB) {
+            const name = prompt(`Company for "${jobTitle || 'this job'}"?`, company);
+            if (!name) return;
+            target = addTrackedJob(name.trim(), jobTitle.trim() || 'Role').id;
+            setJobs(listTrackedJobs());
+        }
+        const id = handleSave();
+        if (id) setSavedLetters(linkCoverLetter(id, target));
+    };
+
+    const handleDelete = (saved: SavedCoverLetter) => {
+        if (!confirm(`Delete the cover letter for "${saved.jobTitle || saved.company || 'this job'}"?`)) return;
+        setSavedLetters(deleteCoverLetter(saved.id));
+        if (saved.id === letterId) setLetterId(null);
+    };
+
+    const changePageFormat = (format: PageFormat) => {
+        setPreferredFormat(format);
+        localStorage.setItem(PAGE_FORMAT_KEY, format);
+    };
+
+    const downloadBlob = (blob: Blob, filename: string) => {
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = filename;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const exportBaseName = () =>
+        [resumeData?.fullName || 'cover_letter', company].filter(Boolean).join(' ').trim().replace(/\s+/g, '_');
+
+    const handlePdfExport = async () => {
+        if (!letter || !resumeData) return;
+        setExportingPdf(true);
+        try {
+            const pdf = await exportCoverLetterPdf(resumeData, letter, template, pageFormat);
+            downloadBlob(pdf, `${exportBaseName()}_cover_letter.pdf`);
+        } catch (err: any) {
+            console.error('Cover letter PDF export failed:', err);
+            alert('PDF export failed: ' + err.message);
+        } finally {
+            setExportingPdf(false);
+        }
+    };
+
+    const handleDocxExport = () => {
+        if (!letter || !resumeData) return;
+        const bytes = buildCoverLetterDocx(resumeData, letter, template.docx, pageFormat);
+        downloadBlob(new Blob([bytes], { type: DOCX_MIME_TYPE }), `${exportBaseName()}_cover_letter.docx`);
+    };
+
+    const Header = template.header;
+
+    return (
+        <div className="min-h-screen bg-slate-50 flex flex-col">
+            <Navbar theme="light" onToggleTheme={() => { }} onOpenAuth={() => { }} />
+            <main className="flex-grow container mx-auto px-4 py-8 pt-24">
+                <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-8">
+                    <h1 className="text-3xl font-bold text-navy-900 mb-2">Cover Letters</h1>
+                    <p className="text-slate-600 text-sm mb-6">Draft a letter from one of your resumes for a specific job, then edit it section by section.</p>
+
+                    <div className="grid lg:grid-cols-2 gap-8">
+                        <div className="space-y-6">
+                            <div className="space-y-4">
+                                <div>
+                                    <label className={labelClass}>Resume</label>
+                                    <select value={resumeId} onChange={e => setResumeId(e.target.value)} className={inputClass}>
+                                        {resumes.length === 0 && <option value="">No saved resumes</option>}
+                                        {resumes.map(r => <option key={r.id} value={r.id}>{r.name}{r.is_master ? ' (Master)' : r.parent_id ? ' (Variant)' : ''}</option>)}
+                                    </select>
+                                </div>
+                                <div className="grid sm:grid-cols-2 gap-4">
+                                    <div>
+                                        <label className={labelClass}>Job title</label>
+                                        <input value={jobTitle} onChange={e => setJobTitle(e.target.value)} placeholder="e.g. Senior Frontend Engineer" className={inputClass} />
+                                    </div>
+                                    <div>
+                                        <label className={labelClass}>Company</label>
+                                        <input value={company} onChange={e => setCompany(e.target.value)} placeholder="e.g. Acme" className={inputClass} />
+                                    </div>
+                                </div>
+                                <div>
+                                    <label className={labelClass}>Job description</label>
+                                    <textarea value={jobDescription} onChange={e => setJobDescription(e.target.value)} rows={6} placeholder="Paste the job description" className={inputClass} />
+                                </div>
+                                <div className="flex flex-wrap gap-2">
+                                    <button
+                                        onClick={handleDraft}
+                                        disabled={drafting || loadingResume}
+                                        className="bg-brand-500 text-white px-4 py-2 rounded-lg hover:bg-brand-600 transition-colors disabled:opacity-50"
+                                    >
+                                        <i className={`fas ${drafting ? 'fa-spinner fa-spin' : 'fa-magic'} mr-2`}></i> Draft with AI • {cost} credit{cost === 1 ? '' : 's'}
+                                    </button>
+                                    <button
+                                        onClick={() => { if (!letter || !dirty || confirm('Discard the letter you are editing?')) startLetter(emptyCoverLetter(company.trim())); }}
+                                        className="px-4 py-2 rounded-lg border border-slate-200 text-slate-600 hover:text-navy-900"
+                                    >
+                                        Start blank
+                                    </button>
+                                </div>
+                            </div>
+
+                            {letter && (
+                                <div className="space-y-4 pt-6 border-t border-slate-100">
+                                    <div className="grid sm:grid-cols-2 gap-4">
+                                        <div>
+                                            <label className={labelClass}>Date</label>
+                                            <input value={letter.date} onChange={e => updateLetter({ date: e.target.value })} className={inputClass} />
+                                        </div>
+                                        <div>
+                                            <label className={labelClass}>Greeting</label>
+                                            <input value={letter.greeting} onChange={e => updateLetter({ greeting: e.target.value })} className={inputClass} />
+                                        </div>
+                                    </div>
+                                    <div>
+                                        <label className={labelClass}>Recipient</label>
+                                        <textarea value={letter.recipient} onChange={e => updateLetter({ recipient: e.target.value })} rows={2} placeholder={'Hiring Manager\nCompany'} className={inputClass} />
+                                    </div>
+                                    <div>
+                                        <label className={labelClass}>Hook</label>
+                                        <textarea value={letter.hook} onChange={e => updateLetter({ hook: e.target.value })} rows={3} placeholder="Why this role, and why you" className={inputClass} />
+                                    </div>
+                                    {letter.evidence.map((paragraph, i) => (
+                                        <div key={i}>
+                                            <div className="flex items-center justify-between">
+                                                <label className={labelClass}>Evidence {i + 1}</label>
+                                                <button onClick={() => removeEvidence(i)} className="text-[10px] text-slate-400 hover:text-red-500 mb-1">
+                                                    <i className="fas fa-trash"></i>
+                                                </button>
+                                            </div>
+                                            <textarea value={paragraph} onChange={e => updateEvidence(i, e.target.value)} rows={4} placeholder="One requirement of the job, and where your resume shows it" className={inputClass} />
+                                        </div>
+                                    ))}
+                                    {letter.evidence.length < MAX_EVIDENCE_PARAGRAPHS && (
+                                        <button onClick={() => updateLetter({ evidence: [...letter.evidence, ''] })} className="text-sm text-brand-600 font-medium hover:underline">
+                                            <i className="fas fa-plus mr-1"></i> Add evidence paragraph
+                                        </button>
+                                    )}
+                                    <div>
+                                        <label className={labelClass}>Close</label>
+                                        <textarea value={letter.close} onChange={e => updateLetter({ close: e.target.value })} rows={2} placeholder="A short call to action" className={inputClass} />
+                                    </div>
+                                    <div>
+                                        <label className={labelClass}>Sign-off</label>
+                                        <input value={letter.signOff} onChange={e => updateLetter({ signOff: e.target.value })} className={inputClass} />
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+
+                        <div className="space-y-4">
+                            <div className="flex flex-wrap items-center gap-2">
+                                <select value={templateId} onChange={e => { setTemplateId(e.target.value); setDirty(true); }} className="p-2 border border-slate-200 rounded-lg text-sm bg-white">
+                                    {listTemplates().map(t => <option key={t.id} value={t.id}>{t.name} header</option>)}
+                                </select>
+                                <select value={pageFormat} onChange={e => changePageFormat(e.target.value as PageFormat)} className="p-2 border border-slate-200 rounded-lg text-sm bg-white">
+                                    {template.page.formats.map(f => <option key={f} value={f}>{f === 'a4' ? 'A4' : 'US Letter'}</option>)}
+                                </select>
+                                {letter && <span className="text-xs text-slate-500 ml-auto">{letterWordCount(letter)} words</span>}
+                            </div>
+
+                            {letter && resumeData ? (
+                                <>
+                                    <div className="border border-slate-200 shadow-sm bg-white overflow-hidden" style={{ aspectRatio: pageFormat === 'letter' ? '8.5 / 11' : '210 / 297' }}>
+                                        <div className="p-[12mm] text-slate-900">
+                                            <Header data={resumeData} withContact />
+                                            <div className="font-sans text-sm text-slate-800 leading-relaxed space-y-4 mt-8">
+                                                {letter.date.trim() && <p className="text-slate-500">{letter.date}</p>}
+                                                {letter.recipient.trim() && <p className="whitespace-pre-line">{letter.recipient.trim()}</p>}
+                                                <p>{letter.greeting || 'Dear Hiring Manager,'}</p>
+                                                {letterParagraphs(letter).map((p, i) => <p key={i}>{p}</p>)}
+                                                <div>
+                                                    <p>{letter.signOff || 'Sincerely,'}</p>
+                                                    <p className="font-bold mt-6">{resumeData.fullName}</p>
+                                                </div>
+                                            </div>
+                                        </div>
+                                    </div>
+
+                                    <div className="flex flex-wrap gap-2">
+                                        <button onClick={handleSave} disabled={!dirty && !!current} className="px-4 py-2 rounded-lg bg-navy-900 text-white hover:bg-navy-800 disabled:opacity-50">
+                                            <i className={`fas ${!dirty && current ? 'fa-check' : 'fa-bookmark'} mr-2`}></i> {!dirty && current ? 'Saved' : 'Save'}
+                                        </button>
+                                        <button onClick={handlePdfExport} disabled={exportingPdf} className="px-4 py-2 rounded-lg border border-slate-200 text-slate-700 hover:text-navy-900 disabled:opacity-50">
+                                            <i className={`fas ${exportingPdf ? 'fa-spinner fa-spin' : 'fa-file-pdf'} mr-2`}></i> PDF
+                                        </button>
+                                        <button onClick={handleDocxExport} className="px-4 py-2 rounded-lg border border-slate-200 text-slate-700 hover:text-navy-900">
+                                            <i className="fas fa-file-word mr-2"></i> DOCX
+                                        </button>
+                                    </div>
+
+                                    <div className="flex items-center gap-2">
+                                        <label className="text-[10px] font-bold uppercase tracking-wider text-slate-500 shrink-0">Link to job</label>
+                                        <select value={current?.jobId || ''} onChange={e => handleLink(e.target.value)} className="flex-1 min-w-0 p-2 border border-slate-200 rounded-lg text-sm bg-white">
+                                            <option value="">Not linked</option>
+                                            {jobs.map(job => <option key={job.id} value={job.id}>{job.role} @ {job.company}</option>)}
+                                            <option value={NEW_JOB}>+ New tracker job…</option>
+                                        </select>
+                                    </div>
+                                </>
+                            ) : (
+                                <div className="border border-dashed border-slate-200 rounded-xl p-10 text-center text-sm text-slate-500">
+                                    {loadingResume ? 'Loading resume…' : 'Draft a letter or start a blank one to see it here.'}
+                                </div>
+                            )}
+                        </div>
+                    </div>
+
+                    {savedLetters.length > 0 && (
+                        <div className="mt-10 pt-6 border-t border-slate-100">
+                            <h2 className="text-lg font-bold text-navy-900 mb-3">Saved letters</h2>
+                            <ul className="divide-y divide-slate-100 border border-slate-200 rounded-xl">
+                                {savedLetters.map(saved => (
+                                    <li key={saved.id} className="flex items-center justify-between gap-3 p-4 hover:bg-slate-50 transition-colors">
+                                        <button onClick={() => openLetter(saved)} className="text-left min-w-0">
+                                            <p className="font-bold text-navy-900 truncate">
+                                                {[saved.jobTitle, saved.company].filter(Boolean).join(' @ ') || 'Untitled letter'}
+                                                {saved.id === letterId && <span className="ml-2 text-[10px] font-bold uppercase tracking-wider bg-brand-100 text-brand-600 rounded px-1.5 py-0.5">Open</span>}
+                                            </p>
+                                            <p className="text-xs text-slate-500">
+                                                {saved.resumeName || 'Resume'} · updated {new Date(saved.updatedAt).toLocaleDateString()}
+                                                {saved.jobId && jobs.some(j => j.id === saved.jobId) && ' · linked to tracker'}
+                                            </p>
+                                        </button>
+                                        <button onClick={() => handleDelete(saved)} className="shrink-0 px-3 py-1.5 text-sm text-red-500 hover:text-red-600">Delete</button>
+                                    </li>
+                                ))}
+                            </ul>
+                        </div>
+                    )}
+                </div>
+            </main>
+            <Footer />
+        </div>
+    );
+};
+
+export default CoverLetters;
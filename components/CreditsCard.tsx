@@ -12,6 +12,7 @@ const CreditsCard: React.FC<CreditsCardProps> = ({ credits, isLoading }) => {
         { name: 'Interview AI Feedback', cost: CREDIT_COSTS.INTERVIEW_AI, icon: 'fa-microphone' },
         { name: 'LinkedIn Optimization', cost: CREDIT_COSTS.LINKEDIN_AI, icon: 'fa-linkedin', premium: true },
         { name: 'AI Summary', cost: CREDIT_COSTS.SUMMARY_AI, icon: 'fa-align-left' },
+        { name: 'Cover Letter Draft', cost: CREDIT_COSTS.COVER_LETTER_AI, icon: 'fa-envelope-open-text' },
         { name: 'PDF Export', cost: CREDIT_COSTS.PDF_EXPORT, icon: 'fa-file-pdf', free: true },
     ];
 
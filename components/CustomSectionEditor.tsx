@@ -0,0 +1,61 @@
+import React from 'react';
+import { CustomSection, CustomSectionEntry } from '../types';
+import { CUSTOM_SECTION_TYPES } from '../lib/resumeSections';
+
+interface CustomSectionEditorProps {
+  section: CustomSection;
+  onChange: (section: CustomSection) => void;
+  onRemove: () => void;
+}
+
+const inputClass = "w-full p-3 border dark:border-white/10 rounded-xl text-[10px] md:text-xs bg-white dark:bg-navy-950 text-navy-900 dark:text-white outline-none";
+
+const CustomSectionEditor: React.FC<CustomSectionEditorProps> = ({ section, onChange, onRemove }) => {
+  const info = CUSTOM_SECTION_TYPES[section.type];
+
+  const updateEntry = (id: number, changes: Partial<CustomSectionEntry>) => {
+    onChange({ ...section, entries: section.entries.map(e => e.id === id ? { ...e, ...changes } : e) });
+  };
+
+  const addEntry = () => {
+    onChange({ ...section, entries: [...section.entries, { id: Date.now(), title: '', subtitle: '', date: '', url: '', bullets: [''] }] });
+  };
+
+  return (
+    <div className="space-y-6 md:space-y-8">
+      <div className="flex gap-2 md:gap-3 items-center">
+        <input placeholder="Section Title" value={section.title} onChange={e => onChange({ ...section, title: e.target.value })} className="flex-1 p-3 md:p-4 border dark:border-white/10 rounded-xl text-xs md:text-sm font-black bg-slate-50 dark:bg-navy-950/50 text-navy-900 dark:text-white outline-none" />
+        <button onClick={() => { if (confirm(`Delete the "${section.title || info.label}" section?`)) onRemove(); }} className="px-3 py-3 text-[9px] font-black uppercase tracking-widest text-red-500 rounded-xl hover:bg-red-50 dark:hover:bg-red-500/10 transition-all" title="Delete section"><i className="fas fa-trash"></i></button>
+      </div>
+
+      {section.entries.map(entry => (
+        <div key={entry.id} className="p-4 md:p-6 border rounded-[1.5rem] md:rounded-[2rem] bg-slate-50/50 dark:bg-navy-950/50 relative group border-slate-200 dark:border-white/10 shadow-sm transition-all hover:shadow-md">
+          <button onClick={() => onChange({ ...section, entries: section.entries.filter(e => e.id !== entry.id) })} className="absolute -top-2 -right-2 bg-red-500 text-white w-7 h-7 rounded-full text-[10px] shadow-xl md:opacity-0 md:group-hover:opacity-100 transition-all flex items-center justify-center z-20"><i className="fas fa-trash"></i></button>
+
+          <input placeholder={info.titleLabel} className="w-full p-3 mb-3 md:mb-4 border dark:border-white/10 rounded-xl text-xs md:text-sm font-black bg-white dark:bg-navy-950 text-navy-900 dark:text-white outline-none" value={entry.title} onChange={e => updateEntry(entry.id, { title: e.target.value })} />
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 md:gap-4 mb-3 md:mb-4">
+            <input placeholder={info.subtitleLabel} className={inputClass} value={entry.subtitle} onChange={e => updateEntry(entry.id, { subtitle: e.target.value })} />
+            <input placeholder={info.dateLabel} className={inputClass} value={entry.date} onChange={e => updateEntry(entry.id, { date: e.target.value })} />
+          </div>
+          <input placeholder={info.urlLabel} className={`${inputClass} mb-4 md:mb-6`} value={entry.url} onChange={e => updateEntry(entry.id, { url: e.target.value })} />
+
+          <div className="space-y-3">
+            {entry.bullets.map((bullet, bIdx) => (
+              <div key={bIdx} className="flex gap-2 md:gap-3 group/bullet">
+                <div className="flex-grow relative">
+                  <textarea rows={2} className="w-full p-3 border dark:border-white/10 rounded-xl text-[10px] md:text-xs bg-white dark:bg-navy-950 text-navy-900 dark:text-white outline-none focus:ring-2 focus:ring-brand-500/20 resize-none pr-10" value={bullet} onChange={e => updateEntry(entry.id, { bullets: entry.bullets.map((b, i) => i === bIdx ? e.target.value : b) })} />
+                  <button onClick={() => updateEntry(entry.id, { bullets: entry.bullets.filter((_, i) => i !== bIdx) })} className="absolute top-2 right-2 w-5 h-5 md:w-6 md:h-6 bg-red-500/10 text-red-500 rounded-md md:rounded-lg flex items-center justify-center md:opacity-0 md:group-hover/bullet:opacity-100 transition-opacity"><i className="fas fa-times text-[7px] md:text-[8px]"></i></button>
+                </div>
+              </div>
+            ))}
+            <button onClick={() => updateEntry(entry.id, { bullets: [...entry.bullets, ''] })} className="w-full py-2 bg-slate-200/50 dark:bg-white/5 rounded-xl text-[8px] md:text-[9px] font-black text-slate-400 uppercase tracking-widest">+ Add Detail</button>
+          </div>
+        </div>
+      ))}
+      <button onClick={addEntry} className="w-full py-5 md:py-6 border-2 border-dashed border-slate-300 dark:border-white/10 text-slate-400 font-black text-[10px] md:text-xs rounded-[1.5rem] md:rounded-[2rem] hover:border-brand-500 transition-all uppercase tracking-widest">+ Add Entry</button>
+    </div>
+  );
+};
+
+export default CustomSectionEditor;
@@ -44,6 +44,15 @@ const Dashboard: React.FC = () => {
                             <Link to="/resumes" className="text-brand-600 font-medium text-sm hover:underline">View Resumes &rarr;</Link>
                         </div>
 
+                        <div className="p-6 border border-slate-200 rounded-xl hover:shadow-md transition-shadow">
+                            <div className="w-10 h-10 bg-sky-100 text-sky-600 rounded-lg flex items-center justify-center mb-4">
+                                <i className="fas fa-envelope-open-text"></i>
+                            </div>
+                            <h3 className="text-lg font-bold text-navy-900 mb-2">Cover Letters</h3>
+                            <p className="text-slate-600 text-sm mb-4">Write a letter from your resume for a specific job.</p>
+                            <Link to="/cover-letters" className="text-brand-600 font-medium text-sm hover:underline">Write a Letter &rarr;</Link>
+                        </div>
+
                         <div className="p-6 border border-slate-200 rounded-xl hover:shadow-md transition-shadow">
                             <div className="w-10 h-10 bg-emerald-100 text-emerald-600 rounded-lg flex items-center justify-center mb-4">
                                 <i className="fas fa-microphone-lines"></i>
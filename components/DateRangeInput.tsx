@@ -0,0 +1,75 @@
+import React, { useEffect, useState } from 'react';
+import { DatedItem, ResumeDate } from '../types';
+import { MONTH_NAMES, formatDateRange, hasStructuredDates } from '../lib/dates';
+
+interface DateRangeInputProps {
+  value: DatedItem;
+  text: string;                       // the free-text date the item was saved with
+  onChange: (dates: DatedItem, text: string) => void;
+  startLabel?: string;
+  endLabel?: string;
+  currentLabel?: string;              // omit for items that can't be ongoing (certifications)
+}
+
+const fieldClass = "p-3 border dark:border-white/10 rounded-xl text-[10px] md:text-xs bg-white dark:bg-navy-950 text-navy-900 dark:text-white outline-none";
+
+// Month is optional; the year only commits once it's four digits so typing doesn't clear the field
+const MonthYearInput: React.FC<{ label: string; value?: ResumeDate | null; disabled?: boolean; onChange: (date: ResumeDate | null) => void }> = ({ label, value, disabled, onChange }) => {
+  const [year, setYear] = useState(value ? String(value.year) : '');
+
+  useEffect(() => { setYear(value ? String(value.year) : ''); }, [value?.year]);
+
+  const changeYear = (input: string) => {
+    const digits = input.replace(/\D/g, '').substring(0, 4);
+    setYear(digits);
+    if (!digits) onChange(null);
+    else if (digits.length === 4) onChange({ ...(value || {}), year: parseInt(digits, 10) });
+  };
+
+  const changeMonth = (input: string) => {
+    if (!value) return;
+    onChange(input ? { year: value.year, month: parseInt(input, 10) } : { year: value.year });
+  };
+
+  return (
+    <div className={disabled ? 'opacity-40' : ''}>
+      <p className="text-[9px] font-black uppercase tracking-widest text-slate-400 mb-1">{label}</p>
+      <div className="grid grid-cols-[3fr_2fr] gap-2">
+        <select className={fieldClass} value={value?.month || ''} disabled={disabled || !value} onChange={e => changeMonth(e.target.value)} aria-label={`${label} month`}>
+          <option value="">Month</option>
+          {MONTH_NAMES.map((name, i) => <option key={name} value={i + 1}>{name}</option>)}
+        </select>
+        <input placeholder="Year" inputMode="numeric" className={fieldClass} value={year} disabled={disabled} onChange={e => changeYear(e.target.value)} aria-label={`${label} year`} />
+      </div>
+    </div>
+  );
+};
+
+// Start / end pickers plus a "current" switch. The free-text date is rewritten on every change so it
+// always matches what the templates print for older readers (saved PDFs, ATS parsing).
+const DateRangeInput: React.FC<DateRangeInputProps> = ({ value, text, onChange, startLabel = 'Start', endLabel = 'End', currentLabel }) => {
+  const update = (changes: DatedItem) => {
+    const dates: DatedItem = { startDate: value.startDate || null, endDate: value.endDate || null, current: !!value.current, ...changes };
+    onChange(dates, formatDateRange(dates));
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 md:gap-4">
+        <MonthYearInput label={startLabel} value={value.startDate} onChange={startDate => update({ startDate })} />
+        <MonthYearInput label={endLabel} value={value.current ? null : value.endDate} disabled={!!value.current} onChange={endDate => update({ endDate })} />
+      </div>
+      {currentLabel && (
+        <label className="flex items-center gap-2 text-[10px] font-bold text-slate-500 cursor-pointer">
+          <input type="checkbox" checked={!!value.current} onChange={e => update({ current: e.target.checked })} />
+          {currentLabel}
+        </label>
+      )}
+      {!hasStructuredDates(value) && text.trim() && (
+        <p className="text-[9px] font-bold text-amber-500"><i className="fas fa-triangle-exclamation mr-1"></i>"{text}" couldn't be read as a date. It prints as typed until you pick dates above.</p>
+      )}
+    </div>
+  );
+};
+
+export default DateRangeInput;
@@ -0,0 +1,180 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { ResumeData } from '../types';
+import { JobRequirements } from '../lib/jobDescription';
+import {
+  GapReport, CoverageStatus, buildGapReport, listGapReports, saveGapReport, deleteGapReport, linkGapReport,
+  listTrackedJobs, addTrackedJob
+} from '../lib/gapReport';
+
+interface GapReportPanelProps {
+  data: ResumeData;
+  jobDescription: string;
+  requirements: JobRequirements;
+}
+
+const STATUS_STYLES: Record<CoverageStatus, { label: string; icon: string; className: string }> = {
+  covered: { label: 'Covered', icon: 'fa-check', className: 'bg-green-500/10 text-green-600' },
+  partial: { label: 'Claimed only', icon: 'fa-circle-half-stroke', className: 'bg-amber-500/10 text-amber-600' },
+  missing: { label: 'Missing', icon: 'fa-xmark', className: 'bg-red-500/10 text-red-500' }
+};
+
+const NEW_JOB = '__new__';
+
+const GapReportPanel: React.FC<GapReportPanelProps> = ({ data, jobDescription, requirements }) => {
+  const report = useMemo(() => buildGapReport(data, jobDescription, requirements), [data, jobDescription, requirements]);
+  const [savedReports, setSavedReports] = useState<GapReport[]>(listGapReports);
+  const [jobs, setJobs] = useState(listTrackedJobs);
+  // The saved copy of the report on screen; cleared when fixes change the resume and the report is rebuilt
+  const [savedId, setSavedId] = useState<string | null>(null);
+  const [openRequirement, setOpenRequirement] = useState<string | null>(null);
+  const [showSaved, setShowSaved] = useState(false);
+
+  useEffect(() => setSavedId(null), [report]);
+
+  const current = savedReports.find(r => r.id === savedId) || null;
+  const moves = report.roles.filter(role => role.suggestedIndex < role.currentIndex);
+
+  const save = (): string => {
+    if (current) return current.id;
+    setSavedReports(saveGapReport(report));
+    setSavedId(report.id);
+    return report.id;
+  };
+
+  const link = (reportId: string, jobId: string) => {
+    let target: string | null = jobId || null;
+    if (jobId === NEW_JOB) {
+      const company = prompt(`Company for "${report.jobTitle}"?`);
+      if (!company) return;
+      target = addTrackedJob(company.trim(), report.jobTitle).id;
+      setJobs(listTrackedJobs());
+    }
+    setSavedReports(linkGapReport(reportId, target));
+  };
+
+  const jobName = (jobId: string | null) => {
+    const job = jobs.find(j => j.id === jobId);
+    return job ? `${job.role} @ ${job.company}` : null;
+  };
+
+  if (report.requirements.length === 0) return null;
+
+  return (
+    <div className="glass-premium dark:bg-white/5 p-6 md:p-8 rounded-2xl md:rounded-3xl border border-slate-100 dark:border-white/10 space-y-5">
+      <div className="flex items-start justify-between gap-3">
+        <div>
+          <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">Gap Report</p>
+          <p className="text-sm font-black dark:text-white">{report.coverage}% of requirements covered</p>
+          <p className="text-[10px] font-bold text-slate-500">
+            {(['covered', 'partial', 'missing'] as CoverageStatus[])
+              .map(status => `${report.requirements.filter(r => r.status === status).length} ${STATUS_STYLES[status].label.toLowerCase()}`)
+              .join(' • ')}
+          </p>
+        </div>
+        <button
+          onClick={save}
+          disabled={!!current}
+          className="shrink-0 px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest bg-brand-500 text-white hover:bg-brand-600 disabled:bg-green-500/10 disabled:text-green-600"
+        >
+          <i className={`fas ${current ? 'fa-check' : 'fa-bookmark'} mr-1`}></i> {current ? 'Saved' : 'Save'}
+        </button>
+      </div>
+
+      <div className="space-y-1.5">
+        {report.requirements.map(item => {
+          const key = `${item.kind}:${item.requirement}`;
+          const style = STATUS_STYLES[item.status];
+          return (
+            <div key={key} className="text-xs">
+              <button
+                onClick={() => setOpenRequirement(openRequirement === key ? null : key)}
+                disabled={item.evidence.length === 0}
+                className="w-full flex items-center justify-between gap-3 text-left"
+              >
+                <span className="dark:text-slate-200 font-bold truncate">
+                  {item.requirement}
+                  {item.strength === 'preferred' && <span className="ml-2 text-[9px] font-black text-slate-400 uppercase tracking-widest">Preferred</span>}
+                </span>
+                <span className={`shrink-0 px-2 py-1 rounded-md text-[10px] font-bold ${style.className}`}>
+                  <i className={`fas ${style.icon} mr-1`}></i>{style.label}
+                </span>
+              </button>
+              {openRequirement === key && (
+                <ul className="mt-1.5 mb-2 pl-3 border-l-2 border-slate-100 dark:border-white/10 space-y-1">
+                  {item.evidence.map((evidence, i) => (
+                    <li key={i} className="text-slate-500">
+                      <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{evidence.location}</span>
+                      <p className="dark:text-slate-300 line-clamp-2">{evidence.text}</p>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {report.roles.length > 1 && (
+        <div>
+          <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2">
+            Tailoring plan • {moves.length > 0 ? `move ${moves.length} role${moves.length === 1 ? '' : 's'} up` : 'your role order already fits'}
+          </p>
+          <ol className="space-y-1.5">
+            {report.roles.map(role => (
+              <li key={role.expId} className="flex items-center justify-between gap-3 text-xs">
+                <span className="dark:text-slate-200 truncate">
+                  <span className="font-black text-slate-400 mr-2">{role.suggestedIndex + 1}.</span>{role.label}
+                  {role.matches.length > 0 && <span className="text-slate-400"> • {role.matches.join(', ')}</span>}
+                </span>
+                {role.suggestedIndex < role.currentIndex && (
+                  <span className="shrink-0 text-[10px] font-bold text-brand-500"><i className="fas fa-arrow-up mr-1"></i>{role.currentIndex - role.suggestedIndex}</span>
+                )}
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2 pt-3 border-t border-slate-100 dark:border-white/10">
+        <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest shrink-0">Link to job</label>
+        <select
+          value={current?.jobId || ''}
+          onChange={e => link(save(), e.target.value)}
+          className="flex-1 min-w-0 p-2 rounded-lg text-xs bg-slate-50 dark:bg-navy-950 dark:text-white border border-slate-100 dark:border-white/10"
+        >
+          <option value="">Not linked</option>
+          {jobs.map(job => <option key={job.id} value={job.id}>{job.role} @ {job.company}</option>)}
+          <option value={NEW_JOB}>+ New tracker job…</option>
+        </select>
+      </div>
+
+      {savedReports.length > 0 && (
+        <div>
+          <button onClick={() => setShowSaved(!showSaved)} className="text-[9px] font-black text-slate-400 uppercase tracking-widest hover:text-brand-500">
+            <i className={`fas fa-chevron-${showSaved ? 'up' : 'down'} mr-1`}></i> Saved reports ({savedReports.length})
+          </button>
+          {showSaved && (
+            <ul className="mt-2 space-y-2">
+              {savedReports.map(saved => (
+                <li key={saved.id} className="flex items-center justify-between gap-3 text-xs">
+                  <span className="min-w-0 truncate dark:text-slate-200">
+                    <span className="font-bold">{saved.jobTitle}</span>
+                    <span className="text-slate-400"> • {saved.coverage}% • {new Date(saved.createdAt).toLocaleDateString()}{jobName(saved.jobId) && ` • ${jobName(saved.jobId)}`}</span>
+                  </span>
+                  <button
+                    onClick={() => { if (confirm(`Delete the gap report for "${saved.jobTitle}"?`)) setSavedReports(deleteGapReport(saved.id)); }}
+                    className="shrink-0 text-slate-300 hover:text-red-500"
+                  >
+                    <i className="fas fa-trash"></i>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GapReportPanel;
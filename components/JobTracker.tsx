@@ -1,15 +1,24 @@
 
 import React, { useState, useEffect } from 'react';
 import { JobApplication, JobStatus } from '../types';
+import { Link } from 'react-router-dom';
+import { GapReport, listGapReports, linkGapReport, TRACKED_JOBS_KEY } from '../lib/gapReport';
+import { SavedCoverLetter, listCoverLetters, linkCoverLetter } from '../lib/coverLetter';
 
 const JobTracker: React.FC = () => {
   const [jobs, setJobs] = useState<JobApplication[]>([]);
   const [showAddModal, setShowAddModal] = useState(false);
   const [newJob, setNewJob] = useState({ company: '', role: '', status: 'Saved' as JobStatus });
+  // Gap reports saved from the ATS checker and linked to a job
+  const [reports, setReports] = useState<GapReport[]>([]);
+  const [openReportId, setOpenReportId] = useState<string | null>(null);
+  const [letters, setLetters] = useState<SavedCoverLetter[]>([]);
 
   // Load from LocalStorage
   useEffect(() => {
-    const savedJobs = localStorage.getItem('nextstep_jobs');
+    setReports(listGapReports());
+    setLetters(listCoverLetters());
+    const savedJobs = localStorage.getItem(TRACKED_JOBS_KEY);
     if (savedJobs) {
       setJobs(JSON.parse(savedJobs));
     } else {
@@ -24,7 +33,7 @@ const JobTracker: React.FC = () => {
   // Save to LocalStorage
   useEffect(() => {
     if (jobs.length > 0) {
-        localStorage.setItem('nextstep_jobs', JSON.stringify(jobs));
+        localStorage.setItem(TRACKED_JOBS_KEY, JSON.stringify(jobs));
     }
   }, [jobs]);
 
@@ -56,6 +65,11 @@ const JobTracker: React.FC = () => {
 
   const deleteJob = (id: string) => {
     setJobs(jobs.filter(j => j.id !== id));
+    // Keep the reports, just unlinked
+    reports.filter(r => r.jobId === id).forEach(r => linkGapReport(r.id, null));
+    setReports(listGapReports());
+    letters.filter(l => l.jobId === id).forEach(l => linkCoverLetter(l.id, null));
+    setLetters(listCoverLetters());
   };
 
   const Columns: JobStatus[] = ['Saved', 'Applied', 'Interviewing', 'Offer'];
@@ -97,6 +111,43 @@ const JobTracker: React.FC = () => {
                     </button>
                     <h4 className="font-bold text-navy-900">{job.role}</h4>
                     <p className="text-sm text-slate-600 mb-3">{job.company}</p>
+
+                    {reports.filter(r => r.jobId === job.id).map(report => {
+                      const missing = report.requirements.filter(r => r.status === 'missing');
+                      const moves = report.roles.filter(role => role.suggestedIndex < role.currentIndex);
+                      return (
+                        <div key={report.id} className="mb-2 text-xs">
+                          <button
+                            onClick={() => setOpenReportId(openReportId === report.id ? null : report.id)}
+                            className="w-full flex items-center justify-between gap-2 px-2 py-1.5 rounded-md bg-slate-50 hover:bg-slate-100 text-slate-600"
+                          >
+                            <span><i className="fas fa-clipboard-check mr-1 text-brand-500"></i> Gap report • {report.coverage}%</span>
+                            <span className="text-slate-400">{new Date(report.createdAt).toLocaleDateString()}</span>
+                          </button>
+                          {openReportId === report.id && (
+                            <div className="mt-2 space-y-1 text-slate-600">
+                              {missing.length > 0
+                                ? <p><span className="font-bold text-red-500">Missing:</span> {missing.map(r => r.requirement).join(', ')}</p>
+                                : <p className="font-bold text-green-600">Every requirement is on the resume</p>}
+                              {moves.length > 0 && (
+                                <p><span className="font-bold">Move up:</span> {moves.map(role => role.label).join(', ')}</p>
+                              )}
+                            </div>
+                          )}
+                        </div>
+                      );
+                    })}
+
+                    {letters.filter(l => l.jobId === job.id).map(letter => (
+                      <Link
+                        key={letter.id}
+                        to={`/cover-letters?letter=${encodeURIComponent(letter.id)}`}
+                        className="mb-2 flex items-center justify-between gap-2 px-2 py-1.5 rounded-md bg-slate-50 hover:bg-slate-100 text-xs text-slate-600"
+                      >
+                        <span><i className="fas fa-envelope-open-text mr-1 text-brand-500"></i> Cover letter</span>
+                        <span className="text-slate-400">{new Date(letter.updatedAt).toLocaleDateString()}</span>
+                      </Link>
+                    ))}
                     
                     <div className="flex justify-between mt-2 pt-2 border-t border-slate-50">
                        <button 
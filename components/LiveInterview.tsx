@@ -15,6 +15,7 @@ import {
   generateProOpeningQuestion,
   PERSONA_ANCHOR
 } from '../lib/interviewEngine';
+import { analyzeJobDescription } from '../lib/jobDescription';
 import {
   useInterviewState,
   InterviewState,
@@ -79,6 +80,7 @@ const LiveInterview: React.FC = () => {
   const [resumeFile, setResumeFile] = useState<File | null>(null);
   const [resumeContext, setResumeContext] = useState<string>('');
   const [jobRole, setJobRole] = useState<string>('');
+  const [jobDescription, setJobDescription] = useState<string>('');
   const [language, setLanguage] = useState('English');
   const [persona, setPersona] = useState<keyof typeof RECRUITER_PERSONALITIES>('recruiter');
   const [feedback, setFeedback] = useState<CombinedFeedback | null>(null);
@@ -476,7 +478,8 @@ IMPORTANT:
         language,
         persona,
         cvSummary: resumeContext,
-        questionCount: 5
+        questionCount: 5,
+        requirements: jobDescription.trim() ? analyzeJobDescription(jobDescription) : undefined
       });
 
       // HYBRID MODEL: Generate Pro opening question (ONE TIME per interview)
@@ -969,6 +972,15 @@ Output JSON: { "summary": "...", "tip": "...", "rating": 5 }`;
                       placeholder="e.g. Senior Software Engineer"
                     />
                   </div>
+                  <div>
+                    <label className="block text-[10px] font-black uppercase text-slate-500 mb-4 tracking-widest">Job Description (Optional)</label>
+                    <textarea
+                      value={jobDescription}
+                      onChange={e => setJobDescription(e.target.value)}
+                      className="w-full h-28 resize-none bg-white/5 border border-white/10 rounded-2xl p-5 text-white text-xs placeholder-slate-600 focus:ring-2 focus:ring-brand-500"
+                      placeholder="Paste the posting to focus questions on its required skills"
+                    />
+                  </div>
                   <div>
                     <label className="block text-[10px] font-black uppercase text-slate-500 mb-4 tracking-widest">Language</label>
                     <select value={language} onChange={e => setLanguage(e.target.value)} className="w-full bg-white/5 border border-white/10 rounded-2xl p-5 text-white font-bold focus:ring-2 focus:ring-brand-500">
@@ -0,0 +1,92 @@
+import React, { useEffect, useLayoutEffect, useRef, useState } from 'react';
+import { ResumeData } from '../types';
+import { ResumeTemplate, PageFormat, mmToPx, pageWidthPx, pageHeightPx } from '../templates';
+import { collectBlocks, paginate, PageSlice, FIT_SCALES } from '../lib/pagination';
+
+export interface PreviewLayout {
+  pageCount: number;
+  fitScale: number;     // 1 unless "fit to one page" had to shrink the content
+}
+
+interface PaginatedPreviewProps {
+  template: ResumeTemplate;
+  data: ResumeData;
+  format: PageFormat;
+  metadataBlock: string;
+  fitToPage: boolean;
+  onLayout: (layout: PreviewLayout) => void;
+}
+
+// Renders the template at a reduced size but full page width, so spacing and type shrink together
+const FitFrame: React.FC<{ scale: number; width: number; children: React.ReactNode }> = ({ scale, width, children }) => (
+  scale === 1
+    ? <>{children}</>
+    : <div style={{ width: width / scale, transform: `scale(${scale})`, transformOrigin: 'top left' }}>{children}</div>
+);
+
+const PaginatedPreview: React.FC<PaginatedPreviewProps> = ({ template, data, format, metadataBlock, fitToPage, onLayout }) => {
+  const measureRef = useRef<HTMLDivElement>(null);
+  const lastInputs = useRef<unknown[]>([]);
+  const [fitLevel, setFitLevel] = useState(0);
+  const [pages, setPages] = useState<PageSlice[]>([]);
+  const [fontsLoaded, setFontsLoaded] = useState(false);
+
+  const width = pageWidthPx(format);
+  const height = pageHeightPx(format);
+  const continuationMargin = mmToPx(template.page.continuationMarginMm);
+  const scale = FIT_SCALES[fitLevel];
+  const Layout = template.render;
+
+  // Web fonts change line wrapping, so measure again once they've arrived
+  useEffect(() => {
+    document.fonts?.ready.then(() => setFontsLoaded(true));
+  }, []);
+
+  useLayoutEffect(() => {
+    // New content starts again from full size; "fit to one page" then steps down one level per pass
+    const inputs = [data, template, format, fitToPage];
+    const inputsChanged = inputs.some((value, i) => value !== lastInputs.current[i]);
+    lastInputs.current = inputs;
+    if (inputsChanged && fitLevel !== 0) {
+      setFitLevel(0);
+      return;
+    }
+
+    if (!measureRef.current) return;
+    const slices = paginate(collectBlocks(measureRef.current), height, continuationMargin);
+    if (fitToPage && slices.length > 1 && fitLevel < FIT_SCALES.length - 1) {
+      setFitLevel(fitLevel + 1);
+      return;
+    }
+
+    setPages(slices);
+    onLayout({ pageCount: slices.length, fitScale: FIT_SCALES[fitLevel] });
+  }, [data, template, format, fitToPage, fitLevel, fontsLoaded, height, continuationMargin]);
+
+  const content = (
+    <FitFrame scale={scale} width={width}>
+      <Layout data={data} format={format} metadataBlock={metadataBlock} />
+    </FitFrame>
+  );
+
+  return (
+    <div className="relative flex flex-col gap-8">
+      {/* Off-screen copy the paginator measures */}
+      <div ref={measureRef} aria-hidden="true" className="absolute top-0 left-0 invisible pointer-events-none" style={{ width }}>
+        {content}
+      </div>
+
+      {pages.map((page, i) => (
+        <div key={i} className="bg-white shadow-2xl relative overflow-hidden" style={{ width, height }}>
+          <div className="absolute left-0 right-0 overflow-hidden" style={{ top: i === 0 ? 0 : continuationMargin, height: page.end - page.start }}>
+            <div className="absolute left-0" style={{ top: -page.start, width }}>
+              {content}
+            </div>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default PaginatedPreview;
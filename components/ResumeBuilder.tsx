@@ -1,20 +1,49 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import ReactDOM from 'react-dom';
-import { GoogleGenerativeAI } from "@google/generative-ai";
 import { useLocation } from 'react-router-dom';
-import { verifyCredits, ToolAccessError } from '../lib/toolAccess';
-import { CREDIT_COSTS } from '../lib/pricing';
+import { ToolAccessError } from '../lib/toolAccess';
 import { useAuth } from '../lib/AuthContext';
-import { ResumeData, EducationItem, ExperienceItem, LanguageItem, CertificationItem } from '../types';
-import { calculateATSScore, METADATA_START_MARKER, METADATA_END_MARKER } from '../lib/atsScoring';
+import { ResumeData, EducationItem, ExperienceItem, LanguageItem, CertificationItem, CustomSection, VariantOverrides, DateFormat } from '../types';
+import { calculateATSScore } from '../lib/atsScoring';
+import { suggestFixes, ResumeFix } from '../lib/atsFixes';
+import { encodeMetadata, formatMetadataBlock } from '../lib/resumeMetadata';
+import { ACTIVE_RESUME_KEY, getResume, createResume, updateResume, ResumeServiceError } from '../lib/resumeService';
+import { resolveVariant } from '../lib/resumeVariants';
+import { fromJsonResume, toJsonResume, MappingWarning } from '../lib/jsonResume';
+import { buildDocx, DOCX_MIME_TYPE } from '../lib/docxExport';
+import { exportPdf } from '../lib/pdfExport';
+import { listTemplates, getTemplate, resolvePageFormat, DEFAULT_TEMPLATE_ID, PageFormat, TemplateSection, PAGE_DIMENSIONS, PAGE_FORMAT_KEY, pageWidthPx, pageHeightPx } from '../templates';
+import ResumeHistory from './ResumeHistory';
+import VariantEditor from './VariantEditor';
+import PaginatedPreview, { PreviewLayout } from './PaginatedPreview';
+import SectionManager from './SectionManager';
+import CustomSectionEditor from './CustomSectionEditor';
+import DateRangeInput from './DateRangeInput';
+import ATSFixes from './ATSFixes';
+import SummaryGenerator from './SummaryGenerator';
+import { SECTION_LABELS, CUSTOM_SECTION_TYPES, sectionTitle, getCustomSection, removeCustomSection } from '../lib/resumeSections';
+import { DATE_FORMATS, DEFAULT_DATE_FORMAT, TimelineIssue, withStructuredDates, analyzeTimeline, formatDate, formatDuration } from '../lib/dates';
+import { lintExperience } from '../lib/bulletLint';
+import { suggestBulletRewrites, mergeBulletRewrites, BULLET_STYLES, BulletStyle, BulletSuggestion, EnhanceContext } from '../lib/bulletEnhancer';
 
 // --- TYPES ---
 
 
 // Local types removed, using shared types from ../types.ts
 
-type TemplateType = 'classic' | 'modern' | 'creative' | 'academic';
+
+type SaveStatus = 'idle' | 'loading' | 'saving' | 'saved' | 'error';
+
+// Set when the active record is a job-targeted variant: data is derived from the master
+interface VariantState {
+  masterName: string;
+  master: ResumeData;
+  overrides: VariantOverrides;
+  jobDescription: string;
+}
+
+const AUTOSAVE_DELAY_MS = 1500;
 
 const INITIAL_DATA: ResumeData = {
   fullName: 'YOUR NAME',
@@ -26,7 +55,7 @@ const INITIAL_DATA: ResumeData = {
   website: 'yourwebsite.com',
   summary: 'Professional summary goes here. Describe your background, key achievements, and what you bring to the role.',
   education: [
-    { id: 1, degree: 'Degree / Major', school: 'University Name', year: 'Year', grade: 'GPA (Optional)' }
+    { id: 1, degree: 'Degree / Major', school: 'University Name', year: '2016 - 2020', startDate: { year: 2016 }, endDate: { year: 2020 }, grade: 'GPA (Optional)' }
   ],
   experience: [
     {
@@ -34,7 +63,9 @@ const INITIAL_DATA: ResumeData = {
       role: 'Job Title',
       company: 'Company Name',
       location: 'City, Country',
-      date: 'Date Period',
+      date: 'Jan 2021 - Present',
+      startDate: { year: 2021, month: 1 },
+      current: true,
       bullets: [
         'Describe your key responsibilities and achievements here.',
         'Use action verbs and quantify your results where possible.',
@@ -45,48 +76,84 @@ const INITIAL_DATA: ResumeData = {
   hardSkills: 'Skill 1, Skill 2, Skill 3, Skill 4, Skill 5',
   softSkills: 'Soft Skill 1, Soft Skill 2, Soft Skill 3',
   certifications: [
-    { id: 1, name: 'Certification Name', issuer: 'Issuer', date: 'Year' }
+    { id: 1, name: 'Certification Name', issuer: 'Issuer', date: '2022', startDate: { year: 2022 } }
   ],
   languages: [
     { id: 1, name: 'Language', level: 'Fluency Level' }
+  ],
+  customSections: [
+    {
+      id: 'custom-1',
+      type: 'projects',
+      title: 'Projects',
+      entries: [
+        { id: 1, title: 'Project Name', subtitle: 'Tech Stack', date: 'Year', url: '', bullets: ['What you built and the result it had.'] }
+      ]
+    }
   ]
 };
 
 const EMPTY_DATA: ResumeData = {
   fullName: '', targetRole: '', email: '', phone: '', location: '', linkedin: '', website: '', summary: '',
-  education: [], experience: [], hardSkills: '', softSkills: '', certifications: [], languages: []
+  education: [], experience: [], hardSkills: '', softSkills: '', certifications: [], languages: [], customSections: []
 };
 
 const PROFICIENCY_LEVELS = ['Native', 'Fluent', 'Professional', 'Conversational', 'Elementary'];
 
-// Helper for Metadata Injection
-const MetadataInjector = ({ data }: { data: ResumeData }) => {
-  // Base64 encode the data to avoid newlines/whitespace issues in PDF extraction
-  // Unicode-safe encoding: encodeURIComponent escapes non-ASCII chars, unescape keeps them byte-sized for btoa
-  const jsonString = JSON.stringify({ source: 'builder', version: '1.0', ...data });
-  const encoded = btoa(unescape(encodeURIComponent(jsonString)));
+// Normalizes saved/imported data from older shapes (description strings, comma-separated languages, etc.)
+const migrateResumeData = (parsed: any): ResumeData => {
+  // Free-text dates from before structured dates existed are parsed once; unreadable ones keep printing as typed
+  const migratedExperience = (parsed.experience || []).map((exp: any) => withStructuredDates({
+    ...exp,
+    location: exp.location || '',
+    bullets: exp.bullets || (exp.description ? exp.description.split('\n').filter((l: string) => l.trim()) : [''])
+  }, exp.date || ''));
+  const migratedEducation = (parsed.education || []).map((edu: any) => withStructuredDates(edu, edu.year || ''));
+  const migratedLanguages = Array.isArray(parsed.languages) && parsed.languages.length > 0 && typeof parsed.languages[0] === 'object'
+    ? parsed.languages
+    : typeof parsed.languages === 'string'
+      ? parsed.languages.split(',').map((l: string, i: number) => ({ id: Date.now() + i, name: l.trim(), level: 'Conversational' }))
+      : [];
+  const migratedCertifications = Array.isArray(parsed.certifications)
+    ? parsed.certifications.map((cert: any) => withStructuredDates(cert, cert.date || '', 'start'))
+    : typeof parsed.certifications === 'string' && parsed.certifications.length > 0
+      ? [{ id: Date.now(), name: parsed.certifications, issuer: '', date: '' }]
+      : [];
+
+  // Custom sections only exist if the user (or an import) created them - never fill in the example ones
+  const migratedCustomSections: CustomSection[] = (Array.isArray(parsed.customSections) ? parsed.customSections : [])
+    .filter((section: any) => section && typeof section.id === 'string' && CUSTOM_SECTION_TYPES[section.type as keyof typeof CUSTOM_SECTION_TYPES])
+    .map((section: any) => ({
+      ...section,
+      title: section.title || '',
+      entries: (Array.isArray(section.entries) ? section.entries : []).map((entry: any) => ({
+        title: '', subtitle: '', date: '', url: '', ...entry, bullets: Array.isArray(entry.bullets) ? entry.bullets : []
+      }))
+    }));
 
-  return (
-    <div
-      className="pdf-metadata"
-      style={{
-        opacity: 0.01,
-        height: '1px',
-        width: '1px',
-        overflow: 'hidden',
-        position: 'absolute',
-        whiteSpace: 'pre',
-        fontSize: '1px',
-        color: '#ffffff',
-        zIndex: -1,
-        pointerEvents: 'none'
-      }}
-    >
-      {METADATA_START_MARKER}
-      {encoded}
-      {METADATA_END_MARKER}
-    </div>
-  );
+  return {
+    ...JSON.parse(JSON.stringify(INITIAL_DATA)), ...parsed,
+    experience: migratedExperience, education: migratedEducation, languages: migratedLanguages, certifications: migratedCertifications,
+    customSections: migratedCustomSections
+  };
+};
+
+// Picker tooltip: the design plus any sections it leaves out, so users know why content isn't showing
+const templateHint = (description: string, sections: TemplateSection[]) => {
+  const missing = (Object.keys(SECTION_LABELS) as TemplateSection[]).filter(s => !sections.includes(s));
+  return missing.length > 0 ? `${description}. Not shown: ${missing.map(s => SECTION_LABELS[s]).join(', ')}` : description;
+};
+
+// "5 month gap between Acme and Globex (Feb 2021 - Jun 2021)"
+const describeTimelineIssue = (issue: TimelineIssue, experience: ExperienceItem[], format?: DateFormat) => {
+  const name = (id: number) => {
+    const exp = experience.find(e => e.id === id);
+    return exp?.company || exp?.role || 'an untitled role';
+  };
+  const period = `${formatDate(issue.from, format)} - ${issue.to ? formatDate(issue.to, format) : 'Present'}`;
+  if (issue.kind === 'overlap') return `${name(issue.ids[0])} and ${name(issue.ids[1])} overlap by ${formatDuration(issue.months)} (${period})`;
+  if (issue.ids.length === 1) return `${formatDuration(issue.months)} since ${name(issue.ids[0])} ended (${period})`;
+  return `${formatDuration(issue.months)} gap between ${name(issue.ids[0])} and ${name(issue.ids[1])} (${period})`;
 };
 
 const ResumeBuilder: React.FC = () => {
@@ -104,24 +171,7 @@ const ResumeBuilder: React.FC = () => {
           return clone(INITIAL_DATA);
         }
 
-        const migratedExperience = (parsed.experience || []).map((exp: any) => ({
-          ...exp,
-          location: exp.location || '',
-          bullets: exp.bullets || (exp.description ? exp.description.split('\n').filter((l: string) => l.trim()) : [''])
-        }));
-        const migratedLanguages = Array.isArray(parsed.languages) && parsed.languages.length > 0 && typeof parsed.languages[0] === 'object'
-          ? parsed.languages
-          : typeof parsed.languages === 'string'
-            ? parsed.languages.split(',').map((l: string, i: number) => ({ id: Date.now() + i, name: l.trim(), level: 'Conversational' }))
-            : [];
-
-        const migratedCertifications = Array.isArray(parsed.certifications)
-          ? parsed.certifications
-          : typeof parsed.certifications === 'string' && parsed.certifications.length > 0
-            ? [{ id: Date.now(), name: parsed.certifications, issuer: '', date: '' }]
-            : [];
-
-        return { ...clone(INITIAL_DATA), ...parsed, experience: migratedExperience, languages: migratedLanguages, certifications: migratedCertifications };
+        return migrateResumeData(parsed);
       }
     } catch (e) { console.error(e); }
     return clone(INITIAL_DATA);
@@ -129,14 +179,43 @@ const ResumeBuilder: React.FC = () => {
 
   const { user, session } = useAuth();
   const [loadingBullet, setLoadingBullet] = useState<{ expId: number, index: number } | null>(null);
+  // AI rewrites offered for one bullet; picked styles can be merged into a single bullet
+  const [bulletSuggestions, setBulletSuggestions] = useState<{ expId: number; index: number; bullet: string; suggestions: BulletSuggestion[]; picked: BulletStyle[] } | null>(null);
   const [activeSection, setActiveSection] = useState<string>('experience');
-  const [activeTemplate, setActiveTemplate] = useState<TemplateType>('modern');
+  const [activeTemplate, setActiveTemplate] = useState<string>(DEFAULT_TEMPLATE_ID);
+  const [preferredFormat, setPreferredFormat] = useState<PageFormat>(() =>
+    localStorage.getItem(PAGE_FORMAT_KEY) === 'letter' ? 'letter' : 'a4'
+  );
+  const template = getTemplate(activeTemplate);
+  const timelineIssues = analyzeTimeline(data.experience || []);
+  const bulletLints = lintExperience(data.experience || []);
+  const { atsResult, atsFixes } = useMemo(() => {
+    const result = calculateATSScore(data);
+    return { atsResult: result, atsFixes: suggestFixes(data, result) };
+  }, [data]);
+  const pageFormat = resolvePageFormat(template, preferredFormat);
+  const [fitToPage, setFitToPage] = useState(false);
+  const [previewLayout, setPreviewLayout] = useState<PreviewLayout>({ pageCount: 1, fitScale: 1 });
+  const [isExportingPdf, setIsExportingPdf] = useState(false);
   const previewRef = useRef<HTMLDivElement>(null);
   const [previewScale, setPreviewScale] = useState(1);
   const [isAutoFit, setIsAutoFit] = useState(true);
   const [viewMode, setViewMode] = useState<'editor' | 'preview'>('editor'); // For mobile
   const location = useLocation();
 
+  // Server-side record the builder is bound to (null = local-only draft)
+  const [activeResumeId, setActiveResumeId] = useState<string | null>(() =>
+    new URLSearchParams(window.location.search).get('resume') || localStorage.getItem(ACTIVE_RESUME_KEY)
+  );
+  const [resumeName, setResumeName] = useState('');
+  const [saveStatus, setSaveStatus] = useState<SaveStatus>('idle');
+  const [showHistory, setShowHistory] = useState(false);
+  const [variant, setVariant] = useState<VariantState | null>(null);
+  // Fixes applied from the ATS panel, kept so each can be undone on its own
+  const [appliedFixes, setAppliedFixes] = useState<ResumeFix[]>([]);
+  const skipNextAutosave = useRef(false);
+  const [metadataBlock, setMetadataBlock] = useState(() => formatMetadataBlock(encodeMetadata(data), null));
+
   const isFirstRender = useRef(true);
 
   // Write to localStorage on data change (skip first render to avoid overwriting imported data)
@@ -148,6 +227,87 @@ const ResumeBuilder: React.FC = () => {
     localStorage.setItem('nextstep_resume_data', JSON.stringify(data));
   }, [data]);
 
+  // Re-encode the hidden metadata on every change. The preview and browser print carry it unsigned;
+  // the server PDF renderer signs its own copy.
+  useEffect(() => {
+    setMetadataBlock(formatMetadataBlock(encodeMetadata(data), null));
+  }, [data]);
+
+  // Follow ?resume=<id> links from the My Resumes page
+  useEffect(() => {
+    const requestedId = new URLSearchParams(location.search).get('resume');
+    if (requestedId) setActiveResumeId(requestedId);
+  }, [location.search]);
+
+  useEffect(() => {
+    if (activeResumeId) localStorage.setItem(ACTIVE_RESUME_KEY, activeResumeId);
+    else localStorage.removeItem(ACTIVE_RESUME_KEY);
+    // Undo only makes sense on the resume the fixes were applied to
+    setAppliedFixes([]);
+    setBulletSuggestions(null);
+  }, [activeResumeId]);
+
+  // Load the selected record from the server
+  useEffect(() => {
+    if (!activeResumeId || !session?.access_token) return;
+    let cancelled = false;
+
+    setSaveStatus('loading');
+    getResume(activeResumeId, session.access_token)
+      .then(resume => {
+        if (cancelled) return;
+        skipNextAutosave.current = true;
+        if (resume.parent_id && resume.master) {
+          const master = migrateResumeData(resume.master.data);
+          const overrides = resume.overrides || {};
+          setVariant({ masterName: resume.master.name, master, overrides, jobDescription: resume.job_description || '' });
+          setData(resolveVariant(master, overrides));
+        } else {
+          setVariant(null);
+          setData(migrateResumeData(resume.data));
+        }
+        setResumeName(resume.name);
+        setSaveStatus('saved');
+      })
+      .catch((e: any) => {
+        if (cancelled) return;
+        console.error("Failed to load resume:", e);
+        if (e instanceof ResumeServiceError && e.status === 404) {
+          setActiveResumeId(null);
+          setSaveStatus('idle');
+        } else {
+          setSaveStatus('error');
+        }
+      });
+
+    return () => { cancelled = true; };
+  }, [activeResumeId, session?.access_token]);
+
+  // Debounced autosave to the selected record
+  useEffect(() => {
+    if (!activeResumeId || !session?.access_token || saveStatus === 'loading') return;
+    if (skipNextAutosave.current) {
+      skipNextAutosave.current = false;
+      return;
+    }
+
+    const timer = setTimeout(async () => {
+      setSaveStatus('saving');
+      try {
+        const updates = variant
+          ? { overrides: variant.overrides, jobDescription: variant.jobDescription }
+          : { data };
+        await updateResume(activeResumeId, updates, session.access_token);
+        setSaveStatus('saved');
+      } catch (e) {
+        console.error("Autosave failed:", e);
+        setSaveStatus('error');
+      }
+    }, AUTOSAVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [data, variant]);
+
   // Re-read localStorage on mount and on 'resumeImported' event to handle imported resumes
   useEffect(() => {
     const loadFromStorage = () => {
@@ -158,31 +318,24 @@ const ResumeBuilder: React.FC = () => {
           // Check if this is imported data (has 'source' field from parser/builder)
           if (parsed.source === 'parser' || parsed.source === 'builder') {
             console.log("Import detected, loading data:", parsed.fullName);
-            const migratedExperience = (parsed.experience || []).map((exp: any) => ({
-              ...exp,
-              location: exp.location || '',
-              bullets: exp.bullets || (exp.description ? exp.description.split('\n').filter((l: string) => l.trim()) : [''])
-            }));
-            const migratedLanguages = Array.isArray(parsed.languages) && parsed.languages.length > 0 && typeof parsed.languages[0] === 'object'
-              ? parsed.languages
-              : typeof parsed.languages === 'string'
-                ? parsed.languages.split(',').map((l: string, i: number) => ({ id: Date.now() + i, name: l.trim(), level: 'Conversational' }))
-                : [];
-            const migratedCertifications = Array.isArray(parsed.certifications)
-              ? parsed.certifications
-              : typeof parsed.certifications === 'string' && parsed.certifications.length > 0
-                ? [{ id: Date.now(), name: parsed.certifications, issuer: '', date: '' }]
-                : [];
-
-            setData({ ...clone(INITIAL_DATA), ...parsed, experience: migratedExperience, languages: migratedLanguages, certifications: migratedCertifications });
+            setData(migrateResumeData(parsed));
           }
         }
       } catch (e) { console.error("Failed to re-read localStorage:", e); }
     };
 
+    // An import replaces the builder contents, so stop syncing to the previously selected record
+    const handleImport = () => {
+      setActiveResumeId(null);
+      setVariant(null);
+      setResumeName('');
+      setSaveStatus('idle');
+      loadFromStorage();
+    };
+
     loadFromStorage();
-    window.addEventListener('resumeImported', loadFromStorage);
-    return () => window.removeEventListener('resumeImported', loadFromStorage);
+    window.addEventListener('resumeImported', handleImport);
+    return () => window.removeEventListener('resumeImported', handleImport);
   }, []);
 
   useEffect(() => {
@@ -191,7 +344,7 @@ const ResumeBuilder: React.FC = () => {
         const container = previewRef.current.parentElement;
         if (container) {
           const containerWidth = container.clientWidth - 32; // Responsive padding
-          const scale = containerWidth / 794;
+          const scale = containerWidth / pageWidthPx(pageFormat);
           setPreviewScale(Math.min(scale, 0.85));
         }
       }
@@ -199,7 +352,7 @@ const ResumeBuilder: React.FC = () => {
     handleResize();
     window.addEventListener('resize', handleResize);
     return () => window.removeEventListener('resize', handleResize);
-  }, [isAutoFit, viewMode]);
+  }, [isAutoFit, viewMode, pageFormat]);
 
   // AUTO-PRINT Logic for "Apply & Export" feature
   useEffect(() => {
@@ -214,44 +367,66 @@ const ResumeBuilder: React.FC = () => {
     }
   }, [location]);
 
+  const reportAIError = (e: any) => {
+    console.error("AI Enhancement Error:", e);
+    if (e instanceof ToolAccessError) {
+      alert(e.message);
+    } else {
+      alert(`AI enhancement failed: ${e.message || JSON.stringify(e)}`);
+    }
+  };
+
+  const enhanceContext = (exp: ExperienceItem): EnhanceContext | null => {
+    if (!session?.access_token) {
+      alert("Please sign in to use AI enhancement.");
+      return null;
+    }
+    return { targetRole: data.targetRole, role: exp, userId: user?.id || '', sessionToken: session.access_token };
+  };
+
   const enhanceBullet = async (expId: number, index: number) => {
-    const text = data.experience.find(e => e.id === expId)?.bullets[index];
-    if (!text) return;
+    const exp = data.experience.find(e => e.id === expId);
+    const text = exp?.bullets[index];
+    if (!exp || !text) return;
+    const context = enhanceContext(exp);
+    if (!context) return;
 
     setLoadingBullet({ expId, index });
     try {
-      await verifyCredits(session, CREDIT_COSTS.AI_BULLET_ENHANCE);
+      const suggestions = await suggestBulletRewrites(text, context);
+      setBulletSuggestions({ expId, index, bullet: text, suggestions, picked: [] });
+    } catch (e: any) {
+      reportAIError(e);
+    } finally { setLoadingBullet(null); }
+  };
 
-      const apiKey = import.meta.env.VITE_GEMINI_API_KEY;
-      if (!apiKey || apiKey === 'YOUR_GEMINI_API_KEY_HERE') {
-        alert("Please set your valid VITE_GEMINI_API_KEY in environment variables (.env file).");
-        setLoadingBullet(null);
-        return;
-      }
+  const applyBulletSuggestion = (text: string) => {
+    if (!bulletSuggestions) return;
+    updateBullet(bulletSuggestions.expId, bulletSuggestions.index, text);
+    setBulletSuggestions(null);
+  };
 
-      const genAI = new GoogleGenerativeAI(apiKey);
-      const model = genAI.getGenerativeModel({ model: 'gemini-2.5-flash' });
-      const result = await model.generateContent(`Rewrite this resume bullet point professionally using action verbs for a ${data.targetRole} position: "${text}"`);
-      const enhancedText = result.response.text().trim();
-      if (enhancedText) {
-        setData(prev => ({
-          ...prev,
-          experience: prev.experience.map(e => e.id === expId
-            ? { ...e, bullets: e.bullets.map((b, i) => i === index ? enhancedText : b) }
-            : e
-          )
-        }));
-      }
+  const mergeBulletSuggestions = async () => {
+    if (!bulletSuggestions) return;
+    const { expId, index, bullet, suggestions, picked } = bulletSuggestions;
+    const exp = data.experience.find(e => e.id === expId);
+    const context = exp && enhanceContext(exp);
+    if (!context) return;
+
+    setLoadingBullet({ expId, index });
+    try {
+      applyBulletSuggestion(await mergeBulletRewrites(bullet, suggestions.filter(s => picked.includes(s.style)), context));
     } catch (e: any) {
-      console.error("AI Enhancement Error:", e);
-      if (e instanceof ToolAccessError) {
-        alert(e.message);
-      } else {
-        alert(`AI enhancement failed: ${e.message || JSON.stringify(e)}`);
-      }
+      reportAIError(e);
     } finally { setLoadingBullet(null); }
   };
 
+  const toggleSuggestionPick = (style: BulletStyle) => {
+    if (!bulletSuggestions) return;
+    const { picked } = bulletSuggestions;
+    setBulletSuggestions({ ...bulletSuggestions, picked: picked.includes(style) ? picked.filter(p => p !== style) : [...picked, style] });
+  };
+
   const updateExperience = (id: number, field: keyof ExperienceItem, value: any) => {
     setData(prev => ({
       ...prev,
@@ -274,6 +449,7 @@ const ResumeBuilder: React.FC = () => {
   };
 
   const removeBullet = (expId: number, index: number) => {
+    setBulletSuggestions(null);
     setData(prev => ({
       ...prev,
       experience: prev.experience.map(e => e.id === expId ? { ...e, bullets: e.bullets.filter((_, i) => i !== index) } : e)
@@ -308,395 +484,133 @@ const ResumeBuilder: React.FC = () => {
     }));
   };
 
+  const updateCustomSection = (section: CustomSection) => {
+    setData(prev => ({
+      ...prev,
+      customSections: (prev.customSections || []).map(s => s.id === section.id ? section : s)
+    }));
+  };
+
+  const saveAsNewResume = async () => {
+    if (!session?.access_token) {
+      alert("Please sign in to save resumes to your account.");
+      return;
+    }
+    const name = prompt("Name this resume:", data.targetRole ? `${data.targetRole} Resume` : 'My Resume');
+    if (name === null) return;
+
+    setSaveStatus('saving');
+    try {
+      const created = await createResume(name.trim() || 'Untitled Resume', data, session.access_token);
+      setResumeName(created.name);
+      setActiveResumeId(created.id);
+    } catch (e: any) {
+      console.error("Save failed:", e);
+      setSaveStatus('error');
+      alert(`Could not save resume: ${e.message}`);
+    }
+  };
+
+  const updateVariant = (changes: Partial<VariantState>) => {
+    if (!variant) return;
+    const next = { ...variant, ...changes };
+    setVariant(next);
+    setData(resolveVariant(next.master, next.overrides));
+  };
+
+  const detachResume = () => {
+    setActiveResumeId(null);
+    setVariant(null);
+    setResumeName('');
+    setSaveStatus('idle');
+  };
+
   const clearData = () => { if (confirm("Clear all data?")) setData(clone(EMPTY_DATA)); };
   const loadExample = () => { setData(clone(INITIAL_DATA)); };
 
-  const handleDownload = () => {
-    window.print();
+  const downloadBlob = (blob: Blob, filename: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(url);
   };
 
-  // --- TEMPLATES ---
-
-  const ClassicTemplate = () => (
-    <div className="p-[20mm] text-slate-900 flex flex-col font-sans text-[11pt] bg-white h-full min-h-[290mm] relative">
-      <MetadataInjector data={data} />
-      <header className="border-b-2 border-slate-900 pb-4 md:pb-6 mb-6 md:mb-8 text-center">
-        <h1 className="text-4xl font-bold uppercase mb-2 tracking-tight">{data.fullName || 'YOUR NAME'}</h1>
-        <h2 className="text-lg font-bold text-brand-600 uppercase tracking-[0.2em]">{data.targetRole || 'TARGET ROLE'}</h2>
-        <div className="flex flex-wrap justify-center gap-x-6 gap-y-1 text-sm text-slate-500 mt-4 font-medium">
-          {data.phone && <span className="flex items-center gap-1"><i className="fas fa-phone text-[8px]"></i> {data.phone}</span>}
-          {data.email && <span className="flex items-center gap-1"><i className="fas fa-envelope text-[8px]"></i> {data.email}</span>}
-          {data.location && <span className="flex items-center gap-1"><i className="fas fa-map-marker-alt text-[8px]"></i> {data.location}</span>}
-        </div>
-      </header>
-
-      {/* Professional Summary - shows imported PDF text */}
-      {data.summary && (
-        <section className="mb-8">
-          <h3 className="text-[10pt] font-black uppercase border-b border-slate-900 pb-1 mb-4 tracking-widest">Professional Summary</h3>
-          <p className="text-sm text-slate-700 leading-relaxed whitespace-pre-line">{data.summary}</p>
-        </section>
-      )}
+  const exportBaseName = () => (data.fullName || 'resume').trim().replace(/\s+/g, '_');
 
-      <section className="mb-8">
-        <h3 className="text-[10pt] font-black uppercase border-b border-slate-900 pb-1 mb-6 tracking-widest">Experience</h3>
-        {data.experience?.map(exp => (
-          <div key={exp.id} className="mb-8 break-inside-avoid page-break-inside-avoid">
-            <div className="flex flex-row justify-between font-bold text-sm mb-1">
-              <span className="uppercase text-slate-900">{exp.role}</span>
-              <span className="text-slate-500">{exp.date}</span>
-            </div>
-            <div className="flex justify-between items-center mb-3">
-              <span className="text-sm text-brand-600 font-bold uppercase tracking-wider">{exp.company}</span>
-              <span className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">{exp.location}</span>
-            </div>
-            <ul className="list-disc pl-5 space-y-2">
-              {exp.bullets.filter(b => b.trim()).map((b, i) => (
-                <li key={i} className="text-sm text-slate-700 leading-snug">{b}</li>
-              ))}
-            </ul>
-          </div>
-        ))}
-      </section>
-
-      <div className="grid grid-cols-2 gap-12 mt-auto">
-        <section>
-          <h3 className="text-[10pt] font-black uppercase border-b border-slate-900 pb-1 mb-4 tracking-widest">Education</h3>
-          {data.education?.map(edu => (
-            <div key={edu.id} className="mb-3 break-inside-avoid page-break-inside-avoid">
-              <p className="font-bold text-sm">{edu.degree}</p>
-              <p className="text-sm text-slate-600">{edu.school} • {edu.year}</p>
-            </div>
-          ))}
-        </section>
-        {data.certifications && data.certifications.length > 0 && (
-          <section className="mb-8">
-            <h3 className="text-[10pt] font-black uppercase border-b border-slate-900 pb-1 mb-4 tracking-widest">Certifications</h3>
-            {data.certifications.map(cert => (
-              <div key={cert.id} className="mb-2 break-inside-avoid page-break-inside-avoid">
-                <p className="font-bold text-sm">{cert.name}</p>
-                <p className="text-sm text-slate-600">{cert.issuer} • {cert.date}</p>
-              </div>
-            ))}
-          </section>
-        )}
-        <section>
-          <h3 className="text-[10pt] font-black uppercase border-b border-slate-900 pb-1 mb-4 tracking-widest">Languages</h3>
-          <div className="space-y-1">
-            {data.languages.map(l => (
-              <p key={l.id} className="text-sm font-medium text-slate-700 break-inside-avoid page-break-inside-avoid">{l.name} — <span className="italic text-slate-400">{l.level}</span></p>
-            ))}
-          </div>
-        </section>
-      </div>
-    </div>
-  );
-
-  const ModernTemplate = () => (
-    <div className="flex flex-row bg-white h-full min-h-[290mm] font-sans relative">
-      <MetadataInjector data={data} />
-      <div className="w-[32%] bg-navy-950 p-10 text-white">
-        <div className="mb-12">
-          <h1 className="text-3xl font-black uppercase tracking-tighter leading-none mb-4">{data.fullName || 'NAME'}</h1>
-          <h2 className="text-[10px] font-bold text-brand-400 uppercase tracking-[0.3em]">{data.targetRole || 'ROLE'}</h2>
-        </div>
-        <div className="space-y-12">
-          <section className="break-inside-avoid page-break-inside-avoid">
-            <h3 className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-500 mb-6 border-b border-white/5 pb-2">Technical</h3>
-            <div className="flex flex-wrap gap-2">
-              {data.hardSkills.split(',').map((s, i) => (
-                <span key={i} className="text-[9px] bg-white/5 border border-white/10 px-2.5 py-1.5 rounded-md font-bold">{s.trim()}</span>
-              ))}
-            </div>
-          </section>
-          <section>
-            <h3 className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-500 mb-6 border-b border-white/5 pb-2">Languages</h3>
-            <div className="grid grid-cols-1 gap-4">
-              {data.languages.map(l => (
-                <div key={l.id}>
-                  <p className="text-xs font-bold text-white">{l.name}</p>
-                  <p className="text-[9px] text-slate-400 uppercase tracking-widest mt-0.5">{l.level}</p>
-                </div>
-              ))}
-            </div>
-          </section>
-        </div>
-      </div>
-      <div className="w-[68%] p-16">
-        {/* Professional Summary - shows imported PDF text */}
-        {data.summary && (
-          <section className="mb-12">
-            <h3 className="text-[11px] font-black uppercase tracking-[0.4em] text-slate-300 mb-6 flex items-center gap-4">
-              <span className="w-8 h-[2px] bg-brand-500"></span> Summary
-            </h3>
-            <p className="text-[13px] text-slate-600 leading-relaxed whitespace-pre-line">{data.summary}</p>
-          </section>
-        )}
-
-        <section className="mb-16">
-          <h3 className="text-[11px] font-black uppercase tracking-[0.4em] text-slate-300 mb-10 flex items-center gap-4">
-            <span className="w-8 h-[2px] bg-brand-500"></span> Experience
-          </h3>
-          <div className="space-y-12">
-            {data.experience?.map(exp => (
-              <div key={exp.id} className="relative pl-10 break-inside-avoid page-break-inside-avoid">
-                <div className="absolute left-0 top-1 w-3 h-3 bg-brand-500 rounded-full border-4 border-white shadow-lg z-10"></div>
-                <div className="absolute left-[5px] top-4 w-[2px] h-[calc(100%+3rem)] bg-slate-100 last:hidden"></div>
-
-                <div className="flex flex-row justify-between items-baseline mb-2">
-                  <span className="font-black text-lg text-navy-900 tracking-tight">{exp.role}</span>
-                  <span className="text-[10px] text-brand-500 font-black uppercase tracking-widest">{exp.date}</span>
-                </div>
-                <div className="flex flex-wrap items-center gap-3 mb-4">
-                  <span className="text-xs text-slate-400 font-bold uppercase tracking-wider">{exp.company}</span>
-                  <span className="block w-1 h-1 bg-slate-200 rounded-full"></span>
-                  <span className="text-xs text-slate-400 font-bold uppercase tracking-wider">{exp.location}</span>
-                </div>
-                <ul className="space-y-3">
-                  {exp.bullets.filter(b => b.trim()).map((b, i) => (
-                    <li key={i} className="text-[13px] text-slate-600 leading-relaxed relative flex gap-3">
-                      <span className="text-brand-500 mt-1.5">•</span> {b}
-                    </li>
-                  ))}
-                </ul>
-              </div>
-            ))}
-          </div>
-        </section>
-
-        {data.education && data.education.length > 0 && (
-          <section className="mb-16">
-            <h3 className="text-[11px] font-black uppercase tracking-[0.4em] text-slate-300 mb-10 flex items-center gap-4">
-              <span className="w-8 h-[2px] bg-brand-500"></span> Education
-            </h3>
-            <div className="space-y-8">
-              {data.education.map(edu => (
-                <div key={edu.id} className="relative pl-10 break-inside-avoid page-break-inside-avoid">
-                  <div className="absolute left-0 top-1 w-3 h-3 bg-slate-200 rounded-full border-4 border-white shadow-lg z-10"></div>
-                  <div className="absolute left-[5px] top-4 w-[2px] h-[calc(100%+3rem)] bg-slate-100 last:hidden"></div>
-
-                  <div className="flex flex-row justify-between items-baseline mb-1">
-                    <span className="font-black text-lg text-navy-900 tracking-tight">{edu.degree}</span>
-                    <span className="text-[10px] text-slate-400 font-black uppercase tracking-widest">{edu.year}</span>
-                  </div>
-                  <p className="text-xs text-brand-500 font-bold uppercase tracking-wider mb-1">{edu.school}</p>
-                  {edu.grade && <p className="text-[13px] text-slate-500">{edu.grade}</p>}
-                </div>
-              ))}
-            </div>
-          </section>
-        )}
-
-        {data.certifications && data.certifications.length > 0 && (
-          <section>
-            <h3 className="text-[11px] font-black uppercase tracking-[0.4em] text-slate-300 mb-10 flex items-center gap-4">
-              <span className="w-8 h-[2px] bg-brand-500"></span> Certifications
-            </h3>
-            <div className="grid grid-cols-2 gap-6">
-              {data.certifications.map(cert => (
-                <div key={cert.id} className="bg-slate-50 p-4 rounded-xl border border-slate-100 break-inside-avoid page-break-inside-avoid">
-                  <p className="font-black text-sm text-navy-900 mb-1">{cert.name}</p>
-                  <p className="text-xs text-slate-500 font-medium uppercase tracking-wider">{cert.issuer} • {cert.date}</p>
-                </div>
-              ))}
-            </div>
-          </section>
-        )}
-      </div>
-    </div>
-  );
+  const handleDownload = async () => {
+    setIsExportingPdf(true);
+    try {
+      const pdf = await exportPdf(data, template, pageFormat, previewLayout.fitScale);
+      downloadBlob(pdf, `${exportBaseName()}_${template.id}.pdf`);
+    } catch (err: any) {
+      // The browser print dialog still produces a usable PDF if the renderer is unavailable
+      console.error("Server PDF export failed, falling back to print:", err);
+      window.print();
+    } finally {
+      setIsExportingPdf(false);
+    }
+  };
 
-  const CreativeTemplate = () => (
-    <div className="bg-white h-full min-h-[290mm] font-sans text-slate-800 relative">
-      <MetadataInjector data={data} />
-      <header className="bg-gradient-to-br from-navy-900 to-navy-950 p-16 text-white text-center relative overflow-hidden">
-        <div className="absolute top-0 right-0 w-64 h-64 bg-brand-500/10 rounded-full -mr-32 -mt-32"></div>
-        <h1 className="text-6xl font-black uppercase tracking-tighter mb-4 relative z-10">{data.fullName || 'YOUR NAME'}</h1>
-        <h2 className="text-xl font-bold text-brand-400 uppercase tracking-[0.5em] relative z-10">{data.targetRole || 'TARGET ROLE'}</h2>
-      </header>
-      <div className="grid grid-cols-[320px_1fr]">
-        <aside className="bg-slate-50/50 p-12 border-r border-slate-100">
-          <section className="mb-12">
-            <h3 className="text-xs font-black text-navy-900 uppercase tracking-widest mb-6 border-b-2 border-brand-500/20 pb-2">Technical</h3>
-            <div className="flex flex-wrap gap-2">
-              {data.hardSkills.split(',').map((s, i) => (
-                <span key={i} className="bg-white text-navy-900 border border-slate-200 px-3 py-1.5 rounded-lg text-[10px] font-black uppercase shadow-sm">{s.trim()}</span>
-              ))}
-            </div>
+  const changePageFormat = (format: PageFormat) => {
+    setPreferredFormat(format);
+    localStorage.setItem(PAGE_FORMAT_KEY, format);
+  };
 
-            {data.education && data.education.length > 0 && (
-              <div className="mt-16">
-                <h3 className="text-2xl font-black text-navy-900 uppercase tracking-tighter mb-12 flex items-center gap-4">
-                  Education <span className="h-px flex-1 bg-slate-100"></span>
-                </h3>
-                <div className="space-y-10">
-                  {data.education.map(edu => (
-                    <div key={edu.id} className="break-inside-avoid page-break-inside-avoid">
-                      <div className="flex flex-row justify-between items-baseline mb-2">
-                        <h4 className="text-xl font-black text-navy-900 uppercase tracking-tight">{edu.degree}</h4>
-                        <span className="text-[10px] font-black text-slate-300 uppercase tracking-widest">{edu.year}</span>
-                      </div>
-                      <p className="text-xs font-black text-brand-600 uppercase tracking-widest">{edu.school}</p>
-                      {edu.grade && <p className="text-sm text-slate-500 mt-1">{edu.grade}</p>}
-                    </div>
-                  ))}
-                </div>
-              </div>
-            )}
+  const handleDocxExport = () => {
+    const bytes = buildDocx(data, template.docx, pageFormat);
+    downloadBlob(new Blob([bytes], { type: DOCX_MIME_TYPE }), `${exportBaseName()}_${template.id}.docx`);
+  };
 
-            {data.certifications && data.certifications.length > 0 && (
-              <div className="mt-16">
-                <h3 className="text-2xl font-black text-navy-900 uppercase tracking-tighter mb-12 flex items-center gap-4">
-                  Certifications <span className="h-px flex-1 bg-slate-100"></span>
-                </h3>
-                <div className="flex flex-wrap gap-6">
-                  {data.certifications.map(cert => (
-                    <div key={cert.id} className="relative pl-4 border-l-2 border-brand-500 break-inside-avoid page-break-inside-avoid">
-                      <p className="font-black text-base text-navy-900">{cert.name}</p>
-                      <p className="text-xs text-slate-400 font-bold uppercase tracking-widest">{cert.issuer}</p>
-                    </div>
-                  ))}
-                </div>
-              </div>
-            )}
-          </section>
-          <section>
-            <h3 className="text-xs font-black text-navy-900 uppercase tracking-widest mb-6 border-b-2 border-brand-500/20 pb-2">Fluent In</h3>
-            <div className="space-y-4">
-              {data.languages.map(l => (
-                <div key={l.id} className="flex justify-between items-center text-[11px] font-bold">
-                  <span className="text-navy-900">{l.name}</span>
-                  <span className="text-brand-500 uppercase tracking-widest">{l.level}</span>
-                </div>
-              ))}
-            </div>
-          </section>
-        </aside>
-        <main className="p-16">
-          <section>
-            <h3 className="text-2xl font-black text-navy-900 uppercase tracking-tighter mb-12 flex items-center gap-4">
-              Professional Story <span className="h-px flex-1 bg-slate-100"></span>
-            </h3>
-            <div className="space-y-16">
-              {data.experience?.map(exp => (
-                <div key={exp.id} className="relative group break-inside-avoid page-break-inside-avoid">
-                  <div className="mb-6">
-                    <div className="flex flex-row justify-between items-center mb-1">
-                      <h4 className="text-xl font-black text-navy-900 uppercase tracking-tight group-hover:text-brand-500 transition-colors">{exp.role}</h4>
-                      <span className="text-[10px] font-black text-slate-300 uppercase tracking-widest">{exp.date}</span>
-                    </div>
-                    <div className="flex items-center gap-3">
-                      <p className="text-xs font-black text-brand-600 uppercase tracking-widest">{exp.company}</p>
-                      <span className="w-1 h-1 bg-slate-200 rounded-full"></span>
-                      <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">{exp.location}</p>
-                    </div>
-                  </div>
-                  <ul className="space-y-3 mt-6 border-l-2 border-slate-50 pl-6">
-                    {exp.bullets.filter(b => b.trim()).map((b, i) => (
-                      <li key={i} className="text-[13px] text-slate-500 leading-relaxed font-medium">{b}</li>
-                    ))}
-                  </ul>
-                </div>
-              ))}
-            </div>
-          </section>
-        </main>
-      </div>
-    </div>
-  );
+  const formatWarnings = (warnings: MappingWarning[]) =>
+    warnings.map(w => `• ${w.path}: ${w.message}`).join('\n');
 
-  const AcademicTemplate = () => (
-    <div className="p-[25mm] bg-white h-full min-h-[290mm] font-serif text-slate-900 relative">
-      <MetadataInjector data={data} />
-      <header className="text-center mb-16">
-        <h1 className="text-4xl font-bold mb-4 tracking-tight">{data.fullName || 'YOUR NAME'}</h1>
-        <div className="flex flex-wrap justify-center gap-8 text-sm italic text-slate-400">
-          {data.email && <span>{data.email}</span>}
-          <span className="inline">•</span>
-          {data.phone && <span>{data.phone}</span>}
-          <span className="inline">•</span>
-          {data.location && <span>{data.location}</span>}
-        </div>
-      </header>
-
-      {data.education && data.education.length > 0 && (
-        <section className="mb-12">
-          <h3 className="text-base font-bold uppercase tracking-[0.3em] text-slate-300 mb-8 border-b border-slate-100 pb-2">Education</h3>
-          {data.education.map(edu => (
-            <div key={edu.id} className="mb-6 break-inside-avoid page-break-inside-avoid">
-              <div className="flex flex-row justify-between font-bold text-lg mb-1">
-                <span>{edu.degree}</span>
-                <span className="text-slate-400 font-normal italic text-sm">{edu.year}</span>
-              </div>
+  const handleJsonResumeImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
 
-              <div className="flex justify-between items-center text-sm text-slate-600">
-                <span className="italic">{edu.school}</span>
-                {edu.grade && <span className="text-slate-500">{edu.grade}</span>}
-              </div>
-            </div>
-          ))}
-        </section>
-      )
+    try {
+      const { data: imported, warnings } = fromJsonResume(JSON.parse(await file.text()));
+      // Same rule as the ATS import: imported content becomes a local draft, not an edit of the open record
+      detachResume();
+      setData(migrateResumeData(imported));
+      if (warnings.length > 0) {
+        alert(`Imported with ${warnings.length} field(s) that could not be mapped:\n\n${formatWarnings(warnings)}`);
       }
+    } catch (err: any) {
+      console.error("JSON Resume import failed:", err);
+      alert(`Could not import this file: ${err.message}`);
+    }
+  };
 
-      <section className="mb-12">
-        <h3 className="text-base font-bold uppercase tracking-[0.3em] text-slate-300 mb-8 border-b border-slate-100 pb-2">Experience</h3>
-        {data.experience?.map(exp => (
-          <div key={exp.id} className="mb-10 break-inside-avoid page-break-inside-avoid">
-            <div className="flex flex-row justify-between font-bold text-lg mb-1">
-              <span>{exp.role}</span>
-              <span className="text-slate-400 font-normal italic text-sm">{exp.date}</span>
-            </div>
-            <div className="flex justify-between items-center mb-4 text-sm text-slate-600">
-              <span className="italic">{exp.company}</span>
-              <span className="uppercase tracking-widest text-[10px]">{exp.location}</span>
-            </div>
-            <ul className="list-disc pl-8 space-y-2">
-              {exp.bullets.filter(b => b.trim()).map((b, i) => (
-                <li key={i} className="text-[11pt] leading-relaxed text-slate-700">{b}</li>
-              ))}
-            </ul>
-          </div>
-        ))}
-      </section>
-      {
-        data.certifications && data.certifications.length > 0 && (
-          <section className="mb-12 break-inside-avoid page-break-inside-avoid">
-            <h3 className="text-base font-bold uppercase tracking-[0.3em] text-slate-300 mb-8 border-b border-slate-100 pb-2">Certifications</h3>
-            <div className="grid grid-cols-2 gap-4">
-              {data.certifications.map(cert => (
-                <div key={cert.id}>
-                  <p className="text-[11pt] font-bold text-slate-900">{cert.name}</p>
-                  <p className="text-[10pt] italic text-slate-600">{cert.issuer} ({cert.date})</p>
-                </div>
-              ))}
-            </div>
-          </section>
-        )
-      }
-      <section className="break-inside-avoid page-break-inside-avoid">
-        <h3 className="text-base font-bold uppercase tracking-[0.3em] text-slate-300 mb-8 border-b border-slate-100 pb-2">Languages</h3>
-        <div className="grid grid-cols-3 gap-8">
-          {data.languages.map(l => (
-            <div key={l.id}>
-              <p className="text-[11pt] font-bold text-slate-900">{l.name}</p>
-              <p className="text-[10pt] italic text-slate-500">{l.level}</p>
-            </div>
-          ))}
-        </div>
-      </section>
-    </div >
-  );
+  const handleJsonResumeExport = () => {
+    const { resume, warnings } = toJsonResume(data);
+    downloadBlob(new Blob([JSON.stringify(resume, null, 2)], { type: 'application/json' }), `${exportBaseName()}.resume.json`);
 
+    if (warnings.length > 0) {
+      alert(`Exported. Some fields could not be mapped to JSON Resume:\n\n${formatWarnings(warnings)}`);
+    }
+  };
 
+  const page = PAGE_DIMENSIONS[pageFormat];
+  const TemplateLayout = template.render;
 
   // Always render the print portal (hidden by default via CSS)
+  // The inline stylesheet overrides the A4 defaults in index.html with the template's page behaviour
   const printContent = (
-    <div className="bg-white printable-content" style={{ width: '210mm', minHeight: '297mm', height: 'auto', margin: '0 auto', boxSizing: 'border-box', overflow: 'hidden' }}>
-      {activeTemplate === 'classic' && <ClassicTemplate />}
-      {activeTemplate === 'modern' && <ModernTemplate />}
-      {activeTemplate === 'creative' && <CreativeTemplate />}
-      {activeTemplate === 'academic' && <AcademicTemplate />}
+    <div className="bg-white printable-content" style={{ width: `${page.widthMm}mm`, minHeight: `${page.heightMm}mm`, height: 'auto', margin: '0 auto', boxSizing: 'border-box', overflow: 'hidden' }}>
+      <style>{`@media print {
+        @page { size: ${page.cssSize}; margin: ${template.page.continuationMarginMm}mm 0 0 0; }
+        @page :first { margin: 0; }
+        .printable-content { width: ${page.widthMm}mm !important; min-height: ${page.heightMm}mm !important; }
+      }`}</style>
+      {previewLayout.fitScale === 1
+        ? <TemplateLayout data={data} format={pageFormat} metadataBlock={metadataBlock} />
+        : <div style={{ zoom: previewLayout.fitScale, width: `${100 / previewLayout.fitScale}%` }}>
+          <TemplateLayout data={data} format={pageFormat} metadataBlock={metadataBlock} />
+        </div>}
     </div>
   );
 
@@ -730,19 +644,74 @@ const ResumeBuilder: React.FC = () => {
         <div className="flex flex-col xl:flex-row gap-8 md:gap-12">
           {/* EDITOR PANEL */}
           <div className={`w-full xl:w-[500px] space-y-4 print:hidden shrink-0 h-fit xl:sticky xl:top-24 max-h-[calc(100vh-120px)] overflow-y-auto pr-2 md:pr-4 custom-scrollbar ${viewMode === 'preview' ? 'hidden md:block' : 'block'}`}>
-            <div className="flex gap-3 md:gap-4 mb-4 md:mb-6">
+            <div className="flex items-center justify-between gap-3 p-4 bg-white dark:bg-navy-900 border border-slate-200 dark:border-white/10 rounded-xl md:rounded-2xl">
+              <div className="min-w-0">
+                <p className="text-[9px] font-black uppercase tracking-widest text-slate-400">{activeResumeId ? (variant ? 'Editing Variant' : 'Editing') : 'Local Draft'}</p>
+                <p className="text-xs md:text-sm font-black text-navy-900 dark:text-white truncate">{activeResumeId ? (resumeName || 'Untitled Resume') : 'Not saved to your account'}</p>
+                {activeResumeId && (
+                  <p className={`text-[9px] font-bold uppercase tracking-widest ${saveStatus === 'error' ? 'text-red-500' : 'text-slate-400'}`}>
+                    {saveStatus === 'loading' && 'Loading...'}
+                    {saveStatus === 'saving' && 'Saving...'}
+                    {saveStatus === 'saved' && <><i className="fas fa-check mr-1"></i>All changes saved</>}
+                    {saveStatus === 'error' && 'Sync failed - changes kept locally'}
+                  </p>
+                )}
+              </div>
+              <div className="flex gap-2 shrink-0">
+                {activeResumeId && !variant && (
+                  <button onClick={() => setShowHistory(true)} className="px-3 py-2 border border-slate-200 dark:border-white/10 text-[9px] font-black uppercase tracking-widest text-navy-900 dark:text-white rounded-lg hover:shadow-md transition-all"><i className="fas fa-clock-rotate-left mr-1"></i> History</button>
+                )}
+                {activeResumeId ? (
+                  <button onClick={detachResume} className="px-3 py-2 text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-navy-900 dark:hover:text-white rounded-lg">Close</button>
+                ) : (
+                  <button onClick={saveAsNewResume} className="px-3 py-2 bg-brand-500 text-white text-[9px] font-black uppercase tracking-widest rounded-lg hover:bg-brand-600 transition-all"><i className="fas fa-cloud-upload-alt mr-1"></i> Save</button>
+                )}
+                <a href="/resumes" className="px-3 py-2 border border-slate-200 dark:border-white/10 text-[9px] font-black uppercase tracking-widest text-navy-900 dark:text-white rounded-lg hover:shadow-md transition-all">My Resumes</a>
+              </div>
+            </div>
+
+            {variant && (
+              <VariantEditor
+                master={variant.master}
+                masterName={variant.masterName}
+                overrides={variant.overrides}
+                jobDescription={variant.jobDescription}
+                onOverridesChange={overrides => updateVariant({ overrides })}
+                onJobDescriptionChange={jobDescription => updateVariant({ jobDescription })}
+              />
+            )}
+
+            {!variant && <div className="flex gap-3 md:gap-4 mb-4 md:mb-6">
               <button onClick={loadExample} className="flex-1 py-3 md:py-4 bg-white dark:bg-navy-900 border border-slate-200 dark:border-white/10 text-[9px] md:text-xs font-black uppercase tracking-widest text-navy-900 dark:text-white rounded-xl md:rounded-2xl hover:shadow-lg transition-all">Example</button>
               <button onClick={clearData} className="flex-1 py-3 md:py-4 bg-white dark:bg-navy-900 border border-slate-200 dark:border-white/10 text-[9px] md:text-xs font-black uppercase tracking-widest text-red-500 rounded-xl md:rounded-2xl hover:bg-red-50 transition-all">Clear</button>
-            </div>
+              <label className="flex-1 py-3 md:py-4 bg-white dark:bg-navy-900 border border-slate-200 dark:border-white/10 text-[9px] md:text-xs font-black uppercase tracking-widest text-navy-900 dark:text-white rounded-xl md:rounded-2xl hover:shadow-lg transition-all text-center cursor-pointer" title="Import a JSON Resume (jsonresume.org) file">
+                <i className="fas fa-file-import mr-1"></i> JSON
+                <input type="file" accept=".json,application/json" onChange={handleJsonResumeImport} className="hidden" />
+              </label>
+            </div>}
+
+            {!variant && (atsFixes.length > 0 || appliedFixes.length > 0) && (
+              <div className="bg-white dark:bg-navy-900 rounded-[1.5rem] md:rounded-[2rem] shadow-xl border border-slate-200 dark:border-white/10 p-5 md:p-6 space-y-3">
+                <p className="text-[10px] font-black uppercase tracking-widest text-slate-400"><i className="fas fa-wand-magic-sparkles mr-2 text-brand-500"></i>ATS Fixes</p>
+                <ATSFixes
+                  fixes={atsFixes}
+                  applied={appliedFixes}
+                  onApply={fix => { setData(d => fix.apply(d)); setAppliedFixes([...appliedFixes, fix]); }}
+                  onUndo={fix => { setData(d => fix.revert(d)); setAppliedFixes(appliedFixes.filter(f => f.id !== fix.id)); }}
+                />
+              </div>
+            )}
 
-            <div className="bg-white dark:bg-navy-900 rounded-[1.5rem] md:rounded-[2rem] shadow-xl border border-slate-200 dark:border-white/10 overflow-hidden">
+            {!variant && <div className="bg-white dark:bg-navy-900 rounded-[1.5rem] md:rounded-[2rem] shadow-xl border border-slate-200 dark:border-white/10 overflow-hidden">
               {[
                 { id: 'contact', title: '1. Identity & Contact', icon: 'fa-user' },
                 { id: 'experience', title: '2. Professional History', icon: 'fa-briefcase' },
                 { id: 'education', title: '3. Education', icon: 'fa-graduation-cap' },
                 { id: 'certifications', title: '4. Certifications', icon: 'fa-certificate' },
                 { id: 'languages', title: '5. Languages', icon: 'fa-language' },
-                { id: 'skills', title: '6. Skills & Expertise', icon: 'fa-bolt' }
+                { id: 'skills', title: '6. Skills & Expertise', icon: 'fa-bolt' },
+                ...(data.customSections || []).map((custom, i) => ({ id: custom.id, title: `${7 + i}. ${sectionTitle(data, custom.id)}`, icon: CUSTOM_SECTION_TYPES[custom.type].icon })),
+                { id: 'layout', title: 'Sections & Order', icon: 'fa-layer-group' }
               ].map((section) => (
                 <div key={section.id} className="border-b border-slate-100 dark:border-white/5 last:border-0">
                   <button
@@ -767,11 +736,19 @@ const ResumeBuilder: React.FC = () => {
                             <input placeholder="Phone" value={data.phone} onChange={e => setData(d => ({ ...d, phone: e.target.value }))} className="w-full p-3 md:p-4 border dark:border-white/10 rounded-xl text-xs md:text-sm bg-slate-50 dark:bg-navy-950/50 text-navy-900 dark:text-white outline-none" />
                           </div>
                           <input placeholder="Location" value={data.location} onChange={e => setData(d => ({ ...d, location: e.target.value }))} className="w-full p-3 md:p-4 border dark:border-white/10 rounded-xl text-xs md:text-sm bg-slate-50 dark:bg-navy-950/50 text-navy-900 dark:text-white outline-none" />
+                          <textarea placeholder="Professional Summary" value={data.summary} onChange={e => setData(d => ({ ...d, summary: e.target.value }))} className="w-full p-3 md:p-4 border dark:border-white/10 rounded-xl text-xs md:text-sm h-28 md:h-32 bg-slate-50 dark:bg-navy-950/50 text-navy-900 dark:text-white outline-none resize-none" />
+                          <SummaryGenerator data={data} onApply={summary => setData(d => ({ ...d, summary }))} />
                         </div>
                       )}
 
                       {section.id === 'experience' && (
                         <div className="space-y-6 md:space-y-8">
+                          {timelineIssues.length > 0 && (
+                            <div className="p-4 rounded-xl border border-amber-200 dark:border-amber-500/20 bg-amber-50 dark:bg-amber-500/5 space-y-1">
+                              <p className="text-[9px] font-black uppercase tracking-widest text-amber-600">Timeline</p>
+                              {timelineIssues.map((issue, i) => <p key={i} className="text-[10px] md:text-xs text-amber-700 dark:text-amber-400">{describeTimelineIssue(issue, data.experience, data.dateFormat)}</p>)}
+                            </div>
+                          )}
                           {data.experience?.map((exp, i) => (
                             <div key={exp.id} className="p-4 md:p-6 border rounded-[1.5rem] md:rounded-[2rem] bg-slate-50/50 dark:bg-navy-950/50 relative group border-slate-200 dark:border-white/10 shadow-sm transition-all hover:shadow-md">
                               <button onClick={() => setData(d => ({ ...d, experience: d.experience.filter(e => e.id !== exp.id) }))} className="absolute -top-2 -right-2 bg-red-500 text-white w-7 h-7 rounded-full text-[10px] shadow-xl md:opacity-0 md:group-hover:opacity-100 transition-all flex items-center justify-center z-20"><i className="fas fa-trash"></i></button>
@@ -782,7 +759,9 @@ const ResumeBuilder: React.FC = () => {
                                 <input placeholder="Company" className="w-full p-3 border dark:border-white/10 rounded-xl text-[10px] md:text-xs bg-white dark:bg-navy-950 text-navy-900 dark:text-white outline-none" value={exp.company} onChange={e => updateExperience(exp.id, 'company', e.target.value)} />
                                 <input placeholder="Location" className="w-full p-3 border dark:border-white/10 rounded-xl text-[10px] md:text-xs bg-white dark:bg-navy-950 text-navy-900 dark:text-white outline-none" value={exp.location} onChange={e => updateExperience(exp.id, 'location', e.target.value)} />
                               </div>
-                              <input placeholder="Dates" className="w-full p-3 mb-4 md:mb-6 border dark:border-white/10 rounded-xl text-[10px] md:text-xs bg-white dark:bg-navy-950 text-navy-900 dark:text-white outline-none" value={exp.date} onChange={e => updateExperience(exp.id, 'date', e.target.value)} />
+                              <div className="mb-4 md:mb-6">
+                                <DateRangeInput value={exp} text={exp.date} currentLabel="I currently work here" onChange={(dates, text) => setData(d => ({ ...d, experience: d.experience.map(e => e.id === exp.id ? { ...e, ...dates, date: text } : e) }))} />
+                              </div>
 
                               <div className="space-y-3">
                                 {exp.bullets.map((bullet, bIdx) => (
@@ -793,6 +772,42 @@ const ResumeBuilder: React.FC = () => {
                                         <button onClick={() => enhanceBullet(exp.id, bIdx)} disabled={loadingBullet?.expId === exp.id && loadingBullet?.index === bIdx} className="w-5 h-5 md:w-6 md:h-6 bg-brand-500 text-white rounded-md md:rounded-lg flex items-center justify-center"><i className={`fas ${loadingBullet?.expId === exp.id && loadingBullet?.index === bIdx ? 'fa-spinner fa-spin' : 'fa-magic'} text-[7px] md:text-[8px]`}></i></button>
                                         <button onClick={() => removeBullet(exp.id, bIdx)} className="w-5 h-5 md:w-6 md:h-6 bg-red-500/10 text-red-500 rounded-md md:rounded-lg flex items-center justify-center"><i className="fas fa-times text-[7px] md:text-[8px]"></i></button>
                                       </div>
+                                      {(bulletLints[exp.id]?.[bIdx] || []).length > 0 && (
+                                        <ul className="mt-1 space-y-0.5">
+                                          {bulletLints[exp.id][bIdx].map(lint => (
+                                            <li key={lint.rule} className={`flex items-start gap-1.5 text-[9px] md:text-[10px] ${lint.severity === 'warning' ? 'text-amber-600 dark:text-amber-400' : 'text-slate-400'}`}>
+                                              <i className={`fas ${lint.severity === 'warning' ? 'fa-triangle-exclamation' : 'fa-circle-info'} mt-0.5`}></i>
+                                              <span className="flex-1">{lint.message}</span>
+                                              {lint.suggestion && (
+                                                <button onClick={() => updateBullet(exp.id, bIdx, lint.suggestion!)} title={lint.suggestion} className="shrink-0 font-black uppercase tracking-widest text-brand-500 hover:text-brand-600">Fix</button>
+                                              )}
+                                            </li>
+                                          ))}
+                                        </ul>
+                                      )}
+                                      {bulletSuggestions?.expId === exp.id && bulletSuggestions.index === bIdx && (
+                                        <div className="mt-2 p-3 rounded-xl border border-brand-500/20 bg-brand-500/5 space-y-2">
+                                          <div className="flex items-center justify-between">
+                                            <p className="text-[8px] md:text-[9px] font-black text-brand-500 uppercase tracking-widest">AI rewrites • pick one or merge</p>
+                                            <button onClick={() => setBulletSuggestions(null)} className="text-[10px] text-slate-400 hover:text-navy-900 dark:hover:text-white"><i className="fas fa-times"></i></button>
+                                          </div>
+                                          {bulletSuggestions.suggestions.map(suggestion => (
+                                            <div key={suggestion.style} className="flex items-start gap-2 text-[10px] md:text-xs">
+                                              <input type="checkbox" className="mt-1" checked={bulletSuggestions.picked.includes(suggestion.style)} onChange={() => toggleSuggestionPick(suggestion.style)} />
+                                              <div className="flex-1 min-w-0">
+                                                <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest">{BULLET_STYLES.find(s => s.id === suggestion.style)?.label}</p>
+                                                <p className="text-navy-900 dark:text-slate-200">{suggestion.text}</p>
+                                              </div>
+                                              <button onClick={() => applyBulletSuggestion(suggestion.text)} className="shrink-0 text-[9px] font-black uppercase tracking-widest text-brand-500 hover:text-brand-600">Use</button>
+                                            </div>
+                                          ))}
+                                          {bulletSuggestions.picked.length > 1 && (
+                                            <button onClick={mergeBulletSuggestions} disabled={!!loadingBullet} className="w-full py-2 rounded-lg bg-brand-500 text-white text-[8px] md:text-[9px] font-black uppercase tracking-widest disabled:opacity-50">
+                                              <i className={`fas ${loadingBullet ? 'fa-spinner fa-spin' : 'fa-object-group'} mr-1`}></i> Merge {bulletSuggestions.picked.length} selected
+                                            </button>
+                                          )}
+                                        </div>
+                                      )}
                                     </div>
                                   </div>
                                 ))}
@@ -812,9 +827,9 @@ const ResumeBuilder: React.FC = () => {
 
                               <input placeholder="Degree" className="w-full p-3 mb-3 md:mb-4 border dark:border-white/10 rounded-xl text-xs md:text-sm font-black bg-white dark:bg-navy-950 text-navy-900 dark:text-white outline-none" value={edu.degree} onChange={e => updateEducation(edu.id, 'degree', e.target.value)} />
 
-                              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 md:gap-4 mb-3 md:mb-4">
-                                <input placeholder="School / University" className="w-full p-3 border dark:border-white/10 rounded-xl text-[10px] md:text-xs bg-white dark:bg-navy-950 text-navy-900 dark:text-white outline-none" value={edu.school} onChange={e => updateEducation(edu.id, 'school', e.target.value)} />
-                                <input placeholder="Year" className="w-full p-3 border dark:border-white/10 rounded-xl text-[10px] md:text-xs bg-white dark:bg-navy-950 text-navy-900 dark:text-white outline-none" value={edu.year} onChange={e => updateEducation(edu.id, 'year', e.target.value)} />
+                              <input placeholder="School / University" className="w-full p-3 mb-3 md:mb-4 border dark:border-white/10 rounded-xl text-[10px] md:text-xs bg-white dark:bg-navy-950 text-navy-900 dark:text-white outline-none" value={edu.school} onChange={e => updateEducation(edu.id, 'school', e.target.value)} />
+                              <div className="mb-3 md:mb-4">
+                                <DateRangeInput value={edu} text={edu.year} endLabel="Graduated" currentLabel="I'm still studying here" onChange={(dates, text) => setData(d => ({ ...d, education: d.education.map(e => e.id === edu.id ? { ...e, ...dates, year: text } : e) }))} />
                               </div>
                               <input placeholder="Grade / GPA (Optional)" className="w-full p-3 border dark:border-white/10 rounded-xl text-[10px] md:text-xs bg-white dark:bg-navy-950 text-navy-900 dark:text-white outline-none" value={edu.grade} onChange={e => updateEducation(edu.id, 'grade', e.target.value)} />
                             </div>
@@ -831,10 +846,8 @@ const ResumeBuilder: React.FC = () => {
 
                               <input placeholder="Certification Name" className="w-full p-3 mb-3 md:mb-4 border dark:border-white/10 rounded-xl text-xs md:text-sm font-black bg-white dark:bg-navy-950 text-navy-900 dark:text-white outline-none" value={cert.name} onChange={e => updateCertification(cert.id, 'name', e.target.value)} />
 
-                              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3 md:gap-4">
-                                <input placeholder="Issuer" className="w-full p-3 border dark:border-white/10 rounded-xl text-[10px] md:text-xs bg-white dark:bg-navy-950 text-navy-900 dark:text-white outline-none" value={cert.issuer} onChange={e => updateCertification(cert.id, 'issuer', e.target.value)} />
-                                <input placeholder="Date" className="w-full p-3 border dark:border-white/10 rounded-xl text-[10px] md:text-xs bg-white dark:bg-navy-950 text-navy-900 dark:text-white outline-none" value={cert.date} onChange={e => updateCertification(cert.id, 'date', e.target.value)} />
-                              </div>
+                              <input placeholder="Issuer" className="w-full p-3 mb-3 md:mb-4 border dark:border-white/10 rounded-xl text-[10px] md:text-xs bg-white dark:bg-navy-950 text-navy-900 dark:text-white outline-none" value={cert.issuer} onChange={e => updateCertification(cert.id, 'issuer', e.target.value)} />
+                              <DateRangeInput value={cert} text={cert.date} startLabel="Issued" endLabel="Expires (Optional)" onChange={(dates, text) => setData(d => ({ ...d, certifications: d.certifications.map(c => c.id === cert.id ? { ...c, ...dates, date: text } : c) }))} />
                             </div>
                           ))}
                           <button onClick={() => setData(d => ({ ...d, certifications: [...(d.certifications || []), { id: Date.now(), name: '', issuer: '', date: '' }] }))} className="w-full py-5 md:py-6 border-2 border-dashed border-slate-300 dark:border-white/10 text-slate-400 font-black text-[10px] md:text-xs rounded-[1.5rem] md:rounded-[2rem] hover:border-brand-500 transition-all uppercase tracking-widest">+ Add Certification</button>
@@ -861,11 +874,37 @@ const ResumeBuilder: React.FC = () => {
                           <textarea placeholder="Technical Core Skills (comma separated)" value={data.hardSkills} onChange={e => setData(d => ({ ...d, hardSkills: e.target.value }))} className="w-full p-3 md:p-4 border dark:border-white/10 rounded-xl text-xs md:text-sm h-32 md:h-40 bg-slate-50 dark:bg-navy-950/50 text-navy-900 dark:text-white outline-none resize-none" />
                         </div>
                       )}
+
+                      {getCustomSection(data, section.id) && (
+                        <CustomSectionEditor
+                          section={getCustomSection(data, section.id)!}
+                          onChange={updateCustomSection}
+                          onRemove={() => setData(d => removeCustomSection(d, section.id))}
+                        />
+                      )}
+
+                      {section.id === 'layout' && (
+                        <>
+                          <SectionManager data={data} template={template} onChange={setData} onSectionAdded={setActiveSection} />
+                          <div className="pt-4 md:pt-6 border-t border-slate-100 dark:border-white/5 space-y-3">
+                            <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">Dates</p>
+                            <div className="grid grid-cols-4 gap-2">
+                              {DATE_FORMATS.map(f => (
+                                <button key={f.id} onClick={() => setData(d => ({ ...d, dateFormat: f.id }))} className={`py-2 rounded-lg text-[9px] md:text-[10px] font-black border transition-all ${(data.dateFormat || DEFAULT_DATE_FORMAT) === f.id ? 'border-brand-500 text-brand-500 bg-brand-500/5' : 'border-slate-200 dark:border-white/10 text-slate-400'}`}>{f.label}</button>
+                              ))}
+                            </div>
+                            <label className="flex items-center gap-2 text-[10px] md:text-xs font-bold text-slate-500 cursor-pointer">
+                              <input type="checkbox" checked={data.entryOrder !== 'manual'} onChange={e => setData(d => ({ ...d, entryOrder: e.target.checked ? 'chronological' : 'manual' }))} />
+                              List experience, education and certifications newest first
+                            </label>
+                          </div>
+                        </>
+                      )}
                     </div>
                   )}
                 </div>
               ))}
-            </div>
+            </div>}
           </div>
 
           {/* PREVIEW PANEL */}
@@ -874,39 +913,76 @@ const ResumeBuilder: React.FC = () => {
               <div className="flex items-center gap-4">
                 <div className="hidden md:flex items-center gap-2 bg-white dark:bg-navy-950 px-4 py-2 rounded-xl shadow-sm border border-slate-200 dark:border-white/10">
                   <span className="text-[10px] font-black uppercase text-slate-400 tracking-widest">Live ATS Score:</span>
-                  <span className={`text-lg font-black ${calculateATSScore(data).overallScore >= 90 ? 'text-green-500' : 'text-amber-500'}`}>
-                    {calculateATSScore(data).overallScore}
+                  <span className={`text-lg font-black ${atsResult.overallScore >= 90 ? 'text-green-500' : 'text-amber-500'}`}>
+                    {atsResult.overallScore}
                   </span>
                 </div>
+                <div className="hidden md:flex items-center gap-2 bg-white dark:bg-navy-950 px-3 py-2 rounded-xl shadow-sm border border-slate-200 dark:border-white/10">
+                  <span
+                    className={`text-[10px] font-black uppercase tracking-widest whitespace-nowrap ${previewLayout.pageCount > 1 ? 'text-amber-500' : 'text-slate-400'}`}
+                    title={fitToPage && previewLayout.pageCount > 1 ? 'Still too long at the smallest size - trim some content to fit one page' : undefined}
+                  >
+                    {previewLayout.pageCount} {previewLayout.pageCount === 1 ? 'page' : 'pages'}
+                  </span>
+                  <button
+                    onClick={() => setFitToPage(!fitToPage)}
+                    className={`text-[10px] font-black uppercase tracking-widest whitespace-nowrap px-2 py-1 rounded-lg transition-colors ${fitToPage ? 'bg-brand-500 text-white' : 'text-slate-500 hover:text-navy-900 dark:hover:text-white'}`}
+                    title="Tighten spacing and font size until the resume fits on one page"
+                  >
+                    <i className="fas fa-compress mr-1"></i> Fit to 1 page{fitToPage && previewLayout.fitScale < 1 ? ` (${Math.round(previewLayout.fitScale * 100)}%)` : ''}
+                  </button>
+                </div>
                 <div className="flex bg-white dark:bg-navy-950 rounded-xl md:rounded-2xl shadow-xl p-1 md:p-1.5 border border-slate-200 dark:border-white/10 overflow-x-auto max-w-full no-scrollbar">
-                  {['classic', 'modern', 'creative', 'academic'].map(t => (
-                    <button key={t} onClick={() => setActiveTemplate(t as TemplateType)} className={`whitespace-nowrap px-4 md:px-6 py-2 md:py-2.5 text-[8px] md:text-[10px] font-black uppercase tracking-[0.1em] md:tracking-[0.2em] rounded-lg md:rounded-xl transition-all ${activeTemplate === t ? 'bg-brand-500 text-white shadow-lg' : 'text-slate-400 hover:text-navy-900 dark:hover:text-white'}`}>{t}</button>
+                  {listTemplates().map(t => (
+                    <button key={t.id} onClick={() => setActiveTemplate(t.id)} title={templateHint(t.description, t.sections)} className={`whitespace-nowrap px-4 md:px-6 py-2 md:py-2.5 text-[8px] md:text-[10px] font-black uppercase tracking-[0.1em] md:tracking-[0.2em] rounded-lg md:rounded-xl transition-all ${template.id === t.id ? 'bg-brand-500 text-white shadow-lg' : 'text-slate-400 hover:text-navy-900 dark:hover:text-white'}`}>{t.name}</button>
                   ))}
                 </div>
-                <button onClick={handleDownload} className="w-full sm:w-auto btn-premium bg-navy-900 dark:bg-brand-500 text-white px-8 md:px-10 py-3 md:py-4 rounded-xl md:rounded-[1.5rem] font-black text-[10px] md:text-sm shadow-2xl flex items-center justify-center gap-2 md:gap-3"><i className="fas fa-file-pdf"></i> Export PDF</button>
+                <select value={pageFormat} onChange={e => changePageFormat(e.target.value as PageFormat)} className="w-full sm:w-auto bg-white dark:bg-navy-950 border border-slate-200 dark:border-white/10 text-navy-900 dark:text-white px-4 py-3 md:py-4 rounded-xl md:rounded-[1.5rem] font-black text-[10px] md:text-sm shadow-xl outline-none" title="Page size">
+                  {template.page.formats.map(f => <option key={f} value={f}>{PAGE_DIMENSIONS[f].label}</option>)}
+                </select>
+                <button onClick={handleDownload} disabled={isExportingPdf} className="w-full sm:w-auto btn-premium bg-navy-900 dark:bg-brand-500 text-white px-8 md:px-10 py-3 md:py-4 rounded-xl md:rounded-[1.5rem] font-black text-[10px] md:text-sm shadow-2xl flex items-center justify-center gap-2 md:gap-3 disabled:opacity-60"><i className={`fas ${isExportingPdf ? 'fa-spinner fa-spin' : 'fa-file-pdf'}`}></i> Export PDF</button>
+                <button onClick={handleDocxExport} className="w-full sm:w-auto bg-white dark:bg-navy-950 border border-slate-200 dark:border-white/10 text-navy-900 dark:text-white px-6 py-3 md:py-4 rounded-xl md:rounded-[1.5rem] font-black text-[10px] md:text-sm shadow-xl flex items-center justify-center gap-2" title="Download as a Word document in the selected template"><i className="fas fa-file-word"></i> Word</button>
+                <button onClick={handleJsonResumeExport} className="w-full sm:w-auto bg-white dark:bg-navy-950 border border-slate-200 dark:border-white/10 text-navy-900 dark:text-white px-6 py-3 md:py-4 rounded-xl md:rounded-[1.5rem] font-black text-[10px] md:text-sm shadow-xl flex items-center justify-center gap-2" title="Download as JSON Resume (jsonresume.org)"><i className="fas fa-file-code"></i> JSON</button>
               </div>
             </div>
 
             <div className="w-full flex justify-center flex-grow relative pb-20 md:pb-32 overflow-hidden md:overflow-visible">
               <div
                 ref={previewRef}
-                className="bg-white shadow-2xl origin-top transition-all duration-500 printable-content relative"
+                className="origin-top transition-all duration-500 printable-content relative"
                 style={{
-                  width: '210mm',
-                  minHeight: '297mm',
+                  width: pageWidthPx(pageFormat),
                   transform: `scale(${previewScale})`,
-                  marginBottom: `-${(1 - previewScale) * 100}%`
+                  // Pages are stacked 32px apart; give back the height the scale-down leaves empty
+                  marginBottom: -(1 - previewScale) * (previewLayout.pageCount * (pageHeightPx(pageFormat) + 32) - 32)
                 }}
               >
-                {activeTemplate === 'classic' && <ClassicTemplate />}
-                {activeTemplate === 'modern' && <ModernTemplate />}
-                {activeTemplate === 'creative' && <CreativeTemplate />}
-                {activeTemplate === 'academic' && <AcademicTemplate />}
+                <PaginatedPreview
+                  template={template}
+                  data={data}
+                  format={pageFormat}
+                  metadataBlock={metadataBlock}
+                  fitToPage={fitToPage}
+                  onLayout={setPreviewLayout}
+                />
               </div>
             </div>
           </div>
         </div>
       </div>
+      {showHistory && activeResumeId && session?.access_token && (
+        <ResumeHistory
+          resumeId={activeResumeId}
+          sessionToken={session.access_token}
+          currentData={data}
+          onRestore={(resume) => {
+            // The server already holds the restored data; don't echo it back as an autosave
+            skipNextAutosave.current = true;
+            setData(migrateResumeData(resume.data));
+          }}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
       {printRoot && ReactDOM.createPortal(printContent, printRoot)}
     </section>
   );
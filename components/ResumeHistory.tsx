@@ -0,0 +1,231 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ResumeData, ResumeVersion, StoredResume } from '../types';
+import { listVersions, restoreVersion, updateResume } from '../lib/resumeService';
+import { diffResumes, DiffSegment } from '../lib/resumeDiff';
+
+interface ResumeHistoryProps {
+  resumeId: string;
+  sessionToken: string;
+  currentData: ResumeData;
+  onRestore: (resume: StoredResume) => void;
+  onClose: () => void;
+}
+
+const CURRENT = 'current';
+
+const formatTimestamp = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const Segments: React.FC<{ segments: DiffSegment[]; inline?: boolean }> = ({ segments, inline }) => (
+  <>
+    {segments.map((seg, i) => {
+      const cls = seg.kind === 'added'
+        ? 'bg-green-100 text-green-800 dark:bg-green-500/20 dark:text-green-300'
+        : seg.kind === 'removed'
+          ? 'bg-red-100 text-red-700 line-through dark:bg-red-500/20 dark:text-red-300'
+          : 'text-slate-600 dark:text-slate-300';
+      return inline
+        ? <span key={i} className={`${cls} rounded px-0.5`}>{seg.text} </span>
+        : (
+          <li key={i} className={`${cls} rounded px-2 py-1 text-xs flex gap-2`}>
+            <span className="font-black w-3 shrink-0">{seg.kind === 'added' ? '+' : seg.kind === 'removed' ? '−' : ''}</span>
+            <span>{seg.text}</span>
+          </li>
+        );
+    })}
+  </>
+);
+
+const ResumeHistory: React.FC<ResumeHistoryProps> = ({ resumeId, sessionToken, currentData, onRestore, onClose }) => {
+  const [versions, setVersions] = useState<ResumeVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [fromId, setFromId] = useState<string>('');
+  const [toId, setToId] = useState<string>(CURRENT);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [savingSnapshot, setSavingSnapshot] = useState(false);
+
+  const loadVersions = async () => {
+    setLoading(true);
+    try {
+      const list = await listVersions(resumeId, sessionToken);
+      setVersions(list);
+      if (list.length > 0) setFromId(list[0].id);
+    } catch (e: any) {
+      setError(e.message || 'Could not load history.');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadVersions();
+  }, [resumeId, sessionToken]);
+
+  const saveSnapshot = async () => {
+    setSavingSnapshot(true);
+    try {
+      await updateResume(resumeId, { data: currentData, snapshot: true }, sessionToken);
+      await loadVersions();
+    } catch (e: any) {
+      console.error("Snapshot failed:", e);
+      alert(`Could not save version: ${e.message}`);
+    } finally {
+      setSavingSnapshot(false);
+    }
+  };
+
+  const resolve = (id: string): ResumeData | null =>
+    id === CURRENT ? currentData : versions.find(v => v.id === id)?.data || null;
+
+  const diff = useMemo(() => {
+    const from = resolve(fromId);
+    const to = resolve(toId);
+    return from && to ? diffResumes(from, to) : null;
+  }, [fromId, toId, versions, currentData]);
+
+  const handleRestore = async (version: ResumeVersion) => {
+    if (!confirm(`Restore the version from ${formatTimestamp(version.created_at)}? Your current content is kept in the history.`)) return;
+
+    setRestoringId(version.id);
+    try {
+      const restored = await restoreVersion(resumeId, version.id, sessionToken);
+      onRestore(restored);
+      onClose();
+    } catch (e: any) {
+      console.error("Restore failed:", e);
+      alert(`Restore failed: ${e.message}`);
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  const versionLabel = (id: string) => {
+    if (id === CURRENT) return 'Current';
+    const v = versions.find(x => x.id === id);
+    return v ? `${formatTimestamp(v.created_at)}${v.label ? ` · ${v.label}` : ''}` : '';
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-navy-900/50 backdrop-blur-sm p-4 print:hidden">
+      <div className="bg-white dark:bg-navy-900 rounded-2xl shadow-2xl w-full max-w-5xl max-h-[90vh] flex flex-col overflow-hidden border border-slate-200 dark:border-white/10">
+        <div className="flex items-center justify-between px-6 py-4 border-b border-slate-100 dark:border-white/5">
+          <h3 className="text-lg font-black text-navy-900 dark:text-white"><i className="fas fa-clock-rotate-left mr-2 text-brand-500"></i>Version History</h3>
+          <div className="flex items-center gap-4">
+            <button onClick={saveSnapshot} disabled={savingSnapshot} className="px-3 py-2 bg-brand-500 text-white text-[9px] font-black uppercase tracking-widest rounded-lg hover:bg-brand-600 disabled:opacity-50">
+              <i className={`fas ${savingSnapshot ? 'fa-spinner fa-spin' : 'fa-bookmark'} mr-1`}></i> Save Current Version
+            </button>
+            <button onClick={onClose} className="text-slate-400 hover:text-navy-900 dark:hover:text-white"><i className="fas fa-times"></i></button>
+          </div>
+        </div>
+
+        {loading && <div className="p-10 text-center text-slate-400 text-sm"><i className="fas fa-spinner fa-spin mr-2"></i>Loading history...</div>}
+        {!loading && error && <div className="p-10 text-center text-red-500 text-sm">{error}</div>}
+        {!loading && !error && versions.length === 0 && (
+          <div className="p-10 text-center text-slate-400 text-sm">No snapshots yet. They are created as you edit this resume.</div>
+        )}
+
+        {!loading && !error && versions.length > 0 && (
+          <div className="grid md:grid-cols-[280px_1fr] min-h-0 flex-1">
+            {/* Timeline */}
+            <ol className="border-r border-slate-100 dark:border-white/5 overflow-y-auto custom-scrollbar p-4 space-y-2">
+              {versions.map(v => (
+                <li key={v.id} className={`p-3 rounded-xl border cursor-pointer transition-all ${fromId === v.id ? 'border-brand-500 bg-brand-500/5' : 'border-slate-100 dark:border-white/5 hover:border-slate-300'}`} onClick={() => setFromId(v.id)}>
+                  <p className="text-xs font-black text-navy-900 dark:text-white">{formatTimestamp(v.created_at)}</p>
+                  <p className="text-[10px] font-bold uppercase tracking-widest text-slate-400">{v.label || 'Snapshot'}</p>
+                  <button
+                    onClick={(e) => { e.stopPropagation(); handleRestore(v); }}
+                    disabled={restoringId !== null}
+                    className="mt-2 text-[10px] font-black uppercase tracking-widest text-brand-500 hover:text-brand-600 disabled:opacity-40"
+                  >
+                    <i className={`fas ${restoringId === v.id ? 'fa-spinner fa-spin' : 'fa-rotate-left'} mr-1`}></i> Restore
+                  </button>
+                </li>
+              ))}
+            </ol>
+
+            {/* Diff */}
+            <div className="overflow-y-auto custom-scrollbar p-6 space-y-6">
+              <div className="flex flex-wrap items-center gap-3 text-xs">
+                <span className="font-black uppercase tracking-widest text-slate-400">Compare</span>
+                <select value={fromId} onChange={e => setFromId(e.target.value)} className="p-2 border dark:border-white/10 rounded-lg bg-slate-50 dark:bg-navy-950 text-navy-900 dark:text-white">
+                  {versions.map(v => <option key={v.id} value={v.id}>{versionLabel(v.id)}</option>)}
+                </select>
+                <i className="fas fa-arrow-right text-slate-300"></i>
+                <select value={toId} onChange={e => setToId(e.target.value)} className="p-2 border dark:border-white/10 rounded-lg bg-slate-50 dark:bg-navy-950 text-navy-900 dark:text-white">
+                  <option value={CURRENT}>Current</option>
+                  {versions.map(v => <option key={v.id} value={v.id}>{versionLabel(v.id)}</option>)}
+                </select>
+              </div>
+
+              {diff && !diff.hasChanges && <p className="text-sm text-slate-400">No differences between these versions.</p>}
+
+              {diff && diff.fields.length > 0 && (
+                <section>
+                  <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">Details</h4>
+                  <ul className="space-y-1 text-xs">
+                    {diff.fields.map(f => (
+                      <li key={f.field} className="text-slate-600 dark:text-slate-300">
+                        <span className="font-bold">{f.label}:</span>{' '}
+                        <span className="bg-red-100 text-red-700 line-through rounded px-1">{f.before || '(empty)'}</span>{' → '}
+                        <span className="bg-green-100 text-green-800 rounded px-1">{f.after || '(empty)'}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </section>
+              )}
+
+              {diff?.summary && (
+                <section>
+                  <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">Summary</h4>
+                  <p className="text-xs leading-relaxed"><Segments segments={diff.summary} inline /></p>
+                </section>
+              )}
+
+              {diff && diff.experience.length > 0 && (
+                <section className="space-y-4">
+                  <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-400">Experience</h4>
+                  {diff.experience.map(exp => (
+                    <div key={exp.id} className="p-4 rounded-xl border border-slate-100 dark:border-white/5">
+                      <p className="text-sm font-black text-navy-900 dark:text-white mb-1">
+                        {exp.title}
+                        <span className={`ml-2 text-[9px] uppercase tracking-widest ${exp.status === 'added' ? 'text-green-600' : exp.status === 'removed' ? 'text-red-500' : 'text-amber-500'}`}>{exp.status}</span>
+                      </p>
+                      {exp.fieldChanges.map(f => (
+                        <p key={f.field} className="text-xs text-slate-500"><span className="font-bold">{f.label}:</span> {f.before || '(empty)'} → {f.after || '(empty)'}</p>
+                      ))}
+                      <ul className="mt-2 space-y-1"><Segments segments={exp.bullets} /></ul>
+                    </div>
+                  ))}
+                </section>
+              )}
+
+              {diff && (diff.hardSkills.added.length + diff.hardSkills.removed.length + diff.softSkills.added.length + diff.softSkills.removed.length) > 0 && (
+                <section>
+                  <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">Skills</h4>
+                  <div className="flex flex-wrap gap-2">
+                    {[...diff.hardSkills.added, ...diff.softSkills.added].map(s => <span key={`+${s}`} className="text-[10px] font-bold bg-green-100 text-green-800 rounded-md px-2 py-1">+ {s}</span>)}
+                    {[...diff.hardSkills.removed, ...diff.softSkills.removed].map(s => <span key={`-${s}`} className="text-[10px] font-bold bg-red-100 text-red-700 line-through rounded-md px-2 py-1">{s}</span>)}
+                  </div>
+                </section>
+              )}
+
+              {diff && diff.lists.map((list, i) => (
+                <section key={`${list.section}-${i}`}>
+                  <h4 className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-2">{list.section}</h4>
+                  <ul className="space-y-1 text-xs">
+                    {list.added.map(item => <li key={`a-${item}`} className="text-green-700">+ {item}</li>)}
+                    {list.removed.map(item => <li key={`r-${item}`} className="text-red-600 line-through">{item}</li>)}
+                    {list.changed.map(item => <li key={`c-${item}`} className="text-amber-600">~ {item}</li>)}
+                  </ul>
+                </section>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ResumeHistory;
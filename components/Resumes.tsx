@@ -1,24 +1,236 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import Navbar from './Navbar';
 import Footer from './Footer';
+import { useAuth } from '../lib/AuthContext';
+import { ResumeSummary, ResumeData } from '../types';
+import {
+    ACTIVE_RESUME_KEY,
+    listResumes,
+    createResume,
+    createVariant,
+    duplicateResume,
+    updateResume,
+    deleteResume
+} from '../lib/resumeService';
+
+const BLANK_RESUME: ResumeData = {
+    fullName: '', targetRole: '', email: '', phone: '', location: '', linkedin: '', website: '', summary: '',
+    education: [], experience: [], hardSkills: '', softSkills: '', certifications: [], languages: []
+};
+
+const formatDate = (iso: string) =>
+    new Date(iso).toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
 
 const Resumes: React.FC = () => {
     const navigate = useNavigate();
+    const { session } = useAuth();
+    const [resumes, setResumes] = useState<ResumeSummary[]>([]);
+    const [loading, setLoading] = useState(true);
+    const [error, setError] = useState<string | null>(null);
+    const [busyId, setBusyId] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (session?.access_token) {
+            fetchResumes();
+        }
+    }, [session?.access_token]);
+
+    const fetchResumes = async () => {
+        if (!session?.access_token) return;
+
+        try {
+            setLoading(true);
+            setError(null);
+            setResumes(await listResumes(session.access_token));
+        } catch (err: any) {
+            console.error('Error fetching resumes:', err);
+            setError(err.message || 'Could not load your resumes.');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const openResume = (id: string) => {
+        localStorage.setItem(ACTIVE_RESUME_KEY, id);
+        navigate(`/?resume=${encodeURIComponent(id)}#builder`);
+    };
+
+    const handleCreate = async () => {
+        if (!session?.access_token) return;
+        const name = prompt('Name your new resume:', 'My Resume');
+        if (name === null) return;
+
+        try {
+            const created = await createResume(name.trim() || 'Untitled Resume', BLANK_RESUME, session.access_token);
+            openResume(created.id);
+        } catch (err: any) {
+            console.error('Error creating resume:', err);
+            alert('Failed to create resume: ' + err.message);
+        }
+    };
+
+    const handleRename = async (resume: ResumeSummary) => {
+        if (!session?.access_token) return;
+        const name = prompt('Rename resume:', resume.name);
+        if (!name || !name.trim() || name.trim() === resume.name) return;
+
+        try {
+            setBusyId(resume.id);
+            const updated = await updateResume(resume.id, { name: name.trim() }, session.access_token);
+            setResumes(prev => prev.map(r => r.id === resume.id ? { ...r, name: updated.name, updated_at: updated.updated_at } : r));
+        } catch (err: any) {
+            console.error('Error renaming resume:', err);
+            alert('Failed to rename resume: ' + err.message);
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleDuplicate = async (resume: ResumeSummary) => {
+        if (!session?.access_token) return;
+
+        try {
+            setBusyId(resume.id);
+            const copy = await duplicateResume(resume.id, session.access_token);
+            setResumes(prev => [{
+                id: copy.id,
+                name: copy.name,
+                is_master: copy.is_master,
+                parent_id: copy.parent_id,
+                created_at: copy.created_at,
+                updated_at: copy.updated_at
+            }, ...prev]);
+        } catch (err: any) {
+            console.error('Error duplicating resume:', err);
+            alert('Failed to duplicate resume: ' + err.message);
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleSetMaster = async (resume: ResumeSummary) => {
+        if (!session?.access_token) return;
+
+        try {
+            setBusyId(resume.id);
+            await updateResume(resume.id, { isMaster: true }, session.access_token);
+            setResumes(prev => prev.map(r => ({ ...r, is_master: r.id === resume.id })));
+        } catch (err: any) {
+            console.error('Error setting master resume:', err);
+            alert('Failed to set master resume: ' + err.message);
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleCreateVariant = async (master: ResumeSummary) => {
+        if (!session?.access_token) return;
+        const name = prompt('Name this variant (e.g. the company or job title):', `${master.name} - `);
+        if (name === null) return;
+
+        try {
+            setBusyId(master.id);
+            const created = await createVariant(master.id, name.trim(), '', session.access_token);
+            openResume(created.id);
+        } catch (err: any) {
+            console.error('Error creating variant:', err);
+            alert('Failed to create variant: ' + err.message);
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    const handleDelete = async (resume: ResumeSummary) => {
+        if (!session?.access_token) return;
+        const variantCount = resumes.filter(r => r.parent_id === resume.id).length;
+        const warning = variantCount > 0 ? ` Its ${variantCount} variant(s) will be deleted too.` : '';
+        if (!confirm(`Delete "${resume.name}"?${warning} This cannot be undone.`)) return;
+
+        try {
+            setBusyId(resume.id);
+            await deleteResume(resume.id, session.access_token);
+            if (localStorage.getItem(ACTIVE_RESUME_KEY) === resume.id) {
+                localStorage.removeItem(ACTIVE_RESUME_KEY);
+            }
+            setResumes(prev => prev.filter(r => r.id !== resume.id && r.parent_id !== resume.id));
+        } catch (err: any) {
+            console.error('Error deleting resume:', err);
+            alert('Failed to delete resume: ' + err.message);
+        } finally {
+            setBusyId(null);
+        }
+    };
 
     return (
         <div className="min-h-screen bg-slate-50 flex flex-col">
             <Navbar theme="light" onToggleTheme={() => { }} onOpenAuth={() => { }} />
             <main className="flex-grow container mx-auto px-4 py-8 pt-24">
                 <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-8">
-                    <h1 className="text-3xl font-bold text-navy-900 mb-6">My Resumes</h1>
-                    <p className="text-slate-600">You don't have any saved resumes yet.</p>
-                    <button
-                        onClick={() => navigate('/#builder')}
-                        className="mt-4 bg-brand-500 text-white px-4 py-2 rounded-lg hover:bg-brand-600 transition-colors"
-                    >
-                        Create New Resume
-                    </button>
+                    <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+                        <h1 className="text-3xl font-bold text-navy-900">My Resumes</h1>
+                        <button
+                            onClick={handleCreate}
+                            className="bg-brand-500 text-white px-4 py-2 rounded-lg hover:bg-brand-600 transition-colors"
+                        >
+                            <i className="fas fa-plus mr-2"></i> Create New Resume
+                        </button>
+                    </div>
+
+                    {loading && (
+                        <div className="space-y-3 animate-pulse">
+                            {[0, 1, 2].map(i => <div key={i} className="h-16 bg-slate-100 rounded-xl" />)}
+                        </div>
+                    )}
+
+                    {!loading && error && (
+                        <div className="p-4 bg-red-50 border border-red-200 rounded-xl text-sm text-red-600 flex items-center justify-between gap-4">
+                            <span>{error}</span>
+                            <button onClick={fetchResumes} className="font-bold hover:underline">Retry</button>
+                        </div>
+                    )}
+
+                    {!loading && !error && resumes.length === 0 && (
+                        <p className="text-slate-600">You don't have any saved resumes yet.</p>
+                    )}
+
+                    {!loading && !error && resumes.length > 0 && (
+                        <ul className="divide-y divide-slate-100 border border-slate-200 rounded-xl">
+                            {resumes.map(resume => (
+                                <li key={resume.id} className="flex flex-col md:flex-row md:items-center justify-between gap-3 p-4 hover:bg-slate-50 transition-colors">
+                                    <button onClick={() => openResume(resume.id)} className="flex items-center gap-4 text-left min-w-0">
+                                        <div className="w-10 h-10 bg-blue-100 text-blue-600 rounded-lg flex items-center justify-center shrink-0">
+                                            <i className="fas fa-file-alt"></i>
+                                        </div>
+                                        <div className="min-w-0">
+                                            <p className="font-bold text-navy-900 truncate">
+                                                {resume.name}
+                                                {resume.is_master && <span className="ml-2 text-[10px] font-bold uppercase tracking-wider bg-brand-100 text-brand-600 rounded px-1.5 py-0.5">Master</span>}
+                                                {resume.parent_id && <span className="ml-2 text-[10px] font-bold uppercase tracking-wider bg-amber-100 text-amber-700 rounded px-1.5 py-0.5">Variant</span>}
+                                            </p>
+                                            <p className="text-xs text-slate-500">
+                                                Updated {formatDate(resume.updated_at)}
+                                                {resume.parent_id && ` · based on ${resumes.find(r => r.id === resume.parent_id)?.name || 'master'}`}
+                                            </p>
+                                        </div>
+                                    </button>
+                                    <div className="flex gap-2 text-sm shrink-0">
+                                        <button onClick={() => openResume(resume.id)} className="px-3 py-1.5 text-brand-600 font-medium hover:underline">Open</button>
+                                        {resume.is_master && (
+                                            <button onClick={() => handleCreateVariant(resume)} disabled={busyId === resume.id} className="px-3 py-1.5 text-brand-600 hover:text-brand-700 disabled:opacity-40">Create Variant</button>
+                                        )}
+                                        {!resume.is_master && !resume.parent_id && (
+                                            <button onClick={() => handleSetMaster(resume)} disabled={busyId === resume.id} className="px-3 py-1.5 text-slate-600 hover:text-navy-900 disabled:opacity-40">Set as Master</button>
+                                        )}
+                                        <button onClick={() => navigate(`/cover-letters?resume=${encodeURIComponent(resume.id)}`)} className="px-3 py-1.5 text-slate-600 hover:text-navy-900">Cover Letter</button>
+                                        <button onClick={() => handleRename(resume)} disabled={busyId === resume.id} className="px-3 py-1.5 text-slate-600 hover:text-navy-900 disabled:opacity-40">Rename</button>
+                                        <button onClick={() => handleDuplicate(resume)} disabled={busyId === resume.id} className="px-3 py-1.5 text-slate-600 hover:text-navy-900 disabled:opacity-40">Duplicate</button>
+                                        <button onClick={() => handleDelete(resume)} disabled={busyId === resume.id} className="px-3 py-1.5 text-red-500 hover:text-red-600 disabled:opacity-40">Delete</button>
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
                 </div>
             </main>
             <Footer />
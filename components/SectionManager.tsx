@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import { ResumeData, CustomSectionType } from '../types';
+import { ResumeTemplate } from '../templates';
+import {
+  CUSTOM_SECTION_TYPES,
+  allSectionIds,
+  sectionTitle,
+  isSectionHidden,
+  isCustomSectionId,
+  moveSection,
+  toggleSectionHidden,
+  createCustomSection
+} from '../lib/resumeSections';
+
+interface SectionManagerProps {
+  data: ResumeData;
+  template: ResumeTemplate;
+  onChange: (update: (data: ResumeData) => ResumeData) => void;
+  onSectionAdded: (id: string) => void;
+}
+
+// Drag a row onto another to take its place; the arrow buttons do the same for keyboard and touch users
+const SectionManager: React.FC<SectionManagerProps> = ({ data, template, onChange, onSectionAdded }) => {
+  const [dragged, setDragged] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const order = allSectionIds(data);
+
+  const addSection = (type: CustomSectionType) => {
+    const section = createCustomSection(type);
+    onChange(d => ({ ...d, customSections: [...(d.customSections || []), section] }));
+    onSectionAdded(section.id);
+  };
+
+  const endDrag = () => {
+    setDragged(null);
+    setDropTarget(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <ul className="space-y-2">
+        {order.map((id, index) => {
+          const hidden = isSectionHidden(data, id);
+          // Custom sections show in every design; standard ones only where the design has room
+          const unsupported = !isCustomSectionId(id) && !(template.sections as string[]).includes(id);
+          return (
+            <li
+              key={id}
+              draggable
+              onDragStart={e => { e.dataTransfer.effectAllowed = 'move'; e.dataTransfer.setData('text/plain', id); setDragged(id); }}
+              onDragOver={e => { e.preventDefault(); setDropTarget(id); }}
+              onDragLeave={() => setDropTarget(current => current === id ? null : current)}
+              onDrop={e => { e.preventDefault(); if (dragged) onChange(d => moveSection(d, dragged, id)); endDrag(); }}
+              onDragEnd={endDrag}
+              className={`flex items-center gap-3 p-3 rounded-xl border transition-all cursor-grab active:cursor-grabbing ${dropTarget === id && dragged !== id ? 'border-brand-500 bg-brand-500/5' : 'border-slate-100 dark:border-white/5'} ${dragged === id ? 'opacity-40' : ''}`}
+            >
+              <i className="fas fa-grip-vertical text-[10px] text-slate-300"></i>
+              <div className={`flex-1 min-w-0 ${hidden ? 'opacity-50' : ''}`}>
+                <p className={`text-xs font-black truncate ${hidden ? 'text-slate-400 line-through' : 'text-navy-900 dark:text-white'}`}>{sectionTitle(data, id)}</p>
+                {unsupported && !hidden && <p className="text-[9px] font-bold uppercase tracking-widest text-amber-500">Not shown by {template.name}</p>}
+              </div>
+              <div className="flex gap-1 shrink-0 text-slate-400">
+                <button onClick={() => onChange(d => moveSection(d, id, order[index - 1]))} disabled={index === 0} className="w-7 h-7 hover:text-navy-900 dark:hover:text-white disabled:opacity-30" title="Move up"><i className="fas fa-arrow-up text-[10px]"></i></button>
+                <button onClick={() => onChange(d => moveSection(d, id, order[index + 1]))} disabled={index === order.length - 1} className="w-7 h-7 hover:text-navy-900 dark:hover:text-white disabled:opacity-30" title="Move down"><i className="fas fa-arrow-down text-[10px]"></i></button>
+                <button onClick={() => onChange(d => toggleSectionHidden(d, id))} className="w-7 h-7 hover:text-navy-900 dark:hover:text-white" title={hidden ? 'Show section' : 'Hide section'}><i className={`fas ${hidden ? 'fa-eye-slash' : 'fa-eye'} text-[10px]`}></i></button>
+              </div>
+            </li>
+          );
+        })}
+      </ul>
+
+      <div>
+        <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-3">Add a section</p>
+        <div className="grid grid-cols-2 gap-2">
+          {(Object.keys(CUSTOM_SECTION_TYPES) as CustomSectionType[]).map(type => (
+            <button key={type} onClick={() => addSection(type)} className="py-3 border-2 border-dashed border-slate-300 dark:border-white/10 text-slate-400 font-black text-[9px] md:text-[10px] rounded-xl hover:border-brand-500 hover:text-brand-500 transition-all uppercase tracking-widest">
+              <i className={`fas ${CUSTOM_SECTION_TYPES[type].icon} mr-2`}></i>{CUSTOM_SECTION_TYPES[type].label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SectionManager;
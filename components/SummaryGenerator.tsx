@@ -0,0 +1,92 @@
+import React, { useState } from 'react';
+import { ResumeData } from '../types';
+import { useAuth } from '../lib/AuthContext';
+import { ToolAccessError } from '../lib/toolAccess';
+import { AI_CONFIG } from '../lib/aiConfig';
+import { generateSummary, GeneratedSummary, SummaryLength, SummaryTone, SUMMARY_LENGTHS, SUMMARY_TONES } from '../lib/summaryGenerator';
+
+interface SummaryGeneratorProps {
+  data: ResumeData;
+  onApply: (summary: string) => void;
+}
+
+const SummaryGenerator: React.FC<SummaryGeneratorProps> = ({ data, onApply }) => {
+  const { user, session } = useAuth();
+  const [length, setLength] = useState<SummaryLength>('standard');
+  const [tone, setTone] = useState<SummaryTone>('professional');
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<GeneratedSummary | null>(null);
+  const [showRemoved, setShowRemoved] = useState(false);
+  const cost = AI_CONFIG.summary_ai.cost;
+
+  const generate = async () => {
+    if (!session?.access_token) {
+      alert("Please sign in to generate a summary.");
+      return;
+    }
+    if ((data.experience || []).length === 0 && !(data.hardSkills || '').trim()) {
+      alert("Add your experience or skills first. The summary is written only from what's on your resume.");
+      return;
+    }
+
+    setLoading(true);
+    setShowRemoved(false);
+    try {
+      setResult(await generateSummary(data, { length, tone }, { userId: user?.id || '', sessionToken: session.access_token }));
+    } catch (e: any) {
+      console.error("Summary generation error:", e);
+      alert(e instanceof ToolAccessError ? e.message : `Summary generation failed: ${e.message || JSON.stringify(e)}`);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const selectClass = "flex-1 min-w-0 p-2 border dark:border-white/10 rounded-lg text-[10px] md:text-xs bg-white dark:bg-navy-950 text-navy-900 dark:text-white outline-none";
+
+  return (
+    <div className="p-3 md:p-4 rounded-xl border border-brand-500/20 bg-brand-500/5 space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <select value={length} onChange={e => setLength(e.target.value as SummaryLength)} className={selectClass}>
+          {SUMMARY_LENGTHS.map(option => <option key={option.id} value={option.id}>{option.label} ({option.sentences} sentences)</option>)}
+        </select>
+        <select value={tone} onChange={e => setTone(e.target.value as SummaryTone)} className={selectClass}>
+          {SUMMARY_TONES.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+        </select>
+        <button onClick={generate} disabled={loading} className="px-3 py-2 rounded-lg bg-brand-500 hover:bg-brand-600 text-white text-[9px] font-black uppercase tracking-widest disabled:opacity-50">
+          <i className={`fas ${loading ? 'fa-spinner fa-spin' : 'fa-magic'} mr-1`}></i> Generate • {cost} credit{cost === 1 ? '' : 's'}
+        </button>
+      </div>
+
+      {result && (
+        <div className="space-y-2">
+          <p className="p-3 rounded-lg bg-white dark:bg-navy-950 text-[10px] md:text-xs text-navy-900 dark:text-slate-200 leading-relaxed">{result.summary}</p>
+          <div className="flex items-center justify-between gap-3">
+            {result.removed.length > 0 ? (
+              <button onClick={() => setShowRemoved(!showRemoved)} className="text-[9px] font-black uppercase tracking-widest text-amber-600 hover:text-amber-700">
+                <i className="fas fa-filter mr-1"></i> {result.removed.length} unsupported sentence{result.removed.length === 1 ? '' : 's'} removed
+              </button>
+            ) : (
+              <p className="text-[9px] font-black uppercase tracking-widest text-green-600"><i className="fas fa-circle-check mr-1"></i> Every claim is on your resume</p>
+            )}
+            <div className="flex gap-2 shrink-0">
+              <button onClick={() => setResult(null)} className="text-[9px] font-black uppercase tracking-widest text-slate-400 hover:text-navy-900 dark:hover:text-white">Discard</button>
+              <button onClick={() => { onApply(result.summary); setResult(null); }} className="text-[9px] font-black uppercase tracking-widest text-brand-500 hover:text-brand-600">Use this</button>
+            </div>
+          </div>
+          {showRemoved && (
+            <ul className="space-y-1.5">
+              {result.removed.map((claim, i) => (
+                <li key={i} className="text-[10px] md:text-xs">
+                  <p className="text-slate-400 line-through">{claim.sentence}</p>
+                  <p className="text-amber-600 dark:text-amber-400">{claim.reasons.join('; ')}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SummaryGenerator;
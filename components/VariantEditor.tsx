@@ -0,0 +1,176 @@
+import React, { useMemo } from 'react';
+import { ResumeData, VariantOverrides } from '../types';
+import {
+  OverridableField,
+  isOverridden,
+  setFieldOverride,
+  orderedExperience,
+  moveExperience,
+  toggleExperience,
+  orderedBullets,
+  moveBullet,
+  toggleBullet,
+  isBulletHidden,
+  staleHiddenBullets,
+  clearStaleHiddenBullets,
+  resolveVariant,
+  roleSkillMatches,
+  orderExperienceByMatch
+} from '../lib/resumeVariants';
+import { analyzeJobDescription, hasRequirements, matchRequirements, resumeMatchText, SENIORITY_LABELS } from '../lib/jobDescription';
+
+interface VariantEditorProps {
+  master: ResumeData;
+  masterName: string;
+  overrides: VariantOverrides;
+  jobDescription: string;
+  onOverridesChange: (overrides: VariantOverrides) => void;
+  onJobDescriptionChange: (jobDescription: string) => void;
+}
+
+const FIELD_LABELS: Record<OverridableField, string> = {
+  targetRole: 'Target Role',
+  summary: 'Summary'
+};
+
+const VariantEditor: React.FC<VariantEditorProps> = ({ master, masterName, overrides, jobDescription, onOverridesChange, onJobDescriptionChange }) => {
+  const hiddenIds = new Set(overrides.hiddenExperienceIds || []);
+  const requirements = useMemo(() => analyzeJobDescription(jobDescription), [jobDescription]);
+  const targeted = hasRequirements(requirements);
+  const match = targeted ? matchRequirements(requirements, resumeMatchText(resolveVariant(master, overrides))) : null;
+
+  const renderFieldOverride = (field: OverridableField) => {
+    const overridden = isOverridden(overrides, field);
+    const value = overridden ? overrides[field] as string : master[field];
+    const inputClass = "w-full p-3 border dark:border-white/10 rounded-xl text-xs md:text-sm bg-slate-50 dark:bg-navy-950/50 text-navy-900 dark:text-white outline-none";
+
+    return (
+      <div key={field} className="space-y-2">
+        <div className="flex items-center justify-between">
+          <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">
+            {FIELD_LABELS[field]}
+            <span className={`ml-2 ${overridden ? 'text-amber-500' : 'text-slate-300'}`}>{overridden ? 'Overridden' : 'From master'}</span>
+          </label>
+          {overridden && (
+            <button onClick={() => onOverridesChange(setFieldOverride(overrides, field, undefined))} className="text-[9px] font-black uppercase tracking-widest text-brand-500 hover:text-brand-600">
+              <i className="fas fa-rotate-left mr-1"></i> Reset to master
+            </button>
+          )}
+        </div>
+        {field === 'summary' ? (
+          <textarea value={value} onChange={e => onOverridesChange(setFieldOverride(overrides, field, e.target.value))} className={`${inputClass} h-28 resize-none`} />
+        ) : (
+          <input value={value} onChange={e => onOverridesChange(setFieldOverride(overrides, field, e.target.value))} className={inputClass} />
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-white dark:bg-navy-900 rounded-[1.5rem] md:rounded-[2rem] shadow-xl border border-slate-200 dark:border-white/10 p-5 md:p-8 space-y-8">
+      <div>
+        <p className="text-[10px] font-black uppercase tracking-widest text-slate-400 mb-1">Variant of</p>
+        <p className="text-sm font-black text-navy-900 dark:text-white">{masterName}</p>
+        <p className="text-xs text-slate-500 mt-1">Contact details, education, skills and everything you don't override here come from the master resume.</p>
+      </div>
+
+      <div className="space-y-2">
+        <label className="text-[10px] font-black uppercase tracking-widest text-slate-400">Job Description</label>
+        <textarea
+          value={jobDescription}
+          onChange={e => onJobDescriptionChange(e.target.value)}
+          placeholder="Paste the job description this variant targets"
+          className="w-full p-3 border dark:border-white/10 rounded-xl text-xs bg-slate-50 dark:bg-navy-950/50 text-navy-900 dark:text-white outline-none h-32 resize-none"
+        />
+        {targeted && match && (
+          <div className="p-4 rounded-xl border border-slate-100 dark:border-white/5 space-y-3">
+            <p className="text-[10px] font-bold text-slate-500">
+              {[
+                requirements.seniority && SENIORITY_LABELS[requirements.seniority],
+                requirements.minYears && `${requirements.minYears}+ years`,
+                ...requirements.workArrangements
+              ].filter(Boolean).join(' • ') || 'Requirements found'}
+              {requirements.requiredSkills.length > 0 && <span className="ml-2 text-brand-500">{match.matchedRequired.length}/{requirements.requiredSkills.length} required skills in this variant</span>}
+            </p>
+            {(match.missingRequired.length > 0 || match.missingPreferred.length > 0) && (
+              <div className="flex flex-wrap gap-1.5">
+                {match.missingRequired.map(skill => <span key={skill} className="px-2 py-1 rounded-md text-[9px] font-bold bg-red-500/10 text-red-500" title="Required, not mentioned">{skill}</span>)}
+                {match.missingPreferred.map(skill => <span key={skill} className="px-2 py-1 rounded-md text-[9px] font-bold bg-slate-100 dark:bg-white/5 text-slate-400" title="Preferred, not mentioned">{skill}</span>)}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      {renderFieldOverride('targetRole')}
+      {renderFieldOverride('summary')}
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <p className="text-[10px] font-black uppercase tracking-widest text-slate-400">Experience</p>
+          {targeted && (master.experience || []).length > 1 && (
+            <button onClick={() => onOverridesChange(orderExperienceByMatch(master, overrides, requirements))} className="text-[9px] font-black uppercase tracking-widest text-brand-500 hover:text-brand-600">
+              <i className="fas fa-arrow-down-wide-short mr-1"></i> Order by job match
+            </button>
+          )}
+        </div>
+        {orderedExperience(master, overrides).map((exp, index, all) => {
+          const hidden = hiddenIds.has(exp.id);
+          const bullets = orderedBullets(exp, overrides);
+          const stale = staleHiddenBullets(exp, overrides);
+          return (
+            <div key={exp.id} className={`p-4 rounded-xl border border-slate-100 dark:border-white/5 ${hidden ? 'opacity-50' : ''}`}>
+              <div className="flex items-center justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-xs font-black text-navy-900 dark:text-white truncate">{[exp.role, exp.company].filter(Boolean).join(' @ ') || 'Untitled role'}</p>
+                  {targeted && roleSkillMatches(exp, requirements).length > 0 && (
+                    <p className="text-[9px] font-bold text-brand-500 truncate">Matches {roleSkillMatches(exp, requirements).join(', ')}</p>
+                  )}
+                </div>
+                <div className="flex gap-1 shrink-0 text-slate-400">
+                  <button onClick={() => onOverridesChange(moveExperience(master, overrides, exp.id, -1))} disabled={index === 0} className="w-7 h-7 hover:text-navy-900 dark:hover:text-white disabled:opacity-30" title="Move up"><i className="fas fa-arrow-up text-[10px]"></i></button>
+                  <button onClick={() => onOverridesChange(moveExperience(master, overrides, exp.id, 1))} disabled={index === all.length - 1} className="w-7 h-7 hover:text-navy-900 dark:hover:text-white disabled:opacity-30" title="Move down"><i className="fas fa-arrow-down text-[10px]"></i></button>
+                  <button onClick={() => onOverridesChange(toggleExperience(overrides, exp.id))} className="w-7 h-7 hover:text-navy-900 dark:hover:text-white" title={hidden ? 'Show role' : 'Hide role'}><i className={`fas ${hidden ? 'fa-eye-slash' : 'fa-eye'} text-[10px]`}></i></button>
+                </div>
+              </div>
+
+              {!hidden && (
+                <ul className="mt-3 space-y-1">
+                  {bullets.map((bullet, bIndex) => {
+                    const bulletHidden = isBulletHidden(exp, overrides, bullet.index);
+                    return (
+                      <li key={bullet.index} className={`flex items-start gap-2 text-xs ${bulletHidden ? 'text-slate-300 line-through' : 'text-slate-600 dark:text-slate-300'}`}>
+                        <span className="flex-1">{bullet.text}</span>
+                        <div className="flex gap-1 shrink-0 text-slate-400">
+                          <button onClick={() => onOverridesChange(moveBullet(exp, overrides, bullet.index, -1))} disabled={bIndex === 0} className="w-5 hover:text-navy-900 dark:hover:text-white disabled:opacity-30"><i className="fas fa-chevron-up text-[9px]"></i></button>
+                          <button onClick={() => onOverridesChange(moveBullet(exp, overrides, bullet.index, 1))} disabled={bIndex === bullets.length - 1} className="w-5 hover:text-navy-900 dark:hover:text-white disabled:opacity-30"><i className="fas fa-chevron-down text-[9px]"></i></button>
+                          <button onClick={() => onOverridesChange(toggleBullet(exp, overrides, bullet.index))} className="w-5 hover:text-navy-900 dark:hover:text-white"><i className={`fas ${bulletHidden ? 'fa-eye-slash' : 'fa-eye'} text-[9px]`}></i></button>
+                        </div>
+                      </li>
+                    );
+                  })}
+                </ul>
+              )}
+
+              {!hidden && stale.length > 0 && (
+                <div className="mt-3 p-3 rounded-lg bg-amber-50 dark:bg-amber-500/10 text-[10px] text-amber-700 dark:text-amber-300">
+                  <div className="flex items-center justify-between gap-2">
+                    <p className="font-black uppercase tracking-widest">Hidden bullets changed in the master</p>
+                    <button onClick={() => onOverridesChange(clearStaleHiddenBullets(exp, overrides))} className="font-black uppercase tracking-widest hover:text-amber-900 dark:hover:text-amber-100">Dismiss</button>
+                  </div>
+                  <p className="mt-1">These were hidden here but were rewritten or removed in the master, so they no longer hide anything. Hide the new wording above if it should stay out of this variant.</p>
+                  <ul className="mt-1 list-disc pl-4 line-through opacity-70">
+                    {stale.map((text, i) => <li key={i}>{text}</li>)}
+                  </ul>
+                </div>
+              )}
+            </div>
+          );
+        })}
+        {(master.experience || []).length === 0 && <p className="text-xs text-slate-400">The master resume has no experience yet.</p>}
+      </div>
+    </div>
+  );
+};
+
+export default VariantEditor;
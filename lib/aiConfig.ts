@@ -7,7 +7,8 @@ export type AIFeature =
     | 'linkedin_ai'
     | 'summary_ai'
     | 'chatbot_ai'
-    | 'ats_ai';
+    | 'ats_ai'
+    | 'cover_letter_ai';
 
 export type AIModel = 'flash' | 'pro';
 
@@ -54,6 +55,12 @@ export const AI_CONFIG: Record<AIFeature, FeatureConfig> = {
         cost: 1,
         maxInputChars: 5000,
         description: 'ATS score improvement suggestions'
+    },
+    cover_letter_ai: {
+        model: 'flash',
+        cost: 1,
+        maxInputChars: 8000,
+        description: 'Cover letter drafts from a resume and job description'
     }
 } as const;
 
@@ -70,6 +77,7 @@ export const CREDIT_COSTS = {
     LINKEDIN_AI: AI_CONFIG.linkedin_ai.cost,
     SUMMARY_AI: AI_CONFIG.summary_ai.cost,
     CHATBOT_AI: AI_CONFIG.chatbot_ai.cost,
+    COVER_LETTER_AI: AI_CONFIG.cover_letter_ai.cost,
     PDF_EXPORT: 0, // Always free
 } as const;
 
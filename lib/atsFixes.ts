@@ -0,0 +1,203 @@
+// ATS Auto-Fix
+// Turns ATS issues into patches on ResumeData that the checker and the builder can preview and apply.
+// Every fix carries its own inverse, so undoing one fix leaves later edits (and other fixes) alone.
+// Only fixes we can make without inventing content are offered: hidden sections, skills the resume or
+// job already names, and bullet openers that can be reworded mechanically.
+
+import { ResumeData } from '../types';
+import type { ATSScoreResult } from './atsScoring';
+import { findSkills } from './skillTaxonomy';
+import { isSectionHidden, SECTION_LABELS } from './resumeSections';
+
+export interface ResumeFix {
+    id: string;                 // the same suggestion keeps the same id across re-scores
+    issue: string;              // title of the ATSIssue it addresses
+    label: string;
+    field: string;              // where the change lands, e.g. "Experience > Developer @ Acme"
+    before: string;
+    after: string;
+    apply: (data: ResumeData) => ResumeData;
+    revert: (data: ResumeData) => ResumeData;
+}
+
+// Duty-style openers and what they become. For sole-ownership phrases a gerund after the opener becomes
+// the verb itself ("Responsible for managing the team" -> "Managed the team"); shared work stays shared.
+const WEAK_OPENERS: { pattern: RegExp; replacement: string; ownsGerund: boolean }[] = [
+    { pattern: /^(?:was |were )?responsible for\s+/i, replacement: 'Owned', ownsGerund: true },
+    { pattern: /^duties included\s+/i, replacement: 'Handled', ownsGerund: true },
+    { pattern: /^tasked with\s+/i, replacement: 'Delivered', ownsGerund: true },
+    { pattern: /^(?:was |were )?involved in\s+/i, replacement: 'Contributed to', ownsGerund: false },
+    { pattern: /^participated in\s+/i, replacement: 'Contributed to', ownsGerund: false },
+    { pattern: /^worked on\s+/i, replacement: 'Contributed to', ownsGerund: false },
+    { pattern: /^assisted (?:with|in)\s+/i, replacement: 'Supported', ownsGerund: false }
+];
+
+const IRREGULAR_PAST: Record<string, string> = {
+    building: 'built', leading: 'led', running: 'ran', writing: 'wrote', making: 'made', teaching: 'taught',
+    driving: 'drove', overseeing: 'oversaw', setting: 'set', selling: 'sold', bringing: 'brought', growing: 'grew',
+    keeping: 'kept', holding: 'held', taking: 'took', giving: 'gave', winning: 'won', spending: 'spent', cutting: 'cut'
+};
+
+/**
+ * "managing" -> "managed", "planning" -> "planned", "building" -> "built"
+ */
+function gerundToPast(gerund: string): string {
+    const lower = gerund.toLowerCase();
+    if (IRREGULAR_PAST[lower]) return IRREGULAR_PAST[lower];
+    const stem = lower.slice(0, -3);
+    return /e$/.test(stem) ? `${stem}d` : `${stem}ed`;
+}
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+/**
+ * A bullet reworded to open with an action verb, or null when it doesn't open with a duty phrase
+ */
+export function strengthenBullet(bullet: string): string | null {
+    const trimmed = bullet.trim().replace(/^[•\-*]\s*/, '');
+    for (const { pattern, replacement, ownsGerund } of WEAK_OPENERS) {
+        const match = trimmed.match(pattern);
+        if (!match) continue;
+        const rest = trimmed.slice(match[0].length);
+        const gerund = rest.match(/^([a-z]{3,}ing)\b/i);
+        if (gerund && ownsGerund) return capitalize(gerundToPast(gerund[1])) + rest.slice(gerund[1].length);
+        return `${replacement} ${rest}`;
+    }
+    return null;
+}
+
+const splitSkills = (skills: string) => skills.split(',').map(s => s.trim()).filter(Boolean);
+
+function newSkills(data: ResumeData, skills: string[]): string[] {
+    const current = splitSkills(data.hardSkills || '').map(s => s.toLowerCase());
+    return skills.filter(skill => !current.includes(skill.toLowerCase()));
+}
+
+function addSkills(data: ResumeData, skills: string[]): ResumeData {
+    return { ...data, hardSkills: [...splitSkills(data.hardSkills || ''), ...newSkills(data, skills)].join(', ') };
+}
+
+function removeSkills(data: ResumeData, skills: string[]): ResumeData {
+    const lower = skills.map(s => s.toLowerCase());
+    return { ...data, hardSkills: splitSkills(data.hardSkills || '').filter(s => !lower.includes(s.toLowerCase())).join(', ') };
+}
+
+/**
+ * Apply/revert pair for adding skills. Undo removes only what the last apply actually added, so skills
+ * the resume already listed (e.g. under a hidden Skills section) stay put.
+ */
+function skillPatch(skills: string[]): Pick<ResumeFix, 'apply' | 'revert'> {
+    let added: string[] = [];
+    return {
+        apply: d => {
+            added = newSkills(d, skills);
+            return addSkills(d, added);
+        },
+        revert: d => removeSkills(d, added)
+    };
+}
+
+function replaceBullet(data: ResumeData, expId: number, from: string, to: string): ResumeData {
+    return {
+        ...data,
+        experience: data.experience.map(exp => exp.id === expId
+            ? { ...exp, bullets: exp.bullets.map(b => b === from ? to : b) }
+            : exp)
+    };
+}
+
+function setSectionHidden(data: ResumeData, id: string, hidden: boolean): ResumeData {
+    const current = (data.hiddenSections || []).filter(h => h !== id);
+    return { ...data, hiddenSections: hidden ? [...current, id] : current };
+}
+
+/**
+ * Sections missing from the score that the resume actually has: hidden ones, and skills named in the bullets
+ */
+function sectionFixes(data: ResumeData, issue: string): ResumeFix[] {
+    const fixes: ResumeFix[] = [];
+    const hasContent: Record<string, boolean> = {
+        experience: (data.experience || []).length > 0,
+        education: (data.education || []).length > 0,
+        skills: !!(data.hardSkills || '').trim()
+    };
+
+    for (const section of ['experience', 'education', 'skills'] as const) {
+        if (!isSectionHidden(data, section) || !hasContent[section]) continue;
+        fixes.push({
+            id: `section:${section}:show`,
+            issue,
+            label: `Show your ${SECTION_LABELS[section]} section`,
+            field: SECTION_LABELS[section],
+            before: 'Hidden',
+            after: 'Shown',
+            apply: d => setSectionHidden(d, section, false),
+            revert: d => setSectionHidden(d, section, true)
+        });
+    }
+
+    if (!hasContent.skills) {
+        const text = [data.summary, ...(data.experience || []).flatMap(exp => [exp.role, ...(exp.bullets || [])])].join('\n');
+        const mentioned = findSkills(text);
+        if (mentioned.length > 0) {
+            fixes.push({
+                id: `skills:fill:${mentioned.join('|')}`,
+                issue,
+                label: `Add a Skills section with ${mentioned.length} skill${mentioned.length === 1 ? '' : 's'} from your experience`,
+                field: 'Skills',
+                before: '',
+                after: mentioned.join(', '),
+                ...skillPatch(mentioned)
+            });
+        }
+    }
+    return fixes;
+}
+
+/**
+ * Fixes for the issues in a score of `data`. Issues that need the user's own content (contact details,
+ * missing roles, experience gaps) have none.
+ */
+export function suggestFixes(data: ResumeData, result: ATSScoreResult): ResumeFix[] {
+    const fixes: ResumeFix[] = [];
+
+    for (const issue of result.issues) {
+        if (issue.title === 'Missing Sections') {
+            fixes.push(...sectionFixes(data, issue.title));
+        }
+
+        if (issue.title === 'Missing Required Skills' && result.requirementMatch) {
+            const missing = result.requirementMatch.missingRequired;
+            if (missing.length === 0) continue;
+            fixes.push({
+                id: `skills:add:${missing.join('|')}`,
+                issue: issue.title,
+                label: `Add ${missing.length} required skill${missing.length === 1 ? '' : 's'} to Skills`,
+                field: 'Skills',
+                before: data.hardSkills || '',
+                after: addSkills(data, missing).hardSkills,
+                ...skillPatch(missing)
+            });
+        }
+
+        if (issue.title === 'Weak Bullet Points') {
+            for (const exp of data.experience || []) {
+                for (const bullet of exp.bullets || []) {
+                    const rewritten = strengthenBullet(bullet);
+                    if (!rewritten) continue;
+                    fixes.push({
+                        id: `bullet:${exp.id}:${bullet}`,
+                        issue: issue.title,
+                        label: 'Lead with an action verb',
+                        field: `Experience > ${[exp.role, exp.company].filter(Boolean).join(' @ ') || 'Untitled role'}`,
+                        before: bullet,
+                        after: rewritten,
+                        apply: d => replaceBullet(d, exp.id, bullet, rewritten),
+                        revert: d => replaceBullet(d, exp.id, rewritten, bullet)
+                    });
+                }
+            }
+        }
+    }
+    return fixes;
+}
@@ -0,0 +1,89 @@
+// ATS Scoring Profiles
+// Different applicant tracking systems weigh a resume differently: some parse strictly by section headings,
+// some match keywords literally, some leave most of the judgement to a recruiter. A profile bundles the
+// category weights, which rules run, and how strictly the text is read. The vendor profiles approximate a
+// parser style; they're not reverse-engineered from the vendors themselves.
+
+export interface ScoreWeights {
+    presence: number;
+    keywords: number;
+    formatting: number;
+    hygiene: number;
+}
+
+// How the resume text is read:
+// lenient  - a section counts if its name appears anywhere; skills match by alias ("JS" = JavaScript)
+// standard - sections come from the parsed structure; skills match by alias
+// strict   - a section counts only under a standard heading line; skills must be spelled as in the posting
+export type ParseStrictness = 'lenient' | 'standard' | 'strict';
+
+export interface ScoringRules {
+    actionVerbBonus: boolean;
+    lengthCheck: boolean;       // deduct for resumes under 100 words
+    garbledCheck: boolean;      // deduct for unreadable characters
+    columnCheck: boolean;       // deduct for multi-column PDF layouts
+    requirementFit: boolean;    // experience / degree warnings from the job description
+    builderGuarantee: boolean;  // builder exports with the core sections score at least 90
+}
+
+export interface ScoringProfile {
+    id: string;
+    name: string;
+    description: string;
+    weights: ScoreWeights;      // add up to 100
+    rules: ScoringRules;
+    strictness: ParseStrictness;
+}
+
+const ALL_RULES: ScoringRules = { actionVerbBonus: true, lengthCheck: true, garbledCheck: true, columnCheck: true, requirementFit: true, builderGuarantee: true };
+
+const PROFILES: ScoringProfile[] = [
+    {
+        id: 'standard',
+        name: 'NextStep Standard',
+        description: 'Balanced scoring across structure, keywords and readability',
+        weights: { presence: 40, keywords: 30, formatting: 20, hygiene: 10 },
+        rules: ALL_RULES,
+        strictness: 'standard'
+    },
+    {
+        id: 'workday',
+        name: 'Workday-style',
+        description: 'Structured parsing: sections must sit under standard headings',
+        weights: { presence: 45, keywords: 25, formatting: 20, hygiene: 10 },
+        rules: { ...ALL_RULES, builderGuarantee: false },
+        strictness: 'strict'
+    },
+    {
+        id: 'greenhouse',
+        name: 'Greenhouse-style',
+        description: 'Lenient parsing with recruiter review, so relevance matters most',
+        weights: { presence: 30, keywords: 45, formatting: 15, hygiene: 10 },
+        rules: { ...ALL_RULES, lengthCheck: false, columnCheck: false, builderGuarantee: false },
+        strictness: 'lenient'
+    },
+    {
+        id: 'taleo',
+        name: 'Taleo-style',
+        description: 'Literal keyword matching and low tolerance for unreadable text',
+        weights: { presence: 30, keywords: 40, formatting: 10, hygiene: 20 },
+        rules: { ...ALL_RULES, actionVerbBonus: false, builderGuarantee: false },
+        strictness: 'strict'
+    }
+];
+
+export const DEFAULT_PROFILE_ID = 'standard';
+
+/**
+ * Profiles in the order the ATS checker offers them
+ */
+export function listScoringProfiles(): ScoringProfile[] {
+    return PROFILES;
+}
+
+/**
+ * Look up a profile by id, falling back to the default for unknown ids
+ */
+export function getScoringProfile(id: string): ScoringProfile {
+    return PROFILES.find(p => p.id === id) || PROFILES.find(p => p.id === DEFAULT_PROFILE_ID)!;
+}
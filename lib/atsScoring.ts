@@ -1,4 +1,12 @@
-import { ResumeData } from '../types';
+import { ResumeData, StandardSection, CustomSectionType, CustomSection } from '../types';
+import { decodeMetadata } from './resumeMetadata';
+import { visibleResumeData, createCustomSection } from './resumeSections';
+import { JobRequirements, RequirementMatch, EducationLevel, analyzeJobDescription, matchRequirements, resumeMatchText, educationLevelOf, meetsEducationLevel, EDUCATION_LABELS } from './jobDescription';
+import { totalExperienceMonths } from './dates';
+import { findSkills, canonicalSkill } from './skillTaxonomy';
+import { ScoringProfile, getScoringProfile, DEFAULT_PROFILE_ID } from './atsProfiles';
+import type { DocumentLayout } from './pdfLayout';
+import { strengthenBullet } from './atsFixes';
 
 // Logic-based ATS Scoring Engine
 // Replaces Gemini for basic ATS score calculation
@@ -13,13 +21,17 @@ export interface ATSScoreResult {
         completeness: number;  // 0-10 or part of Presence
     };
     breakdown: {
-        presence: number;    // 40
+        presence: number;    // 40 in the standard profile
         keywords: number;    // 30
         formatting: number;  // 20
         hygiene: number;     // 10
     };
     issues: ATSIssue[];
+    trace: ScoreTraceEntry[];   // Every rule evaluated, in order; the points add up to overallScore
+    profile: ScoringProfile;    // The weights above come from profile.weights
     extractedData?: ResumeData; // Extracted structure if available (from metadata)
+    requirements?: JobRequirements;     // Set when a job description was given
+    requirementMatch?: RequirementMatch;
 }
 
 export interface ATSIssue {
@@ -31,71 +43,90 @@ export interface ATSIssue {
     severity: 'critical' | 'warning' | 'info';
 }
 
-// Common ATS keywords by category
-const COMMON_SKILLS = [
-    'javascript', 'typescript', 'python', 'java', 'c++', 'react', 'angular', 'vue',
-    'node', 'express', 'django', 'flask', 'spring', 'sql', 'nosql', 'mongodb',
-    'postgresql', 'mysql', 'aws', 'azure', 'gcp', 'docker', 'kubernetes', 'git',
-    'agile', 'scrum', 'leadership', 'communication', 'problem-solving', 'teamwork'
-];
+export type ScoreCategory = keyof ATSScoreResult['breakdown'] | 'adjustment';
 
-/**
- * Metadata Marker Constants
- * Used to inject and extract hidden data from PDF text
- */
-export const METADATA_START_MARKER = "###NXT_DATA_START###";
-export const METADATA_END_MARKER = "###NXT_DATA_END###";
+export interface ScoreTraceEntry {
+    category: ScoreCategory;
+    rule: string;           // "Contact info present"
+    detail: string;         // how the rule decided, in plain words
+    points: number;         // delta applied to the score; negative for deductions
+    maxPoints: number;      // the most this rule can add (0 for deductions and adjustments)
+    evidence: string[];     // what was found
+    missing?: string[];     // what was looked for but not found
+}
 
 /**
  * Extract hidden metadata from PDF text
+ * Signature checks are async and left to the caller (see verifyMetadata)
  */
 function extractMetadata(text: string): ResumeData | null {
-    try {
-        // Attempt 1: Look for markers
-        const start = text.indexOf(METADATA_START_MARKER);
-        const end = text.indexOf(METADATA_END_MARKER);
-
-        if (start !== -1 && end !== -1 && end > start) {
-            let encodedStr = text.substring(start + METADATA_START_MARKER.length, end).trim();
-            // Sanitize: PDF extraction might insert newlines or spaces into the base64 string
-            encodedStr = encodedStr.replace(/\s/g, '');
-
-            try {
-                // Robust Unicode Decoding:
-                // 1. Try standard binary-to-string (works if platform supports TextDecoder)
-                // 2. Fallback to escape/decodeURIComponent pattern (Browser legacy)
-
-                const decodedStr = (() => {
-                    try {
-                        const binaryParams = atob(encodedStr);
-                        const bytes = new Uint8Array(binaryParams.length);
-                        for (let i = 0; i < binaryParams.length; i++) {
-                            bytes[i] = binaryParams.charCodeAt(i);
-                        }
-                        return new TextDecoder().decode(bytes);
-                    } catch (innerE) {
-                        // console.log("TextDecoder failed, trying legacy escape", innerE);
-                        // Legacy/Browser fallback
-                        // @ts-ignore
-                        return decodeURIComponent(escape(atob(encodedStr)));
-                    }
-                })();
-
-                return JSON.parse(decodedStr);
-            } catch (e) {
-                console.error("Base64 decode/parse failed", e);
-                // Last resort: maybe it wasn't encoded?
-                return JSON.parse(encodedStr);
-            }
+    return decodeMetadata(text)?.data ?? null;
+}
+export const EMAIL_REGEX = /[a-zA-Z0-9._-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,6}/;
+export const PHONE_REGEX = /(\+?\d{1,3}[-.\s]?)?(\(?\d{3}\)?[-.\s]?)?\d{3}[-.\s]?\d{4}/;
+export const LINKEDIN_REGEX = /linkedin\.com\/in\/[a-zA-Z0-9_-]+/;
+
+export type ResumeSectionKey = StandardSection;
+
+/**
+ * Map a heading line ("Work Experience", "TECHNICAL SKILLS:") to the resume section it introduces
+ * Shared by the text parser and the DOCX importer
+ */
+export function detectSectionHeading(line: string): ResumeSectionKey | CustomSectionType | null {
+    const lower = line.toLowerCase().replace(/[^a-z\s]/g, '').replace(/\s+/g, ' ').trim();
+    if (lower === 'experience' || lower === 'professional experience' || lower === 'work experience' || lower === 'employment history' || lower === 'work history') return 'experience';
+    if (lower === 'education' || lower === 'educational qualification' || lower === 'academic background' || lower === 'academics') return 'education';
+    if (lower === 'skills' || lower === 'technical skills' || lower === 'skills and strengths' || lower === 'core competencies') return 'skills';
+    if (lower === 'projects' || lower === 'personal projects' || lower === 'academic projects' || lower === 'key projects') return 'projects';
+    if (lower === 'publications' || lower === 'research publications' || lower === 'papers') return 'publications';
+    if (lower === 'volunteering' || lower === 'volunteer experience' || lower === 'volunteer work' || lower === 'community service') return 'volunteering';
+    if (lower === 'awards' || lower === 'honors and awards' || lower === 'awards and honors' || lower === 'achievements' || lower === 'awards and achievements') return 'awards';
+    if (lower === 'summary' || lower === 'professional summary' || lower === 'profile' || lower === 'career objective' || lower === 'objective' || lower === 'about me') return 'summary';
+    if (lower === 'certifications' || lower === 'certificates' || lower === 'licenses and certifications') return 'certifications';
+    if (lower === 'languages' || lower === 'language proficiency') return 'languages';
+    return null;
+}
+
+export const isCustomSectionType = (section: string | null): section is CustomSectionType =>
+    section === 'projects' || section === 'publications' || section === 'volunteering' || section === 'awards';
+
+const ENTRY_DATE_REGEX = /\(?((?:(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\.?\s*)?(?:19|20)\d{2}(?:\s*[-–]\s*(?:(?:(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\.?\s*)?(?:19|20)\d{2}|Present))?)\)?/i;
+
+/**
+ * Turn the lines under a Projects / Awards / ... heading into a custom section.
+ * A non-bullet line opens an entry ("Name | Subtitle  2023"), bullets belong to the entry above.
+ * Shared by the text parser and the DOCX importer
+ */
+export function buildCustomSection(type: CustomSectionType, lines: { text: string; isBullet: boolean }[], nextId: () => number): CustomSection {
+    const section = createCustomSection(type);
+    section.id = `custom-${nextId()}`;
+    section.entries = [];
+
+    for (const line of lines) {
+        const current = section.entries[section.entries.length - 1];
+        if (line.isBullet && current) {
+            current.bullets.push(line.text);
+            continue;
+        }
+        if (line.isBullet) {
+            section.entries.push({ id: nextId(), title: '', subtitle: '', date: '', url: '', bullets: [line.text] });
+            continue;
         }
-    } catch (e) {
-        // console.error("Metadata extraction failed", e);
+
+        const dateMatch = line.text.match(ENTRY_DATE_REGEX);
+        const rest = (dateMatch ? line.text.replace(dateMatch[0], ' ') : line.text).trim().replace(/[\s,|–-]+$/, '');
+        const [title, ...subtitle] = rest.split(/\s+[|–-]\s+|\s*\|\s*/);
+        section.entries.push({
+            id: nextId(),
+            title: (title || '').trim().substring(0, 150),
+            subtitle: subtitle.join(', ').trim().substring(0, 150),
+            date: dateMatch ? dateMatch[1] : '',
+            url: '',
+            bullets: []
+        });
     }
-    return null;
+    return section;
 }
-const EMAIL_REGEX = /[a-zA-Z0-9._-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,6}/;
-const PHONE_REGEX = /(\+?\d{1,3}[-.\s]?)?(\(?\d{3}\)?[-.\s]?)?\d{3}[-.\s]?\d{4}/;
-const LINKEDIN_REGEX = /linkedin\.com\/in\/[a-zA-Z0-9_-]+/;
 
 /**
  * Heuristic Parser for Raw Text (Best Effort)
@@ -129,9 +160,7 @@ function parseResumeFromText(text: string): ResumeData {
     }
 
     // Skill extraction
-    const foundSkills = COMMON_SKILLS.filter(skill =>
-        text.toLowerCase().includes(skill.toLowerCase())
-    );
+    const foundSkills = findSkills(text);
 
     // Partition the text into logical sections
     let currentSection = 'summary';
@@ -139,30 +168,33 @@ function parseResumeFromText(text: string): ResumeData {
     const experienceLines: string[] = [];
     const educationLines: string[] = [];
     const skillsLines: string[] = [];
-
-    const isSectionHeader = (line: string): string | null => {
-        const lower = line.toLowerCase().replace(/[^a-z\s]/g, '').trim();
-        if (lower === 'experience' || lower === 'professional experience' || lower === 'work experience' || lower === 'employment history' || lower === 'work history') return 'experience';
-        if (lower === 'education' || lower === 'educational qualification' || lower === 'academic background' || lower === 'academics') return 'education';
-        if (lower === 'skills' || lower === 'technical skills' || lower === 'skills and strengths' || lower === 'core competencies') return 'skills';
-        if (lower === 'projects' || lower === 'personal projects') return 'experience'; // Group projects into experience for now
-        return null;
-    };
+    const customLines: Partial<Record<CustomSectionType, string[]>> = {};
 
     for (const line of lines) {
         // Ignore the name line if it's identical
         if (line.toLowerCase() === fullName.toLowerCase()) continue;
         
-        const newSection = isSectionHeader(line);
-        if (newSection) {
+        const newSection = detectSectionHeading(line);
+        if (newSection === 'experience' || newSection === 'education' || newSection === 'skills') {
             currentSection = newSection;
             continue; // skip the header line itself
         }
+        if (isCustomSectionType(newSection)) {
+            currentSection = newSection;
+            customLines[newSection] = customLines[newSection] || [];
+            continue;
+        }
+        // Certifications and languages aren't parsed from text, but their lines shouldn't run into the section above
+        if (newSection) {
+            currentSection = newSection;
+            continue;
+        }
 
         if (currentSection === 'summary') summaryLines.push(line);
         else if (currentSection === 'experience') experienceLines.push(line);
         else if (currentSection === 'education') educationLines.push(line);
         else if (currentSection === 'skills') skillsLines.push(line);
+        else if (isCustomSectionType(currentSection)) customLines[currentSection]!.push(line);
     }
 
     // Clean up summary
@@ -291,7 +323,15 @@ function parseResumeFromText(text: string): ResumeData {
         }
     }
 
-    const allSkills = new Set([...foundSkills, ...skillsLines.join(' ').split(/[,|•]+/).map(s => s.trim()).filter(s => s.length > 0)]);
+    const allSkills = new Set([...foundSkills, ...skillsLines.join(' ').split(/[,|•]+/).map(s => s.trim()).filter(s => s.length > 0).map(canonicalSkill)]);
+
+    // Projects, awards etc. - bullet glyphs and long sentences are details, other lines start an entry
+    let customId = Date.now() + 200;
+    const customSections = (Object.keys(customLines) as CustomSectionType[]).map(type => buildCustomSection(
+        type,
+        customLines[type]!.map(line => ({ text: line.replace(/^[•▪◦*-]\s*/, ''), isBullet: /^[•▪◦*-]/.test(line) || line.length > 100 })),
+        () => customId++
+    )).filter(section => section.entries.length > 0);
 
     return {
         // @ts-ignore
@@ -309,19 +349,24 @@ function parseResumeFromText(text: string): ResumeData {
         hardSkills: Array.from(allSkills).join(", "),
         softSkills: "",
         certifications: [],
-        languages: []
+        languages: [],
+        customSections
     };
 }
 
 
 /**
  * Main Entry Point: Calculate ATS Score
- * Can accept raw text OR structured ResumeData
+ * Can accept raw text OR structured ResumeData, and a job description as text or already analyzed.
+ * Pass the PDF layout (see pdfLayout.ts) when there is one so multi-column designs can be flagged.
  */
 export function calculateATSScore(
     input: string | ResumeData,
-    jobDescription: string = ''
+    jobDescription: string | JobRequirements = '',
+    profile: ScoringProfile = getScoringProfile(DEFAULT_PROFILE_ID),
+    layout?: DocumentLayout
 ): ATSScoreResult {
+    const { weights, rules } = profile;
     let data: ResumeData | null = null;
     let text = '';
     let isBuilder = false;
@@ -346,28 +391,50 @@ export function calculateATSScore(
     }
 
     const issues: ATSIssue[] = [];
+    const trace: ScoreTraceEntry[] = [];
+    // Hidden sections aren't on the page, so they can't count towards the score
+    const scored = data ? visibleResumeData(data) : null;
 
     // 2. Calculate Scores
 
-    // A. Section Presence (40 points)
-    const presenceScore = calculatePresenceScore(data, text, issues);
+    // A. Section Presence (40 points in the standard profile)
+    const presenceScore = calculatePresenceScore(scored, text, isBuilder, profile, issues, trace);
 
     // B. Keyword Match (30 points)
-    const keywordScore = calculateKeywordScore(data, text, jobDescription, issues);
+    const requirements = typeof jobDescription === 'string'
+        ? (jobDescription.trim().length > 50 ? analyzeJobDescription(jobDescription) : null)
+        : jobDescription;
+    // Strict parsers match what's on the page, not our parser's cleaned-up skill names
+    const literal = profile.strictness === 'strict';
+    const matchText = scored && !(literal && !isBuilder) ? resumeMatchText(scored) : text;
+    const requirementMatch = requirements ? matchRequirements(requirements, matchText, literal) : undefined;
+    const keywordScore = calculateKeywordScore(scored, text, requirements, requirementMatch, profile, issues, trace);
+    if (requirements && scored && rules.requirementFit) checkRequirementFit(scored, requirements, issues);
+    if (scored && rules.actionVerbBonus) checkBulletOpeners(scored, issues);
 
     // C. Formatting & Readability (20 points)
     // If builder, we guarantee full points here
-    const formattingScore = isBuilder ? 20 : calculateFormattingScore(text, issues);
+    const formattingScore = isBuilder ? builderPoints('formatting', weights.formatting, trace) : calculateFormattingScore(text, profile, issues, trace, layout);
 
     // D. ATS Hygiene (10 points)
     // If builder, we guarantee full points here
-    const hygieneScore = isBuilder ? 10 : calculateHygieneScore(text, issues);
+    const hygieneScore = isBuilder ? builderPoints('hygiene', weights.hygiene, trace) : calculateHygieneScore(text, profile, issues, trace, layout);
 
     let overallScore = presenceScore + keywordScore + formattingScore + hygieneScore;
 
     // 3. BUILDER GUARANTEE
     // If source is builder and essential sections are present, guarantee >= 90
-    if (isBuilder && presenceScore >= 30) {
+    if (rules.builderGuarantee && isBuilder && presenceScore >= weights.presence * 0.75) {
+        if (overallScore < 90) {
+            trace.push({
+                category: 'adjustment',
+                rule: 'Builder guarantee',
+                detail: 'Resumes exported from the builder with at least three core sections score no lower than 90.',
+                points: 90 - overallScore,
+                maxPoints: 0,
+                evidence: []
+            });
+        }
         overallScore = Math.max(90, overallScore);
 
         // Remove critical issues if we are boosting score
@@ -394,19 +461,35 @@ export function calculateATSScore(
             hygiene: hygieneScore
         },
         issues: issues.slice(0, 5),
-        extractedData: data || undefined // Pass back data if present (from builder OR parser)
+        trace,
+        profile,
+        extractedData: data || undefined, // Pass back data if present (from builder OR parser)
+        requirements: requirements || undefined,
+        requirementMatch
     };
 }
 
+/**
+ * Split a category's weight into whole-point parts that add back up to it exactly (35 over 4 -> 9, 9, 8, 9)
+ */
+function share(weight: number, index: number, parts: number): number {
+    return Math.round((index + 1) * weight / parts) - Math.round(index * weight / parts);
+}
+
 /**
  * Score A: Section Presence (40 points)
  */
-function calculatePresenceScore(data: ResumeData | null, text: string, issues: ATSIssue[]): number {
+function calculatePresenceScore(data: ResumeData | null, text: string, isBuilder: boolean, profile: ScoringProfile, issues: ATSIssue[], trace: ScoreTraceEntry[]): number {
     let score = 0;
     const missing: string[] = [];
+    // Builder data has known structure; strictness only changes how raw text is read
+    const strictness = isBuilder ? 'standard' : profile.strictness;
+    const headings = new Set(text.split('\n').map(line => detectSectionHeading(line.trim())));
 
     // Helper to check
-    const has = (keyword: string, sectionData?: any) => {
+    const has = (keyword: string): boolean => {
+        if (strictness === 'strict' && keyword !== 'contact') return headings.has(keyword as ResumeSectionKey);
+        if (strictness === 'lenient' && textMentions(keyword)) return true;
         if (data) {
             if (keyword === 'contact') return !!(data.email || data.phone);
             if (keyword === 'experience') return data.experience && data.experience.length > 0;
@@ -414,16 +497,34 @@ function calculatePresenceScore(data: ResumeData | null, text: string, issues: A
             if (keyword === 'skills') return !!data.hardSkills;
             return false;
         } else {
-            const lower = text.toLowerCase();
-            // Simple heuristic
-            return lower.includes(keyword) || lower.includes(keyword === 'contact' ? 'email' : keyword);
+            return textMentions(keyword);
         }
     };
+    // Simple heuristic
+    const textMentions = (keyword: string) => {
+        const lower = text.toLowerCase();
+        return lower.includes(keyword) || lower.includes(keyword === 'contact' ? 'email' : keyword);
+    };
 
-    if (has('contact')) score += 10; else missing.push('Contact Info');
-    if (has('experience')) score += 10; else missing.push('Experience');
-    if (has('education')) score += 10; else missing.push('Education');
-    if (has('skills')) score += 10; else missing.push('Skills');
+    const sections: [string, string][] = [['contact', 'Contact Info'], ['experience', 'Experience'], ['education', 'Education'], ['skills', 'Skills']];
+    sections.forEach(([keyword, label], index) => {
+        const found = has(keyword);
+        const points = share(profile.weights.presence, index, sections.length);
+        if (found) score += points; else missing.push(label);
+        trace.push({
+            category: 'presence',
+            rule: `${label} present`,
+            detail: strictness === 'strict' && keyword !== 'contact'
+                ? `Needs a standard "${label}" heading on its own line.`
+                : data
+                    ? `Read from the resume's ${keyword === 'contact' ? 'email and phone fields' : `${keyword} section`}${strictness === 'lenient' ? `, or "${keyword}" anywhere in the text` : ''}.`
+                    : `Looked for "${keyword}"${keyword === 'contact' ? ' or "email"' : ''} in the extracted text.`,
+            points: found ? points : 0,
+            maxPoints: points,
+            evidence: found ? [label] : [],
+            missing: found ? undefined : [label]
+        });
+    });
 
     if (missing.length > 0) {
         issues.push({
@@ -440,75 +541,205 @@ function calculatePresenceScore(data: ResumeData | null, text: string, issues: A
 }
 
 /**
- * Score B: Keyword Match (30 points)
+ * Score B: Keyword Match (30 points in the standard profile)
  */
 function calculateKeywordScore(
     data: ResumeData | null,
     text: string,
-    jd: string,
-    issues: ATSIssue[]
+    requirements: JobRequirements | null,
+    match: RequirementMatch | undefined,
+    profile: ScoringProfile,
+    issues: ATSIssue[],
+    trace: ScoreTraceEntry[]
 ): number {
+    const max = profile.weights.keywords;
     let score = 0;
-    const resumeTextLowercase = data
-        ? (JSON.stringify(data.experience) + " " + data.hardSkills + " " + data.summary).toLowerCase() // Targeted text
-        : text.toLowerCase();
+    const resumeTextLowercase = (data ? resumeMatchText(data) : text).toLowerCase(); // Targeted text
 
     // 1. If Job Description exists -> Smart Match
-    if (jd && jd.length > 50) {
-        const jdLower = jd.toLowerCase();
-        // Extract nouns/keywords from JD (simple approach without NLP lib)
-        // We actally want to check if resume contains words from JD.
-        const jdWords = jdLower.split(/\W+/).filter(w => w.length > 4);
-        const uniqueJdWords = [...new Set(jdWords)];
-
-        let matchCount = 0;
-        const totalToCheck = Math.min(uniqueJdWords.length, 20); // Check top 20 unique long words
-
-        for (const word of uniqueJdWords.slice(0, 20)) {
-            if (resumeTextLowercase.includes(word)) matchCount++;
+    if (requirements && match && requirements.requiredSkills.length + requirements.preferredSkills.length > 0) {
+        // Required skills count double; 80% coverage is already a strong match
+        score = Math.floor(Math.min(max, (match.score / 0.8) * max));
+        // Strict parsers want the posting's own wording, so name the skill the way the posting did
+        const asPosted = (skill: string) => profile.strictness === 'strict' ? requirements.spellings?.[skill]?.[0] || skill : skill;
+        trace.push({
+            category: 'keywords',
+            rule: 'Job skills covered',
+            detail: `${match.matchedRequired.length}/${requirements.requiredSkills.length} required and ${match.matchedPreferred.length}/${requirements.preferredSkills.length} preferred skills found${profile.strictness === 'strict' ? ', spelled as in the posting' : ''}. Required skills count double; 80% coverage earns full points.`,
+            points: score,
+            maxPoints: max,
+            evidence: [...match.matchedRequired, ...match.matchedPreferred],
+            missing: [...match.missingRequired, ...match.missingPreferred]
+        });
+        if (match.missingRequired.length > 0) {
+            issues.push({
+                title: 'Missing Required Skills',
+                location: 'keywords',
+                description: `The job lists ${match.missingRequired.length} required skill(s) your resume doesn't mention.`,
+                highlight: match.missingRequired.slice(0, 8).map(asPosted).join(', '),
+                suggestion: 'Add the ones you genuinely have to your skills section or to the bullets where you used them.',
+                severity: match.missingRequired.length > requirements.requiredSkills.length / 2 ? 'critical' : 'warning'
+            });
         }
-
-        // 30 points max
-        // If we match 50% of substantial JD words, we get full points?
-        // Let's say matching 10 unique keywords is excellent
-        score = Math.min(30, (matchCount / 10) * 30);
+    } else if (requirements) {
+        // No recognisable skills in the posting: fall back to its most frequent terms
+        const matched = requirements.keywords.filter(word => resumeTextLowercase.includes(word));
+
+        // Matching 10 of the posting's top 20 terms is excellent
+        score = Math.floor(Math.min(max, (matched.length / 10) * max));
+        trace.push({
+            category: 'keywords',
+            rule: 'Job description terms',
+            detail: `No known skills in the job description, so its most frequent terms were matched instead. ${matched.length} of ${requirements.keywords.length} found; 10 earns full points.`,
+            points: score,
+            maxPoints: max,
+            evidence: matched,
+            missing: requirements.keywords.filter(word => !matched.includes(word))
+        });
     }
     // 2. No JD -> General Competency Check
     else {
         // If it's a builder resume, we assume they selected a role which implies some relevance.
         // We'll give 25 points baseline if skills are populated.
         if (data && data.hardSkills && data.hardSkills.length > 5) {
-            score = 25;
+            score = Math.round(max * 5 / 6);
+            trace.push({
+                category: 'keywords',
+                rule: 'Skills section filled',
+                detail: `No job description was given, so a filled-in skills section earns a ${score} point baseline.`,
+                points: score,
+                maxPoints: score,
+                evidence: data.hardSkills.split(',').map(s => s.trim()).filter(Boolean)
+            });
         } else {
             // Fallback for raw text
-            const matchedCommon = COMMON_SKILLS.filter(s => resumeTextLowercase.includes(s));
-            score = Math.min(30, 10 + (matchedCommon.length * 2));
+            const matchedSkills = findSkills(resumeTextLowercase);
+            const base = Math.round(max / 3);
+            const perSkill = Math.round(max / 15);
+            score = Math.min(max, base + (matchedSkills.length * perSkill));
+            trace.push({
+                category: 'keywords',
+                rule: 'Recognised skills',
+                detail: `No job description was given: ${base} points plus ${perSkill} for each recognised skill.`,
+                points: score,
+                maxPoints: max,
+                evidence: matchedSkills
+            });
         }
     }
 
     // Bonus: Action Verbs
-    // Only check if score < 30
-    if (score < 30) {
+    // Only check if below the maximum
+    if (profile.rules.actionVerbBonus && score < max) {
         const actionVerbs = ['managed', 'led', 'developed', 'created', 'built', 'designed'];
-        if (resumeTextLowercase.match(new RegExp(actionVerbs.join('|'), 'i'))) {
-            score = Math.min(30, score + 5);
+        const usedVerbs = actionVerbs.filter(verb => resumeTextLowercase.includes(verb));
+        const maxBonus = Math.round(max / 6);
+        const bonus = usedVerbs.length > 0 ? Math.min(max, score + maxBonus) - score : 0;
+        score += bonus;
+        trace.push({
+            category: 'keywords',
+            rule: 'Action verbs bonus',
+            detail: `Up to ${maxBonus} extra points, capped at ${max}, for using action verbs.`,
+            points: bonus,
+            maxPoints: maxBonus,
+            evidence: usedVerbs,
+            missing: usedVerbs.length > 0 ? undefined : actionVerbs
+        });
+    }
+
+    return score;
+}
+
+/**
+ * Experience and degree thresholds from the job description. Advisory only - they add issues, not points,
+ * and only run on structured data where dates and degrees can be read reliably.
+ */
+function checkRequirementFit(data: ResumeData, requirements: JobRequirements, issues: ATSIssue[]): void {
+    const months = totalExperienceMonths(data.experience || []);
+    if (requirements.minYears && months > 0 && months < requirements.minYears * 12) {
+        issues.push({
+            title: 'Experience Below Requirement',
+            location: 'experience',
+            description: `The job asks for ${requirements.minYears}+ years; your dated roles add up to about ${Math.floor(months / 12)} year(s).`,
+            highlight: requirements.experience.find(e => e.minYears === requirements.minYears)?.source || '',
+            suggestion: 'Include relevant internships, freelance or volunteer work with dates, or target a role closer to your level.',
+            severity: 'warning'
+        });
+    }
+
+    const degree = requirements.education.find(e => e.strength === 'required' && !e.equivalentExperience);
+    if (degree) {
+        const held = (data.education || []).map(e => educationLevelOf(e.degree)).filter((level): level is EducationLevel => level !== null);
+        if (!held.some(level => meetsEducationLevel(level, degree.level))) {
+            issues.push({
+                title: 'Degree Requirement',
+                location: 'education',
+                description: `The job requires a ${EDUCATION_LABELS[degree.level].toLowerCase()}${degree.fields.length > 0 ? ` in ${degree.fields.join(' or ')}` : ''}.`,
+                highlight: degree.source,
+                suggestion: held.length === 0 && (data.education || []).length > 0
+                    ? 'Spell out your degree type (e.g. "Bachelor of Science") so ATS filters can read it.'
+                    : 'If you hold this degree, add it to your education section.',
+                severity: 'warning'
+            });
         }
     }
+}
+
+/**
+ * Bullets that open with a duty ("Responsible for...") instead of an action verb. Advisory, like the fit checks.
+ */
+function checkBulletOpeners(data: ResumeData, issues: ATSIssue[]): void {
+    const weak = (data.experience || []).flatMap(exp => exp.bullets || []).filter(bullet => strengthenBullet(bullet) !== null);
+    if (weak.length === 0) return;
+    issues.push({
+        title: 'Weak Bullet Points',
+        location: 'experience',
+        description: `${weak.length} bullet${weak.length === 1 ? ' opens' : 's open'} with a duty rather than what you achieved.`,
+        highlight: weak[0],
+        suggestion: 'Start with a past-tense action verb: "Responsible for managing the team" becomes "Managed the team".',
+        severity: 'warning'
+    });
+}
 
-    return Math.floor(score);
+/**
+ * Builder exports are generated with ATS-safe markup, so formatting and hygiene aren't re-checked
+ */
+function builderPoints(category: 'formatting' | 'hygiene', points: number, trace: ScoreTraceEntry[]): number {
+    trace.push({
+        category,
+        rule: 'Built with the resume builder',
+        detail: 'Builder exports use ATS-safe layout and fonts, so this category gets full points.',
+        points,
+        maxPoints: points,
+        evidence: []
+    });
+    return points;
 }
 
 /**
- * Score C: Formatting (20 points)
- * Builder resumes automatically get 20.
+ * Score C: Formatting (20 points in the standard profile)
+ * Builder resumes automatically get full points.
  */
-function calculateFormattingScore(text: string, issues: ATSIssue[]): number {
-    let score = 20;
+function calculateFormattingScore(text: string, profile: ScoringProfile, issues: ATSIssue[], trace: ScoreTraceEntry[], layout?: DocumentLayout): number {
+    const max = profile.weights.formatting;
+    let score = max;
+    trace.push({ category: 'formatting', rule: 'Starting points', detail: `Formatting starts at ${max}; problems below are deducted.`, points: max, maxPoints: max, evidence: [] });
 
     // Check length
     const words = text.split(/\s+/).length;
-    if (words < 100) {
-        score -= 10;
+    const penalty = Math.round(max / 2);
+    if (profile.rules.lengthCheck) {
+        trace.push({
+            category: 'formatting',
+            rule: 'At least 100 words',
+            detail: `${words} words extracted.`,
+            points: words < 100 ? -penalty : 0,
+            maxPoints: 0,
+            evidence: [`${words} words`]
+        });
+    }
+    if (profile.rules.lengthCheck && words < 100) {
+        score -= penalty;
         issues.push({
             title: 'Too Short',
             location: 'overall',
@@ -519,6 +750,37 @@ function calculateFormattingScore(text: string, issues: ATSIssue[]): number {
         });
     }
 
+    // Columns: most parsers read straight across the page, so side-by-side columns get interleaved
+    if (profile.rules.columnCheck && layout) {
+        const columnPages = layout.pages.filter(page => page.columns > 1);
+        const columnPenalty = Math.round(max / 4);
+        trace.push({
+            category: 'formatting',
+            rule: 'Single-column layout',
+            detail: columnPages.length > 0
+                ? `${columnPages[0].columns} columns found on ${columnPages.length === 1 ? `page ${columnPages[0].page}` : `${columnPages.length} pages`}.`
+                : 'Text reads top to bottom in one column.',
+            points: columnPages.length > 0 ? -columnPenalty : 0,
+            maxPoints: 0,
+            evidence: columnPages.map(page => `Page ${page.page}: ${page.columns} columns`)
+        });
+        if (columnPages.length > 0) {
+            score -= columnPenalty;
+            // Quote the start of the smallest column - the one most likely to be scattered
+            const columnLines = (c: number) => columnPages[0].lines.filter(line => line.column === c);
+            const sizes = Array.from({ length: columnPages[0].columns }, (_, c) => columnLines(c).reduce((sum, line) => sum + line.text.length, 0));
+            const sideColumn = columnLines(sizes.indexOf(Math.min(...sizes)))[0];
+            issues.push({
+                title: 'Multi-Column Layout',
+                location: 'formatting',
+                description: 'Your resume uses side-by-side columns. Many ATS parsers read straight across the page and mix the columns together.',
+                highlight: sideColumn ? sideColumn.text : 'Side column',
+                suggestion: 'Use a single-column layout, or keep a side column to short lists such as skills and languages.',
+                severity: profile.strictness === 'strict' ? 'critical' : 'warning'
+            });
+        }
+    }
+
     // Check caps
     // This is hard on raw extracted text as PDF extraction might lose casing
     // Ignoring complex checks for MVP to ensure stability
@@ -527,14 +789,54 @@ function calculateFormattingScore(text: string, issues: ATSIssue[]): number {
 }
 
 /**
- * Score D: Hygiene (10 points)
+ * Score D: Hygiene (10 points in the standard profile)
  */
-function calculateHygieneScore(text: string, issues: ATSIssue[]): number {
-    let score = 10;
+function calculateHygieneScore(text: string, profile: ScoringProfile, issues: ATSIssue[], trace: ScoreTraceEntry[], layout?: DocumentLayout): number {
+    const max = profile.weights.hygiene;
+    let score = max;
+    trace.push({ category: 'hygiene', rule: 'Starting points', detail: `Hygiene starts at ${max}; problems below are deducted.`, points: max, maxPoints: max, evidence: [] });
+
+    // Scanned pages: we can OCR them, but an ATS reads the text layer and gets nothing. Every profile checks this.
+    if (layout && layout.pages.length > 0) {
+        const imageOnly = layout.imageOnlyPages;
+        const imagePenalty = Math.round(max * imageOnly.length / layout.pages.length);
+        score -= imagePenalty;
+        trace.push({
+            category: 'hygiene',
+            rule: 'Selectable text',
+            detail: imageOnly.length > 0
+                ? `${imageOnly.length} of ${layout.pages.length} ${imageOnly.length === 1 ? 'page is an image' : 'pages are images'} with no text layer${layout.ocrPages.length > 0 ? '; this analysis read them with OCR' : ''}.`
+                : 'Every page has a text layer an ATS can read.',
+            points: -imagePenalty,
+            maxPoints: 0,
+            evidence: imageOnly.map(page => `Page ${page}`)
+        });
+        if (imageOnly.length > 0) {
+            issues.push({
+                title: 'Image-Only PDF',
+                location: 'formatting',
+                description: `${imageOnly.length === layout.pages.length ? 'This PDF is a scanned image' : `${imageOnly.length === 1 ? 'Page' : 'Pages'} ${imageOnly.join(', ')} of this PDF ${imageOnly.length === 1 ? 'is a scanned image' : 'are scanned images'}`} with no selectable text. ${layout.ocrPages.length > 0 ? 'We read it with OCR for this report, but most ATSs' : 'Most ATSs'} don't run OCR, so they will likely see a blank document.`,
+                highlight: imageOnly.map(page => `Page ${page}`).join(', '),
+                suggestion: 'Export your resume to PDF straight from your editor or our builder instead of scanning, printing to image or flattening it.',
+                severity: 'critical'
+            });
+        }
+    }
+    if (!profile.rules.garbledCheck) return score;
 
-    if (text.includes('$$$') || text.includes('???')) { // Garbage chars
-        score -= 5;
+    const penalty = Math.min(Math.round(max / 2), score);
+    const garbage = ['$$$', '???'].filter(chars => text.includes(chars));
+    if (garbage.length > 0) { // Garbage chars
+        score -= penalty;
     }
+    trace.push({
+        category: 'hygiene',
+        rule: 'No garbled characters',
+        detail: 'Runs like "$$$" or "???" usually mean fonts or symbols the ATS could not read.',
+        points: garbage.length > 0 ? -penalty : 0,
+        maxPoints: 0,
+        evidence: garbage
+    });
 
     return Math.max(0, score);
 }
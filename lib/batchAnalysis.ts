@@ -0,0 +1,187 @@
+// Batch ATS Analysis
+// Scores a folder or zip of resumes against one job description, for coaches and placement teams.
+// Files are read on the main thread (pdf.js already parses in its own worker, and DOCX parsing needs
+// DOMParser); layout analysis and scoring then run in a pool of Web Workers (batchWorker.ts) so a
+// 100-file batch doesn't freeze the page.
+
+import { unzipSync } from 'fflate';
+import type { ATSScoreResult } from './atsScoring';
+import type { PageItems } from './pdfLayout';
+import { getScoringProfile } from './atsProfiles';
+
+export interface BatchFile {
+    name: string;               // path inside the zip or folder, e.g. "cse/jane-doe.pdf"
+    data: Uint8Array;
+}
+
+// What the main thread extracted from a file: positioned PDF text, or plain text from a DOCX
+export type BatchInput = { kind: 'pdf'; pages: PageItems[] } | { kind: 'text'; text: string };
+
+export interface BatchScore {
+    candidate: string;
+    overallScore: number;
+    breakdown: ATSScoreResult['breakdown'];
+    issues: { title: string; severity: 'critical' | 'warning' | 'info' }[];
+    missingRequired: string[];
+}
+
+export interface BatchRequest {
+    id: number;
+    input: BatchInput;
+    jobDescription: string;
+    profileId: string;
+}
+
+export interface BatchResponse {
+    id: number;
+    score?: BatchScore;
+    error?: string;
+}
+
+export type BatchStatus = 'queued' | 'reading' | 'scoring' | 'done' | 'error';
+
+export interface BatchRow {
+    id: number;
+    fileName: string;
+    status: BatchStatus;
+    score?: BatchScore;
+    error?: string;
+}
+
+export type BatchSortKey = 'fileName' | 'candidate' | 'overallScore' | keyof ATSScoreResult['breakdown'];
+
+const RESUME_FILE = /\.(pdf|docx)$/i;
+
+export const isDocxName = (name: string) => /\.docx$/i.test(name);
+
+/**
+ * PDFs and DOCX files from a selection of files, folders (webkitdirectory) and zips.
+ * Zips are expanded; macOS resource forks and other files are skipped.
+ */
+export async function collectResumeFiles(files: File[]): Promise<BatchFile[]> {
+    const collected: BatchFile[] = [];
+    for (const file of files) {
+        const name = file.webkitRelativePath || file.name;
+        if (/\.zip$/i.test(file.name)) {
+            const entries = unzipSync(new Uint8Array(await file.arrayBuffer()), {
+                filter: entry => RESUME_FILE.test(entry.name) && !/(^|\/)(__MACOSX|\.)/.test(entry.name)
+            });
+            for (const [entryName, data] of Object.entries(entries)) collected.push({ name: `${file.name}/${entryName}`, data });
+        } else if (RESUME_FILE.test(name)) {
+            collected.push({ name, data: new Uint8Array(await file.arrayBuffer()) });
+        }
+    }
+    return collected.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export interface ScoringPool {
+    score(input: BatchInput, jobDescription: string, profileId: string): Promise<BatchScore>;
+    terminate(): void;
+}
+
+/**
+ * A fixed set of scoring workers; jobs queue until a worker is free
+ */
+export function createScoringPool(size = Math.max(1, Math.min(4, (navigator.hardwareConcurrency || 2) - 1))): ScoringPool {
+    const workers = Array.from({ length: size }, () => new Worker(new URL('./batchWorker.ts', import.meta.url), { type: 'module' }));
+    const idle = [...workers];
+    const queue: { request: BatchRequest; resolve: (score: BatchScore) => void; reject: (error: Error) => void }[] = [];
+    const running = new Map<Worker, (typeof queue)[number]>();
+    let nextId = 1;
+    let terminated = false;
+
+    const dispatch = () => {
+        while (idle.length > 0 && queue.length > 0) {
+            const worker = idle.pop()!;
+            const job = queue.shift()!;
+            running.set(worker, job);
+            worker.postMessage(job.request);
+        }
+    };
+
+    const finish = (worker: Worker, settle: (job: (typeof queue)[number]) => void) => {
+        const job = running.get(worker);
+        running.delete(worker);
+        idle.push(worker);
+        if (job) settle(job);
+        dispatch();
+    };
+
+    for (const worker of workers) {
+        worker.onmessage = (event: MessageEvent<BatchResponse>) => finish(worker, job =>
+            event.data.score ? job.resolve(event.data.score) : job.reject(new Error(event.data.error || 'Scoring failed'))
+        );
+        worker.onerror = event => finish(worker, job => job.reject(new Error(event.message || 'Scoring worker crashed')));
+    }
+
+    return {
+        score(input, jobDescription, profileId) {
+            return new Promise((resolve, reject) => {
+                if (terminated) return reject(new Error('Batch cancelled'));
+                queue.push({ request: { id: nextId++, input, jobDescription, profileId }, resolve, reject });
+                dispatch();
+            });
+        },
+        terminate() {
+            terminated = true;
+            workers.forEach(worker => worker.terminate());
+            [...queue, ...running.values()].forEach(job => job.reject(new Error('Batch cancelled')));
+            queue.length = 0;
+            running.clear();
+        }
+    };
+}
+
+const sortValue = (row: BatchRow, key: BatchSortKey): string | number => {
+    if (key === 'fileName') return row.fileName.toLowerCase();
+    if (key === 'candidate') return (row.score?.candidate || '').toLowerCase();
+    if (key === 'overallScore') return row.score?.overallScore ?? -1;
+    return row.score?.breakdown[key] ?? -1;
+};
+
+/**
+ * Rows sorted by a column; rows without a score (queued, failed) always sort last
+ */
+export function sortBatchRows(rows: BatchRow[], key: BatchSortKey, direction: 'asc' | 'desc'): BatchRow[] {
+    return [...rows].sort((a, b) => {
+        if (!a.score !== !b.score) return a.score ? -1 : 1;
+        const x = sortValue(a, key);
+        const y = sortValue(b, key);
+        const order = x < y ? -1 : x > y ? 1 : 0;
+        return direction === 'asc' ? order : -order;
+    });
+}
+
+// File and candidate names come from the uploads; Excel would run a cell that starts like a formula
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvCell = (value: string | number) => {
+    const raw = String(value);
+    const text = typeof value === 'string' && FORMULA_START.test(raw) ? `'${raw}` : raw;
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * CSV with one row per file, in the given order
+ */
+export function batchToCsv(rows: BatchRow[], profileId: string): string {
+    const { weights } = getScoringProfile(profileId);
+    const header = [
+        'File', 'Candidate', 'Overall',
+        `Section Presence (/${weights.presence})`, `Keywords (/${weights.keywords})`, `Formatting (/${weights.formatting})`, `Hygiene (/${weights.hygiene})`,
+        'Missing Required Skills', 'Top Issues', 'Error'
+    ];
+    const lines = rows.map(row => [
+        row.fileName,
+        row.score?.candidate || '',
+        row.score?.overallScore ?? '',
+        row.score?.breakdown.presence ?? '',
+        row.score?.breakdown.keywords ?? '',
+        row.score?.breakdown.formatting ?? '',
+        row.score?.breakdown.hygiene ?? '',
+        (row.score?.missingRequired || []).join('; '),
+        (row.score?.issues || []).slice(0, 3).map(issue => issue.title).join('; '),
+        row.error || ''
+    ]);
+    return [header, ...lines].map(line => line.map(csvCell).join(',')).join('\n');
+}
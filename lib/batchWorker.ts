@@ -0,0 +1,42 @@
+// Batch Scoring Worker
+// One extracted resume in, one score out. Started by createScoringPool in batchAnalysis.ts; it only
+// imports types from there so the pool code isn't bundled into the worker.
+
+import type { BatchInput, BatchScore, BatchRequest, BatchResponse } from './batchAnalysis';
+import { calculateATSScore } from './atsScoring';
+import { getScoringProfile } from './atsProfiles';
+import { decodeMetadata } from './resumeMetadata';
+import { analyzeLayout } from './pdfLayout';
+
+// This file runs as a dedicated worker; the project is typed against the DOM lib, not WebWorker
+const scope = self as unknown as {
+    onmessage: ((event: MessageEvent<BatchRequest>) => void) | null;
+    postMessage: (message: BatchResponse) => void;
+};
+
+function scoreBatchInput(input: BatchInput, jobDescription: string, profileId: string): BatchScore {
+    const layout = input.kind === 'pdf' ? analyzeLayout(input.pages) : undefined;
+    // Same choice as the single-file checker: builder exports are read from their embedded data
+    const text = layout ? (decodeMetadata(layout.rawText) ? layout.rawText : layout.text) : input.kind === 'text' ? input.text : '';
+    const result = calculateATSScore(text, jobDescription, getScoringProfile(profileId), layout);
+    const name = result.extractedData?.fullName || '';
+
+    return {
+        candidate: name === 'Imported User' ? '' : name,
+        overallScore: result.overallScore,
+        breakdown: result.breakdown,
+        issues: [...result.issues]
+            .sort((a, b) => Number(b.severity === 'critical') - Number(a.severity === 'critical'))
+            .map(issue => ({ title: issue.title, severity: issue.severity })),
+        missingRequired: result.requirementMatch?.missingRequired || []
+    };
+}
+
+scope.onmessage = event => {
+    const { id, input, jobDescription, profileId } = event.data;
+    try {
+        scope.postMessage({ id, score: scoreBatchInput(input, jobDescription, profileId) });
+    } catch (e: any) {
+        scope.postMessage({ id, error: e?.message || 'Scoring failed' });
+    }
+};
@@ -0,0 +1,84 @@
+// Bullet Enhancement
+// AI rewrites of one experience bullet, in three styles the user can pick from or merge.
+// Goes through callGemini (/api/gemini-call, feature resume_ai) so the API key stays on the server and
+// every call is credit-checked and logged like the rest of the AI features.
+
+import { ExperienceItem } from '../types';
+import { requestAIText, parseJsonResponse } from './geminiService';
+
+export type BulletStyle = 'metric' | 'concise' | 'leadership';
+
+export interface BulletSuggestion {
+    style: BulletStyle;
+    text: string;
+}
+
+export const BULLET_STYLES: { id: BulletStyle; label: string; instruction: string }[] = [
+    {
+        id: 'metric',
+        label: 'Metric-led',
+        instruction: 'Lead with the measurable result. Keep any numbers in the original; where a number is missing, use a bracketed placeholder like [X%] instead of inventing one.'
+    },
+    { id: 'concise', label: 'Concise', instruction: 'One tight line, under 20 words, strong action verb first, no filler.' },
+    { id: 'leadership', label: 'Leadership', instruction: 'Bring out ownership, influence and the people involved: who you led, aligned or unblocked.' }
+];
+
+export interface EnhanceContext {
+    targetRole: string;
+    role: Pick<ExperienceItem, 'role' | 'company'>;
+    userId: string;
+    sessionToken: string;
+}
+
+const RESPONSE_RULES = `Rules:
+- Never add employers, tools, numbers or outcomes the original doesn't state
+- No first-person pronouns, no trailing period
+- Return ONLY valid JSON
+- Do not include markdown code blocks`;
+
+function buildEnhancePrompt(bullet: string, context: EnhanceContext): string {
+    const role = [context.role.role, context.role.company].filter(Boolean).join(' at ');
+    return `Rewrite this resume bullet for a ${context.targetRole || 'professional'} application${role ? ` (written for the role ${role})` : ''}.
+Give three alternatives:
+${BULLET_STYLES.map(style => `- "${style.id}": ${style.instruction}`).join('\n')}
+
+Original bullet: "${bullet}"
+
+${RESPONSE_RULES}
+Format: { ${BULLET_STYLES.map(style => `"${style.id}": "..."`).join(', ')} }`;
+}
+
+const cleanBullet = (text: string) => text.trim().replace(/^[•\-*]\s*/, '').replace(/^"(.*)"$/, '$1').replace(/\.$/, '').trim();
+
+const requestResumeAI = (prompt: string, context: EnhanceContext) =>
+    requestAIText({ feature: 'resume_ai', prompt, userId: context.userId, sessionToken: context.sessionToken });
+
+/**
+ * One rewrite per style, in BULLET_STYLES order; styles the model left out are skipped
+ */
+export async function suggestBulletRewrites(bullet: string, context: EnhanceContext): Promise<BulletSuggestion[]> {
+    const parsed = parseJsonResponse(await requestResumeAI(buildEnhancePrompt(bullet, context), context));
+    const suggestions = BULLET_STYLES
+        .filter(style => typeof parsed[style.id] === 'string' && cleanBullet(parsed[style.id] as string))
+        .map(style => ({ style: style.id, text: cleanBullet(parsed[style.id] as string) }));
+    if (suggestions.length === 0) throw new Error('The AI returned no rewrites. Please try again.');
+    return suggestions;
+}
+
+/**
+ * One bullet that combines the picked rewrites (e.g. the metric of one with the brevity of another)
+ */
+export async function mergeBulletRewrites(bullet: string, picked: BulletSuggestion[], context: EnhanceContext): Promise<string> {
+    const label = (style: BulletStyle) => BULLET_STYLES.find(s => s.id === style)?.label || style;
+    const prompt = `Merge these rewrites of one resume bullet into a single bullet that keeps the strongest part of each.
+
+Original bullet: "${bullet}"
+${picked.map(s => `${label(s.style)}: "${s.text}"`).join('\n')}
+
+${RESPONSE_RULES}
+Format: { "bullet": "..." }`;
+
+    const merged = parseJsonResponse(await requestResumeAI(prompt, context)).bullet;
+    if (typeof merged !== 'string' || !cleanBullet(merged)) throw new Error('The AI returned no merged bullet. Please try again.');
+    return cleanBullet(merged);
+}
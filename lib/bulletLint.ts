@@ -0,0 +1,168 @@
+// Bullet Linter
+// Rule-based checks the builder runs on every experience bullet as it's typed: weak openers, missing metrics,
+// passive voice, first-person pronouns, tense that doesn't fit the role's dates and verbs used over and over.
+// No AI call, so it can re-run on each keystroke; the AI enhance button stays the way to rewrite a bullet.
+
+import { ExperienceItem } from '../types';
+import { ACTION_VERBS, QUANTITATIVE_PATTERNS } from './interviewScoring';
+import { strengthenBullet } from './atsFixes';
+
+export type BulletRule = 'weak-opener' | 'no-metric' | 'passive-voice' | 'first-person' | 'tense' | 'repeated-verb';
+
+export interface BulletLint {
+    rule: BulletRule;
+    severity: 'warning' | 'info';
+    message: string;
+    suggestion?: string;        // the whole bullet rewritten, when the fix is mechanical
+}
+
+// Present -> past for irregular openers
+const IRREGULAR_PAST: Record<string, string> = {
+    lead: 'led', build: 'built', write: 'wrote', run: 'ran', make: 'made', teach: 'taught', drive: 'drove',
+    oversee: 'oversaw', sell: 'sold', bring: 'brought', grow: 'grew', win: 'won', hold: 'held', keep: 'kept',
+    take: 'took', give: 'gave', spend: 'spent'
+};
+
+// Common resume openers on top of the interview scorer's action verbs
+const RESUME_VERBS = [
+    'architected', 'automated', 'collaborated', 'conducted', 'handled', 'maintained', 'mentored', 'migrated',
+    'organized', 'owned', 'planned', 'prepared', 'presented', 'scaled', 'shipped', 'spearheaded', 'supervised',
+    'supported', 'tested'
+];
+
+const PAST_VERBS = new Set([...ACTION_VERBS, ...RESUME_VERBS, ...Object.values(IRREGULAR_PAST)]);
+
+const PASSIVE_VOICE = /\b(?:was|were|is|are|been|being|got)\s+(?:\w+ly\s+)?(?:\w+ed|built|led|made|done|given|taken|written|run|sent|held|won|brought|taught|chosen|shown|seen)\b/i;
+// "I/O" and "U.S." aren't pronouns
+const FIRST_PERSON = /(?:^|[^\w'/.])(I|[Mm]e|[Mm]y|[Mm]ine|[Mm]yself|[Ww]e|[Oo]ur|[Oo]urs|us)(?![\w'/.])/;
+const LEADING_PRONOUN = /^(?:I|We)\s+/;
+const MIN_WORDS_FOR_METRIC = 5;
+// Same opener this many times across all roles
+const REPEATED_VERB_LIMIT = 3;
+
+function toPast(base: string): string {
+    if (IRREGULAR_PAST[base]) return IRREGULAR_PAST[base];
+    if (/e$/.test(base)) return `${base}d`;
+    if (/[^aeiou]y$/.test(base)) return `${base.slice(0, -1)}ied`;
+    // plan -> planned, ship -> shipped; longer stems (develop, target) don't double
+    if (base.length <= 4 && /[^aeiou][aeiou][bdgmnpt]$/.test(base)) return `${base}${base.slice(-1)}ed`;
+    return `${base}ed`;
+}
+
+/**
+ * The past form of a present-tense opener ("Manage", "Leads"), or null when the word isn't one
+ */
+function presentToPast(word: string): string | null {
+    const lower = word.toLowerCase();
+    for (const base of [lower, lower.replace(/s$/, ''), lower.replace(/es$/, '')]) {
+        const past = toPast(base);
+        if (PAST_VERBS.has(past)) return past;
+    }
+    return null;
+}
+
+const isPastTense = (word: string) => {
+    const lower = word.toLowerCase();
+    return PAST_VERBS.has(lower) || (/^[a-z]{3,}ed$/.test(lower) && !presentToPast(lower));
+};
+
+const stripMarker = (bullet: string) => bullet.trim().replace(/^[•\-*]\s*/, '');
+
+const openerOf = (bullet: string) => stripMarker(bullet).match(/^[A-Za-z]+/)?.[0] || '';
+
+const capitalize = (text: string) => text.charAt(0).toUpperCase() + text.slice(1);
+
+const replaceOpener = (bullet: string, word: string) => {
+    const text = stripMarker(bullet);
+    return capitalize(word) + text.slice(openerOf(text).length);
+};
+
+/**
+ * Checks that need only the bullet itself
+ */
+function lintText(bullet: string): BulletLint[] {
+    const lints: BulletLint[] = [];
+    const text = stripMarker(bullet);
+
+    const strengthened = strengthenBullet(text);
+    if (strengthened) {
+        lints.push({ rule: 'weak-opener', severity: 'warning', message: 'Opens with a duty, not an action. Lead with what you did.', suggestion: strengthened });
+    }
+
+    const pronoun = text.match(FIRST_PERSON);
+    if (pronoun) {
+        const withoutLead = LEADING_PRONOUN.test(text) ? capitalize(text.replace(LEADING_PRONOUN, '')) : undefined;
+        lints.push({
+            rule: 'first-person',
+            severity: 'warning',
+            message: `Drop "${pronoun[1]}": resume bullets are written without pronouns.`,
+            suggestion: withoutLead && !FIRST_PERSON.test(withoutLead) ? withoutLead : undefined
+        });
+    }
+
+    if (PASSIVE_VOICE.test(text)) {
+        lints.push({ rule: 'passive-voice', severity: 'warning', message: `"${text.match(PASSIVE_VOICE)![0]}" is passive. Say what you did, not what was done.` });
+    }
+
+    const words = text.split(/\s+/).filter(Boolean).length;
+    if (words >= MIN_WORDS_FOR_METRIC && !/\d/.test(text) && !QUANTITATIVE_PATTERNS.some(p => p.test(text))) {
+        lints.push({ rule: 'no-metric', severity: 'info', message: 'No numbers. Add a metric: how many, how much, how fast, or by what %.' });
+    }
+    return lints;
+}
+
+/**
+ * Ended roles should read in the past tense. Current roles may mix finished achievements with ongoing work,
+ * so a past-tense opener there is only flagged when the role's other bullets are in the present.
+ */
+function lintTense(exp: ExperienceItem, bullet: string, opener: string, openers: string[]): BulletLint | null {
+    const ended = !exp.current && !!exp.endDate;
+    const past = presentToPast(opener);
+    if (ended && past) {
+        return {
+            rule: 'tense',
+            severity: 'warning',
+            message: `This role has ended: "${opener}" should be past tense ("${capitalize(past)}").`,
+            suggestion: replaceOpener(bullet, past)
+        };
+    }
+    if (exp.current && isPastTense(opener) && openers.some(other => presentToPast(other))) {
+        return { rule: 'tense', severity: 'info', message: 'Other bullets in this current role are in the present tense. Keep ongoing work consistent.' };
+    }
+    return null;
+}
+
+/**
+ * Lints for every bullet, keyed by role id, in bullet order. Empty bullets get none.
+ */
+export function lintExperience(experience: ExperienceItem[]): Record<number, BulletLint[][]> {
+    const verbCounts = new Map<string, number>();
+    const lints: Record<number, BulletLint[][]> = {};
+
+    for (const exp of experience) {
+        const bullets = exp.bullets || [];
+        const openers = bullets.map(openerOf);
+        lints[exp.id] = bullets.map((bullet, index) => {
+            if (!bullet.trim()) return [];
+            const found = lintText(bullet);
+            const opener = openers[index];
+            if (!opener) return found;
+
+            const tense = lintTense(exp, bullet, opener, openers.filter((_, i) => i !== index));
+            if (tense) found.push(tense);
+
+            const verb = opener.toLowerCase();
+            const total = (verbCounts.get(verb) || 0) + 1;
+            verbCounts.set(verb, total);
+            if (!found.some(lint => lint.rule === 'weak-opener' || lint.rule === 'first-person')) {
+                if (openers.slice(0, index).some(other => other.toLowerCase() === verb)) {
+                    found.push({ rule: 'repeated-verb', severity: 'warning', message: `"${opener}" already opens another bullet in this role. Vary the verb.` });
+                } else if (total >= REPEATED_VERB_LIMIT) {
+                    found.push({ rule: 'repeated-verb', severity: 'info', message: `"${opener}" opens ${total} bullets across your roles. Vary the verb.` });
+                }
+            }
+            return found;
+        });
+    }
+    return lints;
+}
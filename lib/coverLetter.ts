@@ -0,0 +1,173 @@
+// Cover Letter
+// A cover letter for one stored resume and one job description, kept in the parts the editor shows:
+// greeting, an opening hook, evidence paragraphs and a close. The draft is written through callGemini
+// (/api/gemini-call, feature cover_letter_ai) from the roles that best match the JD, so it only cites what the
+// resume says. Letters are saved in localStorage and can be linked to a job on the JobTracker board.
+
+import { ResumeData } from '../types';
+import { requestAIText, parseJsonResponse } from './geminiService';
+import { AI_CONFIG } from './aiConfig';
+import { analyzeJobDescription } from './jobDescription';
+import { roleSkillMatches, roleMatchWeight } from './resumeVariants';
+import { AIContext } from './summaryGenerator';
+
+export interface CoverLetter {
+    date: string;
+    recipient: string;          // lines above the greeting (hiring manager, company, address), newline-separated
+    greeting: string;
+    hook: string;
+    evidence: string[];         // one paragraph per point of evidence
+    close: string;
+    signOff: string;
+}
+
+export interface SavedCoverLetter {
+    id: string;                 // 'letter-<timestamp>'
+    updatedAt: string;
+    resumeId: string;
+    resumeName: string;
+    jobTitle: string;
+    company: string;
+    jobDescription: string;
+    templateId: string;
+    letter: CoverLetter;
+    jobId: string | null;       // JobApplication.id on the tracker board
+}
+
+export interface LetterTarget {
+    jobTitle: string;
+    company: string;
+    jobDescription: string;
+}
+
+const STORAGE_KEY = 'nextstep_cover_letters';
+
+const TOP_ROLES = 3;
+const BULLETS_PER_ROLE = 4;
+const MAX_BULLET_CHARS = 180;
+// The JD gets whatever is left of the feature's input limit once the rest of the prompt is written
+const MIN_JD_CHARS = 400;
+const PROMPT_MARGIN = 100;
+
+export const MAX_EVIDENCE_PARAGRAPHS = 4;
+
+const todayLabel = () => new Date().toLocaleDateString('en-US', { day: 'numeric', month: 'long', year: 'numeric' });
+
+/**
+ * Blank letter with the conventional greeting and sign-off, for writing by hand
+ */
+export function emptyCoverLetter(company = ''): CoverLetter {
+    return {
+        date: todayLabel(),
+        recipient: company ? `Hiring Team\n${company}` : '',
+        greeting: 'Dear Hiring Manager,',
+        hook: '',
+        evidence: [''],
+        close: '',
+        signOff: 'Sincerely,'
+    };
+}
+
+/**
+ * Body paragraphs in reading order, empty ones dropped. Line breaks typed inside a section start a new
+ * paragraph. The preview and both exports print these.
+ */
+export function letterParagraphs(letter: CoverLetter): string[] {
+    return [letter.hook, ...letter.evidence, letter.close].flatMap(p => p.split(/\n+/)).map(p => p.trim()).filter(Boolean);
+}
+
+export function letterWordCount(letter: CoverLetter): number {
+    return letterParagraphs(letter).join(' ').split(/\s+/).filter(Boolean).length;
+}
+
+function buildLetterPrompt(data: ResumeData, target: LetterTarget): string {
+    const requirements = analyzeJobDescription(target.jobDescription);
+    const roles = [...(data.experience || [])]
+        .map((exp, index) => ({ exp, index, weight: roleMatchWeight(exp, requirements) }))
+        .sort((a, b) => (b.weight - a.weight) || (a.index - b.index))
+        .slice(0, TOP_ROLES)
+        .map(({ exp }) => {
+            const matches = roleSkillMatches(exp, requirements);
+            const bullets = (exp.bullets || []).filter(b => b.trim()).slice(0, BULLETS_PER_ROLE).map(b => `  - ${b.trim().slice(0, MAX_BULLET_CHARS)}`);
+            return [`- ${[exp.role, exp.company].filter(Boolean).join(' at ')}${matches.length > 0 ? ` (matches: ${matches.join(', ')})` : ''}`, ...bullets].join('\n');
+        });
+    const degrees = (data.education || []).map(edu => [edu.degree, edu.school].filter(Boolean).join(', ')).filter(Boolean);
+    const job = [target.jobTitle || requirements.title || 'the role', target.company && `at ${target.company}`].filter(Boolean).join(' ');
+
+    const head = `Write a cover letter from ${data.fullName || 'the candidate'} for ${job}.
+Use ONLY the candidate facts below. Do not add employers, numbers, skills, degrees or years of experience that aren't listed.
+
+CANDIDATE ROLES (best match for this job first):
+${roles.join('\n') || 'None listed'}
+SKILLS: ${[data.hardSkills, data.softSkills].filter(Boolean).join(', ') || 'None listed'}
+${degrees.length > 0 ? `EDUCATION: ${degrees.join('; ')}\n` : ''}${requirements.requiredSkills.length > 0 ? `THE JOB REQUIRES: ${requirements.requiredSkills.join(', ')}\n` : ''}
+JOB DESCRIPTION:
+`;
+    const tail = `
+
+Structure:
+- "greeting": e.g. "Dear Hiring Manager,"; use a name only if the job description gives one
+- "hook": 2-3 sentences on why this role, naming the role and company
+- "evidence": 2-3 paragraphs, each tying one requirement of the job to one role and result above
+- "close": 2 sentences, a confident call to action
+- First person, no clichés, under 350 words in total
+- Return ONLY valid JSON
+- Do not include markdown code blocks
+Format: { "greeting": "...", "hook": "...", "evidence": ["...", "..."], "close": "..." }`;
+
+    const budget = Math.max(MIN_JD_CHARS, AI_CONFIG.cover_letter_ai.maxInputChars - head.length - tail.length - PROMPT_MARGIN);
+    return head + target.jobDescription.trim().slice(0, budget) + tail;
+}
+
+const cleanParagraph = (value: unknown) => typeof value === 'string' ? value.trim().replace(/\n{3,}/g, '\n\n') : '';
+
+/**
+ * AI first draft; the date, recipient and sign-off are filled in locally
+ */
+export async function draftCoverLetter(data: ResumeData, target: LetterTarget, context: AIContext): Promise<CoverLetter> {
+    const raw = await requestAIText({ feature: 'cover_letter_ai', prompt: buildLetterPrompt(data, target), ...context });
+    const parsed = parseJsonResponse(raw);
+    const evidence = (Array.isArray(parsed.evidence) ? parsed.evidence : []).map(cleanParagraph).filter(Boolean).slice(0, MAX_EVIDENCE_PARAGRAPHS);
+    const hook = cleanParagraph(parsed.hook);
+    if (!hook && evidence.length === 0) throw new Error('The AI returned an empty letter. Please try again.');
+
+    const blank = emptyCoverLetter(target.company);
+    return {
+        ...blank,
+        greeting: cleanParagraph(parsed.greeting) || blank.greeting,
+        hook,
+        evidence: evidence.length > 0 ? evidence : [''],
+        close: cleanParagraph(parsed.close)
+    };
+}
+
+/**
+ * Saved letters, most recently edited first
+ */
+export function listCoverLetters(): SavedCoverLetter[] {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+        return Array.isArray(stored) ? stored : [];
+    } catch (e) {
+        console.error('Cover letter parse error', e);
+        return [];
+    }
+}
+
+function writeCoverLetters(letters: SavedCoverLetter[]): SavedCoverLetter[] {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(letters));
+    return letters;
+}
+
+export function saveCoverLetter(letter: SavedCoverLetter): SavedCoverLetter[] {
+    const saved = { ...letter, updatedAt: new Date().toISOString() };
+    return writeCoverLetters([saved, ...listCoverLetters().filter(l => l.id !== letter.id)]);
+}
+
+export function deleteCoverLetter(id: string): SavedCoverLetter[] {
+    return writeCoverLetters(listCoverLetters().filter(l => l.id !== id));
+}
+
+export function linkCoverLetter(id: string, jobId: string | null): SavedCoverLetter[] {
+    return writeCoverLetters(listCoverLetters().map(l => l.id === id ? { ...l, jobId } : l));
+}
@@ -0,0 +1,244 @@
+// Resume Dates
+// Structured start / end dates for experience, education and certifications: reading the free-text
+// dates older resumes carry ("Jan 2020 - Present"), printing them in the user's chosen format,
+// newest-first ordering and the gap / overlap check for the employment timeline.
+
+import { ResumeData, ResumeDate, DatedItem, DateFormat, ExperienceItem } from '../types';
+
+export const DATE_FORMATS: { id: DateFormat; label: string }[] = [
+    { id: 'short', label: 'Jan 2020' },
+    { id: 'long', label: 'January 2020' },
+    { id: 'numeric', label: '01/2020' },
+    { id: 'year', label: '2020' }
+];
+
+export const DEFAULT_DATE_FORMAT: DateFormat = 'short';
+
+export const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+// Employment gaps shorter than this are normal notice periods / moves and aren't flagged
+export const GAP_THRESHOLD_MONTHS = 3;
+// A month of overlap is usually a handover, not two jobs at once
+export const OVERLAP_TOLERANCE_MONTHS = 1;
+
+const CURRENT_WORDS = /^(present|current|currently|now|ongoing|today|date)$/i;
+
+const isYear = (year: number) => year >= 1950 && year <= 2100;
+
+/**
+ * One free-text date: "2020", "2020-01", "01/2020", "Jan 2020", "Sept. 2020", "January 2020"
+ */
+export function parseDate(text: string): ResumeDate | null {
+    const value = text.trim().replace(/[,.]/g, ' ').replace(/\s+/g, ' ').trim();
+
+    let match = /^(\d{4})(?:-(\d{1,2}))?(?:-\d{1,2})?$/.exec(value);
+    if (match) {
+        const year = parseInt(match[1], 10);
+        const month = match[2] ? parseInt(match[2], 10) : undefined;
+        if (!isYear(year) || (month !== undefined && (month < 1 || month > 12))) return null;
+        return month ? { year, month } : { year };
+    }
+
+    match = /^(\d{1,2})\s?[/-]\s?(\d{4})$/.exec(value);
+    if (match) {
+        const month = parseInt(match[1], 10);
+        const year = parseInt(match[2], 10);
+        return isYear(year) && month >= 1 && month <= 12 ? { year, month } : null;
+    }
+
+    match = /^([A-Za-z]{3,})\s?(\d{4})$/.exec(value);
+    if (match) {
+        const index = MONTH_NAMES.findIndex(m => match![1].toLowerCase().startsWith(m.substring(0, 3).toLowerCase()));
+        const year = parseInt(match[2], 10);
+        return index >= 0 && isYear(year) ? { year, month: index + 1 } : null;
+    }
+    return null;
+}
+
+/**
+ * A free-text range ("Jan 2020 - Present", "2018–2021", "03/2019 to 06/2020") as structured dates.
+ * A single date is a point in time: start and end are the same. Returns null if any part can't be read.
+ */
+export function parseDateRange(text: string): Required<DatedItem> | null {
+    const value = (text || '').trim();
+    if (!value) return null;
+
+    const single = parseDate(value);
+    if (single) return { startDate: single, endDate: single, current: false };
+
+    // A bare hyphen only separates when it sits between a year and the next date ("2019-2021", "Jan 2020-Present");
+    // otherwise it's part of an ISO date such as 2020-01
+    const parts = value.split(/\s*[–—]\s*|\s+(?:-|to|until|till)\s+|(?<=\d{4})\s*-\s*(?=[A-Za-z]|\d{4}|\d{1,2}\/)/i).map(p => p.trim()).filter(Boolean);
+    if (parts.length !== 2) return null;
+
+    const startDate = parseDate(parts[0]);
+    if (!startDate) return null;
+    if (CURRENT_WORDS.test(parts[1])) return { startDate, endDate: null, current: true };
+
+    const endDate = parseDate(parts[1]);
+    return endDate ? { startDate, endDate, current: false } : null;
+}
+
+export function hasStructuredDates(item: DatedItem): boolean {
+    return !!(item.startDate || item.endDate || item.current);
+}
+
+/**
+ * Fill in structured dates from the free-text field when an item doesn't have them yet.
+ * Unreadable text ("Summer 2019") is left alone and keeps printing as typed.
+ * Certifications pass singleDate 'start': a lone date there is when it was issued, not when it expires.
+ */
+export function withStructuredDates<T extends DatedItem>(item: T, text: string, singleDate: 'both' | 'start' = 'both'): T {
+    if (hasStructuredDates(item)) return item;
+    const parsed = parseDateRange(text);
+    if (!parsed) return item;
+    if (singleDate === 'start' && parsed.startDate === parsed.endDate) return { ...item, ...parsed, endDate: null };
+    return { ...item, ...parsed };
+}
+
+export function formatDate(date: ResumeDate, format: DateFormat = DEFAULT_DATE_FORMAT): string {
+    if (!date.month || format === 'year') return String(date.year);
+    switch (format) {
+        case 'long': return `${MONTH_NAMES[date.month - 1]} ${date.year}`;
+        case 'numeric': return `${String(date.month).padStart(2, '0')}/${date.year}`;
+        default: return `${MONTH_NAMES[date.month - 1].substring(0, 3)} ${date.year}`;
+    }
+}
+
+/**
+ * Structured dates as one line: "Jan 2020 - Present", "2019", "Mar 2018 - Jun 2020"
+ */
+export function formatDateRange(item: DatedItem, format: DateFormat = DEFAULT_DATE_FORMAT): string {
+    const start = item.startDate ? formatDate(item.startDate, format) : '';
+    if (item.current) return start ? `${start} - Present` : 'Present';
+
+    const end = item.endDate ? formatDate(item.endDate, format) : '';
+    if (!start || !end || start === end) return start || end;
+    return `${start} - ${end}`;
+}
+
+/**
+ * What a template prints for an item: its structured dates in the resume's format, or the free text if it has none
+ */
+export function displayDate(item: DatedItem, text: string, format?: DateFormat): string {
+    return hasStructuredDates(item) ? formatDateRange(item, format) : (text || '');
+}
+
+// Dates as month counts so they compare and subtract; a bare year starts in January and ends in December
+const monthIndex = (date: ResumeDate, edge: 'start' | 'end') =>
+    date.year * 12 + (date.month ? date.month - 1 : (edge === 'start' ? 0 : 11));
+
+const todayIndex = (today: Date) => today.getFullYear() * 12 + today.getMonth();
+
+const fromMonthIndex = (index: number): ResumeDate => ({ year: Math.floor(index / 12), month: (index % 12) + 1 });
+
+/**
+ * Newest first: current entries, then by end date, then by start date. Undated entries keep their place at the bottom.
+ */
+export function sortByRecency<T extends DatedItem>(items: T[]): T[] {
+    const key = (item: T): [number, number] | null => {
+        if (!item.startDate && !item.endDate && !item.current) return null;
+        const end = item.current ? Infinity : monthIndex((item.endDate || item.startDate)!, 'end');
+        return [end, item.startDate ? monthIndex(item.startDate, 'start') : end];
+    };
+    return items
+        .map((item, position) => ({ item, position, key: key(item) }))
+        .sort((a, b) => {
+            if (!a.key || !b.key) return a.key ? -1 : b.key ? 1 : a.position - b.position;
+            return (b.key[0] - a.key[0]) || (b.key[1] - a.key[1]) || (a.position - b.position);
+        })
+        .map(entry => entry.item);
+}
+
+/**
+ * The resume with dated entries in display order - templates and exports render from this
+ */
+export function sortResumeEntries(data: ResumeData): ResumeData {
+    if (data.entryOrder === 'manual') return data;
+    return {
+        ...data,
+        experience: sortByRecency(data.experience || []),
+        education: sortByRecency(data.education || []),
+        certifications: sortByRecency(data.certifications || [])
+    };
+}
+
+export interface TimelineIssue {
+    kind: 'gap' | 'overlap';
+    months: number;
+    from: ResumeDate;
+    to: ResumeDate | null;   // null: the gap runs to today
+    ids: number[];           // experience entries on either side (gap) or involved (overlap)
+}
+
+/**
+ * Gaps between roles and roles that overlap, oldest first. Only entries with a structured start date take part.
+ * A bare year could be any month of it, so each endpoint is a range and only the gap or overlap that holds
+ * for every reading is reported: "2019 - 2020" followed by "2020 - Present" is neither.
+ */
+export function analyzeTimeline(experience: ExperienceItem[], today: Date = new Date()): TimelineIssue[] {
+    const now = todayIndex(today);
+    const bounds = (date: ResumeDate) => [monthIndex(date, 'start'), monthIndex(date, 'end')];
+    const spans = experience
+        .filter(exp => exp.startDate)
+        .map(exp => {
+            const [startEarly, startLate] = bounds(exp.startDate!);
+            const [endEarly, endLate] = exp.current ? [now, now] : bounds(exp.endDate || exp.startDate!);
+            return { id: exp.id, startEarly, startLate, endEarly, endLate };
+        })
+        .sort((a, b) => a.startEarly - b.startEarly);
+
+    const issues: TimelineIssue[] = [];
+    let latest: { id: number; endEarly: number; endLate: number } | null = null;
+
+    for (const span of spans) {
+        if (latest) {
+            const gap = span.startEarly - latest.endLate - 1;
+            const overlapEnd = Math.min(latest.endEarly, span.endEarly);
+            const overlap = overlapEnd - span.startLate + 1;
+            if (gap >= GAP_THRESHOLD_MONTHS) {
+                issues.push({ kind: 'gap', months: gap, from: fromMonthIndex(latest.endLate + 1), to: fromMonthIndex(span.startEarly - 1), ids: [latest.id, span.id] });
+            } else if (overlap > OVERLAP_TOLERANCE_MONTHS) {
+                issues.push({ kind: 'overlap', months: overlap, from: fromMonthIndex(span.startLate), to: fromMonthIndex(overlapEnd), ids: [latest.id, span.id] });
+            }
+        }
+        if (!latest || span.endLate > latest.endLate) latest = { id: span.id, endEarly: span.endEarly, endLate: span.endLate };
+    }
+
+    // Time since the most recent role ended, unless someone is in a role right now
+    if (latest && now - latest.endLate >= GAP_THRESHOLD_MONTHS && !experience.some(exp => exp.current)) {
+        issues.push({ kind: 'gap', months: now - latest.endLate, from: fromMonthIndex(latest.endLate + 1), to: null, ids: [latest.id] });
+    }
+    return issues;
+}
+
+/**
+ * Months actually spent in roles with structured dates; overlapping roles are only counted once
+ */
+export function totalExperienceMonths(experience: ExperienceItem[], today: Date = new Date()): number {
+    const now = todayIndex(today);
+    const spans = experience
+        .filter(exp => exp.startDate)
+        .map(exp => [monthIndex(exp.startDate!, 'start'), exp.current ? now : monthIndex(exp.endDate || exp.startDate!, 'end')])
+        .sort((a, b) => a[0] - b[0]);
+
+    let total = 0;
+    let coveredUntil = -Infinity;
+    for (const [start, end] of spans) {
+        const from = Math.max(start, coveredUntil + 1);
+        if (end >= from) total += end - from + 1;
+        coveredUntil = Math.max(coveredUntil, end);
+    }
+    return total;
+}
+
+/**
+ * "14 months", "2 years", "1 year 3 months"
+ */
+export function formatDuration(months: number): string {
+    const years = Math.floor(months / 12);
+    const rest = months % 12;
+    const part = (n: number, unit: string) => `${n} ${unit}${n === 1 ? '' : 's'}`;
+    if (years === 0) return part(rest, 'month');
+    return rest === 0 ? part(years, 'year') : `${part(years, 'year')} ${part(rest, 'month')}`;
+}
@@ -0,0 +1,262 @@
+// DOCX Resume Export
+// Generates a native Word document (real styles, bullet numbering, right-aligned tab stops for dates)
+// from ResumeData. Everything is assembled in the browser and zipped with fflate - no external service.
+// Cover letters (lib/coverLetter.ts) share the resume's header and styles.
+
+import { zipSync, strToU8 } from 'fflate';
+import { ResumeData, CustomSection } from '../types';
+import { orderSections, getCustomSection, filledEntries, sectionTitle } from './resumeSections';
+import { sortResumeEntries, displayDate } from './dates';
+import { CoverLetter, letterParagraphs } from './coverLetter';
+
+export const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+type SectionKey = 'summary' | 'experience' | 'education' | 'skills' | 'certifications' | 'languages';
+
+// Per-template styling; each template in templates/ declares its own
+export interface DocxTheme {
+    bodyFont: string;
+    headingFont: string;
+    bodySize: number;        // half-points
+    nameSize: number;        // half-points
+    accent: string;          // hex without #
+    headingColor: string;
+    nameAlign: 'left' | 'center';
+    uppercaseHeadings: boolean;
+    headingRule: boolean;    // bottom border under section headings
+    italicMeta: boolean;     // company / school lines in italics
+    sections: SectionKey[];
+}
+
+const SECTION_TITLES: Record<SectionKey, string> = {
+    summary: 'Professional Summary',
+    experience: 'Experience',
+    education: 'Education',
+    skills: 'Skills',
+    certifications: 'Certifications',
+    languages: 'Languages'
+};
+
+// Paper sizes in twentieths of a point, with 2cm margins all round
+type DocxPageSize = 'a4' | 'letter';
+const PAGES: Record<DocxPageSize, { width: number; height: number }> = {
+    a4: { width: 11906, height: 16838 },
+    letter: { width: 12240, height: 15840 }
+};
+const PAGE_MARGIN = 1134;
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+// Control characters XML 1.0 forbids; text pasted from PDFs carries them and Word rejects the file as corrupt
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g;
+
+const escapeXml = (text: string) =>
+    (text || '').replace(INVALID_XML_CHARS, '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+interface RunOptions {
+    bold?: boolean;
+    italic?: boolean;
+    color?: string;
+}
+
+function run(text: string, options: RunOptions = {}): string {
+    const props = [
+        options.bold ? '<w:b/>' : '',
+        options.italic ? '<w:i/>' : '',
+        options.color ? `<w:color w:val="${options.color}"/>` : ''
+    ].join('');
+    return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+const tab = () => '<w:r><w:tab/></w:r>';
+
+function paragraph(runs: string, style?: string): string {
+    return `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''}${runs}</w:p>`;
+}
+
+/**
+ * "Left text .......... right text" using the right tab stop defined on the Entry style
+ */
+const entryLine = (left: string, right: string, style = 'Entry') =>
+    paragraph(run(left, { bold: true }) + (right ? tab() + run(right) : ''), style);
+
+const nonEmpty = (values: string[]) => values.map(v => (v || '').trim()).filter(Boolean);
+
+function renderSection(section: SectionKey, data: ResumeData, theme: DocxTheme): string {
+    const body: string[] = [];
+
+    switch (section) {
+        case 'summary':
+            if (!data.summary?.trim()) return '';
+            data.summary.split('\n').filter(l => l.trim()).forEach(line => body.push(paragraph(run(line.trim()))));
+            break;
+
+        case 'experience':
+            (data.experience || []).forEach(exp => {
+                if (!exp.role && !exp.company) return;
+                body.push(entryLine(exp.role, displayDate(exp, exp.date, data.dateFormat)));
+                const meta = nonEmpty([exp.company, exp.location]).join(', ');
+                if (meta) body.push(paragraph(run(meta, { italic: theme.italicMeta, color: theme.accent }), 'EntryMeta'));
+                nonEmpty(exp.bullets || []).forEach(b => body.push(paragraph(run(b), 'ListBullet')));
+            });
+            break;
+
+        case 'education':
+            (data.education || []).forEach(edu => {
+                if (!edu.degree && !edu.school) return;
+                body.push(entryLine(edu.degree, displayDate(edu, edu.year, data.dateFormat)));
+                const meta = nonEmpty([edu.school, edu.grade]).join(' | ');
+                if (meta) body.push(paragraph(run(meta, { italic: theme.italicMeta }), 'EntryMeta'));
+            });
+            break;
+
+        case 'skills': {
+            const hard = nonEmpty((data.hardSkills || '').split(','));
+            const soft = nonEmpty((data.softSkills || '').split(','));
+            if (hard.length > 0) body.push(paragraph(run('Technical: ', { bold: true }) + run(hard.join(', '))));
+            if (soft.length > 0) body.push(paragraph(run('Soft Skills: ', { bold: true }) + run(soft.join(', '))));
+            break;
+        }
+
+        case 'certifications':
+            (data.certifications || []).filter(c => c.name?.trim()).forEach(cert => {
+                const date = displayDate(cert, cert.date, data.dateFormat);
+                body.push(paragraph(
+                    run(cert.name, { bold: true }) + (cert.issuer ? run(` - ${cert.issuer}`) : '') + (date ? tab() + run(date) : ''),
+                    'Entry'
+                ));
+            });
+            break;
+
+        case 'languages': {
+            const languages = (data.languages || []).filter(l => l.name?.trim()).map(l => l.level ? `${l.name} (${l.level})` : l.name);
+            if (languages.length > 0) body.push(paragraph(run(languages.join('  ·  '))));
+            break;
+        }
+    }
+
+    if (body.length === 0) return '';
+    return paragraph(run(SECTION_TITLES[section]), 'Heading1') + body.join('');
+}
+
+function renderCustomSection(section: CustomSection, data: ResumeData, theme: DocxTheme): string {
+    const entries = filledEntries(section);
+    if (entries.length === 0) return '';
+
+    const body = entries.map(entry => {
+        const meta = nonEmpty([entry.subtitle, entry.url]).join(' | ');
+        return entryLine(entry.title, entry.date)
+            + (meta ? paragraph(run(meta, { italic: theme.italicMeta, color: theme.accent }), 'EntryMeta') : '')
+            + nonEmpty(entry.bullets || []).map(b => paragraph(run(b), 'ListBullet')).join('');
+    });
+    return paragraph(run(sectionTitle(data, section.id)), 'Heading1') + body.join('');
+}
+
+// Name, target role and contact line
+function headerXml(data: ResumeData): string {
+    const contact = nonEmpty([data.email, data.phone, data.location, data.linkedin, data.website]).join('  |  ');
+    return paragraph(run(data.fullName || 'Your Name'), 'Title')
+        + (data.targetRole ? paragraph(run(data.targetRole), 'Subtitle') : '')
+        + (contact ? paragraph(run(contact), 'Contact') : '');
+}
+
+function documentXml(data: ResumeData, theme: DocxTheme, page: { width: number; height: number }): string {
+    const parts = [
+        headerXml(data),
+        ...orderSections(data, theme.sections).map(id => {
+            const custom = getCustomSection(data, id);
+            return custom ? renderCustomSection(custom, data, theme) : renderSection(id as SectionKey, data, theme);
+        })
+    ];
+    return wrapDocument(parts.join(''), page);
+}
+
+function coverLetterXml(data: ResumeData, letter: CoverLetter, theme: DocxTheme, page: { width: number; height: number }): string {
+    const recipient = nonEmpty(letter.recipient.split('\n'));
+    const parts = [
+        headerXml(data),
+        theme.headingRule ? paragraph('', 'LetterRule') : '',
+        letter.date.trim() ? paragraph(run(letter.date.trim(), { color: '64748B' }), 'LetterBody') : '',
+        recipient.length > 0 ? paragraph(recipient.map((line, i) => (i > 0 ? '<w:r><w:br/></w:r>' : '') + run(line)).join(''), 'LetterBody') : '',
+        paragraph(run(letter.greeting.trim() || 'Dear Hiring Manager,'), 'LetterBody'),
+        ...letterParagraphs(letter).map(p => paragraph(run(p), 'LetterBody')),
+        paragraph(run(letter.signOff.trim() || 'Sincerely,'), 'LetterBody'),
+        paragraph(run(data.fullName, { bold: true }), 'LetterBody')
+    ];
+    return wrapDocument(parts.join(''), page);
+}
+
+function wrapDocument(body: string, page: { width: number; height: number }): string {
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W_NS}"><w:body>${body}<w:sectPr><w:pgSz w:w="${page.width}" w:h="${page.height}"/><w:pgMar w:top="${PAGE_MARGIN}" w:right="${PAGE_MARGIN}" w:bottom="${PAGE_MARGIN}" w:left="${PAGE_MARGIN}" w:header="567" w:footer="567" w:gutter="0"/></w:sectPr></w:body></w:document>`;
+}
+
+// Word rejects pPr/rPr children that are out of schema order (e.g. spacing before pBdr), keep the sequence intact
+function stylesXml(theme: DocxTheme, textWidth: number): string {
+    const fonts = (font: string) => `<w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:cs="${font}"/>`;
+    const caps = theme.uppercaseHeadings ? '<w:caps/>' : '';
+    const rule = theme.headingRule ? `<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="${theme.headingColor}"/></w:pBdr>` : '';
+    const rightTab = `<w:tabs><w:tab w:val="right" w:pos="${textWidth}"/></w:tabs>`;
+
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${W_NS}">
+<w:docDefaults><w:rPrDefault><w:rPr>${fonts(theme.bodyFont)}<w:color w:val="1E293B"/><w:sz w:val="${theme.bodySize}"/><w:szCs w:val="${theme.bodySize}"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault><w:pPrDefault><w:pPr><w:spacing w:after="60" w:line="264" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="40"/><w:jc w:val="${theme.nameAlign}"/></w:pPr><w:rPr>${fonts(theme.headingFont)}<w:b/><w:caps/><w:color w:val="0F172A"/><w:sz w:val="${theme.nameSize}"/><w:szCs w:val="${theme.nameSize}"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="60"/><w:jc w:val="${theme.nameAlign}"/></w:pPr><w:rPr><w:b/><w:caps/><w:color w:val="${theme.accent}"/><w:spacing w:val="20"/><w:sz w:val="24"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:customStyle="1" w:styleId="Contact"><w:name w:val="Contact"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="240"/><w:jc w:val="${theme.nameAlign}"/></w:pPr><w:rPr><w:color w:val="64748B"/><w:sz w:val="18"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/>${rule}<w:spacing w:before="280" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr>${fonts(theme.headingFont)}<w:b/>${caps}<w:color w:val="${theme.headingColor}"/><w:spacing w:val="20"/><w:sz w:val="24"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:customStyle="1" w:styleId="Entry"><w:name w:val="Entry"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/>${rightTab}<w:spacing w:before="120" w:after="20"/></w:pPr></w:style>
+<w:style w:type="paragraph" w:customStyle="1" w:styleId="EntryMeta"><w:name w:val="Entry Meta"/><w:basedOn w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:after="60"/></w:pPr><w:rPr><w:sz w:val="${theme.bodySize - 1}"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:customStyle="1" w:styleId="LetterBody"><w:name w:val="Letter Body"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="200" w:line="300" w:lineRule="auto"/></w:pPr><w:rPr><w:sz w:val="${theme.bodySize + 2}"/><w:szCs w:val="${theme.bodySize + 2}"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:customStyle="1" w:styleId="LetterRule"><w:name w:val="Letter Rule"/><w:basedOn w:val="Normal"/><w:pPr><w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="${theme.headingColor}"/></w:pBdr><w:spacing w:after="240"/></w:pPr></w:style>
+<w:style w:type="paragraph" w:styleId="ListBullet"><w:name w:val="List Bullet"/><w:basedOn w:val="Normal"/><w:pPr><w:numPr><w:numId w:val="1"/></w:numPr><w:spacing w:after="40"/><w:ind w:left="360" w:hanging="360"/></w:pPr></w:style>
+</w:styles>`;
+}
+
+const NUMBERING_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering xmlns:w="${W_NS}"><w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="singleLevel"/><w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="•"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="360" w:hanging="360"/></w:pPr></w:lvl></w:abstractNum><w:num w:numId="1"><w:abstractNumId w:val="0"/></w:num></w:numbering>`;
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/><Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/><Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/><Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/></Types>`;
+
+const ROOT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/></Relationships>`;
+
+const DOCUMENT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/></Relationships>`;
+
+function coreXml(data: ResumeData, kind: string): string {
+    const now = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+    const title = nonEmpty([data.fullName, kind]).join(' - ');
+    return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"><dc:title>${escapeXml(title)}</dc:title><dc:creator>${escapeXml(data.fullName)}</dc:creator><dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created><dcterms:modified xsi:type="dcterms:W3CDTF">${now}</dcterms:modified></cp:coreProperties>`;
+}
+
+/**
+ * Build a .docx file styled with a template's theme
+ */
+export function buildDocx(data: ResumeData, theme: DocxTheme, pageSize: DocxPageSize = 'a4'): Uint8Array {
+    const page = PAGES[pageSize];
+    return packageDocx(coreXml(data, 'Resume'), documentXml(sortResumeEntries(data), theme, page), theme, page);
+}
+
+/**
+ * Build a cover letter .docx under the same header and fonts the resume gets with this theme
+ */
+export function buildCoverLetterDocx(data: ResumeData, letter: CoverLetter, theme: DocxTheme, pageSize: DocxPageSize = 'a4'): Uint8Array {
+    const page = PAGES[pageSize];
+    return packageDocx(coreXml(data, 'Cover Letter'), coverLetterXml(data, letter, theme, page), theme, page);
+}
+
+function packageDocx(core: string, document: string, theme: DocxTheme, page: { width: number; height: number }): Uint8Array {
+    return zipSync({
+        '[Content_Types].xml': strToU8(CONTENT_TYPES_XML),
+        '_rels/.rels': strToU8(ROOT_RELS_XML),
+        'docProps/core.xml': strToU8(core),
+        'word/document.xml': strToU8(document),
+        'word/styles.xml': strToU8(stylesXml(theme, page.width - PAGE_MARGIN * 2)),
+        'word/numbering.xml': strToU8(NUMBERING_XML),
+        'word/_rels/document.xml.rels': strToU8(DOCUMENT_RELS_XML)
+    });
+}
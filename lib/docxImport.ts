@@ -0,0 +1,423 @@
+// DOCX Resume Import
+// Reads word/document.xml straight from the .docx zip and uses Word's own structure
+// (heading styles, list numbering, bold runs) to split the resume into sections.
+// Runs fully in the browser: fflate for the zip, DOMParser for the XML.
+
+import { unzipSync, strFromU8 } from 'fflate';
+import { ResumeData, ExperienceItem, EducationItem, CertificationItem, LanguageItem, CustomSectionType } from '../types';
+import { detectSectionHeading, buildCustomSection, isCustomSectionType, ResumeSectionKey, EMAIL_REGEX, PHONE_REGEX, LINKEDIN_REGEX } from './atsScoring';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+export class DocxImportError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DocxImportError';
+    }
+}
+
+export interface DocxParagraph {
+    text: string;
+    style: string;               // lower-cased style name, e.g. "heading 1", "list bullet"
+    headingLevel: number | null; // 0 = Title, 1 = Heading 1, ...
+    isListItem: boolean;
+    isBold: boolean;
+}
+
+interface StyleInfo {
+    name: string;
+    outlineLevel: number | null;
+    isList: boolean;
+    basedOn: string | null;
+}
+
+const DATE_RANGE_REGEX = /((?:\d{1,2}[/.])?(?:(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\.?\s*)?(?:19|20)\d{2})\s*(?:[-–—]|to)\s*((?:\d{1,2}[/.])?(?:(?:Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\.?\s*)?(?:19|20)\d{2}|Present|Current|Now)/i;
+const YEAR_REGEX = /(?:19|20)\d{2}/;
+const URL_REGEX = /(?:https?:\/\/)?(?:www\.)?[a-z0-9-]+\.[a-z]{2,}(?:\/[^\s|]*)?/i;
+const BULLET_PREFIX = /^[•●▪◦‣∙*\-–]\s*/;
+const FIELD_SEPARATOR = /\s*(?:\||\t|•|·)\s*|\s+[-–—]\s+/;
+const JOB_TITLE_WORDS = /\b(engineer|developer|manager|analyst|designer|intern|lead|consultant|specialist|director|associate|officer|executive|architect|scientist|administrator|coordinator|head|founder|trainee|assistant)\b/i;
+const DEGREE_WORDS = /\b(bachelor|master|ph\.?d|diploma|degree|b\.?\s?tech|m\.?\s?tech|b\.?\s?e\b|m\.?\s?e\b|b\.?\s?sc|m\.?\s?sc|b\.?\s?com|m\.?\s?com|b\.?\s?a\b|m\.?\s?a\b|mba|bba|bca|mca|hsc|ssc|class (?:x|xii|10|12))/i;
+
+const childrenNS = (el: Element, name: string) =>
+    Array.from(el.childNodes).filter((n): n is Element => n.nodeType === 1 && (n as Element).namespaceURI === W_NS && (n as Element).localName === name);
+
+const wVal = (el: Element | undefined) => el ? (el.getAttributeNS(W_NS, 'val') ?? el.getAttribute('w:val')) : null;
+
+const isOn = (el: Element | undefined) => {
+    if (!el) return false;
+    const val = wVal(el);
+    return val === null || !['0', 'false', 'off'].includes(val);
+};
+
+function parseXml(xml: string): Document {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml');
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+        throw new DocxImportError('The Word document is damaged and could not be read.');
+    }
+    return doc;
+}
+
+function readStyles(xml: string | null): Map<string, StyleInfo> {
+    const styles = new Map<string, StyleInfo>();
+    if (!xml) return styles;
+
+    for (const style of Array.from(parseXml(xml).getElementsByTagNameNS(W_NS, 'style'))) {
+        const id = style.getAttributeNS(W_NS, 'styleId') ?? style.getAttribute('w:styleId');
+        if (!id) continue;
+        const pPr = childrenNS(style, 'pPr')[0];
+        const outline = pPr ? wVal(childrenNS(pPr, 'outlineLvl')[0]) : null;
+        styles.set(id, {
+            name: (wVal(childrenNS(style, 'name')[0]) || id).toLowerCase(),
+            outlineLevel: outline !== null ? parseInt(outline, 10) : null,
+            isList: !!pPr && childrenNS(pPr, 'numPr').length > 0,
+            basedOn: wVal(childrenNS(style, 'basedOn')[0])
+        });
+    }
+    return styles;
+}
+
+/**
+ * Follow the basedOn chain so "My Heading" based on "heading 2" still counts as a heading
+ */
+function resolveStyle(styles: Map<string, StyleInfo>, id: string | null) {
+    let name = '';
+    let headingLevel: number | null = null;
+    let isList = false;
+
+    for (let depth = 0, current = id; current && depth < 8; depth++) {
+        const style = styles.get(current);
+        if (!style) break;
+        if (!name) name = style.name;
+        if (headingLevel === null) {
+            const named = /^heading (\d)$/.exec(style.name);
+            if (style.name === 'title') headingLevel = 0;
+            else if (named) headingLevel = parseInt(named[1], 10);
+            else if (style.outlineLevel !== null) headingLevel = style.outlineLevel + 1;
+        }
+        isList = isList || style.isList || /list/.test(style.name);
+        current = style.basedOn;
+    }
+    return { name, headingLevel, isList };
+}
+
+function paragraphText(p: Element): string {
+    let text = '';
+    const walk = (node: Element) => {
+        for (const child of Array.from(node.childNodes)) {
+            if (child.nodeType !== 1) continue;
+            const el = child as Element;
+            if (el.namespaceURI === W_NS) {
+                if (el.localName === 't') text += el.textContent || '';
+                else if (el.localName === 'tab') text += '\t';
+                else if (el.localName === 'br' || el.localName === 'cr') text += ' ';
+                else if (el.localName === 'p' || el.localName === 'delText') continue; // nested text boxes are visited on their own
+                else walk(el);
+            } else {
+                walk(el);
+            }
+        }
+    };
+    walk(p);
+    return text.replace(/[  ]+/g, ' ').trim();
+}
+
+function paragraphIsBold(p: Element): boolean {
+    const runs = Array.from(p.getElementsByTagNameNS(W_NS, 'r')).filter(r => (r.textContent || '').trim());
+    return runs.length > 0 && runs.every(r => {
+        const rPr = childrenNS(r, 'rPr')[0];
+        return !!rPr && isOn(childrenNS(rPr, 'b')[0]);
+    });
+}
+
+/**
+ * Unzip a .docx and return its paragraphs (including table cells) in reading order
+ */
+export function readDocx(buffer: ArrayBuffer): DocxParagraph[] {
+    let files: Record<string, Uint8Array>;
+    try {
+        files = unzipSync(new Uint8Array(buffer), {
+            filter: file => file.name === 'word/document.xml' || file.name === 'word/styles.xml'
+        });
+    } catch (e) {
+        throw new DocxImportError('This file is not a .docx document. Older .doc files need to be re-saved as .docx first.');
+    }
+
+    if (!files['word/document.xml']) {
+        throw new DocxImportError('This file is not a Word document (word/document.xml is missing).');
+    }
+
+    const styles = readStyles(files['word/styles.xml'] ? strFromU8(files['word/styles.xml']) : null);
+    const doc = parseXml(strFromU8(files['word/document.xml']));
+    const paragraphs: DocxParagraph[] = [];
+
+    for (const p of Array.from(doc.getElementsByTagNameNS(W_NS, 'p'))) {
+        // Text boxes are stored twice (DrawingML + VML fallback); only read the primary copy
+        let ancestor = p.parentNode as Element | null;
+        let isFallback = false;
+        while (ancestor && ancestor.nodeType === 1) {
+            if (ancestor.localName === 'Fallback') { isFallback = true; break; }
+            ancestor = ancestor.parentNode as Element | null;
+        }
+        if (isFallback) continue;
+
+        const text = paragraphText(p);
+        if (!text) continue;
+
+        const pPr = childrenNS(p, 'pPr')[0];
+        const style = resolveStyle(styles, pPr ? wVal(childrenNS(pPr, 'pStyle')[0]) : null);
+        const directOutline = pPr ? wVal(childrenNS(pPr, 'outlineLvl')[0]) : null;
+
+        paragraphs.push({
+            text,
+            style: style.name,
+            headingLevel: directOutline !== null ? parseInt(directOutline, 10) + 1 : style.headingLevel,
+            isListItem: (!!pPr && childrenNS(pPr, 'numPr').length > 0) || style.isList,
+            isBold: paragraphIsBold(p)
+        });
+    }
+
+    return paragraphs;
+}
+
+/**
+ * Plain text of the document, one paragraph per line (input for the ATS scorer)
+ */
+export function docxToText(paragraphs: DocxParagraph[]): string {
+    return paragraphs.map(p => (p.isListItem ? '• ' : '') + p.text.replace(/\t+/g, ' ')).join('\n');
+}
+
+const looksLikeHeading = (p: DocxParagraph) =>
+    p.headingLevel !== null || p.isBold || (p.text === p.text.toUpperCase() && /[A-Z]/.test(p.text)) || p.text.length < 40;
+
+const isContactLine = (text: string) =>
+    EMAIL_REGEX.test(text) || PHONE_REGEX.test(text) || LINKEDIN_REGEX.test(text) || /https?:\/\//.test(text);
+
+const splitFields = (text: string) => text.split(FIELD_SEPARATOR).map(s => s.trim()).filter(Boolean);
+
+function buildExperience(header: string[], bullets: string[], id: number): ExperienceItem {
+    let date = '';
+    const parts: string[][] = header.map(line => {
+        const match = line.match(DATE_RANGE_REGEX);
+        if (match && !date) {
+            date = match[0].trim();
+            line = line.replace(match[0], ' ');
+        }
+        // "Engineer at Acme" reads as role + company
+        return splitFields(line.replace(/\s+at\s+/i, ' | ').replace(/[()]/g, ' '));
+    }).filter(p => p.length > 0);
+
+    let role = '';
+    let company = '';
+    let location = '';
+    const flat = parts.flat();
+
+    if (parts.length >= 2) {
+        // Two header lines: usually title on one, company (and place) on the other
+        const [first, second] = JOB_TITLE_WORDS.test(parts[1][0]) && !JOB_TITLE_WORDS.test(parts[0][0]) ? [parts[1], parts[0]] : [parts[0], parts[1]];
+        role = first[0];
+        company = second[0];
+        location = second[1] || first[1] || '';
+    } else if (flat.length > 0) {
+        const roleIndex = flat.findIndex(part => JOB_TITLE_WORDS.test(part));
+        // Without a title-like part, assume "Company | Role" like the text parser does
+        const r = roleIndex >= 0 ? roleIndex : Math.min(1, flat.length - 1);
+        role = flat[r];
+        const rest = flat.filter((_, i) => i !== r);
+        company = rest[0] || '';
+        location = rest[1] || '';
+    }
+
+    // "Acme Corp, Pune" -> company + location when no separate location was found
+    if (!location && company.includes(',')) {
+        const [name, ...place] = company.split(',');
+        company = name.trim();
+        location = place.join(',').trim();
+    }
+
+    return {
+        id,
+        role: role.substring(0, 100),
+        company: company.substring(0, 100),
+        location: location.substring(0, 100),
+        date: date.substring(0, 50),
+        bullets: bullets.length > 0 ? bullets : ['']
+    };
+}
+
+function buildEducation(lines: string[], id: number): EducationItem {
+    const edu: EducationItem = { id, degree: '', school: '', year: '', grade: '' };
+    for (const line of lines) {
+        const range = line.match(DATE_RANGE_REGEX);
+        const year = range ? range[0] : (line.match(YEAR_REGEX) || [''])[0];
+        if (year && !edu.year) edu.year = year.trim();
+
+        // "B.Tech in CS, IIT Bombay": the comma separates degree and school
+        const parts = splitFields(line.replace(year, ' ').replace(/[()]/g, ' '))
+            .flatMap(part => DEGREE_WORDS.test(part) && part.includes(',')
+                ? [part.slice(0, part.indexOf(',')).trim(), part.slice(part.indexOf(',') + 1).trim()]
+                : [part]);
+        for (const part of parts) {
+            if (/\b(gpa|cgpa|grade|percentage|score)\b|%|\d(?:\.\d+)?\s*\/\s*\d/i.test(part)) {
+                if (!edu.grade) edu.grade = part;
+            } else if (DEGREE_WORDS.test(part) && !edu.degree) {
+                edu.degree = part;
+            } else if (!edu.school) {
+                edu.school = part;
+            } else if (!edu.degree) {
+                edu.degree = part;
+            }
+        }
+    }
+    edu.degree = edu.degree.substring(0, 100);
+    edu.school = edu.school.substring(0, 100);
+    return edu;
+}
+
+/**
+ * Map DOCX paragraphs to ResumeData using headings for sections and list items for bullets
+ */
+export function parseDocxResume(paragraphs: DocxParagraph[]): ResumeData & { source: 'parser' } {
+    let idSeed = Date.now();
+    const nextId = () => idSeed++;
+
+    const header: DocxParagraph[] = [];
+    const sections: Record<ResumeSectionKey | 'other', DocxParagraph[]> = {
+        summary: [], experience: [], education: [], skills: [], certifications: [], languages: [], other: []
+    };
+    const customParagraphs: Partial<Record<CustomSectionType, DocxParagraph[]>> = {};
+    let current: ResumeSectionKey | CustomSectionType | 'other' | 'header' = 'header';
+
+    for (const p of paragraphs) {
+        const section = !p.isListItem ? detectSectionHeading(p.text.replace(/:$/, '')) : null;
+        if (section && looksLikeHeading(p)) {
+            current = section;
+            if (isCustomSectionType(section)) customParagraphs[section] = customParagraphs[section] || [];
+            continue;
+        }
+        // An unrecognised real heading ("Hobbies", "References") after the header starts a section we don't map
+        if (current !== 'header' && p.headingLevel !== null && p.headingLevel >= 1 && p.headingLevel <= 2 && !p.isListItem) {
+            current = 'other';
+            continue;
+        }
+        if (current === 'header') header.push(p);
+        else if (isCustomSectionType(current)) customParagraphs[current]!.push(p);
+        else sections[current].push(p);
+    }
+
+    // --- Header: name, role and contact details ---
+    const headerText = header.map(p => p.text).join('\n');
+    const nameParagraph = header.find(p => p.headingLevel === 0)
+        || header.find(p => !isContactLine(p.text) && p.text.split(/\s+/).length <= 5 && /^[A-Za-z\s.'-]+$/.test(p.text));
+    const fullName = nameParagraph ? nameParagraph.text : '';
+
+    let targetRole = '';
+    let phone = '';
+    let location = '';
+    let website = '';
+    const headerLeftovers: string[] = [];
+    for (const p of header) {
+        if (p === nameParagraph) continue;
+        for (const field of splitFields(p.text)) {
+            // A field made only of digits and phone punctuation is the full number ("+91 98765 43210")
+            if (!phone && /^[+\d\s().-]+$/.test(field) && field.replace(/\D/g, '').length >= 10) { phone = field; continue; }
+            if (EMAIL_REGEX.test(field) || PHONE_REGEX.test(field) || LINKEDIN_REGEX.test(field)) continue;
+            if (!website && URL_REGEX.test(field) && !/\s/.test(field)) { website = field; continue; }
+            if (!location && /^[A-Za-z .]+,\s*[A-Za-z .]+$/.test(field) && field.length < 50) { location = field; continue; }
+            if (!targetRole && field.length < 60 && !/[.!?]$/.test(field)) { targetRole = field; continue; }
+            headerLeftovers.push(field);
+        }
+    }
+
+    // --- Experience: non-list lines open an entry, list items are its bullets ---
+    const experience: ExperienceItem[] = [];
+    let expHeader: string[] = [];
+    let expBullets: string[] = [];
+    const flushExperience = () => {
+        if (expHeader.length > 0 || expBullets.length > 0) experience.push(buildExperience(expHeader, expBullets, nextId()));
+        expHeader = [];
+        expBullets = [];
+    };
+    for (const p of sections.experience) {
+        const isBullet = p.isListItem || BULLET_PREFIX.test(p.text) || (expHeader.length >= 3) || p.text.length > 150;
+        if (isBullet) {
+            expBullets.push(p.text.replace(BULLET_PREFIX, '').trim());
+        } else {
+            if (expBullets.length > 0) flushExperience();
+            expHeader.push(p.text);
+        }
+    }
+    flushExperience();
+
+    // --- Education: a new entry starts at each degree line ---
+    const education: EducationItem[] = [];
+    let eduLines: string[] = [];
+    for (const p of sections.education) {
+        const text = p.text.replace(BULLET_PREFIX, '');
+        if (DEGREE_WORDS.test(text) && eduLines.some(l => DEGREE_WORDS.test(l))) {
+            education.push(buildEducation(eduLines, nextId()));
+            eduLines = [];
+        }
+        eduLines.push(text);
+    }
+    if (eduLines.length > 0) education.push(buildEducation(eduLines, nextId()));
+
+    // --- Skills: "Label: a, b, c" lines or plain lists ---
+    const hardSkills: string[] = [];
+    const softSkills: string[] = [];
+    for (const p of sections.skills) {
+        const text = p.text.replace(BULLET_PREFIX, '');
+        const labelMatch = /^([^:]{2,40}):\s*(.+)$/.exec(text);
+        const items = (labelMatch ? labelMatch[2] : text).split(/\s*[,|•;]\s*/).map(s => s.trim()).filter(Boolean);
+        (labelMatch && /soft|interpersonal/i.test(labelMatch[1]) ? softSkills : hardSkills).push(...items);
+    }
+
+    const certifications: CertificationItem[] = sections.certifications.map(p => {
+        const text = p.text.replace(BULLET_PREFIX, '');
+        const year = (text.match(YEAR_REGEX) || [''])[0];
+        const [name, issuer = ''] = splitFields(text.replace(year, ' ').replace(/[()]/g, ' '));
+        return { id: nextId(), name: (name || text).substring(0, 150), issuer: issuer.substring(0, 100), date: year };
+    });
+
+    const languages: LanguageItem[] = sections.languages
+        .flatMap(p => p.text.replace(BULLET_PREFIX, '').split(/\s*[,;|•]\s*/))
+        .map(entry => entry.trim())
+        .filter(Boolean)
+        .map(entry => {
+            const match = /^([^(:\-–]+?)\s*(?:[(:\-–]\s*([^)]+)\)?)?$/.exec(entry);
+            return { id: nextId(), name: (match ? match[1] : entry).trim(), level: (match?.[2] || '').trim() };
+        });
+
+    // --- Projects, awards etc.: same shape as experience, list items are the details ---
+    const customSections = (Object.keys(customParagraphs) as CustomSectionType[]).map(type => buildCustomSection(
+        type,
+        customParagraphs[type]!.map(p => ({
+            text: p.text.replace(BULLET_PREFIX, '').trim(),
+            isBullet: p.isListItem || BULLET_PREFIX.test(p.text) || p.text.length > 150
+        })),
+        nextId
+    )).filter(section => section.entries.length > 0);
+
+    const summary = sections.summary.length > 0
+        ? sections.summary.map(p => p.text).join('\n')
+        : headerLeftovers.filter(l => l.length >= 60).join('\n');
+
+    return {
+        source: 'parser',
+        fullName: fullName || 'Imported User',
+        targetRole,
+        email: (headerText.match(EMAIL_REGEX) || [''])[0],
+        phone: phone || (headerText.match(PHONE_REGEX) || [''])[0],
+        location,
+        linkedin: (headerText.match(LINKEDIN_REGEX) || [''])[0],
+        website,
+        summary,
+        experience,
+        education,
+        hardSkills: hardSkills.join(', '),
+        softSkills: softSkills.join(', '),
+        certifications,
+        languages,
+        customSections
+    };
+}
@@ -0,0 +1,255 @@
+// Resume-to-JD Gap Report
+// Goes past the keyword score: for every requirement in a job description, which bullets cover it, which
+// are only claimed in the skills list or summary, and which are missing entirely, plus the order to put the
+// roles in for this job. Reports are saved in localStorage and can be linked to a job on the JobTracker board.
+
+import { ExperienceItem, JobApplication, ResumeData } from '../types';
+import {
+    JobRequirements, RequirementStrength, analyzeJobDescription, educationLevelOf, meetsEducationLevel, EDUCATION_LABELS
+} from './jobDescription';
+import { mentionsSkill } from './skillTaxonomy';
+import { totalExperienceMonths, formatDuration, sortResumeEntries } from './dates';
+import { roleSkillMatches, roleMatchWeight, orderExperienceByMatch } from './resumeVariants';
+
+export type RequirementKind = 'skill' | 'experience' | 'education';
+
+// covered: shown in a bullet, role, project or certification; partial: only claimed (skills list, summary)
+// or short of the threshold; missing: nowhere on the resume
+export type CoverageStatus = 'covered' | 'partial' | 'missing';
+
+export interface RequirementEvidence {
+    location: string;           // "Experience > Developer @ Acme", "Skills", "Projects > Chess engine"
+    text: string;
+    expId?: number;
+}
+
+export interface RequirementCoverage {
+    requirement: string;
+    kind: RequirementKind;
+    strength: RequirementStrength;
+    status: CoverageStatus;
+    evidence: RequirementEvidence[];
+}
+
+export interface RoleRanking {
+    expId: number;
+    label: string;
+    matches: string[];          // job skills the role mentions
+    weight: number;             // required skills count double
+    currentIndex: number;
+    suggestedIndex: number;
+}
+
+export interface GapReport {
+    id: string;
+    createdAt: string;
+    jobTitle: string;
+    candidate: string;
+    jobDescription: string;
+    coverage: number;           // 0-100, required count double, partial counts half
+    requirements: RequirementCoverage[];
+    roles: RoleRanking[];       // in suggested order
+    jobId: string | null;       // JobApplication on the tracker board
+}
+
+const STORAGE_KEY = 'nextstep_gap_reports';
+export const TRACKED_JOBS_KEY = 'nextstep_jobs';
+
+const roleLabel = (exp: ExperienceItem) => [exp.role, exp.company].filter(Boolean).join(' @ ') || 'Untitled role';
+
+/**
+ * Where a resume shows a skill. Skills-list and summary mentions are kept apart: they claim a skill
+ * without showing it.
+ */
+function skillEvidence(data: ResumeData, skill: string): { shown: RequirementEvidence[]; claimed: RequirementEvidence[] } {
+    const shown: RequirementEvidence[] = [];
+    for (const exp of data.experience || []) {
+        const location = `Experience > ${roleLabel(exp)}`;
+        if (mentionsSkill(exp.role || '', skill)) shown.push({ location, text: exp.role, expId: exp.id });
+        for (const bullet of exp.bullets || []) {
+            if (mentionsSkill(bullet, skill)) shown.push({ location, text: bullet, expId: exp.id });
+        }
+    }
+    for (const section of data.customSections || []) {
+        for (const entry of section.entries) {
+            const location = `${section.title} > ${entry.title || 'Untitled'}`;
+            for (const text of [entry.title, entry.subtitle, ...(entry.bullets || [])]) {
+                if (text && mentionsSkill(text, skill)) shown.push({ location, text });
+            }
+        }
+    }
+    for (const cert of data.certifications || []) {
+        if (mentionsSkill(cert.name || '', skill)) shown.push({ location: 'Certifications', text: cert.name });
+    }
+
+    const claimed: RequirementEvidence[] = [];
+    if (mentionsSkill(data.summary || '', skill)) claimed.push({ location: 'Summary', text: data.summary });
+    const listed = [data.hardSkills, data.softSkills].join(', ').split(',').map(s => s.trim()).filter(s => s && mentionsSkill(s, skill));
+    if (listed.length > 0) claimed.push({ location: 'Skills', text: listed.join(', ') });
+    return { shown, claimed };
+}
+
+function skillCoverage(data: ResumeData, skill: string, strength: RequirementStrength): RequirementCoverage {
+    const { shown, claimed } = skillEvidence(data, skill);
+    return {
+        requirement: skill,
+        kind: 'skill',
+        strength,
+        status: shown.length > 0 ? 'covered' : claimed.length > 0 ? 'partial' : 'missing',
+        evidence: [...shown, ...claimed]
+    };
+}
+
+/**
+ * Years thresholds: experience in general counts every dated role, "3+ years of Python" only the roles that mention Python
+ */
+function experienceCoverage(data: ResumeData, requirements: JobRequirements): RequirementCoverage[] {
+    const seen = new Set<string>();
+    return requirements.experience.filter(req => {
+        const key = `${(req.subject || '').toLowerCase()}:${req.minYears}`;
+        if (seen.has(key)) return false;
+        seen.add(key);
+        return true;
+    }).map((req): RequirementCoverage => {
+        const roles = (data.experience || []).filter(exp =>
+            !req.subject || mentionsSkill([exp.role, exp.company, ...(exp.bullets || [])].join(' '), req.subject));
+        const months = totalExperienceMonths(roles);
+        return {
+            requirement: `${req.minYears}+ years ${req.subject ? `of ${req.subject}` : 'of experience'}`,
+            kind: 'experience',
+            strength: req.strength,
+            status: months >= req.minYears * 12 ? 'covered' : roles.length > 0 ? 'partial' : 'missing',
+            evidence: roles.map(exp => {
+                const span = totalExperienceMonths([exp]);
+                return { location: `Experience > ${roleLabel(exp)}`, text: span > 0 ? formatDuration(span) : 'Undated', expId: exp.id };
+            })
+        };
+    });
+}
+
+/**
+ * Degrees: the level has to be met; a named field of study only makes the difference between covered and partial
+ */
+function educationCoverage(data: ResumeData, requirements: JobRequirements): RequirementCoverage[] {
+    return requirements.education.map((req): RequirementCoverage => {
+        const meeting = (data.education || []).filter(edu => {
+            const level = educationLevelOf(edu.degree || '');
+            return level !== null && meetsEducationLevel(level, req.level);
+        });
+        const inField = meeting.filter(edu => req.fields.length === 0 || req.fields.some(field => mentionsSkill(edu.degree, field)));
+        return {
+            requirement: [
+                EDUCATION_LABELS[req.level],
+                req.fields.length > 0 && `in ${req.fields.join(' or ')}`,
+                req.equivalentExperience && 'or equivalent experience'
+            ].filter(Boolean).join(' '),
+            kind: 'education',
+            strength: req.strength,
+            status: inField.length > 0 ? 'covered' : meeting.length > 0 ? 'partial' : 'missing',
+            evidence: (inField.length > 0 ? inField : meeting).map(edu => ({ location: 'Education', text: [edu.degree, edu.school].filter(Boolean).join(', ') }))
+        };
+    });
+}
+
+/**
+ * Roles in the order to present them for this job; ties keep the order the templates print them in
+ * (newest first unless the user ordered entries by hand), which is also what currentIndex counts from
+ */
+function rankRoles(data: ResumeData, requirements: JobRequirements): RoleRanking[] {
+    const displayed = sortResumeEntries(data);
+    const experience = displayed.experience || [];
+    const order = orderExperienceByMatch(displayed, {}, requirements).experienceOrder || [];
+    return order.map((id, suggestedIndex) => {
+        const exp = experience.find(e => e.id === id)!;
+        return {
+            expId: id,
+            label: roleLabel(exp),
+            matches: roleSkillMatches(exp, requirements),
+            weight: roleMatchWeight(exp, requirements),
+            currentIndex: experience.indexOf(exp),
+            suggestedIndex
+        };
+    });
+}
+
+const STATUS_CREDIT: Record<CoverageStatus, number> = { covered: 1, partial: 0.5, missing: 0 };
+
+export function buildGapReport(data: ResumeData, jobDescription: string, requirements: JobRequirements = analyzeJobDescription(jobDescription)): GapReport {
+    const coverage = [
+        ...requirements.requiredSkills.map(skill => skillCoverage(data, skill, 'required')),
+        ...requirements.preferredSkills.map(skill => skillCoverage(data, skill, 'preferred')),
+        ...experienceCoverage(data, requirements),
+        ...educationCoverage(data, requirements)
+    ];
+    const weight = (item: RequirementCoverage) => item.strength === 'required' ? 2 : 1;
+    const possible = coverage.reduce((sum, item) => sum + weight(item), 0);
+    const earned = coverage.reduce((sum, item) => sum + weight(item) * STATUS_CREDIT[item.status], 0);
+
+    return {
+        id: `gap-${Date.now()}`,
+        createdAt: new Date().toISOString(),
+        jobTitle: requirements.title || data.targetRole || 'Target role',
+        candidate: data.fullName || '',
+        jobDescription,
+        coverage: possible === 0 ? 0 : Math.round(earned / possible * 100),
+        requirements: coverage,
+        roles: rankRoles(data, requirements),
+        jobId: null
+    };
+}
+
+/**
+ * Saved reports, newest first
+ */
+export function listGapReports(): GapReport[] {
+    try {
+        const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+        return Array.isArray(stored) ? stored : [];
+    } catch (e) {
+        console.error('Gap report parse error', e);
+        return [];
+    }
+}
+
+function writeGapReports(reports: GapReport[]): GapReport[] {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(reports));
+    return reports;
+}
+
+export function saveGapReport(report: GapReport): GapReport[] {
+    return writeGapReports([report, ...listGapReports().filter(r => r.id !== report.id)]);
+}
+
+export function deleteGapReport(id: string): GapReport[] {
+    return writeGapReports(listGapReports().filter(r => r.id !== id));
+}
+
+export function linkGapReport(id: string, jobId: string | null): GapReport[] {
+    return writeGapReports(listGapReports().map(r => r.id === id ? { ...r, jobId } : r));
+}
+
+export function gapReportsForJob(jobId: string): GapReport[] {
+    return listGapReports().filter(r => r.jobId === jobId);
+}
+
+/**
+ * Jobs on the tracker board, for the link picker
+ */
+export function listTrackedJobs(): JobApplication[] {
+    try {
+        const stored = JSON.parse(localStorage.getItem(TRACKED_JOBS_KEY) || '[]');
+        return Array.isArray(stored) ? stored : [];
+    } catch (e) {
+        console.error('Job tracker parse error', e);
+        return [];
+    }
+}
+
+/**
+ * Put a new job in the tracker's Saved column
+ */
+export function addTrackedJob(company: string, role: string): JobApplication {
+    const job: JobApplication = { id: Date.now().toString(), company, role, status: 'Saved', dateAdded: new Date().toISOString() };
+    localStorage.setItem(TRACKED_JOBS_KEY, JSON.stringify([...listTrackedJobs(), job]));
+    return job;
+}
@@ -7,6 +7,7 @@
 
 import { AIFeature, AI_CONFIG, MODEL_IDS, hashContent } from './aiConfig';
 import { supabase } from './supabaseClient';
+import { ToolAccessError } from './toolAccess';
 
 export interface AICallOptions {
     feature: AIFeature;
@@ -106,6 +107,33 @@ export async function callGemini(options: AICallOptions): Promise<AIResponse> {
     }
 }
 
+/**
+ * callGemini for callers that want the text or an exception: ToolAccessError when credits run out
+ * (what the builder already alerts on), Error for anything else
+ */
+export async function requestAIText(options: AICallOptions): Promise<string> {
+    const response = await callGemini(options);
+    if (response.success && response.data) return response.data;
+    if (response.error === 'NO_CREDITS') throw new ToolAccessError('You have 0 credits. Please upgrade to continue.', 'NO_CREDITS');
+    if (response.error === 'INSUFFICIENT_CREDITS') {
+        throw new ToolAccessError(`This action requires ${AI_CONFIG[options.feature].cost} credit(s).`, 'INSUFFICIENT_CREDITS');
+    }
+    throw new Error(response.error || 'The AI service returned no text');
+}
+
+/**
+ * A JSON object from a model reply, with any markdown code fences removed
+ */
+export function parseJsonResponse(raw: string): Record<string, unknown> {
+    try {
+        const parsed = JSON.parse(raw.replace(/```json/g, '').replace(/```/g, '').trim());
+        if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed;
+    } catch (e) {
+        console.error('AI response parse error', e);
+    }
+    throw new Error("The AI response couldn't be read. Please try again.");
+}
+
 /**
  * Check if user has enough credits for a feature (client-side check)
  */
@@ -4,6 +4,7 @@
 
 import { getQuestionsForInterview, detectRoleType, detectLevel, InterviewQuestion } from './questionBanks';
 import { GoogleGenerativeAI } from "@google/generative-ai";
+import { JobRequirements, Seniority } from './jobDescription';
 
 export type InterviewStage = 'setup' | 'initializing' | 'asking' | 'listening' | 'thinking' | 'processing_feedback' | 'feedback';
 
@@ -29,21 +30,32 @@ export interface InterviewConfig {
     persona: string;
     cvSummary?: string;
     questionCount?: number;
+    requirements?: JobRequirements;     // parsed job description, when the candidate pasted one
 }
 
+const SENIORITY_LEVELS: Record<Seniority, 'fresher' | 'mid' | 'senior'> = {
+    intern: 'fresher',
+    entry: 'fresher',
+    mid: 'mid',
+    senior: 'senior',
+    lead: 'senior',
+    executive: 'senior'
+};
+
 /**
  * Generate interview questions based on job role and CV
  * Uses static question banks - NO Gemini call
  */
 export function generateInterviewQuestions(config: InterviewConfig): InterviewQuestion[] {
-    const { jobRole, questionCount = 5 } = config;
+    const { jobRole, questionCount = 5, requirements } = config;
 
-    // Detect role type and level from job title
-    const roleType = detectRoleType(jobRole);
-    const level = detectLevel(jobRole);
+    // Detect role type and level from job title, preferring what the job description says
+    const title = requirements?.title || jobRole;
+    const roleType = detectRoleType(title);
+    const level = requirements?.seniority ? SENIORITY_LEVELS[requirements.seniority] : detectLevel(title);
 
     // Get questions from static bank
-    const questions = getQuestionsForInterview(roleType, level, questionCount);
+    const questions = getQuestionsForInterview(roleType, level, questionCount, requirements?.requiredSkills);
 
     return questions;
 }
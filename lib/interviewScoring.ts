@@ -1,6 +1,8 @@
 // Interview Scoring Engine - Rule-Based (NO AI)
 // Scores interview responses on 5 dimensions without any Gemini calls
 
+import { SkillCategory, findSkills, mentionsSkill, skillsInCategory } from './skillTaxonomy';
+
 export interface ScoreDimension {
     name: string;
     score: number; // 0-5
@@ -29,7 +31,7 @@ const FILLER_WORDS = [
 ];
 
 // Action verbs that indicate strong answers
-const ACTION_VERBS = [
+export const ACTION_VERBS = [
     'led', 'managed', 'developed', 'created', 'implemented', 'designed',
     'built', 'improved', 'increased', 'reduced', 'achieved', 'delivered',
     'launched', 'optimized', 'streamlined', 'coordinated', 'analyzed',
@@ -37,7 +39,7 @@ const ACTION_VERBS = [
 ];
 
 // Quantitative indicators
-const QUANTITATIVE_PATTERNS = [
+export const QUANTITATIVE_PATTERNS = [
     /\d+%/, /\d+ percent/, /\$[\d,]+/, /₹[\d,]+/, /\d+ (users|customers|clients)/i,
     /\d+ (months|years|weeks)/, /\d+x/, /doubled|tripled|halved/i
 ];
@@ -97,13 +99,13 @@ function scoreRelevance(answer: string, config: ScoringConfig): ScoreDimension {
 
     // Check for CV keywords
     const cvKeywordMatches = config.cvKeywords.filter(k =>
-        lowerAnswer.includes(k.toLowerCase())
+        mentionsSkill(answer, k)
     ).length;
     score += Math.min(cvKeywordMatches * 0.3, 1.5);
 
     // Check for expected skills
     const skillMatches = config.expectedSkills.filter(s =>
-        lowerAnswer.includes(s.toLowerCase())
+        mentionsSkill(answer, s)
     ).length;
     score += Math.min(skillMatches * 0.4, 1);
 
@@ -259,27 +261,30 @@ function scoreRoleAlignment(answer: string, config: ScoringConfig): ScoreDimensi
 }
 
 /**
- * Extract keywords from CV text
+ * Extract keywords from CV text: skills from the taxonomy first, then the most frequent other words
  */
 export function extractCVKeywords(cvText: string): string[] {
     if (!cvText) return [];
 
+    const skills = findSkills(cvText);
+
     const commonWords = new Set(['the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by']);
 
     // Extract potential keywords (words 4+ characters, not common)
     const words = cvText.toLowerCase()
         .replace(/[^a-z\s]/g, ' ')
         .split(/\s+/)
-        .filter(w => w.length >= 4 && !commonWords.has(w));
+        .filter(w => w.length >= 4 && !commonWords.has(w) && !skills.some(s => mentionsSkill(w, s)));
 
     // Count frequency and get top keywords
     const frequency: Record<string, number> = {};
     words.forEach(w => { frequency[w] = (frequency[w] || 0) + 1; });
 
-    return Object.entries(frequency)
+    const frequent = Object.entries(frequency)
         .sort((a, b) => b[1] - a[1])
-        .slice(0, 20)
         .map(([word]) => word);
+
+    return [...skills, ...frequent].slice(0, 20);
 }
 
 /**
@@ -288,23 +293,28 @@ export function extractCVKeywords(cvText: string): string[] {
 export function extractExpectedSkills(jobRole: string): string[] {
     const roleLower = jobRole.toLowerCase();
 
-    const skillMaps: Record<string, string[]> = {
-        'developer': ['javascript', 'python', 'java', 'react', 'node', 'sql', 'api', 'git'],
-        'engineer': ['system', 'design', 'testing', 'deployment', 'architecture', 'performance'],
-        'manager': ['leadership', 'team', 'stakeholder', 'strategy', 'planning', 'budget'],
-        'analyst': ['data', 'analysis', 'excel', 'sql', 'reporting', 'insights'],
-        'designer': ['design', 'user', 'ux', 'ui', 'figma', 'prototype', 'research'],
-        'product': ['roadmap', 'user', 'stakeholder', 'metrics', 'agile', 'sprint'],
+    // Taxonomy categories each kind of role is expected to talk about
+    const categoryMaps: Record<string, SkillCategory[]> = {
+        'developer': ['language', 'frontend', 'backend', 'database'],
+        'engineer': ['language', 'backend', 'devops', 'cloud'],
+        'manager': ['soft', 'product', 'methodology'],
+        'analyst': ['data', 'database'],
+        'scientist': ['data', 'ml'],
+        'designer': ['design'],
+        'product': ['product', 'methodology'],
     };
 
-    const skills: string[] = [];
-    Object.entries(skillMaps).forEach(([role, roleSkills]) => {
+    const categories: SkillCategory[] = [];
+    Object.entries(categoryMaps).forEach(([role, roleCategories]) => {
         if (roleLower.includes(role)) {
-            skills.push(...roleSkills);
+            categories.push(...roleCategories);
         }
     });
 
-    return [...new Set(skills)];
+    // A role named after a skill ("React Developer") expects that skill too
+    const named = findSkills(jobRole);
+
+    return [...new Set([...named, ...skillsInCategory(...categories).map(s => s.name)])];
 }
 
 /**
@@ -0,0 +1,357 @@
+// Job Description Analyzer
+// Reads a pasted job description into a structured JobRequirements model: required vs preferred skills,
+// years-of-experience thresholds, education, seniority and location / remote terms.
+// Rule based (no AI call), so the ATS checker, resume variants and interview setup can run it on every keystroke.
+
+import { ResumeData } from '../types';
+import { findSkills, mentionsSkill, skillSpellings, termRegex } from './skillTaxonomy';
+
+export type Seniority = 'intern' | 'entry' | 'mid' | 'senior' | 'lead' | 'executive';
+export type EducationLevel = 'high_school' | 'associate' | 'bachelor' | 'master' | 'doctorate';
+export type WorkArrangement = 'remote' | 'hybrid' | 'onsite';
+export type RequirementStrength = 'required' | 'preferred';
+
+export interface ExperienceRequirement {
+    minYears: number;
+    maxYears: number | null;
+    subject: string | null;         // "Python", "people management"; null = experience in general
+    strength: RequirementStrength;
+    source: string;                 // the line it was read from
+}
+
+export interface EducationRequirement {
+    level: EducationLevel;
+    fields: string[];               // "Computer Science", "Statistics"
+    strength: RequirementStrength;
+    equivalentExperience: boolean;  // "... or equivalent experience"
+    source: string;
+}
+
+export interface JobRequirements {
+    title: string | null;
+    seniority: Seniority | null;
+    requiredSkills: string[];
+    // How the posting spelled each skill ("JS" for JavaScript), for parsers that match literally
+    spellings?: Record<string, string[]>;
+    preferredSkills: string[];
+    experience: ExperienceRequirement[];
+    minYears: number | null;        // highest required threshold
+    education: EducationRequirement[];
+    workArrangements: WorkArrangement[];
+    locations: string[];
+    keywords: string[];             // recurring terms that aren't known skills, most frequent first
+}
+
+export interface RequirementMatch {
+    matchedRequired: string[];
+    missingRequired: string[];
+    matchedPreferred: string[];
+    missingPreferred: string[];
+    score: number;                  // 0-1, required skills count double
+}
+
+export const SENIORITY_LABELS: Record<Seniority, string> = {
+    intern: 'Internship',
+    entry: 'Entry level',
+    mid: 'Mid level',
+    senior: 'Senior',
+    lead: 'Lead / Principal',
+    executive: 'Director & above'
+};
+
+export const EDUCATION_LABELS: Record<EducationLevel, string> = {
+    high_school: 'High school',
+    associate: "Associate's degree",
+    bachelor: "Bachelor's degree",
+    master: "Master's degree",
+    doctorate: 'PhD'
+};
+
+const PREFERRED_HEADING = /\b(preferred|nice[- ]to[- ]haves?|bonus|desired|desirable|good to have|pluses|ideally|extra credit)\b/i;
+const REQUIRED_HEADING = /\b(requirements?|qualifications?|must[- ]haves?|what you(?:'ll)? (?:need|bring)|who you are|you have|skills|required|about you)\b/i;
+// Sections whose technology mentions describe the company, not the candidate
+const IGNORED_HEADING = /\b(about us|about the company|who we are|benefits|perks|what we offer|compensation|equal opportunity)\b/i;
+
+const PREFERRED_MARKER = /\b(preferred|nice[- ]to[- ]have|(?:is |are |a )?(?:big |huge )?plus\b|bonus|ideally|desirable|good to have|advantageous|not required)/i;
+const REQUIRED_MARKER = /\b(required|must|mandatory|essential|minimum|at least)\b/i;
+
+const NUMBER_WORDS: Record<string, number> = {
+    one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10, twelve: 12, fifteen: 15, twenty: 20
+};
+
+const YEARS_REGEX = /(\d{1,2}|one|two|three|four|five|six|seven|eight|nine|ten|twelve|fifteen|twenty)\s*(?:\+|plus)?\s*(?:(?:-|–|to)\s*(\d{1,2})\s*\+?\s*)?years?['’]?\s*(?:of\s+)?((?:[a-z-]+\s+){0,3}?(?:experience|exp\b))?(?:\s*(?:in|with|using|building|as an?|as|on|of|leading)\s+([^.;:\n()]+))?/gi;
+
+const EDUCATION_PATTERNS: { level: EducationLevel; pattern: RegExp }[] = [
+    { level: 'doctorate', pattern: /\b(ph\.?\s?d|doctorate|doctoral degree)\b/i },
+    { level: 'master', pattern: /\b(master['’]?s?|msc|m\.sc|mba|m\.tech|mtech|m\.eng|ms (?:degree|in))\b/i },
+    { level: 'bachelor', pattern: /\b(bachelor['’]?s?|bsc|b\.sc|b\.s\.|bs (?:degree|in)|ba (?:degree|in)|b\.tech|btech|b\.e\.|undergraduate degree|(?:4|four)[- ]year degree|university degree|college degree)/i },
+    { level: 'associate', pattern: /\bassociate['’]?s? degree\b/i },
+    { level: 'high_school', pattern: /\b(high school|ged|secondary school)\b/i }
+];
+
+const SENIORITY_PATTERNS: { seniority: Seniority; pattern: RegExp }[] = [
+    { seniority: 'intern', pattern: /\b(intern|internship|co-op)\b/i },
+    { seniority: 'executive', pattern: /\b(head of|director|vp|vice president|chief|cto|cio|ceo)\b/i },
+    { seniority: 'lead', pattern: /\b(lead|principal|staff|architect)\b/i },
+    { seniority: 'senior', pattern: /\b(senior|sr\.?)\b/i },
+    { seniority: 'entry', pattern: /\b(junior|jr\.?|entry[- ]level|graduate|new grad|trainee|fresher)\b/i },
+    { seniority: 'mid', pattern: /\b(mid[- ]level|intermediate)\b/i }
+];
+
+const STOP_WORDS = new Set([
+    'about', 'above', 'across', 'after', 'again', 'along', 'also', 'among', 'being', 'below', 'between', 'both', 'could',
+    'during', 'each', 'every', 'experience', 'first', 'from', 'have', 'having', 'into', 'including', 'other', 'others',
+    'our', 'over', 'please', 'should', 'skills', 'such', 'than', 'that', 'their', 'them', 'there', 'these', 'they', 'this',
+    'those', 'through', 'under', 'using', 'very', 'well', 'were', 'what', 'when', 'where', 'which', 'while', 'will', 'with',
+    'within', 'without', 'work', 'working', 'would', 'years', 'your', 'yours', 'you\'ll', 'ability', 'strong', 'team',
+    'teams', 'role', 'company', 'candidate', 'candidates', 'looking', 'join', 'help', 'able', 'preferred', 'required',
+    'requirements', 'qualifications', 'responsibilities', 'knowledge', 'understanding', 'plus', 'must', 'great', 'based'
+]);
+
+const uniqueByLowercase = (values: string[]) => values.filter((v, i, all) => all.findIndex(o => o.toLowerCase() === v.toLowerCase()) === i);
+
+const isHeading = (line: string) => line.length <= 60 && (/:$/.test(line) || (!/[.,;]/.test(line) && line.split(/\s+/).length <= 6 && (PREFERRED_HEADING.test(line) || REQUIRED_HEADING.test(line) || IGNORED_HEADING.test(line) || /^[A-Z\s&/'-]+$/.test(line))));
+
+/**
+ * Terms listed after "experience with", "knowledge of", "such as" that aren't in the skill taxonomy
+ * ("Experience with Terraform, Pulumi or CDK" -> Pulumi, CDK). Only capitalised or symbol-bearing terms count.
+ */
+function listedTerms(line: string): string[] {
+    const match = /\b(?:with|in|of|using|such as|like|including|e\.g\.?)\s+(.+)$/i.exec(line);
+    if (!match) return [];
+    return match[1]
+        .split(/,|\/(?!\w{1,2}\b)|\bor\b|\band\b|\(|\)/)
+        .map(term => term.trim().replace(/^(?:the|a|an|modern|tools like)\s+/i, '').replace(/[.;:!]+$/, '').trim())
+        .filter(term => term.length > 1 && term.length <= 25 && term.split(/\s+/).length <= 3)
+        .filter(term => /^[A-Z]/.test(term) || /[+#.]/.test(term))
+        .filter(term => !STOP_WORDS.has(term.toLowerCase()) && !/^(experience|knowledge|proficiency|familiarity|understanding|bachelor|master)/i.test(term));
+}
+
+function parseYears(line: string, strength: RequirementStrength): ExperienceRequirement[] {
+    const found: ExperienceRequirement[] = [];
+    for (const match of line.matchAll(YEARS_REGEX)) {
+        const [, minText, maxText, experienceWord, subjectText] = match;
+        // "10 years ago", "founded 20 years" - only count phrases about experience
+        if (!experienceWord && !subjectText) continue;
+        if (/^\s*(ago|old)\b/i.test(line.substring((match.index || 0) + match[0].length))) continue;
+
+        const minYears = NUMBER_WORDS[minText.toLowerCase()] ?? parseInt(minText, 10);
+        const maxYears = maxText ? parseInt(maxText, 10) : null;
+        if (!minYears || minYears > 30) continue;
+
+        const subject = subjectText
+            ? subjectText.replace(/\b(?:or (?:a )?(?:similar|related|equivalent).*|and (?:a|an|the)\b.*|preferred.*|required.*|is a plus.*)$/i, '').trim().replace(/[,\s]+$/, '')
+            : '';
+        found.push({ minYears, maxYears: maxYears && maxYears > minYears ? maxYears : null, subject: subject || null, strength, source: line });
+    }
+    return found;
+}
+
+function parseEducation(line: string, strength: RequirementStrength): EducationRequirement | null {
+    const entry = EDUCATION_PATTERNS.find(e => e.pattern.test(line));
+    if (!entry) return null;
+
+    const after = line.substring(line.search(entry.pattern));
+    const fieldMatch = /\bin\s+([^.;()\n]+)/i.exec(after);
+    const fields = fieldMatch
+        ? fieldMatch[1]
+            .replace(/\s*(?:,?\s*or (?:a )?(?:related|equivalent|similar|another).*|\bwith\b.*|\bfrom\b.*)$/i, '')
+            .split(/,|\bor\b|\//)
+            .map(f => f.trim().replace(/^(?:a|an|the)\s+/i, '').replace(/\s+(?:is\s+)?(?:required|preferred|a plus)$/i, ''))
+            .filter(f => f && f.split(/\s+/).length <= 5 && !/^(?:related|equivalent|similar)\b/i.test(f))
+        : [];
+
+    return {
+        level: entry.level,
+        fields: uniqueByLowercase(fields),
+        strength,
+        equivalentExperience: /equivalent (?:practical |work |professional |industry )?experience|or equivalent/i.test(line),
+        source: line
+    };
+}
+
+function parseTitle(lines: string[]): string | null {
+    for (const line of lines.slice(0, 5)) {
+        const labelled = /^(?:job title|title|position|role)\s*[:\-–]\s*(.+)$/i.exec(line);
+        if (labelled) return labelled[1].trim();
+    }
+    const first = lines[0];
+    // A short first line without sentence punctuation is almost always the posting title
+    if (first && first.length <= 80 && !/[.!?]$/.test(first) && first.split(/\s+/).length <= 10 && !isHeading(first)) {
+        return first.replace(/\s*[-–|]\s*(?:remote|hybrid|on-?site).*$/i, '').trim();
+    }
+    return null;
+}
+
+function parseSeniority(title: string | null, text: string, minYears: number | null): Seniority | null {
+    if (title) {
+        const fromTitle = SENIORITY_PATTERNS.find(s => s.pattern.test(title));
+        if (fromTitle) return fromTitle.seniority;
+    }
+    const stated = /\b(entry|mid|senior)[- ]level\b/i.exec(text);
+    if (stated) return stated[1].toLowerCase() === 'entry' ? 'entry' : stated[1].toLowerCase() === 'mid' ? 'mid' : 'senior';
+    if (minYears === null) return null;
+    return minYears <= 1 ? 'entry' : minYears < 5 ? 'mid' : minYears < 8 ? 'senior' : 'lead';
+}
+
+function parseLocations(lines: string[], text: string): { workArrangements: WorkArrangement[]; locations: string[] } {
+    const workArrangements: WorkArrangement[] = [];
+    if (/\b(remote|work from home|wfh|distributed team)\b/i.test(text)) workArrangements.push('remote');
+    if (/\bhybrid\b/i.test(text)) workArrangements.push('hybrid');
+    if (/\b(on[- ]?site|in[- ]office|in the office|office[- ]based)\b/i.test(text)) workArrangements.push('onsite');
+
+    const locations: string[] = [];
+    for (const line of lines) {
+        const labelled = /^(?:location|locations|based in|office)\s*[:\-–]\s*(.+)$/i.exec(line);
+        const inline = /\b(?:based in|located in|office in|relocate to)\s+([A-Z][^.;()\n]+)/.exec(line);
+        const value = labelled?.[1] || inline?.[1];
+        if (!value) continue;
+        value.split(/\s*(?:[|;]|\bor\b|\/)\s*/)
+            .map(place => place.replace(/\b(?:remote|hybrid|on-?site)\b/gi, '').replace(/^[\s,()-]+|[\s,()-]+$/g, ''))
+            .filter(place => place.length > 1 && place.split(/\s+/).length <= 5)
+            .forEach(place => locations.push(place));
+    }
+    return { workArrangements, locations: uniqueByLowercase(locations) };
+}
+
+function frequentKeywords(text: string, skills: string[]): string[] {
+    const counts = new Map<string, number>();
+    for (const word of text.toLowerCase().split(/[^a-z0-9+#-]+/)) {
+        if (word.length <= 4 || STOP_WORDS.has(word) || /^\d+$/.test(word)) continue;
+        counts.set(word, (counts.get(word) || 0) + 1);
+    }
+    const skillText = skills.join(' ').toLowerCase();
+    return [...counts.entries()]
+        .filter(([word]) => !skillText.includes(word))
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 20)
+        .map(([word]) => word);
+}
+
+/**
+ * Structured requirements from a pasted job description
+ */
+export function analyzeJobDescription(text: string): JobRequirements {
+    // Paragraph-style postings are read a sentence at a time so "X is a bonus" only marks X
+    const lines = (text || '').split(/\r?\n/)
+        .flatMap(l => l.split(/(?<=[.!?;])\s+(?=[A-Z])/))
+        .map(l => l.replace(/^[\s•●▪◦*·\-–]+/, '').trim())
+        .filter(Boolean);
+
+    const required: string[] = [];
+    const preferred: string[] = [];
+    const experience: ExperienceRequirement[] = [];
+    const education: EducationRequirement[] = [];
+    const considered: string[] = [];
+    const spellings: Record<string, string[]> = {};
+    let context: 'required' | 'preferred' | 'neutral' | 'ignored' = 'neutral';
+
+    for (const line of lines) {
+        if (isHeading(line)) {
+            context = IGNORED_HEADING.test(line) ? 'ignored'
+                : PREFERRED_HEADING.test(line) ? 'preferred'
+                : REQUIRED_HEADING.test(line) ? 'required'
+                : 'neutral';
+            continue;
+        }
+        if (context === 'ignored') continue;
+        considered.push(line);
+
+        // A marker in the line itself beats the heading it sits under
+        const strength: RequirementStrength = REQUIRED_MARKER.test(line) && !/\bnot required\b/i.test(line) ? 'required'
+            : PREFERRED_MARKER.test(line) ? 'preferred'
+            : context === 'preferred' ? 'preferred' : 'required';
+
+        const degree = parseEducation(line, strength);
+        if (degree) education.push(degree);
+        experience.push(...parseYears(line, strength));
+
+        // Degree lines list fields of study, not skills
+        const skills = findSkills(line);
+        for (const skill of skills) {
+            const seen = spellings[skill] || [];
+            spellings[skill] = [...seen, ...skillSpellings(line, skill).filter(s => !seen.some(t => t.toLowerCase() === s.toLowerCase()))];
+        }
+        const extra = context === 'neutral' || degree ? [] : listedTerms(line).filter(term => !skills.some(s => mentionsSkill(term, s)));
+        (strength === 'required' ? required : preferred).push(...skills, ...extra);
+    }
+
+    const requiredSkills = uniqueByLowercase(required);
+    const preferredSkills = uniqueByLowercase(preferred).filter(s => !requiredSkills.some(r => r.toLowerCase() === s.toLowerCase()));
+    const requiredYears = experience.filter(e => e.strength === 'required').map(e => e.minYears);
+    const minYears = requiredYears.length > 0 ? Math.max(...requiredYears) : null;
+    const title = parseTitle(lines);
+
+    return {
+        title,
+        seniority: parseSeniority(title, text || '', minYears),
+        requiredSkills,
+        preferredSkills,
+        spellings,
+        experience,
+        minYears,
+        // One entry per level; a required mention wins over a preferred one
+        education: EDUCATION_PATTERNS
+            .map(({ level }) => education.find(e => e.level === level && e.strength === 'required') || education.find(e => e.level === level))
+            .filter((e): e is EducationRequirement => !!e),
+        ...parseLocations(lines, text || ''),
+        keywords: frequentKeywords(considered.join('\n'), [...requiredSkills, ...preferredSkills])
+    };
+}
+
+const EDUCATION_RANK: EducationLevel[] = ['high_school', 'associate', 'bachelor', 'master', 'doctorate'];
+
+/**
+ * Highest degree level named in a piece of text ("B.Sc Computer Science" -> bachelor)
+ */
+export function educationLevelOf(text: string): EducationLevel | null {
+    return EDUCATION_PATTERNS.find(e => e.pattern.test(text))?.level ?? null;
+}
+
+export function meetsEducationLevel(held: EducationLevel, required: EducationLevel): boolean {
+    return EDUCATION_RANK.indexOf(held) >= EDUCATION_RANK.indexOf(required);
+}
+
+export function hasRequirements(requirements: JobRequirements): boolean {
+    return requirements.requiredSkills.length + requirements.preferredSkills.length > 0
+        || requirements.minYears !== null
+        || requirements.education.length > 0;
+}
+
+/**
+ * The resume text requirement matching runs against: roles, custom sections, skills and summary
+ */
+export function resumeMatchText(data: ResumeData): string {
+    return [
+        JSON.stringify(data.experience || []),
+        JSON.stringify(data.customSections || []),
+        data.hardSkills,
+        data.softSkills,
+        data.summary
+    ].join(' ');
+}
+
+/**
+ * Which required and preferred skills a resume mentions. Literal matching looks for the posting's own
+ * spelling and ignores other aliases, the way keyword-only parsers read a resume: a posting that asks
+ * for "JS" is matched by "JS", not by "JavaScript".
+ */
+export function matchRequirements(requirements: JobRequirements, resumeText: string, literal = false): RequirementMatch {
+    const literalTerms = (skill: string) => {
+        const spelled = requirements.spellings?.[skill];
+        return spelled && spelled.length > 0 ? spelled : [skill];
+    };
+    const mentions = (skill: string) => literal
+        ? literalTerms(skill).some(term => termRegex(term).test(resumeText))
+        : mentionsSkill(resumeText, skill);
+    const matchedRequired = requirements.requiredSkills.filter(mentions);
+    const matchedPreferred = requirements.preferredSkills.filter(mentions);
+    const possible = requirements.requiredSkills.length * 2 + requirements.preferredSkills.length;
+    return {
+        matchedRequired,
+        missingRequired: requirements.requiredSkills.filter(s => !matchedRequired.includes(s)),
+        matchedPreferred,
+        missingPreferred: requirements.preferredSkills.filter(s => !matchedPreferred.includes(s)),
+        score: possible === 0 ? 0 : (matchedRequired.length * 2 + matchedPreferred.length) / possible
+    };
+}
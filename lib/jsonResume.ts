@@ -0,0 +1,525 @@
+// JSON Resume Mapper
+// Bidirectional conversion between ResumeData and the open JSON Resume schema (https://jsonresume.org/schema)
+// Anything that has no home on the other side is reported as a warning instead of being dropped silently
+
+import { ResumeData, ResumeDate, ExperienceItem, EducationItem, CertificationItem, CustomSection, CustomSectionEntry, CustomSectionType } from '../types';
+import { createCustomSection, CUSTOM_SECTION_TYPES } from './resumeSections';
+import { hasStructuredDates, withStructuredDates } from './dates';
+
+export const JSON_RESUME_SCHEMA_URL = 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json';
+
+export interface JsonResumeLocation {
+    address?: string;
+    postalCode?: string;
+    city?: string;
+    countryCode?: string;
+    region?: string;
+}
+
+export interface JsonResumeProfile {
+    network?: string;
+    username?: string;
+    url?: string;
+}
+
+export interface JsonResumeWork {
+    name?: string;
+    position?: string;
+    location?: string;
+    url?: string;
+    startDate?: string;
+    endDate?: string;
+    summary?: string;
+    highlights?: string[];
+}
+
+export interface JsonResumeEducation {
+    institution?: string;
+    url?: string;
+    area?: string;
+    studyType?: string;
+    startDate?: string;
+    endDate?: string;
+    score?: string;
+    courses?: string[];
+}
+
+export interface JsonResumeSkill {
+    name?: string;
+    level?: string;
+    keywords?: string[];
+}
+
+export interface JsonResumeLanguage {
+    language?: string;
+    fluency?: string;
+}
+
+export interface JsonResumeCertificate {
+    name?: string;
+    date?: string;
+    issuer?: string;
+    url?: string;
+}
+
+export interface JsonResumeProject {
+    name?: string;
+    description?: string;
+    highlights?: string[];
+    keywords?: string[];
+    startDate?: string;
+    endDate?: string;
+    url?: string;
+    roles?: string[];
+    entity?: string;
+    type?: string;
+}
+
+export interface JsonResumePublication {
+    name?: string;
+    publisher?: string;
+    releaseDate?: string;
+    url?: string;
+    summary?: string;
+}
+
+export interface JsonResumeVolunteer {
+    organization?: string;
+    position?: string;
+    url?: string;
+    startDate?: string;
+    endDate?: string;
+    summary?: string;
+    highlights?: string[];
+}
+
+export interface JsonResumeAward {
+    title?: string;
+    date?: string;
+    awarder?: string;
+    summary?: string;
+}
+
+export interface JsonResume {
+    $schema?: string;
+    basics?: {
+        name?: string;
+        label?: string;
+        image?: string;
+        email?: string;
+        phone?: string;
+        url?: string;
+        summary?: string;
+        location?: JsonResumeLocation;
+        profiles?: JsonResumeProfile[];
+    };
+    work?: JsonResumeWork[];
+    education?: JsonResumeEducation[];
+    skills?: JsonResumeSkill[];
+    languages?: JsonResumeLanguage[];
+    certificates?: JsonResumeCertificate[];
+    projects?: JsonResumeProject[];
+    publications?: JsonResumePublication[];
+    volunteer?: JsonResumeVolunteer[];
+    awards?: JsonResumeAward[];
+    [section: string]: unknown;
+}
+
+export interface MappingWarning {
+    path: string;
+    message: string;
+}
+
+export interface JsonResumeImport {
+    data: ResumeData;
+    warnings: MappingWarning[];
+}
+
+export interface JsonResumeExport {
+    resume: JsonResume;
+    warnings: MappingWarning[];
+}
+
+// Sections of the schema that ResumeData has no equivalent for
+const UNSUPPORTED_SECTIONS = ['interests', 'references'];
+
+const SOFT_SKILL_GROUP = /soft|interpersonal|personal|leadership/i;
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const str = (value: unknown): string => typeof value === 'string' ? value.trim() : '';
+
+const nonEmpty = (values: string[]) => values.map(v => v.trim()).filter(Boolean);
+
+/**
+ * ISO 8601 (YYYY, YYYY-MM, YYYY-MM-DD) -> "Mon YYYY" / "YYYY" as shown on the resume
+ */
+function formatIsoDate(iso: string): string {
+    const match = /^(\d{4})(?:-(\d{2}))?/.exec(iso.trim());
+    if (!match) return iso.trim();
+    const month = match[2] ? MONTHS[parseInt(match[2], 10) - 1] : '';
+    return month ? `${month} ${match[1]}` : match[1];
+}
+
+function formatRange(start?: string, end?: string): string {
+    const from = start ? formatIsoDate(start) : '';
+    const to = end ? formatIsoDate(end) : (from ? 'Present' : '');
+    return [from, to].filter(Boolean).join(' - ');
+}
+
+// Projects and volunteering are often a single date; toJsonResume writes those with start === end
+function formatEntryDate(start?: string, end?: string): string {
+    return start && start === end ? formatIsoDate(start) : formatRange(start, end);
+}
+
+/**
+ * Free-text date ("Jan 2020", "03/2019", "2018") -> ISO 8601, or null if it can't be read
+ */
+function toIsoDate(text: string): string | null {
+    const value = text.trim();
+    let match = /^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?$/.exec(value);
+    if (match) return value;
+
+    match = /^(\d{1,2})[/.](\d{4})$/.exec(value);
+    if (match) return `${match[2]}-${match[1].padStart(2, '0')}`;
+
+    match = /^([A-Za-z]{3,})\.?\s+(\d{4})$/.exec(value);
+    if (match) {
+        const index = MONTHS.findIndex(m => match![1].toLowerCase().startsWith(m.toLowerCase()));
+        if (index >= 0) return `${match[2]}-${String(index + 1).padStart(2, '0')}`;
+    }
+    return null;
+}
+
+/**
+ * Split a display range ("Jan 2020 - Present") into ISO start/end dates
+ */
+function parseRange(range: string): { startDate?: string; endDate?: string } | null {
+    // A bare hyphen is only a separator between spaces or between two years ("2019-2021"),
+    // otherwise it belongs to an ISO date such as 2020-01
+    const compactYears = /^(\d{4})-(\d{4}|present)$/i.exec(range.trim());
+    const parts = (compactYears ? [compactYears[1], compactYears[2]] : range.split(/\s+-\s+|\s*[–—]\s*|\s+to\s+/i))
+        .map(p => p.trim())
+        .filter(Boolean);
+    if (parts.length === 0 || parts.length > 2) return null;
+
+    const startDate = toIsoDate(parts[0]);
+    if (!startDate) return null;
+    if (parts.length === 1) return { startDate };
+    if (/^(present|current|now)$/i.test(parts[1])) return { startDate };
+
+    const endDate = toIsoDate(parts[1]);
+    return endDate ? { startDate, endDate } : null;
+}
+
+// Structured resume date -> ISO 8601 (YYYY or YYYY-MM)
+const resumeDateToIso = (date: ResumeDate) => date.month ? `${date.year}-${String(date.month).padStart(2, '0')}` : String(date.year);
+
+function formatLocation(location?: JsonResumeLocation): string {
+    if (!location) return '';
+    return nonEmpty([str(location.address), str(location.city), str(location.region), str(location.countryCode)]).join(', ');
+}
+
+/**
+ * JSON Resume -> ResumeData
+ */
+export function fromJsonResume(input: unknown): JsonResumeImport {
+    if (!input || typeof input !== 'object' || Array.isArray(input)) {
+        throw new Error('Not a JSON Resume document');
+    }
+
+    const resume = input as JsonResume;
+    const warnings: MappingWarning[] = [];
+    const basics = resume.basics || {};
+    let idSeed = Date.now();
+    const nextId = () => idSeed++;
+
+    // Profiles: LinkedIn has a dedicated field, the first other profile fills an empty website
+    let linkedin = '';
+    let website = str(basics.url);
+    (basics.profiles || []).forEach((profile, i) => {
+        const url = str(profile.url) || str(profile.username);
+        if (/linkedin/i.test(str(profile.network)) && !linkedin) {
+            linkedin = url;
+        } else if (!website && url) {
+            website = url;
+        } else if (url) {
+            warnings.push({ path: `basics.profiles[${i}]`, message: `${profile.network || 'Profile'} link has no matching field and was skipped` });
+        }
+    });
+    if (basics.image) warnings.push({ path: 'basics.image', message: 'Profile images are not used by the builder templates' });
+
+    const experience = (resume.work || []).map((job, i) => {
+        if (job.url) warnings.push({ path: `work[${i}].url`, message: 'Company URLs are not stored' });
+        const bullets = nonEmpty([str(job.summary), ...(job.highlights || []).map(str)]);
+        const date = formatRange(job.startDate, job.endDate);
+        return withStructuredDates<ExperienceItem>({
+            id: nextId(),
+            role: str(job.position),
+            company: str(job.name),
+            location: str(job.location),
+            date,
+            bullets: bullets.length > 0 ? bullets : ['']
+        }, date);
+    });
+
+    const education = (resume.education || []).map((edu, i) => {
+        if (edu.courses && edu.courses.length > 0) {
+            warnings.push({ path: `education[${i}].courses`, message: `${edu.courses.length} course(s) skipped` });
+        }
+        const degree = str(edu.studyType) && str(edu.area)
+            ? `${str(edu.studyType)} in ${str(edu.area)}`
+            : str(edu.studyType) || str(edu.area);
+        const year = edu.endDate ? formatIsoDate(edu.endDate) : (edu.startDate ? formatIsoDate(edu.startDate) : '');
+        return withStructuredDates<EducationItem>({ id: nextId(), degree, school: str(edu.institution), year, grade: str(edu.score) }, year);
+    });
+
+    const hardSkills: string[] = [];
+    const softSkills: string[] = [];
+    (resume.skills || []).forEach(skill => {
+        const keywords = nonEmpty((skill.keywords || []).map(str));
+        const target = SOFT_SKILL_GROUP.test(str(skill.name)) ? softSkills : hardSkills;
+        // A group with keywords is a category ("Frontend": [React, CSS]); without keywords it's a single skill
+        target.push(...(keywords.length > 0 ? keywords : nonEmpty([str(skill.name)])));
+    });
+
+    const languages = (resume.languages || [])
+        .filter(l => str(l.language))
+        .map(l => ({ id: nextId(), name: str(l.language), level: str(l.fluency) }));
+
+    const certifications = (resume.certificates || [])
+        .filter(c => str(c.name))
+        .map((c, i) => {
+            if (c.url) warnings.push({ path: `certificates[${i}].url`, message: 'Certificate URLs are not stored' });
+            const date = c.date ? formatIsoDate(c.date) : '';
+            return withStructuredDates<CertificationItem>({ id: nextId(), name: str(c.name), issuer: str(c.issuer), date }, date, 'start');
+        });
+
+    // Projects, publications, volunteering and awards each become a custom section of the matching type
+    const customSections: CustomSection[] = [];
+    const addSection = (type: CustomSectionType, entries: Omit<CustomSectionEntry, 'id'>[]) => {
+        if (entries.length === 0) return;
+        customSections.push({ ...createCustomSection(type), id: `custom-${nextId()}`, entries: entries.map(e => ({ ...e, id: nextId() })) });
+    };
+    addSection('projects', (resume.projects || []).map(project => ({
+        title: str(project.name),
+        subtitle: nonEmpty((project.roles || []).map(str)).join(', ') || str(project.entity),
+        date: formatEntryDate(project.startDate, project.endDate),
+        url: str(project.url),
+        bullets: nonEmpty([str(project.description), ...(project.highlights || []).map(str)])
+    })));
+    addSection('publications', (resume.publications || []).map(pub => ({
+        title: str(pub.name),
+        subtitle: str(pub.publisher),
+        date: pub.releaseDate ? formatIsoDate(pub.releaseDate) : '',
+        url: str(pub.url),
+        bullets: nonEmpty([str(pub.summary)])
+    })));
+    addSection('volunteering', (resume.volunteer || []).map(vol => ({
+        title: str(vol.position),
+        subtitle: str(vol.organization),
+        date: formatEntryDate(vol.startDate, vol.endDate),
+        url: str(vol.url),
+        bullets: nonEmpty([str(vol.summary), ...(vol.highlights || []).map(str)])
+    })));
+    addSection('awards', (resume.awards || []).map(award => ({
+        title: str(award.title),
+        subtitle: str(award.awarder),
+        date: award.date ? formatIsoDate(award.date) : '',
+        url: '',
+        bullets: nonEmpty([str(award.summary)])
+    })));
+
+    UNSUPPORTED_SECTIONS.forEach(section => {
+        const value = resume[section];
+        if (Array.isArray(value) && value.length > 0) {
+            warnings.push({ path: section, message: `Skipped ${value.length} entr${value.length === 1 ? 'y' : 'ies'} (no matching section in the builder)` });
+        }
+    });
+
+    return {
+        data: {
+            fullName: str(basics.name),
+            targetRole: str(basics.label),
+            email: str(basics.email),
+            phone: str(basics.phone),
+            location: formatLocation(basics.location),
+            linkedin,
+            website,
+            summary: str(basics.summary),
+            experience,
+            education,
+            hardSkills: hardSkills.join(', '),
+            softSkills: softSkills.join(', '),
+            certifications,
+            languages,
+            customSections
+        },
+        warnings
+    };
+}
+
+/**
+ * ResumeData -> JSON Resume
+ */
+export function toJsonResume(data: ResumeData): JsonResumeExport {
+    const warnings: MappingWarning[] = [];
+    const splitSkills = (skills: string) => nonEmpty((skills || '').split(','));
+
+    const work = (data.experience || []).map((exp, i) => {
+        const entry: JsonResumeWork = {
+            name: exp.company,
+            position: exp.role,
+            highlights: nonEmpty(exp.bullets || [])
+        };
+        if (exp.location) entry.location = exp.location;
+        if (hasStructuredDates(exp)) {
+            if (exp.startDate) entry.startDate = resumeDateToIso(exp.startDate);
+            if (exp.endDate && !exp.current) entry.endDate = resumeDateToIso(exp.endDate);
+        } else if (exp.date) {
+            const range = parseRange(exp.date);
+            if (range) Object.assign(entry, range);
+            else warnings.push({ path: `work[${i}]`, message: `Dates "${exp.date}" for ${exp.role || 'a role'} aren't in a recognised format and were left out` });
+        }
+        return entry;
+    });
+
+    const education = (data.education || []).map((edu, i) => {
+        const entry: JsonResumeEducation = { institution: edu.school, studyType: edu.degree };
+        if (edu.grade) entry.score = edu.grade;
+        if (hasStructuredDates(edu)) {
+            // Still studying: only the start is known. Otherwise the end (or single) date is graduation.
+            if (edu.current && edu.startDate) entry.startDate = resumeDateToIso(edu.startDate);
+            const graduated = edu.current ? null : edu.endDate || edu.startDate;
+            if (graduated) entry.endDate = resumeDateToIso(graduated);
+        } else if (edu.year) {
+            const range = parseRange(edu.year);
+            if (range?.endDate) entry.endDate = range.endDate;
+            else if (range?.startDate) entry.endDate = range.startDate;
+            else warnings.push({ path: `education[${i}]`, message: `Year "${edu.year}" for ${edu.school || 'a school'} isn't a recognised date and was left out` });
+        }
+        return entry;
+    });
+
+    const skills: JsonResumeSkill[] = [];
+    if (splitSkills(data.hardSkills).length > 0) skills.push({ name: 'Technical Skills', keywords: splitSkills(data.hardSkills) });
+    if (splitSkills(data.softSkills).length > 0) skills.push({ name: 'Soft Skills', keywords: splitSkills(data.softSkills) });
+
+    const certificates = (data.certifications || []).filter(c => c.name).map((c, i) => {
+        const entry: JsonResumeCertificate = { name: c.name };
+        if (c.issuer) entry.issuer = c.issuer;
+        if (c.startDate) {
+            entry.date = resumeDateToIso(c.startDate);
+        } else if (c.date) {
+            const iso = toIsoDate(c.date);
+            if (iso) entry.date = iso;
+            else warnings.push({ path: `certificates[${i}]`, message: `Date "${c.date}" for ${c.name} isn't a recognised date and was left out` });
+        }
+        return entry;
+    });
+
+    // Custom sections go to the schema section for their type; sections of the same type are merged
+    const projects: JsonResumeProject[] = [];
+    const publications: JsonResumePublication[] = [];
+    const volunteer: JsonResumeVolunteer[] = [];
+    const awards: JsonResumeAward[] = [];
+    const isoDate = (date: string, path: string, title: string) => {
+        if (!date) return undefined;
+        const iso = toIsoDate(date);
+        if (!iso) warnings.push({ path, message: `Date "${date}" for ${title || 'an entry'} isn't a recognised date and was left out` });
+        return iso || undefined;
+    };
+    const dateRange = (date: string, path: string, title: string) => {
+        if (!date) return {};
+        const range = parseRange(date);
+        if (!range) warnings.push({ path, message: `Dates "${date}" for ${title || 'an entry'} aren't in a recognised format and were left out` });
+        // A lone date is when it happened, not an open-ended start
+        if (range && !range.endDate && !/present|current|now/i.test(date)) return { ...range, endDate: range.startDate };
+        return range || {};
+    };
+
+    (data.customSections || []).forEach(section => {
+        if (section.title.trim() && section.title.trim() !== CUSTOM_SECTION_TYPES[section.type].label) {
+            warnings.push({ path: section.type, message: `Section title "${section.title}" has no JSON Resume field; exported as ${CUSTOM_SECTION_TYPES[section.type].label}` });
+        }
+        section.entries.filter(e => e.title || e.subtitle).forEach(entry => {
+            const bullets = nonEmpty(entry.bullets || []);
+            switch (section.type) {
+                case 'projects': {
+                    const path = `projects[${projects.length}]`;
+                    projects.push({
+                        name: entry.title,
+                        ...(entry.subtitle ? { roles: [entry.subtitle] } : {}),
+                        ...(entry.url ? { url: entry.url } : {}),
+                        ...dateRange(entry.date, path, entry.title),
+                        highlights: bullets
+                    });
+                    break;
+                }
+                case 'publications': {
+                    const releaseDate = isoDate(entry.date, `publications[${publications.length}]`, entry.title);
+                    publications.push({
+                        name: entry.title,
+                        ...(entry.subtitle ? { publisher: entry.subtitle } : {}),
+                        ...(releaseDate ? { releaseDate } : {}),
+                        ...(entry.url ? { url: entry.url } : {}),
+                        ...(bullets.length > 0 ? { summary: bullets.join(' ') } : {})
+                    });
+                    break;
+                }
+                case 'volunteering': {
+                    const path = `volunteer[${volunteer.length}]`;
+                    volunteer.push({
+                        position: entry.title,
+                        ...(entry.subtitle ? { organization: entry.subtitle } : {}),
+                        ...(entry.url ? { url: entry.url } : {}),
+                        ...dateRange(entry.date, path, entry.title),
+                        highlights: bullets
+                    });
+                    break;
+                }
+                case 'awards': {
+                    const path = `awards[${awards.length}]`;
+                    if (entry.url) warnings.push({ path, message: `Link for ${entry.title || 'an award'} has no JSON Resume field and was left out` });
+                    const date = isoDate(entry.date, path, entry.title);
+                    awards.push({
+                        title: entry.title,
+                        ...(entry.subtitle ? { awarder: entry.subtitle } : {}),
+                        ...(date ? { date } : {}),
+                        ...(bullets.length > 0 ? { summary: bullets.join(' ') } : {})
+                    });
+                    break;
+                }
+            }
+        });
+    });
+
+    const profiles: JsonResumeProfile[] = data.linkedin ? [{ network: 'LinkedIn', url: data.linkedin }] : [];
+
+    return {
+        resume: {
+            $schema: JSON_RESUME_SCHEMA_URL,
+            basics: {
+                name: data.fullName,
+                label: data.targetRole,
+                email: data.email,
+                phone: data.phone,
+                url: data.website,
+                summary: data.summary,
+                // Our location is free text, so it goes into the address line as-is
+                location: data.location ? { address: data.location } : undefined,
+                profiles
+            },
+            work,
+            education,
+            skills,
+            languages: (data.languages || []).filter(l => l.name).map(l => ({ language: l.name, fluency: l.level })),
+            certificates,
+            ...(projects.length > 0 ? { projects } : {}),
+            ...(publications.length > 0 ? { publications } : {}),
+            ...(volunteer.length > 0 ? { volunteer } : {}),
+            ...(awards.length > 0 ? { awards } : {})
+        },
+        warnings
+    };
+}
@@ -0,0 +1,95 @@
+// Preview Pagination
+// Splits a rendered template into real pages using the same rules as the PDF export: never through a line,
+// bullet or entry, and never straight after a heading. It works on measured DOM boxes, so every
+// registered template paginates without template-specific code.
+
+export interface LayoutBlock {
+    top: number;    // px from the top of the content
+    bottom: number;
+}
+
+// The slice of content [start, end) shown on one page
+export interface PageSlice {
+    start: number;
+    end: number;
+}
+
+// "Fit to one page" steps down through these until the content fits (or the last one is reached)
+export const FIT_SCALES = [1, 0.95, 0.9, 0.85, 0.8];
+
+const MAX_PAGES = 20;
+
+// Never cut through these
+const BLOCK_SELECTOR = 'li, p, h1, h2, h3, h4, [data-keep]';
+// Print-only "keep together" wrappers count too, unless they hold a list (those split between bullets)
+const PRINT_KEEP_SELECTOR = '.break-inside-avoid';
+// Never end a page straight after these: they're merged with the next block
+const KEEP_WITH_NEXT_SELECTOR = 'h3, [data-keep-next]';
+
+/**
+ * Measure the unbreakable blocks of a rendered template, in unscaled page pixels
+ */
+export function collectBlocks(root: HTMLElement): LayoutBlock[] {
+    const origin = root.getBoundingClientRect();
+    // The preview is CSS-scaled to fit its panel; undo that so blocks are in page pixels
+    const ratio = root.offsetWidth ? origin.width / root.offsetWidth : 1;
+    const measure = (el: Element): LayoutBlock => {
+        const rect = el.getBoundingClientRect();
+        return { top: (rect.top - origin.top) / ratio, bottom: (rect.bottom - origin.top) / ratio };
+    };
+
+    const blocks: LayoutBlock[] = [];
+    let held: { el: Element; box: LayoutBlock } | null = null;
+
+    for (const el of Array.from(root.querySelectorAll(`${BLOCK_SELECTOR}, ${KEEP_WITH_NEXT_SELECTOR}, ${PRINT_KEEP_SELECTOR}`))) {
+        if (!el.matches(`${BLOCK_SELECTOR}, ${KEEP_WITH_NEXT_SELECTOR}`) && el.querySelector('li')) continue;
+        let box = measure(el);
+        if (box.bottom - box.top <= 0) continue;
+
+        if (held) {
+            if (held.el.contains(el)) continue;
+            box = { top: Math.min(held.box.top, box.top), bottom: Math.max(held.box.bottom, box.bottom) };
+            held = null;
+        }
+
+        if (el.matches(KEEP_WITH_NEXT_SELECTOR)) {
+            held = { el, box };
+        } else {
+            blocks.push(box);
+        }
+    }
+
+    if (held) blocks.push(held.box);
+    return blocks;
+}
+
+/**
+ * Choose page breaks. Each page ends at the lowest point that doesn't cut a block; blocks taller than
+ * a page, and layouts (e.g. staggered columns) with no clean break at all, are cut at the page edge.
+ */
+export function paginate(blocks: LayoutBlock[], pageHeight: number, continuationMargin: number): PageSlice[] {
+    const contentEnd = blocks.reduce((end, b) => Math.max(end, b.bottom), 0);
+    const pages: PageSlice[] = [];
+    let start = 0;
+
+    while (pages.length < MAX_PAGES) {
+        const capacity = pages.length === 0 ? pageHeight : pageHeight - continuationMargin;
+        const limit = start + capacity;
+        if (limit >= contentEnd) {
+            pages.push({ start, end: limit });
+            break;
+        }
+
+        // Blocks that began on an earlier page or can never fit are already split, so they don't count
+        const cuts = (y: number) => blocks.some(b =>
+            b.top < y && b.bottom > y && b.top >= start && b.bottom - b.top <= capacity);
+        const candidates = [limit, ...blocks.flatMap(b => [b.top, b.bottom]).filter(y => y > start && y < limit)]
+            .sort((x, y) => y - x);
+        const end = candidates.find(y => !cuts(y)) ?? limit;
+
+        pages.push({ start, end });
+        start = end;
+    }
+
+    return pages;
+}
@@ -0,0 +1,55 @@
+// PDF Export Client
+// Sends ResumeData to /api/pdf/export, which lays it out server-side with embedded fonts.
+// The result is the same file whatever browser or print settings the user has.
+
+import { ResumeData } from '../types';
+import { ResumeTemplate, PageFormat } from '../templates';
+import type { CoverLetter } from './coverLetter';
+
+export class PdfExportError extends Error {
+    status: number;
+
+    constructor(message: string, status: number = 500) {
+        super(message);
+        this.name = 'PdfExportError';
+        this.status = status;
+    }
+}
+
+/**
+ * Render a resume to PDF on the server and return the file.
+ * The template's pdf layout travels with the request, so the endpoint needs no list of templates of its own.
+ * `fitScale` below 1 shrinks the type to match the preview's "fit to one page" mode.
+ */
+export async function exportPdf(data: ResumeData, template: ResumeTemplate, format: PageFormat, fitScale: number = 1): Promise<Blob> {
+    const layout = fitScale === 1
+        ? template.pdf
+        : { ...template.pdf, nameSize: template.pdf.nameSize * fitScale, bodySize: template.pdf.bodySize * fitScale };
+    return requestPdf({ resumeData: data, layout, format });
+}
+
+/**
+ * Render a cover letter to PDF under the same header the resume gets with this template
+ */
+export async function exportCoverLetterPdf(data: ResumeData, letter: CoverLetter, template: ResumeTemplate, format: PageFormat): Promise<Blob> {
+    return requestPdf({ resumeData: data, coverLetter: letter, layout: template.pdf, format });
+}
+
+async function requestPdf(body: Record<string, unknown>): Promise<Blob> {
+    let response: Response;
+    try {
+        response = await fetch('/api/pdf/export', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body)
+        });
+    } catch (error: any) {
+        throw new PdfExportError(error.message || 'Network error calling PDF export', 0);
+    }
+
+    if (!response.ok) {
+        const error = await response.json().catch(() => ({}));
+        throw new PdfExportError(error.error || `PDF export failed with status ${response.status}`, response.status);
+    }
+    return response.blob();
+}
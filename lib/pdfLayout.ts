@@ -0,0 +1,375 @@
+// PDF Layout Analysis
+// pdf.js hands back text items in content-stream order. Joining them as-is interleaves two-column resumes
+// line by line and runs table cells together. This module keeps each item's position, size and weight,
+// finds columns and headings, and rebuilds the text in reading order with one section heading per line
+// so the ATS text parser sees the same structure a person does.
+
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { detectSectionHeading, ResumeSectionKey } from './atsScoring';
+import { CustomSectionType } from '../types';
+
+export interface LayoutItem {
+    text: string;
+    x: number;                  // left edge, points from the page's left
+    y: number;                  // baseline, points from the page's top
+    width: number;
+    fontSize: number;
+    bold: boolean;
+}
+
+export interface LayoutLine {
+    text: string;
+    x: number;
+    y: number;
+    fontSize: number;
+    bold: boolean;              // every item on the line is bold
+    column: number;             // 0-based; -1 for lines spanning the columns (a centred name, a full-width rule)
+    page: number;               // 1-based
+}
+
+export interface LayoutSection {
+    heading: string | null;     // null for the lines before the first heading (name, contact details)
+    key: ResumeSectionKey | CustomSectionType | null;
+    lines: string[];
+}
+
+export interface PageLayout {
+    page: number;
+    columns: number;
+    lines: LayoutLine[];        // in reading order
+}
+
+export interface DocumentLayout {
+    pages: PageLayout[];
+    multiColumn: boolean;
+    bodyFontSize: number;
+    sections: LayoutSection[];
+    imageOnlyPages: number[];   // pages with no text layer (scans) - an ATS sees them as blank
+    ocrPages: number[];         // image-only pages whose text was recognized by OCR (see pdfOcr.ts)
+    text: string;               // reading-order text with canonical heading lines, for parseResumeFromText
+    rawText: string;            // content-stream order, as pdf.js returns it (metadata blocks are read from this)
+}
+
+export interface PageItems {
+    width: number;
+    height: number;
+    items: LayoutItem[];
+    rawText: string;
+    ocr?: boolean;              // items were recognized from the rendered page rather than read from its text layer
+}
+
+// A gap this wide, crossed by almost nothing, with real text on both sides, separates columns
+const MIN_GUTTER_PT = 10;
+const MAX_GUTTER_CROSSINGS = 0.05;     // share of items allowed to cross (centred names, full-width rules)
+const MIN_COLUMN_SHARE = 0.05;         // share of the page's characters each column needs
+const MIN_COLUMN_LINES = 3;
+// Items closer than this (in font sizes) on one baseline are words of the same phrase; table cell padding is wider
+const WORD_GAP_EM = 0.5;
+// Gaps within a line wider than this many font sizes are table cells or right-aligned dates
+const CELL_GAP_EM = 2;
+// Phrases starting at the same x on this many lines of a column are table cells
+const MIN_TABLE_ROWS = 3;
+// A page with fewer characters than this in its text layer is an image (a stray page number doesn't count)
+const MIN_TEXT_LAYER_CHARS = 20;
+
+const BOLD_FONT = /bold|black|heavy|semibold|demi/i;
+
+/**
+ * Positioned text items of one page. Font weights need the operator list, which is fetched only so
+ * pdf.js loads the fonts; if that fails, everything is read as regular weight.
+ */
+async function readPageItems(page: PDFPageProxy): Promise<PageItems> {
+    const viewport = page.getViewport({ scale: 1 });
+    const content = await page.getTextContent();
+    const textItems = content.items.filter((item): item is TextItem => 'str' in item);
+
+    const boldFonts = new Set<string>();
+    try {
+        await page.getOperatorList();
+        for (const fontName of new Set(textItems.map(item => item.fontName))) {
+            const font = page.commonObjs.has(fontName) ? page.commonObjs.get(fontName) : null;
+            if (font && (font.bold || font.black || BOLD_FONT.test(font.name || ''))) boldFonts.add(fontName);
+        }
+    } catch (e) {
+        console.warn('Could not read PDF font weights:', e);
+    }
+
+    // Same joining the checker has always used, kept for metadata blocks and as a fallback
+    let rawText = '';
+    let lastY = -1;
+    for (const item of textItems) {
+        if (lastY !== -1 && Math.abs(item.transform[5] - lastY) > 5) rawText += '\n';
+        else if (lastY !== -1) rawText += ' ';
+        rawText += item.str;
+        lastY = item.transform[5];
+    }
+
+    const items = textItems
+        .filter(item => item.str.trim().length > 0)
+        .map(item => ({
+            text: item.str,
+            x: item.transform[4],
+            y: viewport.height - item.transform[5],
+            width: item.width,
+            fontSize: Math.hypot(item.transform[2], item.transform[3]) || item.height,
+            bold: boldFonts.has(item.fontName)
+        }));
+
+    return { width: viewport.width, height: viewport.height, items, rawText };
+}
+
+const hasTextLayer = (page: PageItems) => !page.ocr && chars(page.items) >= MIN_TEXT_LAYER_CHARS;
+
+/**
+ * Positioned items of every page of a PDF. Pages without a text layer are passed to readImagePage (OCR)
+ * when given; if it fails they're kept as blank.
+ */
+export async function readPdfPages(pdf: PDFDocumentProxy, readImagePage?: (page: PDFPageProxy) => Promise<PageItems>): Promise<PageItems[]> {
+    const pages: PageItems[] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+        const page = await pdf.getPage(i);
+        const items = await readPageItems(page);
+        if (hasTextLayer(items) || !readImagePage) {
+            pages.push(items);
+            continue;
+        }
+        try {
+            pages.push({ ...await readImagePage(page), rawText: items.rawText });
+        } catch (e) {
+            console.warn(`OCR failed on page ${i}:`, e);
+            pages.push(items);
+        }
+    }
+    return pages;
+}
+
+/**
+ * Read every page of a PDF and analyze its layout
+ */
+export async function readPdfLayout(pdf: PDFDocumentProxy, readImagePage?: (page: PDFPageProxy) => Promise<PageItems>): Promise<DocumentLayout> {
+    return analyzeLayout(await readPdfPages(pdf, readImagePage));
+}
+
+const sameBaseline = (a: LayoutItem, b: LayoutItem) => Math.abs(a.y - b.y) <= Math.max(a.fontSize, b.fontSize) * 0.4;
+
+// Space between two items on a line, if the text doesn't already carry one
+const joiner = (text: string, prev: LayoutItem, next: LayoutItem) => {
+    const gap = next.x - (prev.x + prev.width);
+    return gap > prev.fontSize * 0.15 && !/\s$/.test(text) && !/^\s/.test(next.text) ? ' ' : '';
+};
+
+/**
+ * Merge word-level items into phrases. Some PDF writers emit every word separately, and the gaps
+ * between words would otherwise look like narrow gutters.
+ */
+function mergeRuns(items: LayoutItem[]): LayoutItem[] {
+    const runs: LayoutItem[] = [];
+    for (const item of [...items].sort((a, b) => a.y - b.y || a.x - b.x)) {
+        const run = runs.find(r => sameBaseline(r, item) && item.x >= r.x && item.x - (r.x + r.width) <= Math.max(r.fontSize, item.fontSize) * WORD_GAP_EM);
+        if (run) {
+            run.text += joiner(run.text, run, item) + item.text;
+            run.width = item.x + item.width - run.x;
+            run.fontSize = Math.max(run.fontSize, item.fontSize);
+            run.bold = run.bold && item.bold;
+        } else {
+            runs.push({ ...item });
+        }
+    }
+    return runs;
+}
+
+const chars = (items: LayoutItem[]) => items.reduce((sum, item) => sum + item.text.trim().length, 0);
+
+const distinctLines = (items: LayoutItem[]) => new Set(items.map(item => Math.round(item.y / 2))).size;
+
+/**
+ * Column boundaries (x positions of gutter centres) on one page, left to right
+ */
+function findGutters(items: LayoutItem[]): number[] {
+    if (items.length === 0) return [];
+    const left = Math.min(...items.map(i => i.x));
+    const right = Math.max(...items.map(i => i.x + i.width));
+    const span = right - left;
+    if (span <= MIN_GUTTER_PT * 3) return [];
+
+    // How many items cover each 1pt slice of the page
+    const coverage = new Array(Math.ceil(span) + 1).fill(0);
+    for (const item of items) {
+        for (let x = Math.floor(item.x - left); x < Math.ceil(item.x + item.width - left); x++) coverage[x]++;
+    }
+
+    const allowed = Math.max(1, Math.floor(items.length * MAX_GUTTER_CROSSINGS));
+    const candidates: { start: number; end: number }[] = [];
+    let start = -1;
+    for (let x = 0; x <= coverage.length; x++) {
+        const open = x < coverage.length && coverage[x] <= allowed;
+        if (open && start < 0) start = x;
+        if (!open && start >= 0) {
+            if (x - start >= MIN_GUTTER_PT) candidates.push({ start: start + left, end: x + left });
+            start = -1;
+        }
+    }
+
+    // Only gaps well inside the text block; widest first, then drop any that leave a thin column
+    let gutters = candidates
+        .filter(g => g.start > left + span * 0.1 && g.end < right - span * 0.1)
+        .sort((a, b) => (b.end - b.start) - (a.end - a.start))
+        .map(g => (g.start + g.end) / 2);
+
+    const total = chars(items);
+    while (gutters.length > 0) {
+        const bounds = [-Infinity, ...[...gutters].sort((a, b) => a - b), Infinity];
+        const columns = bounds.slice(1).map((end, i) => items.filter(item => item.x >= bounds[i] && item.x + item.width <= end));
+        if (columns.every(col => chars(col) >= total * MIN_COLUMN_SHARE && distinctLines(col) >= MIN_COLUMN_LINES)) {
+            return bounds.slice(1, -1);
+        }
+        gutters = gutters.slice(0, -1);
+    }
+    return [];
+}
+
+/**
+ * x positions where a phrase starts mid-line on several lines - the left edges of table columns
+ */
+function tableStops(rows: LayoutItem[][]): number[] {
+    const starts = rows.map(row => row.slice(1).map(item => item.x));
+    return [...new Set(starts.flat())].filter(x => starts.filter(row => row.some(other => Math.abs(other - x) <= 2)).length >= MIN_TABLE_ROWS);
+}
+
+/**
+ * Group phrases on the same baseline into lines, joining words with spaces and table cells with " | "
+ */
+function buildLines(items: LayoutItem[], column: number, page: number): LayoutLine[] {
+    const rows: LayoutItem[][] = [];
+    for (const item of [...items].sort((a, b) => a.y - b.y || a.x - b.x)) {
+        const row = rows.find(r => sameBaseline(r[0], item));
+        if (row) row.push(item);
+        else rows.push([item]);
+    }
+    rows.forEach(row => row.sort((a, b) => a.x - b.x));
+    const stops = tableStops(rows);
+
+    return rows.map(row => {
+        let text = '';
+        row.forEach((item, i) => {
+            if (i > 0) {
+                const prev = row[i - 1];
+                const cell = stops.some(x => Math.abs(x - item.x) <= 2);
+                if (cell || item.x - (prev.x + prev.width) > prev.fontSize * CELL_GAP_EM) text += ' | ';
+                else text += joiner(text, prev, item);
+            }
+            text += item.text;
+        });
+        return {
+            text: text.replace(/\s+/g, ' ').trim(),
+            x: row[0].x,
+            y: Math.min(...row.map(i => i.y)),
+            fontSize: Math.max(...row.map(i => i.fontSize)),
+            bold: row.every(i => i.bold),
+            column,
+            page
+        };
+    }).filter(line => line.text.length > 0);
+}
+
+/**
+ * Lines of one page in reading order: each column top to bottom, interrupted by lines that span the columns
+ */
+function layoutPage(page: PageItems, pageNumber: number): PageLayout {
+    const runs = mergeRuns(page.items);
+    const gutters = findGutters(runs);
+    if (gutters.length === 0) {
+        return { page: pageNumber, columns: 1, lines: buildLines(runs, 0, pageNumber) };
+    }
+
+    const bounds = [-Infinity, ...gutters, Infinity];
+    const columnOf = (item: LayoutItem) => bounds.slice(1).findIndex((end, i) => item.x >= bounds[i] && item.x + item.width <= end);
+    const columns = gutters.map((_, i) => i).concat(gutters.length)
+        .map(c => buildLines(runs.filter(item => columnOf(item) === c), c, pageNumber));
+
+    // Lines above the point where every column has started (a name and contact details over the main
+    // column) are a header band, read first like lines that span the columns
+    const bodyTop = Math.max(...columns.filter(c => c.length > 0).map(c => c[0].y));
+    const header = columns.flatMap(c => c.splice(0, c.filter(line => line.y < bodyTop - 1).length))
+        .map(line => ({ ...line, column: -1 }));
+    const spanning = [...header, ...buildLines(runs.filter(item => columnOf(item) === -1), -1, pageNumber)]
+        .sort((a, b) => a.y - b.y);
+
+    const lines: LayoutLine[] = [];
+    const flushAbove = (y: number) => {
+        for (const column of columns) {
+            while (column.length > 0 && column[0].y < y) lines.push(column.shift()!);
+        }
+    };
+    for (const line of spanning) {
+        flushAbove(line.y);
+        lines.push(line);
+    }
+    flushAbove(Infinity);
+
+    return { page: pageNumber, columns: gutters.length + 1, lines };
+}
+
+/**
+ * The most common font size, weighted by characters - the size body text is set in
+ */
+function bodyFontSize(lines: LayoutLine[]): number {
+    const weight = new Map<number, number>();
+    for (const line of lines) {
+        const size = Math.round(line.fontSize * 2) / 2;
+        weight.set(size, (weight.get(size) || 0) + line.text.length);
+    }
+    return [...weight.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || 0;
+}
+
+/**
+ * A line that starts a section: a heading the parser knows ("Work Experience"), or a short line set apart
+ * in capitals and in bold or a larger size ("WHERE I'VE WORKED")
+ */
+function isHeading(line: LayoutLine, body: number): boolean {
+    if (line.text.length > 40 || /[.,;]$/.test(line.text)) return false;
+    if (detectSectionHeading(line.text)) return true;
+    const emphasized = line.bold || line.fontSize >= body * 1.15;
+    return emphasized && line.text.split(/\s+/).length <= 4 && /[A-Z]/.test(line.text) && line.text === line.text.toUpperCase();
+}
+
+const canonicalHeading = (key: ResumeSectionKey | CustomSectionType) => key.charAt(0).toUpperCase() + key.slice(1);
+
+/**
+ * Analyze positioned items page by page into reading-order lines and sections
+ */
+export function analyzeLayout(pages: PageItems[]): DocumentLayout {
+    const pageLayouts = pages.map((page, i) => layoutPage(page, i + 1));
+    const lines = pageLayouts.flatMap(page => page.lines);
+    const body = bodyFontSize(lines);
+
+    const sections: LayoutSection[] = [{ heading: null, key: null, lines: [] }];
+    lines.forEach((line, i) => {
+        // The first line is the candidate's name, however it's styled
+        if (i > 0 && isHeading(line, body)) {
+            sections.push({ heading: line.text, key: detectSectionHeading(line.text), lines: [] });
+        } else {
+            sections[sections.length - 1].lines.push(line.text);
+        }
+    });
+
+    const text = sections
+        .filter(section => section.heading !== null || section.lines.length > 0)
+        .map(section => [
+            ...(section.heading === null ? [] : [section.key ? canonicalHeading(section.key) : section.heading]),
+            ...section.lines
+        ].join('\n'))
+        .join('\n\n');
+
+    return {
+        pages: pageLayouts,
+        multiColumn: pageLayouts.some(page => page.columns > 1),
+        bodyFontSize: body,
+        sections,
+        imageOnlyPages: pages.flatMap((page, i) => hasTextLayer(page) ? [] : [i + 1]),
+        ocrPages: pages.flatMap((page, i) => page.ocr ? [i + 1] : []),
+        text,
+        rawText: pages.map(page => page.rawText).join('\n\n')
+    };
+}
@@ -0,0 +1,82 @@
+// PDF OCR
+// Scanned or "print to image" resumes have no text layer, so pdf.js finds nothing to read. This renders
+// those pages to a canvas and reads them with tesseract.js (Tesseract compiled to WASM, running in the
+// browser), returning positioned words that pdfLayout.ts analyzes like any other page.
+// The engine and its English data are only downloaded the first time a page needs them.
+
+import type { PDFPageProxy } from 'pdfjs-dist';
+import type { Worker, Page } from 'tesseract.js';
+import type { LayoutItem, PageItems } from './pdfLayout';
+
+// Render at 2x (144 dpi) - Tesseract misreads text much under 20px tall
+const RENDER_SCALE = 2;
+// Words below this confidence are mostly specks, icons and photo edges read as letters
+const MIN_WORD_CONFIDENCE = 30;
+
+export interface PageOcr {
+    readPage(page: PDFPageProxy): Promise<PageItems>;
+    terminate(): Promise<void>;
+}
+
+/**
+ * Recognized words as layout items, in page points
+ */
+function wordItems(data: Page): LayoutItem[] {
+    return (data.blocks || []).flatMap(block => block.paragraphs).flatMap(paragraph => paragraph.lines).flatMap(line =>
+        line.words
+            .filter(word => word.text.trim().length > 0 && word.confidence >= MIN_WORD_CONFIDENCE)
+            .map(word => ({
+                text: word.text,
+                x: word.bbox.x0 / RENDER_SCALE,
+                y: line.baseline.y0 / RENDER_SCALE,
+                width: (word.bbox.x1 - word.bbox.x0) / RENDER_SCALE,
+                fontSize: (line.rowAttributes?.rowHeight || line.bbox.y1 - line.bbox.y0) / RENDER_SCALE,
+                bold: false // Tesseract's LSTM engine doesn't report font weight
+            }))
+    );
+}
+
+/**
+ * OCR reader for image-only pages. The worker starts on the first page read; call terminate() when done.
+ * onProgress gets the page number and 0-1 progress of the recognition pass.
+ */
+export function createPageOcr(onProgress?: (page: number, progress: number) => void): PageOcr {
+    let worker: Promise<Worker> | null = null;
+    let currentPage = 0;
+
+    const getWorker = () => {
+        worker ??= import('tesseract.js').then(({ createWorker }) => createWorker('eng', 1, {
+            logger: message => {
+                if (message.status === 'recognizing text') onProgress?.(currentPage, message.progress);
+            }
+        }));
+        return worker;
+    };
+
+    return {
+        async readPage(page) {
+            currentPage = page.pageNumber;
+            onProgress?.(currentPage, 0);
+
+            const viewport = page.getViewport({ scale: RENDER_SCALE });
+            const canvas = document.createElement('canvas');
+            canvas.width = Math.ceil(viewport.width);
+            canvas.height = Math.ceil(viewport.height);
+            await page.render({ canvas, viewport }).promise;
+
+            const { data } = await (await getWorker()).recognize(canvas, {}, { blocks: true });
+            return {
+                width: viewport.width / RENDER_SCALE,
+                height: viewport.height / RENDER_SCALE,
+                items: wordItems(data),
+                rawText: '',
+                ocr: true
+            };
+        },
+
+        async terminate() {
+            if (worker) await (await worker).terminate();
+            worker = null;
+        }
+    };
+}
@@ -31,6 +31,7 @@ export const CREDIT_COSTS = {
     LINKEDIN_AI: 4,        // LinkedIn optimization (Pro)
     SUMMARY_AI: 1,         // AI summary generation (Flash)
     CHATBOT_AI: 1,         // Chatbot AI fallback (Flash)
+    COVER_LETTER_AI: 1,    // Cover letter draft (Flash)
 
     // Free Features
     PDF_EXPORT: 0,         // Always free
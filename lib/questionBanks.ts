@@ -271,7 +271,8 @@ export const QUESTION_BANKS: Record<string, QuestionBank> = {
 export function getQuestionsForInterview(
     roleType: string,
     level: 'fresher' | 'mid' | 'senior',
-    count: number = 5
+    count: number = 5,
+    focusTerms: string[] = []
 ): InterviewQuestion[] {
     const roleLower = roleType.toLowerCase();
 
@@ -311,6 +312,16 @@ export function getQuestionsForInterview(
     const allQuestions = [...eligibleQuestions, ...generalQuestions];
     const shuffled = allQuestions.sort(() => Math.random() - 0.5);
 
+    // Questions touching the job's required skills go first
+    if (focusTerms.length > 0) {
+        const terms = focusTerms.map(t => t.toLowerCase());
+        const focused = (q: InterviewQuestion) => {
+            const text = [q.question, ...(q.expectedTopics || [])].join(' ').toLowerCase();
+            return terms.some(t => text.includes(t));
+        };
+        return [...shuffled.filter(focused), ...shuffled.filter(q => !focused(q))].slice(0, count);
+    }
+
     return shuffled.slice(0, count);
 }
 
@@ -0,0 +1,241 @@
+// Resume Diff Engine
+// Field-level comparison between two ResumeData snapshots for the history timeline
+
+import { ResumeData, ExperienceItem } from '../types';
+import { allSectionIds, sectionTitle, isSectionHidden } from './resumeSections';
+
+export type ChangeKind = 'added' | 'removed' | 'unchanged';
+
+export interface DiffSegment {
+    kind: ChangeKind;
+    text: string;
+}
+
+export interface FieldChange {
+    field: string;
+    label: string;
+    before: string;
+    after: string;
+}
+
+export interface ExperienceDiff {
+    id: number;
+    title: string;
+    status: 'added' | 'removed' | 'changed';
+    fieldChanges: FieldChange[];
+    bullets: DiffSegment[];
+}
+
+export interface ListChange {
+    section: string;        // 'education', 'certifications', 'languages' or a custom section's title
+    added: string[];
+    removed: string[];
+    changed: string[];
+}
+
+export interface ResumeDiff {
+    fields: FieldChange[];
+    summary: DiffSegment[] | null;
+    experience: ExperienceDiff[];
+    hardSkills: { added: string[]; removed: string[] };
+    softSkills: { added: string[]; removed: string[] };
+    lists: ListChange[];
+    hasChanges: boolean;
+}
+
+const SCALAR_FIELDS: { field: keyof ResumeData; label: string }[] = [
+    { field: 'fullName', label: 'Full Name' },
+    { field: 'targetRole', label: 'Target Role' },
+    { field: 'email', label: 'Email' },
+    { field: 'phone', label: 'Phone' },
+    { field: 'location', label: 'Location' },
+    { field: 'linkedin', label: 'LinkedIn' },
+    { field: 'website', label: 'Website' }
+];
+
+const EXPERIENCE_FIELDS: { field: keyof ExperienceItem; label: string }[] = [
+    { field: 'role', label: 'Role' },
+    { field: 'company', label: 'Company' },
+    { field: 'location', label: 'Location' },
+    { field: 'date', label: 'Dates' }
+];
+
+/**
+ * Longest-common-subsequence diff over two token lists
+ */
+export function diffSequence(before: string[], after: string[]): DiffSegment[] {
+    const n = before.length;
+    const m = after.length;
+    const lcs: number[][] = Array.from({ length: n + 1 }, () => new Array(m + 1).fill(0));
+
+    for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+            lcs[i][j] = before[i] === after[j]
+                ? lcs[i + 1][j + 1] + 1
+                : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const segments: DiffSegment[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+        if (before[i] === after[j]) {
+            segments.push({ kind: 'unchanged', text: before[i] });
+            i++; j++;
+        } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+            segments.push({ kind: 'removed', text: before[i++] });
+        } else {
+            segments.push({ kind: 'added', text: after[j++] });
+        }
+    }
+    while (i < n) segments.push({ kind: 'removed', text: before[i++] });
+    while (j < m) segments.push({ kind: 'added', text: after[j++] });
+
+    return segments;
+}
+
+/**
+ * Word-level diff of free text, merging adjacent segments of the same kind
+ */
+export function diffText(before: string, after: string): DiffSegment[] {
+    const tokenize = (text: string) => (text || '').split(/\s+/).filter(Boolean);
+    const merged: DiffSegment[] = [];
+
+    for (const segment of diffSequence(tokenize(before), tokenize(after))) {
+        const last = merged[merged.length - 1];
+        if (last && last.kind === segment.kind) {
+            last.text += ' ' + segment.text;
+        } else {
+            merged.push({ ...segment });
+        }
+    }
+    return merged;
+}
+
+const splitSkills = (skills: string) =>
+    (skills || '').split(',').map(s => s.trim()).filter(Boolean);
+
+function diffSkills(before: string, after: string) {
+    const beforeSet = new Set(splitSkills(before).map(s => s.toLowerCase()));
+    const afterSet = new Set(splitSkills(after).map(s => s.toLowerCase()));
+    return {
+        added: splitSkills(after).filter(s => !beforeSet.has(s.toLowerCase())),
+        removed: splitSkills(before).filter(s => !afterSet.has(s.toLowerCase()))
+    };
+}
+
+const cleanBullets = (exp: ExperienceItem) => (exp.bullets || []).map(b => b.trim()).filter(Boolean);
+
+function diffExperience(before: ExperienceItem[], after: ExperienceItem[]): ExperienceDiff[] {
+    const diffs: ExperienceDiff[] = [];
+    const beforeById = new Map(before.map(e => [e.id, e]));
+    const afterIds = new Set(after.map(e => e.id));
+    const title = (e: ExperienceItem) => [e.role, e.company].filter(Boolean).join(' @ ') || 'Untitled role';
+
+    for (const exp of after) {
+        const previous = beforeById.get(exp.id);
+        if (!previous) {
+            diffs.push({
+                id: exp.id,
+                title: title(exp),
+                status: 'added',
+                fieldChanges: [],
+                bullets: cleanBullets(exp).map(text => ({ kind: 'added', text }))
+            });
+            continue;
+        }
+
+        const fieldChanges = EXPERIENCE_FIELDS
+            .filter(({ field }) => (previous[field] || '') !== (exp[field] || ''))
+            .map(({ field, label }) => ({ field, label, before: String(previous[field] || ''), after: String(exp[field] || '') }));
+        const bullets = diffSequence(cleanBullets(previous), cleanBullets(exp));
+
+        if (fieldChanges.length > 0 || bullets.some(b => b.kind !== 'unchanged')) {
+            diffs.push({ id: exp.id, title: title(exp), status: 'changed', fieldChanges, bullets });
+        }
+    }
+
+    for (const exp of before) {
+        if (!afterIds.has(exp.id)) {
+            diffs.push({
+                id: exp.id,
+                title: title(exp),
+                status: 'removed',
+                fieldChanges: [],
+                bullets: cleanBullets(exp).map(text => ({ kind: 'removed', text }))
+            });
+        }
+    }
+
+    return diffs;
+}
+
+function diffList<T extends { id: number }>(
+    section: ListChange['section'],
+    before: T[],
+    after: T[],
+    describe: (item: T) => string
+): ListChange | null {
+    const beforeById = new Map((before || []).map(item => [item.id, item]));
+    const afterIds = new Set((after || []).map(item => item.id));
+
+    const added = (after || []).filter(item => !beforeById.has(item.id)).map(describe);
+    const removed = (before || []).filter(item => !afterIds.has(item.id)).map(describe);
+    const changed = (after || [])
+        .filter(item => beforeById.has(item.id) && JSON.stringify(beforeById.get(item.id)) !== JSON.stringify(item))
+        .map(describe);
+
+    return added.length || removed.length || changed.length ? { section, added, removed, changed } : null;
+}
+
+// Custom sections are matched by id; a section only on one side shows all its entries as added / removed
+function diffCustomSections(before: ResumeData, after: ResumeData): (ListChange | null)[] {
+    const ids = [...new Set([...(before.customSections || []), ...(after.customSections || [])].map(s => s.id))];
+    return ids.map(id => {
+        const was = (before.customSections || []).find(s => s.id === id);
+        const now = (after.customSections || []).find(s => s.id === id);
+        return diffList(sectionTitle(now ? after : before, id), was?.entries || [], now?.entries || [], e => e.title || 'Untitled');
+    });
+}
+
+/**
+ * Compare two resume snapshots ("before" is the older one)
+ */
+export function diffResumes(before: ResumeData, after: ResumeData): ResumeDiff {
+    const fields: FieldChange[] = SCALAR_FIELDS
+        .filter(({ field }) => (before[field] || '') !== (after[field] || ''))
+        .map(({ field, label }) => ({ field, label, before: String(before[field] || ''), after: String(after[field] || '') }));
+
+    const summary = (before.summary || '') !== (after.summary || '')
+        ? diffText(before.summary, after.summary)
+        : null;
+
+    const experience = diffExperience(before.experience || [], after.experience || []);
+    const hardSkills = diffSkills(before.hardSkills, after.hardSkills);
+    const softSkills = diffSkills(before.softSkills, after.softSkills);
+
+    const lists = [
+        diffList('education', before.education, after.education, e => [e.degree, e.school].filter(Boolean).join(', ') || 'Untitled'),
+        diffList('certifications', before.certifications, after.certifications, c => c.name || 'Untitled'),
+        diffList('languages', before.languages, after.languages, l => l.name || 'Untitled'),
+        ...diffCustomSections(before, after)
+    ].filter((change): change is ListChange => change !== null);
+
+    // Order and visibility read as one line each: "Experience, Projects, Education"
+    const titles = (data: ResumeData, ids: string[]) => ids.map(id => sectionTitle(data, id)).join(', ');
+    const layoutFields = [
+        { field: 'sectionOrder', label: 'Section Order', value: (data: ResumeData) => titles(data, allSectionIds(data)) },
+        { field: 'hiddenSections', label: 'Hidden Sections', value: (data: ResumeData) => titles(data, allSectionIds(data).filter(id => isSectionHidden(data, id))) }
+    ];
+    for (const { field, label, value } of layoutFields) {
+        if (value(before) !== value(after)) fields.push({ field, label, before: value(before), after: value(after) });
+    }
+
+    const hasChanges = fields.length > 0 || summary !== null || experience.length > 0 ||
+        hardSkills.added.length > 0 || hardSkills.removed.length > 0 ||
+        softSkills.added.length > 0 || softSkills.removed.length > 0 ||
+        lists.length > 0;
+
+    return { fields, summary, experience, hardSkills, softSkills, lists, hasChanges };
+}
@@ -0,0 +1,179 @@
+// Resume Metadata Payload
+// The hidden block every builder export carries so the ATS checker can re-import the resume losslessly.
+//
+// v2 layout between the markers:  v2.<body>.<signature>
+//   body      - base64url(deflate(JSON { v, source, data }))
+//   signature - base64url(HMAC-SHA256("v2.<body>")) added by /api/pdf/export over the data it renders itself;
+//               absent from browser-printed copies, which never leave the client
+// v1 (legacy) was plain base64 JSON of { source, version: '1.0', ...ResumeData } with no signature.
+
+import { deflateSync, inflateSync, strToU8, strFromU8 } from 'fflate';
+import { ResumeData } from '../types';
+
+export const METADATA_START_MARKER = "###NXT_DATA_START###";
+export const METADATA_END_MARKER = "###NXT_DATA_END###";
+
+export const METADATA_VERSION = 2;
+
+export interface MetadataPayload {
+    v: number;
+    source: 'builder';
+    data: ResumeData;
+}
+
+export interface DecodedMetadata {
+    version: number;          // version the block was written in (before migration)
+    data: ResumeData;
+    signedPart: string | null; // "v2.<body>" - the exact string the signature covers
+    signature: string | null;
+}
+
+// verified   - signature matches: untouched since NextStep produced it
+// tampered   - signature present but doesn't match: the payload was edited after export
+// unsigned   - legacy v1 export, a browser-printed copy, or exported while signing was unavailable
+// unknown    - couldn't reach the verification service
+export type MetadataTrust = 'verified' | 'tampered' | 'unsigned' | 'unknown';
+
+type UnknownRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is UnknownRecord => !!value && typeof value === 'object' && !Array.isArray(value);
+const isRecordList = (value: unknown): value is UnknownRecord[] => Array.isArray(value) && value.every(isRecord);
+const isStringList = (value: unknown): value is string[] => Array.isArray(value) && value.every(item => typeof item === 'string');
+
+const TEXT_FIELDS = ['fullName', 'phone', 'email', 'location', 'linkedin', 'website', 'targetRole', 'summary', 'hardSkills', 'softSkills'];
+const LIST_FIELDS = ['education', 'experience', 'certifications', 'languages'];
+
+/**
+ * Whether decoded JSON has the fields the importer reads, so a block with missing or mistyped fields
+ * is rejected here instead of failing later in the builder or the scorer
+ */
+function isResumeData(value: unknown): value is ResumeData {
+    if (!isRecord(value)) return false;
+    if (!TEXT_FIELDS.every(field => typeof value[field] === 'string')) return false;
+    if (!LIST_FIELDS.every(field => isRecordList(value[field]))) return false;
+    if (!isRecordList(value.experience) || !value.experience.every(exp => isStringList(exp.bullets))) return false;
+    if (value.sectionOrder !== undefined && !isStringList(value.sectionOrder)) return false;
+    if (value.hiddenSections !== undefined && !isStringList(value.hiddenSections)) return false;
+    if (value.customSections === undefined) return true;
+    return isRecordList(value.customSections) && value.customSections.every(section =>
+        typeof section.id === 'string' && isRecordList(section.entries) && section.entries.every(entry => isStringList(entry.bullets)));
+}
+
+// Each step upgrades a payload from version N to N + 1
+const MIGRATIONS: Record<number, (payload: UnknownRecord) => UnknownRecord> = {
+    // 1 -> 2: resume fields move under `data`, the string `version` becomes numeric `v`
+    1: ({ source, version, ...data }) => ({ v: 2, source: source || 'builder', data })
+};
+
+function migratePayload(payload: unknown, fromVersion: number): MetadataPayload {
+    if (!isRecord(payload)) throw new Error('Resume metadata is not an object');
+    let current = payload;
+    for (let version = fromVersion; version < METADATA_VERSION; version++) {
+        const step = MIGRATIONS[version];
+        if (!step) throw new Error(`No metadata migration from v${version}`);
+        current = step(current);
+    }
+    if (current.v !== METADATA_VERSION || current.source !== 'builder' || !isResumeData(current.data)) {
+        throw new Error('Resume metadata is missing resume fields');
+    }
+    return { v: METADATA_VERSION, source: 'builder', data: current.data };
+}
+
+const toBase64Url = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string): Uint8Array => {
+    const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64 + '='.repeat((4 - base64.length % 4) % 4));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+};
+
+/**
+ * Unsigned "v2.<body>" for the given resume. Only the PDF renderer signs, so a client can't get a
+ * signature for a payload it edited.
+ */
+export function encodeMetadata(data: ResumeData): string {
+    const payload: MetadataPayload = { v: METADATA_VERSION, source: 'builder', data };
+    return `v${METADATA_VERSION}.${toBase64Url(deflateSync(strToU8(JSON.stringify(payload)), { level: 9 }))}`;
+}
+
+/**
+ * Full marker-wrapped block as embedded in the exported document
+ */
+export function formatMetadataBlock(signedPart: string, signature: string | null): string {
+    return `${METADATA_START_MARKER}${signature ? `${signedPart}.${signature}` : signedPart}${METADATA_END_MARKER}`;
+}
+
+function decodeLegacy(encoded: string): unknown {
+    try {
+        const binary = atob(encoded);
+        const bytes = new Uint8Array(binary.length);
+        for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+        return JSON.parse(new TextDecoder().decode(bytes));
+    } catch {
+        // Very old exports weren't base64 encoded at all
+        return JSON.parse(encoded);
+    }
+}
+
+/**
+ * Find and decode the metadata block in extracted document text (any supported version)
+ */
+export function decodeMetadata(text: string): DecodedMetadata | null {
+    const start = text.indexOf(METADATA_START_MARKER);
+    const end = text.indexOf(METADATA_END_MARKER);
+    if (start === -1 || end === -1 || end <= start) return null;
+
+    // PDF extraction might insert newlines or spaces into the encoded string
+    const block = text.substring(start + METADATA_START_MARKER.length, end).replace(/\s/g, '');
+
+    try {
+        const versioned = /^v(\d+)\.([A-Za-z0-9_-]+)(?:\.([A-Za-z0-9_-]+))?$/.exec(block);
+        if (!versioned) {
+            return { version: 1, data: migratePayload(decodeLegacy(block), 1).data, signedPart: null, signature: null };
+        }
+
+        const version = parseInt(versioned[1], 10);
+        if (version > METADATA_VERSION) {
+            console.warn(`Resume metadata v${version} is newer than this app understands (v${METADATA_VERSION})`);
+            return null;
+        }
+
+        const payload: unknown = JSON.parse(strFromU8(inflateSync(fromBase64Url(versioned[2]))));
+        return {
+            version,
+            data: migratePayload(payload, version).data,
+            signedPart: `v${versioned[1]}.${versioned[2]}`,
+            signature: versioned[3] || null
+        };
+    } catch (e) {
+        console.error("Resume metadata decode failed", e);
+        return null;
+    }
+}
+
+/**
+ * Check a decoded block against its signature
+ */
+export async function verifyMetadata(metadata: DecodedMetadata): Promise<MetadataTrust> {
+    if (!metadata.signedPart || !metadata.signature) return 'unsigned';
+
+    try {
+        const response = await fetch('/api/metadata/verify', {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify({ payload: metadata.signedPart, signature: metadata.signature })
+        });
+        if (!response.ok) return 'unknown';
+        const body = await response.json();
+        return body.valid ? 'verified' : 'tampered';
+    } catch (e) {
+        console.error("Metadata verification failed:", e);
+        return 'unknown';
+    }
+}
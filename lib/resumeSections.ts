@@ -0,0 +1,134 @@
+// Resume Sections
+// Section order, per-section visibility and the user-defined sections (projects, publications, ...).
+// Templates, the Word export and the ATS scorer all resolve sections through here so they agree on
+// what is shown and where; api/pdf/export.ts carries an inlined copy of orderSections.
+
+import { ResumeData, StandardSection, CustomSection, CustomSectionEntry, CustomSectionType } from '../types';
+
+export const STANDARD_SECTIONS: StandardSection[] = ['summary', 'experience', 'education', 'skills', 'certifications', 'languages'];
+
+export const SECTION_LABELS: Record<StandardSection, string> = {
+    summary: 'Summary', experience: 'Experience', education: 'Education',
+    skills: 'Skills', certifications: 'Certifications', languages: 'Languages'
+};
+
+export interface CustomSectionTypeInfo {
+    label: string;          // default section heading
+    icon: string;
+    titleLabel: string;     // editor placeholders for the entry fields
+    subtitleLabel: string;
+    dateLabel: string;
+    urlLabel: string;
+}
+
+export const CUSTOM_SECTION_TYPES: Record<CustomSectionType, CustomSectionTypeInfo> = {
+    projects: { label: 'Projects', icon: 'fa-diagram-project', titleLabel: 'Project Name', subtitleLabel: 'Role / Tech Stack', dateLabel: 'Dates', urlLabel: 'Link (Optional)' },
+    publications: { label: 'Publications', icon: 'fa-book', titleLabel: 'Title', subtitleLabel: 'Journal / Publisher', dateLabel: 'Published', urlLabel: 'DOI / Link (Optional)' },
+    volunteering: { label: 'Volunteering', icon: 'fa-hand-holding-heart', titleLabel: 'Role', subtitleLabel: 'Organization', dateLabel: 'Dates', urlLabel: 'Website (Optional)' },
+    awards: { label: 'Awards', icon: 'fa-trophy', titleLabel: 'Award', subtitleLabel: 'Awarded By', dateLabel: 'Date', urlLabel: 'Link (Optional)' }
+};
+
+export const isCustomSectionId = (id: string) => id.startsWith('custom-');
+
+const unique = (ids: string[]) => ids.filter((id, i) => ids.indexOf(id) === i);
+
+export function getCustomSection(data: ResumeData, id: string): CustomSection | undefined {
+    return (data.customSections || []).find(s => s.id === id);
+}
+
+/**
+ * Heading for a section id: the standard label or the custom section's own title
+ */
+export function sectionTitle(data: ResumeData, id: string): string {
+    if (Object.prototype.hasOwnProperty.call(SECTION_LABELS, id)) return SECTION_LABELS[id as StandardSection];
+    const custom = getCustomSection(data, id);
+    return custom ? (custom.title.trim() || CUSTOM_SECTION_TYPES[custom.type].label) : id;
+}
+
+/**
+ * Entries worth rendering - a freshly added blank entry shouldn't leave an empty heading on the page
+ */
+export function filledEntries(section: CustomSection): CustomSectionEntry[] {
+    return (section.entries || []).filter(e => (e.title || '').trim() || (e.subtitle || '').trim() || (e.bullets || []).some(b => b.trim()));
+}
+
+export function isSectionHidden(data: ResumeData, id: string): boolean {
+    return (data.hiddenSections || []).includes(id);
+}
+
+/**
+ * Every section the resume has, hidden ones included, in the user's order.
+ * Sections added since the order was saved go at the end; ids that no longer exist are dropped.
+ */
+export function allSectionIds(data: ResumeData): string[] {
+    const customIds = (data.customSections || []).map(s => s.id);
+    const known = [...STANDARD_SECTIONS, ...customIds];
+    return unique([...(data.sectionOrder || []), ...known]).filter(id => known.includes(id));
+}
+
+/**
+ * The sections a design should render, top to bottom.
+ * `shown` is the standard sections the design has room for, in its own default order; that order
+ * stands until the user reorders. Custom sections are shown by every design, hidden sections by none.
+ */
+export function orderSections(data: ResumeData, shown: StandardSection[]): string[] {
+    const customIds = (data.customSections || []).map(s => s.id);
+    const base = data.sectionOrder && data.sectionOrder.length > 0 ? data.sectionOrder : [];
+    return unique([...base, ...shown, ...customIds])
+        .filter(id => (shown as string[]).includes(id) || customIds.includes(id))
+        .filter(id => !isSectionHidden(data, id));
+}
+
+/**
+ * Move a section to the position currently held by another (drag and drop)
+ */
+export function moveSection(data: ResumeData, id: string, targetId: string): ResumeData {
+    const order = allSectionIds(data);
+    const from = order.indexOf(id);
+    const to = order.indexOf(targetId);
+    if (from === -1 || to === -1 || from === to) return data;
+    order.splice(from, 1);
+    order.splice(to, 0, id);
+    return { ...data, sectionOrder: order };
+}
+
+export function toggleSectionHidden(data: ResumeData, id: string): ResumeData {
+    const hidden = data.hiddenSections || [];
+    return { ...data, hiddenSections: hidden.includes(id) ? hidden.filter(h => h !== id) : [...hidden, id] };
+}
+
+export function createCustomSection(type: CustomSectionType): CustomSection {
+    return {
+        id: `custom-${Date.now()}`,
+        type,
+        title: CUSTOM_SECTION_TYPES[type].label,
+        entries: [{ id: Date.now(), title: '', subtitle: '', date: '', url: '', bullets: [''] }]
+    };
+}
+
+export function removeCustomSection(data: ResumeData, id: string): ResumeData {
+    return {
+        ...data,
+        customSections: (data.customSections || []).filter(s => s.id !== id),
+        sectionOrder: data.sectionOrder?.filter(s => s !== id),
+        hiddenSections: data.hiddenSections?.filter(s => s !== id)
+    };
+}
+
+/**
+ * The resume as a reader sees it: hidden sections emptied out. Used for scoring.
+ */
+export function visibleResumeData(data: ResumeData): ResumeData {
+    const hidden = (id: string) => isSectionHidden(data, id);
+    return {
+        ...data,
+        summary: hidden('summary') ? '' : data.summary,
+        experience: hidden('experience') ? [] : data.experience,
+        education: hidden('education') ? [] : data.education,
+        hardSkills: hidden('skills') ? '' : data.hardSkills,
+        softSkills: hidden('skills') ? '' : data.softSkills,
+        certifications: hidden('certifications') ? [] : data.certifications,
+        languages: hidden('languages') ? [] : data.languages,
+        customSections: (data.customSections || []).filter(s => !hidden(s.id))
+    };
+}
@@ -0,0 +1,147 @@
+// Resume Storage Service
+// Client for the /api/resumes routes (server-side multi-resume storage)
+// The builder keeps nextstep_resume_data in localStorage as a local cache only
+
+import { ResumeData, ResumeSummary, StoredResume, ResumeVersion, VariantOverrides } from '../types';
+
+export const ACTIVE_RESUME_KEY = 'nextstep_active_resume_id';
+
+export class ResumeServiceError extends Error {
+    status: number;
+
+    constructor(message: string, status: number = 500) {
+        super(message);
+        this.name = 'ResumeServiceError';
+        this.status = status;
+    }
+}
+
+async function request<T>(path: string, sessionToken: string, init: RequestInit = {}): Promise<T> {
+    let response: Response;
+    try {
+        response = await fetch(path, {
+            ...init,
+            headers: {
+                'Content-Type': 'application/json',
+                'Authorization': `Bearer ${sessionToken}`,
+                ...(init.headers || {})
+            }
+        });
+    } catch (error: any) {
+        throw new ResumeServiceError(error.message || 'Network error calling resume service', 0);
+    }
+
+    const body = await response.json().catch(() => ({}));
+    if (!response.ok) {
+        throw new ResumeServiceError(body.error || `Request failed with status ${response.status}`, response.status);
+    }
+    return body as T;
+}
+
+/**
+ * List the signed-in user's resumes (most recently updated first)
+ */
+export async function listResumes(sessionToken: string): Promise<ResumeSummary[]> {
+    const body = await request<{ resumes: ResumeSummary[] }>('/api/resumes', sessionToken);
+    return body.resumes;
+}
+
+/**
+ * Load a single resume including its data (variants come back with their master attached)
+ */
+export async function getResume(id: string, sessionToken: string): Promise<StoredResume> {
+    const body = await request<{ resume: StoredResume; master?: StoredResume['master'] }>(
+        `/api/resumes/${encodeURIComponent(id)}`,
+        sessionToken
+    );
+    return { ...body.resume, master: body.master || null };
+}
+
+/**
+ * Create a new resume record
+ */
+export async function createResume(name: string, data: ResumeData, sessionToken: string): Promise<StoredResume> {
+    const body = await request<{ resume: StoredResume }>('/api/resumes', sessionToken, {
+        method: 'POST',
+        body: JSON.stringify({ name, data })
+    });
+    return body.resume;
+}
+
+/**
+ * Copy an existing resume into a new record
+ */
+export async function duplicateResume(id: string, sessionToken: string, name?: string): Promise<StoredResume> {
+    const body = await request<{ resume: StoredResume }>('/api/resumes', sessionToken, {
+        method: 'POST',
+        body: JSON.stringify({ duplicateOf: id, name })
+    });
+    return body.resume;
+}
+
+/**
+ * Create a job-targeted variant that starts with no overrides on top of the master
+ */
+export async function createVariant(
+    parentId: string,
+    name: string,
+    jobDescription: string,
+    sessionToken: string
+): Promise<StoredResume> {
+    const body = await request<{ resume: StoredResume }>('/api/resumes', sessionToken, {
+        method: 'POST',
+        body: JSON.stringify({ parentId, name, jobDescription })
+    });
+    return body.resume;
+}
+
+/**
+ * Update a resume (used by builder autosave). Masters take data, variants take overrides/jobDescription.
+ */
+export async function updateResume(
+    id: string,
+    updates: {
+        name?: string;
+        data?: ResumeData;
+        snapshot?: boolean;
+        isMaster?: boolean;
+        overrides?: VariantOverrides;
+        jobDescription?: string;
+    },
+    sessionToken: string
+): Promise<StoredResume> {
+    const body = await request<{ resume: StoredResume }>(`/api/resumes/${encodeURIComponent(id)}`, sessionToken, {
+        method: 'PATCH',
+        body: JSON.stringify(updates)
+    });
+    return body.resume;
+}
+
+/**
+ * Permanently delete a resume
+ */
+export async function deleteResume(id: string, sessionToken: string): Promise<void> {
+    await request(`/api/resumes/${encodeURIComponent(id)}`, sessionToken, { method: 'DELETE' });
+}
+
+/**
+ * List the immutable history snapshots of a resume (newest first)
+ */
+export async function listVersions(resumeId: string, sessionToken: string): Promise<ResumeVersion[]> {
+    const body = await request<{ versions: ResumeVersion[] }>(
+        `/api/resumes/versions?resumeId=${encodeURIComponent(resumeId)}`,
+        sessionToken
+    );
+    return body.versions;
+}
+
+/**
+ * Make a snapshot the current data of the resume (the restore itself is recorded as a new snapshot)
+ */
+export async function restoreVersion(resumeId: string, versionId: string, sessionToken: string): Promise<StoredResume> {
+    const body = await request<{ resume: StoredResume }>('/api/resumes/versions', sessionToken, {
+        method: 'POST',
+        body: JSON.stringify({ resumeId, versionId })
+    });
+    return body.resume;
+}
@@ -0,0 +1,207 @@
+// Resume Variants
+// A variant is a master ResumeData plus a small set of overrides (see VariantOverrides).
+// Resolution happens at read time so edits to the master flow into every variant.
+
+import { BulletRef, ExperienceItem, ResumeData, VariantOverrides } from '../types';
+import { JobRequirements } from './jobDescription';
+import { mentionsSkill } from './skillTaxonomy';
+
+export type OverridableField = 'targetRole' | 'summary';
+
+/**
+ * Sort items by a saved order; items missing from the order (e.g. newly added
+ * to the master) keep their master position after the ordered ones
+ */
+function applyOrder<T>(items: T[], order: (string | number)[] | undefined, key: (item: T) => string | number): T[] {
+    if (!order || order.length === 0) return items;
+    const rank = new Map(order.map((k, i) => [k, i]));
+    const ordered = items.filter(item => rank.has(key(item)))
+        .sort((a, b) => (rank.get(key(a)) as number) - (rank.get(key(b)) as number));
+    return [...ordered, ...items.filter(item => !rank.has(key(item)))];
+}
+
+type StoredBullet = BulletRef | string;
+
+const storedText = (ref: StoredBullet) => typeof ref === 'string' ? ref : ref.text;
+const words = (text: string) => new Set(text.toLowerCase().match(/[a-z0-9]+/g) || []);
+
+/**
+ * A rewording keeps at least half the words of the longer version
+ */
+function isRewording(before: string, after: string): boolean {
+    const a = words(before);
+    const b = words(after);
+    const shared = Array.from(a).filter(w => b.has(w)).length;
+    return shared * 2 >= Math.max(a.size, b.size, 1);
+}
+
+/**
+ * Master bullet index each stored ref points at, or -1 once that bullet is gone. The text finds a
+ * bullet the master moved; the saved position finds one the master reworded in place.
+ */
+function locateBullets(bullets: string[], refs: StoredBullet[]): number[] {
+    const claimed = new Set<number>();
+    const byText = refs.map(ref => {
+        const index = bullets.findIndex((b, i) => !claimed.has(i) && b.trim() !== '' && b === storedText(ref));
+        if (index >= 0) claimed.add(index);
+        return index;
+    });
+    return byText.map((index, n) => {
+        const ref = refs[n];
+        if (index >= 0 || typeof ref === 'string') return index;
+        const bullet = bullets[ref.index];
+        if (bullet === undefined || !bullet.trim() || claimed.has(ref.index) || !isRewording(ref.text, bullet)) return -1;
+        claimed.add(ref.index);
+        return ref.index;
+    });
+}
+
+function hiddenBulletIndexes(exp: ExperienceItem, overrides: VariantOverrides): Set<number> {
+    return new Set(locateBullets(exp.bullets || [], overrides.hiddenBullets?.[exp.id] || []).filter(i => i >= 0));
+}
+
+/**
+ * Non-empty bullets of a role in the variant's order, including hidden ones (for the editor)
+ */
+export function orderedBullets(exp: ExperienceItem, overrides: VariantOverrides): BulletRef[] {
+    const bullets = exp.bullets || [];
+    const all = bullets.map((text, index) => ({ index, text })).filter(b => b.text.trim());
+    const order = overrides.bulletOrder?.[exp.id];
+    if (!order) return all;
+    return applyOrder(all, locateBullets(bullets, order).filter(i => i >= 0), b => b.index);
+}
+
+/**
+ * Visible bullets of one role, in the variant's order
+ */
+export function resolveBullets(exp: ExperienceItem, overrides: VariantOverrides): string[] {
+    const hidden = hiddenBulletIndexes(exp, overrides);
+    return orderedBullets(exp, overrides).filter(b => !hidden.has(b.index)).map(b => b.text);
+}
+
+/**
+ * Build the effective resume for a variant
+ */
+export function resolveVariant(master: ResumeData, overrides: VariantOverrides = {}): ResumeData {
+    const hiddenIds = new Set(overrides.hiddenExperienceIds || []);
+    const experience = applyOrder(master.experience || [], overrides.experienceOrder, e => e.id)
+        .filter(e => !hiddenIds.has(e.id))
+        .map(e => ({ ...e, bullets: resolveBullets(e, overrides) }));
+
+    return {
+        ...master,
+        targetRole: overrides.targetRole ?? master.targetRole,
+        summary: overrides.summary ?? master.summary,
+        experience,
+        // A hand-picked role order would otherwise be undone by the newest-first sort in templates
+        entryOrder: overrides.experienceOrder?.length ? 'manual' : master.entryOrder
+    };
+}
+
+export function isOverridden(overrides: VariantOverrides, field: OverridableField): boolean {
+    return overrides[field] !== undefined;
+}
+
+/**
+ * Set or clear (value undefined = "reset to master") a text override
+ */
+export function setFieldOverride(overrides: VariantOverrides, field: OverridableField, value: string | undefined): VariantOverrides {
+    const next = { ...overrides };
+    if (value === undefined) delete next[field];
+    else next[field] = value;
+    return next;
+}
+
+/**
+ * All master roles in the variant's order, including hidden ones (for the editor)
+ */
+export function orderedExperience(master: ResumeData, overrides: VariantOverrides): ExperienceItem[] {
+    return applyOrder(master.experience || [], overrides.experienceOrder, e => e.id);
+}
+
+export function moveExperience(master: ResumeData, overrides: VariantOverrides, id: number, direction: -1 | 1): VariantOverrides {
+    const ids = orderedExperience(master, overrides).map(e => e.id);
+    const from = ids.indexOf(id);
+    const to = from + direction;
+    if (from < 0 || to < 0 || to >= ids.length) return overrides;
+    [ids[from], ids[to]] = [ids[to], ids[from]];
+    return { ...overrides, experienceOrder: ids };
+}
+
+export function toggleExperience(overrides: VariantOverrides, id: number): VariantOverrides {
+    const hidden = new Set(overrides.hiddenExperienceIds || []);
+    if (hidden.has(id)) hidden.delete(id);
+    else hidden.add(id);
+    return { ...overrides, hiddenExperienceIds: Array.from(hidden) };
+}
+
+export function moveBullet(exp: ExperienceItem, overrides: VariantOverrides, index: number, direction: -1 | 1): VariantOverrides {
+    const bullets = orderedBullets(exp, overrides);
+    const from = bullets.findIndex(b => b.index === index);
+    const to = from + direction;
+    if (from < 0 || to < 0 || to >= bullets.length) return overrides;
+    [bullets[from], bullets[to]] = [bullets[to], bullets[from]];
+    return { ...overrides, bulletOrder: { ...(overrides.bulletOrder || {}), [exp.id]: bullets } };
+}
+
+/**
+ * Hide or show the master bullet at `index`. Hidden bullets that are still found are re-anchored to the
+ * master as it reads now; ones that are gone stay listed until cleared (see staleHiddenBullets).
+ */
+export function toggleBullet(exp: ExperienceItem, overrides: VariantOverrides, index: number): VariantOverrides {
+    const bullets = exp.bullets || [];
+    const stored = overrides.hiddenBullets?.[exp.id] || [];
+    const located = locateBullets(bullets, stored);
+    const kept = stored
+        .map((ref, n) => located[n] >= 0 ? { index: located[n], text: bullets[located[n]] } : ref)
+        .filter((_, n) => located[n] !== index);
+    const hidden = located.includes(index) ? kept : [...kept, { index, text: bullets[index] }];
+    return { ...overrides, hiddenBullets: { ...(overrides.hiddenBullets || {}), [exp.id]: hidden } };
+}
+
+export function isBulletHidden(exp: ExperienceItem, overrides: VariantOverrides, index: number): boolean {
+    return hiddenBulletIndexes(exp, overrides).has(index);
+}
+
+/**
+ * Text of bullets this variant hides that the master no longer has in a recognisable form, e.g. after a
+ * rewrite. They hide nothing any more, so the editor lists them for the user to re-check.
+ */
+export function staleHiddenBullets(exp: ExperienceItem, overrides: VariantOverrides): string[] {
+    const stored = overrides.hiddenBullets?.[exp.id] || [];
+    const located = locateBullets(exp.bullets || [], stored);
+    return stored.filter((_, n) => located[n] < 0).map(storedText);
+}
+
+export function clearStaleHiddenBullets(exp: ExperienceItem, overrides: VariantOverrides): VariantOverrides {
+    const stored = overrides.hiddenBullets?.[exp.id] || [];
+    const located = locateBullets(exp.bullets || [], stored);
+    return { ...overrides, hiddenBullets: { ...(overrides.hiddenBullets || {}), [exp.id]: stored.filter((_, n) => located[n] >= 0) } };
+}
+
+/**
+ * Skills from the job description that a role mentions, required ones first
+ */
+export function roleSkillMatches(exp: ExperienceItem, requirements: JobRequirements): string[] {
+    const text = [exp.role, exp.company, ...(exp.bullets || [])].join(' ');
+    return [...requirements.requiredSkills, ...requirements.preferredSkills].filter(skill => mentionsSkill(text, skill));
+}
+
+/**
+ * How well a role matches the job: required skills count double
+ */
+export function roleMatchWeight(exp: ExperienceItem, requirements: JobRequirements): number {
+    return roleSkillMatches(exp, requirements)
+        .reduce((sum, skill) => sum + (requirements.requiredSkills.includes(skill) ? 2 : 1), 0);
+}
+
+/**
+ * Order roles by how well they match the job. Ties keep the current order.
+ */
+export function orderExperienceByMatch(master: ResumeData, overrides: VariantOverrides, requirements: JobRequirements): VariantOverrides {
+    const ids = orderedExperience(master, overrides)
+        .map((exp, position) => ({ id: exp.id, position, weight: roleMatchWeight(exp, requirements) }))
+        .sort((a, b) => (b.weight - a.weight) || (a.position - b.position))
+        .map(entry => entry.id);
+    return { ...overrides, experienceOrder: ids };
+}
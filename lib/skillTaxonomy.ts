@@ -0,0 +1,94 @@
+// Skill Taxonomy
+// Canonical skill names with their aliases and a category, loaded from data/skills.json.
+// Everything that matches skills against free text (ATS scoring, job descriptions, interview scoring)
+// goes through here so "JS" finds JavaScript, "k8s" finds Kubernetes and "java" never matches inside "javascript".
+
+import taxonomy from './data/skills.json';
+
+export type SkillCategory =
+    | 'language' | 'frontend' | 'backend' | 'database' | 'cloud' | 'devops'
+    | 'data' | 'ml' | 'design' | 'product' | 'methodology' | 'soft';
+
+export interface Skill {
+    name: string;                   // display name, e.g. "Node.js"
+    aliases: string[];              // other spellings, e.g. "nodejs", "node.js"
+    exactCase: string[];            // name or aliases that are everyday words in lower case ("Rust", "Excel")
+    category: SkillCategory;
+}
+
+// Bump `version` in the JSON when entries are renamed or removed, so stored matches can be re-run
+export const SKILL_TAXONOMY_VERSION: number = taxonomy.version;
+
+export const SKILLS: Skill[] = taxonomy.skills.map(skill => ({
+    name: skill.name,
+    aliases: 'aliases' in skill ? skill.aliases as string[] : [],
+    exactCase: 'exactCase' in skill ? skill.exactCase as string[] : [],
+    category: skill.category as SkillCategory
+}));
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+
+const EXACT_CASE = new Set(SKILLS.flatMap(skill => skill.exactCase));
+
+/**
+ * Whole-term pattern. The boundaries respect skills such as C++, C#, .NET and Node.js, so "java" doesn't
+ * match "javascript" and "c" doesn't match "c++". Case is ignored except for the taxonomy's exactCase
+ * terms, so "Rust" is the language and "rust" is not.
+ */
+export const termRegex = (term: string) => EXACT_CASE.has(term)
+    ? new RegExp(`(?<![A-Za-z0-9+#.])${escapeRegex(term)}(?![A-Za-z0-9+#])`)
+    : new RegExp(`(?<![a-z0-9+#.])${escapeRegex(term.toLowerCase())}(?![a-z0-9+#])`, 'i');
+
+const MATCHERS = SKILLS.map(skill => ({
+    skill,
+    patterns: [skill.name, ...skill.aliases].map(termRegex)
+}));
+
+const BY_TERM = new Map<string, Skill>();
+for (const skill of SKILLS) {
+    for (const term of [skill.name, ...skill.aliases]) BY_TERM.set(term.toLowerCase(), skill);
+}
+
+/**
+ * Look up a skill by its name or any alias ("k8s" -> Kubernetes)
+ */
+export function findSkill(term: string): Skill | null {
+    return BY_TERM.get(term.trim().toLowerCase()) || null;
+}
+
+/**
+ * Canonical display name for a term, or the trimmed term itself when it isn't in the taxonomy
+ */
+export function canonicalSkill(term: string): string {
+    return findSkill(term)?.name || term.trim();
+}
+
+/**
+ * Skills mentioned anywhere in a piece of text, by display name, in taxonomy order
+ */
+export function findSkills(text: string): string[] {
+    return MATCHERS.filter(m => m.patterns.some(p => p.test(text))).map(m => m.skill.name);
+}
+
+/**
+ * How a text spells a skill: each name or alias of it that appears, as written ("JS" for JavaScript)
+ */
+export function skillSpellings(text: string, term: string): string[] {
+    const skill = findSkill(term);
+    const matcher = skill && MATCHERS.find(m => m.skill === skill);
+    const found = (matcher ? matcher.patterns : [termRegex(term)]).map(p => text.match(p)?.[0]).filter((s): s is string => !!s);
+    return found.filter((s, i) => found.findIndex(other => other.toLowerCase() === s.toLowerCase()) === i);
+}
+
+/**
+ * Whether the text mentions a skill or term: known skills match by any alias, anything else as a whole term
+ */
+export function mentionsSkill(text: string, term: string): boolean {
+    const skill = findSkill(term);
+    const matcher = skill && MATCHERS.find(m => m.skill === skill);
+    return matcher ? matcher.patterns.some(p => p.test(text)) : termRegex(term).test(text);
+}
+
+export function skillsInCategory(...categories: SkillCategory[]): Skill[] {
+    return SKILLS.filter(skill => categories.includes(skill.category));
+}
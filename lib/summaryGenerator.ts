@@ -0,0 +1,175 @@
+// Summary Generator
+// Writes the resume's professional summary with summary_ai from what the resume already says: the target
+// role, the most recent roles and their bullets, skills and education. The model's sentences are then
+// fact-checked against the ResumeData and any sentence with a claim the resume doesn't back (a number,
+// skill, degree, employer or length of experience that isn't there) is dropped before the user sees it.
+
+import { ResumeData } from '../types';
+import { requestAIText, parseJsonResponse } from './geminiService';
+import { findSkills, mentionsSkill } from './skillTaxonomy';
+import { educationLevelOf, meetsEducationLevel, EducationLevel } from './jobDescription';
+import { sortByRecency, totalExperienceMonths, formatDuration } from './dates';
+
+export type SummaryLength = 'short' | 'standard' | 'detailed';
+export type SummaryTone = 'professional' | 'confident' | 'approachable';
+
+export const SUMMARY_LENGTHS: { id: SummaryLength; label: string; sentences: number; words: number }[] = [
+    { id: 'short', label: 'Short', sentences: 2, words: 40 },
+    { id: 'standard', label: 'Standard', sentences: 3, words: 60 },
+    { id: 'detailed', label: 'Detailed', sentences: 4, words: 90 }
+];
+
+export const SUMMARY_TONES: { id: SummaryTone; label: string; instruction: string }[] = [
+    { id: 'professional', label: 'Professional', instruction: 'measured and formal' },
+    { id: 'confident', label: 'Confident', instruction: 'direct and achievement-focused, without hype words' },
+    { id: 'approachable', label: 'Approachable', instruction: 'warm and plain-spoken, still third-person and resume-appropriate' }
+];
+
+export interface SummaryOptions {
+    length: SummaryLength;
+    tone: SummaryTone;
+}
+
+export interface AIContext {
+    userId: string;
+    sessionToken: string;
+}
+
+export interface RemovedClaim {
+    sentence: string;
+    reasons: string[];
+}
+
+export interface GeneratedSummary {
+    summary: string;
+    removed: RemovedClaim[];     // sentences dropped by the fact check, with why
+}
+
+const TOP_ROLES = 3;
+const BULLETS_PER_ROLE = 3;
+const MAX_BULLET_CHARS = 200;
+
+const NUMBER_WORDS: Record<string, number> = {
+    one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+    eleven: 11, twelve: 12, fifteen: 15, twenty: 20, decade: 10
+};
+
+const YEARS_CLAIM = /\b(\d{1,2}|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|fifteen|twenty)\s*\+?\s*(?:plus\s+)?years?\b|\b(?:a|over a|nearly a|more than a)\s+decade\b/gi;
+const NUMBER = /\d[\d,]*(?:\.\d+)?/g;
+const NAME = /\b[A-Z][A-Za-z0-9&.+#-]*[A-Za-z0-9+#]/g;
+
+const escapeRegex = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Everything the summary may draw on. The current summary is left out: it's what is being replaced.
+ */
+function sourceText(data: ResumeData): string {
+    return [
+        data.targetRole,
+        data.location,
+        ...(data.experience || []).flatMap(exp => [exp.role, exp.company, exp.location, exp.date, ...(exp.bullets || [])]),
+        ...(data.education || []).flatMap(edu => [edu.degree, edu.school, edu.year, edu.grade]),
+        data.hardSkills,
+        data.softSkills,
+        ...(data.certifications || []).flatMap(cert => [cert.name, cert.issuer]),
+        ...(data.languages || []).map(lang => lang.name),
+        ...(data.customSections || []).flatMap(section => section.entries.flatMap(entry => [entry.title, entry.subtitle, ...(entry.bullets || [])]))
+    ].filter(Boolean).join('\n');
+}
+
+function buildSummaryPrompt(data: ResumeData, options: SummaryOptions): string {
+    const length = SUMMARY_LENGTHS.find(l => l.id === options.length) || SUMMARY_LENGTHS[1];
+    const tone = SUMMARY_TONES.find(t => t.id === options.tone) || SUMMARY_TONES[0];
+    const months = totalExperienceMonths(data.experience || []);
+    const roles = sortByRecency(data.experience || []).slice(0, TOP_ROLES).map(exp => {
+        const bullets = (exp.bullets || []).filter(b => b.trim()).slice(0, BULLETS_PER_ROLE).map(b => `  - ${b.trim().slice(0, MAX_BULLET_CHARS)}`);
+        return [`- ${[exp.role, exp.company].filter(Boolean).join(' at ')}${exp.date ? ` (${exp.date})` : ''}`, ...bullets].join('\n');
+    });
+    const degrees = (data.education || []).map(edu => [edu.degree, edu.school].filter(Boolean).join(', ')).filter(Boolean);
+
+    return `Write a resume professional summary for a ${data.targetRole || 'professional'} role.
+Use ONLY the facts below. Do not add employers, numbers, skills, degrees or years of experience that aren't listed.
+
+TARGET ROLE: ${data.targetRole || 'Not given'}
+${months > 0 ? `TOTAL EXPERIENCE: ${formatDuration(months)}\n` : ''}RECENT ROLES:
+${roles.join('\n') || 'None listed'}
+SKILLS: ${[data.hardSkills, data.softSkills].filter(Boolean).join(', ') || 'None listed'}
+${degrees.length > 0 ? `EDUCATION: ${degrees.join('; ')}\n` : ''}
+Style:
+- ${length.sentences} sentences, about ${length.words} words in total
+- Tone: ${tone.instruction}
+- Third person without pronouns ("Frontend engineer with...", not "I am...")
+- Use the target role title exactly as written
+- Return ONLY valid JSON
+- Do not include markdown code blocks
+Format: { "sentences": ["...", "..."] }`;
+}
+
+/**
+ * Why a sentence isn't backed by the resume; empty when every claim in it is
+ */
+export function unsupportedClaims(sentence: string, data: ResumeData): string[] {
+    const source = sourceText(data);
+    const reasons: string[] = [];
+
+    const years = Math.floor(totalExperienceMonths(data.experience || []) / 12);
+    const yearsClaims = [...sentence.matchAll(YEARS_CLAIM)];
+    for (const claim of yearsClaims) {
+        const word = (claim[1] || 'decade').toLowerCase();
+        const claimed = NUMBER_WORDS[word] ?? Number(word);
+        if (claimed > years) reasons.push(`claims ${claim[0].trim().toLowerCase()} of experience; the dated roles add up to ${years} year${years === 1 ? '' : 's'}`);
+    }
+
+    const withoutYears = yearsClaims.reduce((text, claim) => text.replace(claim[0], ' '), sentence);
+    const sourceNumbers = new Set((source.match(NUMBER) || []).map(n => n.replace(/,/g, '')));
+    for (const number of withoutYears.match(NUMBER) || []) {
+        if (!sourceNumbers.has(number.replace(/,/g, ''))) reasons.push(`mentions ${number}, which isn't on the resume`);
+    }
+
+    for (const skill of findSkills(sentence)) {
+        if (!mentionsSkill(source, skill)) reasons.push(`names ${skill}, which isn't on the resume`);
+    }
+
+    const degree = educationLevelOf(sentence);
+    if (degree) {
+        const held = (data.education || []).map(edu => educationLevelOf(edu.degree || '')).filter((level): level is EducationLevel => level !== null);
+        if (!held.some(level => meetsEducationLevel(level, degree))) reasons.push('claims a degree the education section doesn\'t list');
+    }
+
+    // Capitalised words past the first are names: employers, products, titles
+    const names = (sentence.match(NAME) || []).filter((name, i) => i > 0 || !sentence.trimStart().startsWith(name));
+    for (const name of names) {
+        if (!new RegExp(`(?<![A-Za-z0-9])${escapeRegex(name)}`, 'i').test(source) && !reasons.some(r => r.includes(name))) {
+            reasons.push(`names "${name}", which isn't on the resume`);
+        }
+    }
+    return reasons;
+}
+
+/**
+ * Keep the sentences the resume backs up; report the rest
+ */
+export function factCheckSummary(sentences: string[], data: ResumeData): GeneratedSummary {
+    const kept: string[] = [];
+    const removed: RemovedClaim[] = [];
+    for (const raw of sentences) {
+        const sentence = raw.trim();
+        if (!sentence) continue;
+        const reasons = unsupportedClaims(sentence, data);
+        if (reasons.length > 0) removed.push({ sentence, reasons });
+        else kept.push(/[.!?]$/.test(sentence) ? sentence : `${sentence}.`);
+    }
+    return { summary: kept.join(' '), removed };
+}
+
+export async function generateSummary(data: ResumeData, options: SummaryOptions, context: AIContext): Promise<GeneratedSummary> {
+    const raw = await requestAIText({ feature: 'summary_ai', prompt: buildSummaryPrompt(data, options), ...context });
+    const sentences = parseJsonResponse(raw).sentences;
+    if (!Array.isArray(sentences) || sentences.length === 0) throw new Error('The AI returned no summary. Please try again.');
+
+    const result = factCheckSummary(sentences.map(String), data);
+    if (!result.summary) {
+        throw new Error("Every sentence the AI wrote made a claim your resume doesn't support. Add more detail to your experience and try again.");
+    }
+    return result;
+}
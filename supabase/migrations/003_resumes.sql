@@ -0,0 +1,46 @@
+-- Create resumes table for server-side multi-resume storage
+-- Replaces the single nextstep_resume_data localStorage slot
+
+CREATE TABLE IF NOT EXISTS resumes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL DEFAULT 'Untitled Resume',
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create indexes for fast lookups
+CREATE INDEX IF NOT EXISTS idx_resumes_user ON resumes(user_id);
+CREATE INDEX IF NOT EXISTS idx_resumes_updated ON resumes(updated_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE resumes ENABLE ROW LEVEL SECURITY;
+
+-- Users can manage only their own resumes
+CREATE POLICY "Users can view own resumes" ON resumes
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own resumes" ON resumes
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own resumes" ON resumes
+  FOR UPDATE USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own resumes" ON resumes
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Function to update the updated_at timestamp
+CREATE OR REPLACE FUNCTION update_resumes_timestamp()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger to auto-update timestamp
+CREATE TRIGGER resumes_updated_at
+  BEFORE UPDATE ON resumes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_resumes_timestamp();
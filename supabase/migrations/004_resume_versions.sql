@@ -0,0 +1,38 @@
+-- Create resume_versions table for immutable resume history snapshots
+-- A snapshot is written on create, on restore, and on autosaves spaced apart in time
+
+CREATE TABLE IF NOT EXISTS resume_versions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  resume_id UUID REFERENCES resumes ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users ON DELETE CASCADE NOT NULL,
+  label TEXT,
+  data JSONB NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create indexes for fast lookups
+CREATE INDEX IF NOT EXISTS idx_resume_versions_resume ON resume_versions(resume_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_resume_versions_user ON resume_versions(user_id);
+
+-- Enable Row Level Security
+ALTER TABLE resume_versions ENABLE ROW LEVEL SECURITY;
+
+-- Users can read and append their own snapshots (no UPDATE/DELETE policies: history is append-only)
+CREATE POLICY "Users can view own resume versions" ON resume_versions
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own resume versions" ON resume_versions
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+-- Snapshots are immutable, even for the service role
+CREATE OR REPLACE FUNCTION prevent_resume_version_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'resume_versions rows are immutable';
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER resume_versions_immutable
+  BEFORE UPDATE ON resume_versions
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_resume_version_update();
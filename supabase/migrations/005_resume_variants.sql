@@ -0,0 +1,22 @@
+-- Job-targeted resume variants derived from a master resume
+-- A variant stores only its overrides; content is resolved from the master at read time
+
+ALTER TABLE resumes ADD COLUMN IF NOT EXISTS is_master BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE resumes ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES resumes ON DELETE CASCADE;
+ALTER TABLE resumes ADD COLUMN IF NOT EXISTS job_description TEXT;
+ALTER TABLE resumes ADD COLUMN IF NOT EXISTS overrides JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- A variant cannot itself be a master
+DO $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'resumes_variant_not_master') THEN
+    ALTER TABLE resumes ADD CONSTRAINT resumes_variant_not_master
+      CHECK (NOT (is_master AND parent_id IS NOT NULL));
+  END IF;
+END $$;
+
+-- At most one master resume per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_resumes_one_master
+  ON resumes(user_id) WHERE is_master;
+
+CREATE INDEX IF NOT EXISTS idx_resumes_parent ON resumes(parent_id);
@@ -0,0 +1,7 @@
+-- Cover letter drafts are logged under their own AI feature
+
+ALTER TABLE ai_usage_logs DROP CONSTRAINT IF EXISTS ai_usage_logs_feature_check;
+ALTER TABLE ai_usage_logs ADD CONSTRAINT ai_usage_logs_feature_check CHECK (feature IN (
+  'resume_ai', 'interview_ai', 'linkedin_ai',
+  'summary_ai', 'chatbot_ai', 'ats_ai', 'cover_letter_ai'
+));
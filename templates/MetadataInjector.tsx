@@ -0,0 +1,27 @@
+import React from 'react';
+
+// Invisible text carrying the encoded resume, so an exported PDF can be re-imported losslessly.
+// The block is encoded (and signed) by the builder; see lib/resumeMetadata.ts for the format.
+const MetadataInjector: React.FC<{ block: string }> = ({ block }) => {
+  return (
+    <div
+      className="pdf-metadata"
+      style={{
+        opacity: 0.01,
+        height: '1px',
+        width: '1px',
+        overflow: 'hidden',
+        position: 'absolute',
+        whiteSpace: 'pre',
+        fontSize: '1px',
+        color: '#ffffff',
+        zIndex: -1,
+        pointerEvents: 'none'
+      }}
+    >
+      {block}
+    </div>
+  );
+};
+
+export default MetadataInjector;
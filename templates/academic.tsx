@@ -0,0 +1,164 @@
+import React from 'react';
+import MetadataInjector from './MetadataInjector';
+import { templateMinHeight } from './page';
+import { ResumeTemplate, TemplateRenderProps, TemplateHeaderProps, TemplateSection } from './types';
+import { ResumeData } from '../types';
+import { orderSections, getCustomSection, filledEntries, sectionTitle } from '../lib/resumeSections';
+import { sortResumeEntries, displayDate } from '../lib/dates';
+
+const SECTIONS: TemplateSection[] = ['education', 'experience', 'certifications', 'languages'];
+
+const Heading: React.FC<{ title: string }> = ({ title }) => (
+  <h3 className="text-base font-bold uppercase tracking-[0.3em] text-slate-300 mb-8 border-b border-slate-100 pb-2">{title}</h3>
+);
+
+const renderSection = (id: string, data: ResumeData): React.ReactNode => {
+  switch (id) {
+    case 'education':
+      return data.education && data.education.length > 0 && (
+        <section className="mb-12">
+          <Heading title="Education" />
+          {data.education.map(edu => (
+            <div key={edu.id} className="mb-6 break-inside-avoid page-break-inside-avoid">
+              <div className="flex flex-row justify-between font-bold text-lg mb-1">
+                <span>{edu.degree}</span>
+                <span className="text-slate-400 font-normal italic text-sm">{displayDate(edu, edu.year, data.dateFormat)}</span>
+              </div>
+
+              <div className="flex justify-between items-center text-sm text-slate-600">
+                <span className="italic">{edu.school}</span>
+                {edu.grade && <span className="text-slate-500">{edu.grade}</span>}
+              </div>
+            </div>
+          ))}
+        </section>
+      );
+    case 'experience':
+      return (
+        <section className="mb-12">
+          <Heading title="Experience" />
+          {data.experience?.map(exp => (
+            <div key={exp.id} className="mb-10 break-inside-avoid page-break-inside-avoid">
+              <div data-keep-next className="flex flex-row justify-between font-bold text-lg mb-1">
+                <span>{exp.role}</span>
+                <span className="text-slate-400 font-normal italic text-sm">{displayDate(exp, exp.date, data.dateFormat)}</span>
+              </div>
+              <div data-keep-next className="flex justify-between items-center mb-4 text-sm text-slate-600">
+                <span className="italic">{exp.company}</span>
+                <span className="uppercase tracking-widest text-[10px]">{exp.location}</span>
+              </div>
+              <ul className="list-disc pl-8 space-y-2">
+                {exp.bullets.filter(b => b.trim()).map((b, i) => (
+                  <li key={i} className="text-[11pt] leading-relaxed text-slate-700">{b}</li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </section>
+      );
+    case 'certifications':
+      return data.certifications && data.certifications.length > 0 && (
+        <section className="mb-12 break-inside-avoid page-break-inside-avoid">
+          <Heading title="Certifications" />
+          <div className="grid grid-cols-2 gap-4">
+            {data.certifications.map(cert => (
+              <div key={cert.id}>
+                <p className="text-[11pt] font-bold text-slate-900">{cert.name}</p>
+                <p className="text-[10pt] italic text-slate-600">{cert.issuer} ({displayDate(cert, cert.date, data.dateFormat)})</p>
+              </div>
+            ))}
+          </div>
+        </section>
+      );
+    case 'languages':
+      return (
+        <section className="mb-12 break-inside-avoid page-break-inside-avoid">
+          <Heading title="Languages" />
+          <div className="grid grid-cols-3 gap-8">
+            {data.languages.map(l => (
+              <div key={l.id}>
+                <p className="text-[11pt] font-bold text-slate-900">{l.name}</p>
+                <p className="text-[10pt] italic text-slate-500">{l.level}</p>
+              </div>
+            ))}
+          </div>
+        </section>
+      );
+  }
+
+  const custom = getCustomSection(data, id);
+  const entries = custom ? filledEntries(custom) : [];
+  return entries.length > 0 && (
+    <section className="mb-12">
+      <Heading title={sectionTitle(data, id)} />
+      {entries.map(entry => (
+        <div key={entry.id} className="mb-8 break-inside-avoid page-break-inside-avoid">
+          <div data-keep-next className="flex flex-row justify-between font-bold text-lg mb-1">
+            <span>{entry.title}</span>
+            <span className="text-slate-400 font-normal italic text-sm">{entry.date}</span>
+          </div>
+          {(entry.subtitle || entry.url) && (
+            <div data-keep-next className="flex justify-between items-center mb-3 text-sm text-slate-600">
+              <span className="italic">{entry.subtitle}</span>
+              <span className="text-[10px] text-slate-400">{entry.url}</span>
+            </div>
+          )}
+          <ul className="list-disc pl-8 space-y-2">
+            {entry.bullets.filter(b => b.trim()).map((b, i) => (
+              <li key={i} className="text-[11pt] leading-relaxed text-slate-700">{b}</li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </section>
+  );
+};
+
+const AcademicHeader: React.FC<TemplateHeaderProps> = ({ data }) => (
+  <header className="text-center mb-16 font-serif">
+    <h1 className="text-4xl font-bold mb-4 tracking-tight">{data.fullName || 'YOUR NAME'}</h1>
+    <div className="flex flex-wrap justify-center gap-8 text-sm italic text-slate-400">
+      {data.email && <span>{data.email}</span>}
+      <span className="inline">•</span>
+      {data.phone && <span>{data.phone}</span>}
+      <span className="inline">•</span>
+      {data.location && <span>{data.location}</span>}
+    </div>
+  </header>
+);
+
+const AcademicLayout: React.FC<TemplateRenderProps> = ({ data: resume, format, metadataBlock }) => {
+  const data = sortResumeEntries(resume);
+
+  return (
+    <div className="p-[25mm] bg-white h-full font-serif text-slate-900 relative" style={{ minHeight: templateMinHeight(format) }}>
+      <MetadataInjector block={metadataBlock} />
+      <AcademicHeader data={data} />
+
+      {orderSections(data, SECTIONS).map(id => (
+        <React.Fragment key={id}>{renderSection(id, data)}</React.Fragment>
+      ))}
+    </div>
+  );
+};
+
+export const academicTemplate: ResumeTemplate = {
+  id: 'academic',
+  name: 'Academic',
+  description: 'Serif CV layout that leads with education',
+  sections: SECTIONS,
+  page: { formats: ['a4', 'letter'], continuationMarginMm: 25 },
+  pdf: {
+    accent: '#475569', headingColor: '#475569', nameSize: 22, bodySize: 10.5,
+    align: 'center', headingRule: true, italicMeta: true,
+    sections: ['education', 'experience', 'summary', 'certifications', 'skills', 'languages']
+  },
+  docx: {
+    bodyFont: 'Georgia', headingFont: 'Georgia', bodySize: 22, nameSize: 40,
+    accent: '475569', headingColor: '475569', nameAlign: 'center',
+    uppercaseHeadings: true, headingRule: true, italicMeta: true,
+    sections: ['education', 'experience', 'summary', 'certifications', 'skills', 'languages']
+  },
+  render: AcademicLayout,
+  header: AcademicHeader
+};
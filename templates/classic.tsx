@@ -0,0 +1,171 @@
+import React from 'react';
+import MetadataInjector from './MetadataInjector';
+import { templateMinHeight } from './page';
+import { ResumeTemplate, TemplateRenderProps, TemplateHeaderProps, TemplateSection } from './types';
+import { ResumeData } from '../types';
+import { orderSections, getCustomSection, filledEntries, sectionTitle } from '../lib/resumeSections';
+import { sortResumeEntries, displayDate } from '../lib/dates';
+
+const SECTIONS: TemplateSection[] = ['summary', 'experience', 'education', 'certifications', 'languages'];
+// Short sections that sit side by side when they follow each other
+const COMPACT: string[] = ['education', 'certifications', 'languages'];
+
+const Heading: React.FC<{ title: string; className?: string }> = ({ title, className = 'mb-4' }) => (
+  <h3 className={`text-[10pt] font-black uppercase border-b border-slate-900 pb-1 ${className} tracking-widest`}>{title}</h3>
+);
+
+const renderSection = (id: string, data: ResumeData): React.ReactNode => {
+  switch (id) {
+    case 'summary':
+      // Professional Summary - shows imported PDF text
+      return data.summary && (
+        <section className="mb-8">
+          <Heading title="Professional Summary" />
+          <p className="text-sm text-slate-700 leading-relaxed whitespace-pre-line">{data.summary}</p>
+        </section>
+      );
+    case 'experience':
+      return (
+        <section className="mb-8">
+          <Heading title="Experience" className="mb-6" />
+          {data.experience?.map(exp => (
+            <div key={exp.id} className="mb-8 break-inside-avoid page-break-inside-avoid">
+              <div data-keep-next className="flex flex-row justify-between font-bold text-sm mb-1">
+                <span className="uppercase text-slate-900">{exp.role}</span>
+                <span className="text-slate-500">{displayDate(exp, exp.date, data.dateFormat)}</span>
+              </div>
+              <div data-keep-next className="flex justify-between items-center mb-3">
+                <span className="text-sm text-brand-600 font-bold uppercase tracking-wider">{exp.company}</span>
+                <span className="text-[10px] text-slate-400 font-bold uppercase tracking-widest">{exp.location}</span>
+              </div>
+              <ul className="list-disc pl-5 space-y-2">
+                {exp.bullets.filter(b => b.trim()).map((b, i) => (
+                  <li key={i} className="text-sm text-slate-700 leading-snug">{b}</li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </section>
+      );
+    case 'education':
+      return (
+        <section>
+          <Heading title="Education" />
+          {data.education?.map(edu => (
+            <div key={edu.id} className="mb-3 break-inside-avoid page-break-inside-avoid">
+              <p className="font-bold text-sm">{edu.degree}</p>
+              <p className="text-sm text-slate-600">{edu.school} • {displayDate(edu, edu.year, data.dateFormat)}</p>
+            </div>
+          ))}
+        </section>
+      );
+    case 'certifications':
+      return data.certifications && data.certifications.length > 0 && (
+        <section className="mb-8">
+          <Heading title="Certifications" />
+          {data.certifications.map(cert => (
+            <div key={cert.id} className="mb-2 break-inside-avoid page-break-inside-avoid">
+              <p className="font-bold text-sm">{cert.name}</p>
+              <p className="text-sm text-slate-600">{cert.issuer} • {displayDate(cert, cert.date, data.dateFormat)}</p>
+            </div>
+          ))}
+        </section>
+      );
+    case 'languages':
+      return (
+        <section>
+          <Heading title="Languages" />
+          <div className="space-y-1">
+            {data.languages.map(l => (
+              <p key={l.id} className="text-sm font-medium text-slate-700 break-inside-avoid page-break-inside-avoid">{l.name} — <span className="italic text-slate-400">{l.level}</span></p>
+            ))}
+          </div>
+        </section>
+      );
+  }
+
+  const custom = getCustomSection(data, id);
+  const entries = custom ? filledEntries(custom) : [];
+  return entries.length > 0 && (
+    <section className="mb-8">
+      <Heading title={sectionTitle(data, id)} className="mb-6" />
+      {entries.map(entry => (
+        <div key={entry.id} className="mb-6 break-inside-avoid page-break-inside-avoid">
+          <div data-keep-next className="flex flex-row justify-between font-bold text-sm mb-1">
+            <span className="uppercase text-slate-900">{entry.title}</span>
+            <span className="text-slate-500">{entry.date}</span>
+          </div>
+          {(entry.subtitle || entry.url) && (
+            <div data-keep-next className="flex justify-between items-center mb-2">
+              <span className="text-sm text-brand-600 font-bold uppercase tracking-wider">{entry.subtitle}</span>
+              <span className="text-[10px] text-slate-400 font-medium">{entry.url}</span>
+            </div>
+          )}
+          <ul className="list-disc pl-5 space-y-2">
+            {entry.bullets.filter(b => b.trim()).map((b, i) => (
+              <li key={i} className="text-sm text-slate-700 leading-snug">{b}</li>
+            ))}
+          </ul>
+        </div>
+      ))}
+    </section>
+  );
+};
+
+const ClassicHeader: React.FC<TemplateHeaderProps> = ({ data }) => (
+  <header className="border-b-2 border-slate-900 pb-4 md:pb-6 mb-6 md:mb-8 text-center">
+    <h1 className="text-4xl font-bold uppercase mb-2 tracking-tight">{data.fullName || 'YOUR NAME'}</h1>
+    <h2 className="text-lg font-bold text-brand-600 uppercase tracking-[0.2em]">{data.targetRole || 'TARGET ROLE'}</h2>
+    <div className="flex flex-wrap justify-center gap-x-6 gap-y-1 text-sm text-slate-500 mt-4 font-medium">
+      {data.phone && <span className="flex items-center gap-1"><i className="fas fa-phone text-[8px]"></i> {data.phone}</span>}
+      {data.email && <span className="flex items-center gap-1"><i className="fas fa-envelope text-[8px]"></i> {data.email}</span>}
+      {data.location && <span className="flex items-center gap-1"><i className="fas fa-map-marker-alt text-[8px]"></i> {data.location}</span>}
+    </div>
+  </header>
+);
+
+const ClassicLayout: React.FC<TemplateRenderProps> = ({ data: resume, format, metadataBlock }) => {
+  const data = sortResumeEntries(resume);
+  const rows: string[][] = [];
+  for (const id of orderSections(data, SECTIONS)) {
+    const last = rows[rows.length - 1];
+    if (last && COMPACT.includes(id) && COMPACT.includes(last[0])) last.push(id);
+    else rows.push([id]);
+  }
+
+  return (
+    <div className="p-[20mm] text-slate-900 flex flex-col font-sans text-[11pt] bg-white h-full relative" style={{ minHeight: templateMinHeight(format) }}>
+      <MetadataInjector block={metadataBlock} />
+      <ClassicHeader data={data} />
+
+      {rows.map((row, i) => COMPACT.includes(row[0])
+        // A trailing row of short sections keeps the original footer placement at the page bottom
+        ? <div key={row.join()} className={`grid grid-cols-2 gap-12 ${i === rows.length - 1 ? 'mt-auto' : 'mb-8'}`}>
+          {row.map(id => <React.Fragment key={id}>{renderSection(id, data)}</React.Fragment>)}
+        </div>
+        : <React.Fragment key={row[0]}>{renderSection(row[0], data)}</React.Fragment>
+      )}
+    </div>
+  );
+};
+
+export const classicTemplate: ResumeTemplate = {
+  id: 'classic',
+  name: 'Classic',
+  description: 'Single column with ruled headings and a centred header',
+  sections: SECTIONS,
+  page: { formats: ['a4', 'letter'], continuationMarginMm: 20 },
+  pdf: {
+    accent: '#0284c7', headingColor: '#0f172a', nameSize: 24, bodySize: 10,
+    align: 'center', headingRule: true, italicMeta: false,
+    sections: ['summary', 'experience', 'education', 'certifications', 'languages', 'skills']
+  },
+  docx: {
+    bodyFont: 'Calibri', headingFont: 'Calibri', bodySize: 21, nameSize: 44,
+    accent: '0284C7', headingColor: '0F172A', nameAlign: 'center',
+    uppercaseHeadings: true, headingRule: true, italicMeta: false,
+    sections: ['summary', 'experience', 'education', 'certifications', 'languages', 'skills']
+  },
+  render: ClassicLayout,
+  header: ClassicHeader
+};
@@ -0,0 +1,199 @@
+import React from 'react';
+import MetadataInjector from './MetadataInjector';
+import { templateMinHeight } from './page';
+import { ResumeTemplate, TemplateRenderProps, TemplateHeaderProps, TemplateSection } from './types';
+import { ResumeData } from '../types';
+import { orderSections, getCustomSection, filledEntries, sectionTitle } from '../lib/resumeSections';
+import { sortResumeEntries, displayDate } from '../lib/dates';
+
+const SECTIONS: TemplateSection[] = ['skills', 'education', 'certifications', 'languages', 'experience'];
+// The rest, custom sections included, goes in the main column
+const ASIDE: string[] = ['skills', 'education', 'certifications', 'languages'];
+
+const AsideHeading: React.FC<{ title: string }> = ({ title }) => (
+  <h3 className="text-xs font-black text-navy-900 uppercase tracking-widest mb-6 border-b-2 border-brand-500/20 pb-2">{title}</h3>
+);
+
+const StoryHeading: React.FC<{ title: string }> = ({ title }) => (
+  <h3 className="text-2xl font-black text-navy-900 uppercase tracking-tighter mb-12 flex items-center gap-4">
+    {title} <span className="h-px flex-1 bg-slate-100"></span>
+  </h3>
+);
+
+const renderSection = (id: string, data: ResumeData): React.ReactNode => {
+  switch (id) {
+    case 'skills':
+      return (
+        <section>
+          <AsideHeading title="Technical" />
+          <div data-keep className="flex flex-wrap gap-2">
+            {data.hardSkills.split(',').map((s, i) => (
+              <span key={i} className="bg-white text-navy-900 border border-slate-200 px-3 py-1.5 rounded-lg text-[10px] font-black uppercase shadow-sm">{s.trim()}</span>
+            ))}
+          </div>
+        </section>
+      );
+    case 'education':
+      return data.education && data.education.length > 0 && (
+        <section>
+          <StoryHeading title="Education" />
+          <div className="space-y-10">
+            {data.education.map(edu => (
+              <div key={edu.id} className="break-inside-avoid page-break-inside-avoid">
+                <div className="flex flex-row justify-between items-baseline mb-2">
+                  <h4 className="text-xl font-black text-navy-900 uppercase tracking-tight">{edu.degree}</h4>
+                  <span className="text-[10px] font-black text-slate-300 uppercase tracking-widest">{displayDate(edu, edu.year, data.dateFormat)}</span>
+                </div>
+                <p className="text-xs font-black text-brand-600 uppercase tracking-widest">{edu.school}</p>
+                {edu.grade && <p className="text-sm text-slate-500 mt-1">{edu.grade}</p>}
+              </div>
+            ))}
+          </div>
+        </section>
+      );
+    case 'certifications':
+      return data.certifications && data.certifications.length > 0 && (
+        <section>
+          <StoryHeading title="Certifications" />
+          <div className="flex flex-wrap gap-6">
+            {data.certifications.map(cert => (
+              <div key={cert.id} className="relative pl-4 border-l-2 border-brand-500 break-inside-avoid page-break-inside-avoid">
+                <p className="font-black text-base text-navy-900">{cert.name}</p>
+                <p className="text-xs text-slate-400 font-bold uppercase tracking-widest">{cert.issuer}</p>
+              </div>
+            ))}
+          </div>
+        </section>
+      );
+    case 'languages':
+      return (
+        <section>
+          <AsideHeading title="Fluent In" />
+          <div className="space-y-4">
+            {data.languages.map(l => (
+              <div key={l.id} data-keep className="flex justify-between items-center text-[11px] font-bold">
+                <span className="text-navy-900">{l.name}</span>
+                <span className="text-brand-500 uppercase tracking-widest">{l.level}</span>
+              </div>
+            ))}
+          </div>
+        </section>
+      );
+    case 'experience':
+      return (
+        <section>
+          <StoryHeading title="Professional Story" />
+          <div className="space-y-16">
+            {data.experience?.map(exp => (
+              <div key={exp.id} className="relative group break-inside-avoid page-break-inside-avoid">
+                <div data-keep-next className="mb-6">
+                  <div className="flex flex-row justify-between items-center mb-1">
+                    <h4 className="text-xl font-black text-navy-900 uppercase tracking-tight group-hover:text-brand-500 transition-colors">{exp.role}</h4>
+                    <span className="text-[10px] font-black text-slate-300 uppercase tracking-widest">{displayDate(exp, exp.date, data.dateFormat)}</span>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <p className="text-xs font-black text-brand-600 uppercase tracking-widest">{exp.company}</p>
+                    <span className="w-1 h-1 bg-slate-200 rounded-full"></span>
+                    <p className="text-xs font-bold text-slate-400 uppercase tracking-widest">{exp.location}</p>
+                  </div>
+                </div>
+                <ul className="space-y-3 mt-6 border-l-2 border-slate-50 pl-6">
+                  {exp.bullets.filter(b => b.trim()).map((b, i) => (
+                    <li key={i} className="text-[13px] text-slate-500 leading-relaxed font-medium">{b}</li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </section>
+      );
+  }
+
+  const custom = getCustomSection(data, id);
+  const entries = custom ? filledEntries(custom) : [];
+  return entries.length > 0 && (
+    <section>
+      <StoryHeading title={sectionTitle(data, id)} />
+      <div className="space-y-12">
+        {entries.map(entry => (
+          <div key={entry.id} className="relative break-inside-avoid page-break-inside-avoid">
+            <div data-keep-next className="mb-4">
+              <div className="flex flex-row justify-between items-center mb-1">
+                <h4 className="text-xl font-black text-navy-900 uppercase tracking-tight">{entry.title}</h4>
+                <span className="text-[10px] font-black text-slate-300 uppercase tracking-widest">{entry.date}</span>
+              </div>
+              {(entry.subtitle || entry.url) && (
+                <div className="flex items-center gap-3">
+                  {entry.subtitle && <p className="text-xs font-black text-brand-600 uppercase tracking-widest">{entry.subtitle}</p>}
+                  {entry.subtitle && entry.url && <span className="w-1 h-1 bg-slate-200 rounded-full"></span>}
+                  {entry.url && <p className="text-xs font-bold text-slate-400">{entry.url}</p>}
+                </div>
+              )}
+            </div>
+            <ul className="space-y-3 border-l-2 border-slate-50 pl-6">
+              {entry.bullets.filter(b => b.trim()).map((b, i) => (
+                <li key={i} className="text-[13px] text-slate-500 leading-relaxed font-medium">{b}</li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+const CreativeHeader: React.FC<TemplateHeaderProps> = ({ data, withContact }) => (
+  <header className="bg-gradient-to-br from-navy-900 to-navy-950 p-16 text-white text-center relative overflow-hidden">
+    <div className="absolute top-0 right-0 w-64 h-64 bg-brand-500/10 rounded-full -mr-32 -mt-32"></div>
+    <h1 className="text-6xl font-black uppercase tracking-tighter mb-4 relative z-10">{data.fullName || 'YOUR NAME'}</h1>
+    <h2 className="text-xl font-bold text-brand-400 uppercase tracking-[0.5em] relative z-10">{data.targetRole || 'TARGET ROLE'}</h2>
+    {withContact && (
+      <p className="mt-6 text-sm text-slate-300 relative z-10">{[data.email, data.phone, data.location].filter(Boolean).join('   •   ')}</p>
+    )}
+  </header>
+);
+
+const CreativeLayout: React.FC<TemplateRenderProps> = ({ data: resume, format, metadataBlock }) => {
+  const data = sortResumeEntries(resume);
+  const order = orderSections(data, SECTIONS);
+
+  return (
+    <div className="bg-white h-full font-sans text-slate-800 relative" style={{ minHeight: templateMinHeight(format) }}>
+      <MetadataInjector block={metadataBlock} />
+      <CreativeHeader data={data} />
+      <div className="grid grid-cols-[320px_1fr]">
+        <aside className="bg-slate-50/50 p-12 border-r border-slate-100 space-y-16">
+          {order.filter(id => ASIDE.includes(id)).map(id => (
+            <React.Fragment key={id}>{renderSection(id, data)}</React.Fragment>
+          ))}
+        </aside>
+        <main className="p-16 space-y-16">
+          {order.filter(id => !ASIDE.includes(id)).map(id => (
+            <React.Fragment key={id}>{renderSection(id, data)}</React.Fragment>
+          ))}
+        </main>
+      </div>
+    </div>
+  );
+};
+
+export const creativeTemplate: ResumeTemplate = {
+  id: 'creative',
+  name: 'Creative',
+  description: 'Bold banner header with a two-column body',
+  sections: SECTIONS,
+  page: { formats: ['a4', 'letter'], continuationMarginMm: 15 },
+  pdf: {
+    accent: '#0ea5e9', headingColor: '#0f172a', nameSize: 30, bodySize: 9.5,
+    align: 'center', headingRule: true, italicMeta: false,
+    sections: ['summary', 'experience', 'education', 'skills', 'certifications', 'languages']
+  },
+  docx: {
+    bodyFont: 'Segoe UI', headingFont: 'Segoe UI Black', bodySize: 20, nameSize: 56,
+    accent: '0EA5E9', headingColor: '0F172A', nameAlign: 'center',
+    uppercaseHeadings: true, headingRule: true, italicMeta: false,
+    sections: ['summary', 'experience', 'education', 'skills', 'certifications', 'languages']
+  },
+  render: CreativeLayout,
+  header: CreativeHeader
+};
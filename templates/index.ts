@@ -0,0 +1,37 @@
+// Resume Template Registry
+// Every design the builder offers is registered here. The preview, print portal, PDF export and
+// Word export all look templates up by id, so a new design is a module in this folder plus one entry below.
+
+import { classicTemplate } from './classic';
+import { modernTemplate } from './modern';
+import { creativeTemplate } from './creative';
+import { academicTemplate } from './academic';
+import { PageFormat, ResumeTemplate } from './types';
+
+export * from './types';
+export { PAGE_DIMENSIONS, PAGE_FORMAT_KEY, mmToPx, pageWidthPx, pageHeightPx } from './page';
+
+const TEMPLATES: ResumeTemplate[] = [classicTemplate, modernTemplate, creativeTemplate, academicTemplate];
+
+export const DEFAULT_TEMPLATE_ID = 'modern';
+
+/**
+ * Templates in the order the builder offers them
+ */
+export function listTemplates(): ResumeTemplate[] {
+    return TEMPLATES;
+}
+
+/**
+ * Look up a template by id, falling back to the default for unknown ids
+ */
+export function getTemplate(id: string): ResumeTemplate {
+    return TEMPLATES.find(t => t.id === id) || TEMPLATES.find(t => t.id === DEFAULT_TEMPLATE_ID)!;
+}
+
+/**
+ * The page size a template will actually use for the requested format
+ */
+export function resolvePageFormat(template: ResumeTemplate, format: PageFormat): PageFormat {
+    return template.page.formats.includes(format) ? format : template.page.formats[0];
+}
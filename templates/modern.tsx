@@ -0,0 +1,222 @@
+import React from 'react';
+import MetadataInjector from './MetadataInjector';
+import { templateMinHeight } from './page';
+import { ResumeTemplate, TemplateRenderProps, TemplateHeaderProps, TemplateSection } from './types';
+import { ResumeData } from '../types';
+import { orderSections, getCustomSection, filledEntries, sectionTitle } from '../lib/resumeSections';
+import { sortResumeEntries, displayDate } from '../lib/dates';
+
+const SECTIONS: TemplateSection[] = ['skills', 'languages', 'summary', 'experience', 'education', 'certifications'];
+// Everything else, custom sections included, goes in the main column
+const SIDEBAR: string[] = ['skills', 'languages'];
+
+const MainHeading: React.FC<{ title: string; className?: string }> = ({ title, className = 'mb-10' }) => (
+  <h3 className={`text-[11px] font-black uppercase tracking-[0.4em] text-slate-300 ${className} flex items-center gap-4`}>
+    <span className="w-8 h-[2px] bg-brand-500"></span> {title}
+  </h3>
+);
+
+const renderSidebarSection = (id: string, data: ResumeData): React.ReactNode => {
+  switch (id) {
+    case 'skills':
+      return (
+        <section className="break-inside-avoid page-break-inside-avoid">
+          <h3 className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-500 mb-6 border-b border-white/5 pb-2">Technical</h3>
+          <div data-keep className="flex flex-wrap gap-2">
+            {data.hardSkills.split(',').map((s, i) => (
+              <span key={i} className="text-[9px] bg-white/5 border border-white/10 px-2.5 py-1.5 rounded-md font-bold">{s.trim()}</span>
+            ))}
+          </div>
+        </section>
+      );
+    case 'languages':
+      return (
+        <section>
+          <h3 className="text-[10px] font-black uppercase tracking-[0.3em] text-slate-500 mb-6 border-b border-white/5 pb-2">Languages</h3>
+          <div className="grid grid-cols-1 gap-4">
+            {data.languages.map(l => (
+              <div key={l.id}>
+                <p className="text-xs font-bold text-white">{l.name}</p>
+                <p className="text-[9px] text-slate-400 uppercase tracking-widest mt-0.5">{l.level}</p>
+              </div>
+            ))}
+          </div>
+        </section>
+      );
+    default:
+      return null;
+  }
+};
+
+const renderMainSection = (id: string, data: ResumeData): React.ReactNode => {
+  switch (id) {
+    case 'summary':
+      // Professional Summary - shows imported PDF text
+      return data.summary && (
+        <section>
+          <MainHeading title="Summary" className="mb-6" />
+          <p className="text-[13px] text-slate-600 leading-relaxed whitespace-pre-line">{data.summary}</p>
+        </section>
+      );
+    case 'experience':
+      return (
+        <section>
+          <MainHeading title="Experience" />
+          <div className="space-y-12">
+            {data.experience?.map(exp => (
+              <div key={exp.id} className="relative pl-10 break-inside-avoid page-break-inside-avoid">
+                <div className="absolute left-0 top-1 w-3 h-3 bg-brand-500 rounded-full border-4 border-white shadow-lg z-10"></div>
+                <div className="absolute left-[5px] top-4 w-[2px] h-[calc(100%+3rem)] bg-slate-100 last:hidden"></div>
+
+                <div data-keep-next className="flex flex-row justify-between items-baseline mb-2">
+                  <span className="font-black text-lg text-navy-900 tracking-tight">{exp.role}</span>
+                  <span className="text-[10px] text-brand-500 font-black uppercase tracking-widest">{displayDate(exp, exp.date, data.dateFormat)}</span>
+                </div>
+                <div data-keep-next className="flex flex-wrap items-center gap-3 mb-4">
+                  <span className="text-xs text-slate-400 font-bold uppercase tracking-wider">{exp.company}</span>
+                  <span className="block w-1 h-1 bg-slate-200 rounded-full"></span>
+                  <span className="text-xs text-slate-400 font-bold uppercase tracking-wider">{exp.location}</span>
+                </div>
+                <ul className="space-y-3">
+                  {exp.bullets.filter(b => b.trim()).map((b, i) => (
+                    <li key={i} className="text-[13px] text-slate-600 leading-relaxed relative flex gap-3">
+                      <span className="text-brand-500 mt-1.5">•</span> {b}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+        </section>
+      );
+    case 'education':
+      return data.education && data.education.length > 0 && (
+        <section>
+          <MainHeading title="Education" />
+          <div className="space-y-8">
+            {data.education.map(edu => (
+              <div key={edu.id} className="relative pl-10 break-inside-avoid page-break-inside-avoid">
+                <div className="absolute left-0 top-1 w-3 h-3 bg-slate-200 rounded-full border-4 border-white shadow-lg z-10"></div>
+                <div className="absolute left-[5px] top-4 w-[2px] h-[calc(100%+3rem)] bg-slate-100 last:hidden"></div>
+
+                <div className="flex flex-row justify-between items-baseline mb-1">
+                  <span className="font-black text-lg text-navy-900 tracking-tight">{edu.degree}</span>
+                  <span className="text-[10px] text-slate-400 font-black uppercase tracking-widest">{displayDate(edu, edu.year, data.dateFormat)}</span>
+                </div>
+                <p className="text-xs text-brand-500 font-bold uppercase tracking-wider mb-1">{edu.school}</p>
+                {edu.grade && <p className="text-[13px] text-slate-500">{edu.grade}</p>}
+              </div>
+            ))}
+          </div>
+        </section>
+      );
+    case 'certifications':
+      return data.certifications && data.certifications.length > 0 && (
+        <section>
+          <MainHeading title="Certifications" />
+          <div className="grid grid-cols-2 gap-6">
+            {data.certifications.map(cert => (
+              <div key={cert.id} className="bg-slate-50 p-4 rounded-xl border border-slate-100 break-inside-avoid page-break-inside-avoid">
+                <p className="font-black text-sm text-navy-900 mb-1">{cert.name}</p>
+                <p className="text-xs text-slate-500 font-medium uppercase tracking-wider">{cert.issuer} • {displayDate(cert, cert.date, data.dateFormat)}</p>
+              </div>
+            ))}
+          </div>
+        </section>
+      );
+  }
+
+  const custom = getCustomSection(data, id);
+  const entries = custom ? filledEntries(custom) : [];
+  return entries.length > 0 && (
+    <section>
+      <MainHeading title={sectionTitle(data, id)} />
+      <div className="space-y-8">
+        {entries.map(entry => (
+          <div key={entry.id} className="relative pl-10 break-inside-avoid page-break-inside-avoid">
+            <div className="absolute left-0 top-1 w-3 h-3 bg-slate-200 rounded-full border-4 border-white shadow-lg z-10"></div>
+            <div className="absolute left-[5px] top-4 w-[2px] h-[calc(100%+3rem)] bg-slate-100 last:hidden"></div>
+
+            <div data-keep-next className="flex flex-row justify-between items-baseline mb-1">
+              <span className="font-black text-lg text-navy-900 tracking-tight">{entry.title}</span>
+              <span className="text-[10px] text-slate-400 font-black uppercase tracking-widest">{entry.date}</span>
+            </div>
+            {entry.subtitle && <p data-keep-next className="text-xs text-brand-500 font-bold uppercase tracking-wider mb-1">{entry.subtitle}</p>}
+            {entry.url && <p data-keep-next className="text-[11px] text-slate-400 mb-2">{entry.url}</p>}
+            <ul className="space-y-3">
+              {entry.bullets.filter(b => b.trim()).map((b, i) => (
+                <li key={i} className="text-[13px] text-slate-600 leading-relaxed relative flex gap-3">
+                  <span className="text-brand-500 mt-1.5">•</span> {b}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </section>
+  );
+};
+
+const NameBlock: React.FC<{ data: ResumeData }> = ({ data }) => (
+  <>
+    <h1 className="text-3xl font-black uppercase tracking-tighter leading-none mb-4">{data.fullName || 'NAME'}</h1>
+    <h2 className="text-[10px] font-bold text-brand-400 uppercase tracking-[0.3em]">{data.targetRole || 'ROLE'}</h2>
+  </>
+);
+
+// Outside the resume there is no sidebar to sit in, so the name block gets a band in the sidebar's colours
+const ModernHeader: React.FC<TemplateHeaderProps> = ({ data, withContact }) => (
+  <header className="bg-navy-950 px-10 py-10 text-white">
+    <NameBlock data={data} />
+    {withContact && (
+      <p className="mt-5 text-[11px] text-slate-400">{[data.email, data.phone, data.location].filter(Boolean).join('   |   ')}</p>
+    )}
+  </header>
+);
+
+const ModernLayout: React.FC<TemplateRenderProps> = ({ data: resume, format, metadataBlock }) => {
+  const data = sortResumeEntries(resume);
+  const order = orderSections(data, SECTIONS);
+
+  return (
+    <div className="flex flex-row bg-white h-full font-sans relative" style={{ minHeight: templateMinHeight(format) }}>
+      <MetadataInjector block={metadataBlock} />
+      <div className="w-[32%] bg-navy-950 p-10 text-white">
+        <div className="mb-12">
+          <NameBlock data={data} />
+        </div>
+        <div className="space-y-12">
+          {order.filter(id => SIDEBAR.includes(id)).map(id => (
+            <React.Fragment key={id}>{renderSidebarSection(id, data)}</React.Fragment>
+          ))}
+        </div>
+      </div>
+      <div className="w-[68%] p-16 space-y-16">
+        {order.filter(id => !SIDEBAR.includes(id)).map(id => (
+          <React.Fragment key={id}>{renderMainSection(id, data)}</React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export const modernTemplate: ResumeTemplate = {
+  id: 'modern',
+  name: 'Modern',
+  description: 'Dark skills sidebar with a timeline of roles',
+  sections: SECTIONS,
+  page: { formats: ['a4', 'letter'], continuationMarginMm: 15 },
+  pdf: {
+    accent: '#0ea5e9', headingColor: '#0ea5e9', nameSize: 26, bodySize: 9.5,
+    align: 'left', headingRule: false, italicMeta: false,
+    sections: ['summary', 'experience', 'skills', 'education', 'certifications', 'languages']
+  },
+  docx: {
+    bodyFont: 'Arial', headingFont: 'Arial', bodySize: 20, nameSize: 48,
+    accent: '0EA5E9', headingColor: '0EA5E9', nameAlign: 'left',
+    uppercaseHeadings: true, headingRule: false, italicMeta: false,
+    sections: ['summary', 'experience', 'skills', 'education', 'certifications', 'languages']
+  },
+  render: ModernLayout,
+  header: ModernHeader
+};
@@ -0,0 +1,27 @@
+// Page Sizes
+// Paper dimensions shared by the preview, the print stylesheet and the exporters
+
+import { PageFormat } from './types';
+
+export const PAGE_FORMAT_KEY = 'nextstep_page_format';
+
+export const PAGE_DIMENSIONS: Record<PageFormat, { label: string; widthMm: number; heightMm: number; cssSize: string }> = {
+    a4: { label: 'A4', widthMm: 210, heightMm: 297, cssSize: 'A4' },
+    letter: { label: 'Letter', widthMm: 215.9, heightMm: 279.4, cssSize: 'letter' }
+};
+
+/**
+ * Templates stop a few mm short of the paper height so rounding never spills onto a blank second page
+ */
+export const templateMinHeight = (format: PageFormat) => `${PAGE_DIMENSIONS[format].heightMm - 7}mm`;
+
+/**
+ * Millimetres to CSS pixels (96 dpi)
+ */
+export const mmToPx = (mm: number) => Math.round(mm * 96 / 25.4);
+
+/**
+ * Page size in CSS pixels, for scaling and paginating the on-screen preview
+ */
+export const pageWidthPx = (format: PageFormat) => mmToPx(PAGE_DIMENSIONS[format].widthMm);
+export const pageHeightPx = (format: PageFormat) => mmToPx(PAGE_DIMENSIONS[format].heightMm);
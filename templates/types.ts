@@ -0,0 +1,55 @@
+import type React from 'react';
+import { ResumeData, StandardSection } from '../types';
+import type { DocxTheme } from '../lib/docxExport';
+
+export type PageFormat = 'a4' | 'letter';
+
+export type TemplateSection = StandardSection;
+
+// How /api/pdf/export lays the template out (points, CSS hex colours)
+export interface PdfLayout {
+    accent: string;
+    headingColor: string;
+    nameSize: number;
+    bodySize: number;
+    align: 'left' | 'center';
+    headingRule: boolean;       // line under section headings
+    italicMeta: boolean;        // company / school lines in italics
+    sections: TemplateSection[];
+}
+
+export interface TemplatePageBehavior {
+    formats: PageFormat[];      // page sizes the design works on; the first is used when another is requested
+    // Top margin (mm) on printed pages after the first. Page one's spacing is part of the design itself.
+    continuationMarginMm: number;
+}
+
+export interface TemplateRenderProps {
+    data: ResumeData;
+    format: PageFormat;
+    metadataBlock: string;      // encoded payload from lib/resumeMetadata.ts, rendered invisibly
+}
+
+export interface TemplateHeaderProps {
+    data: ResumeData;
+    // Cover letters have no sidebar, so designs that list contact details elsewhere add them to the header
+    withContact?: boolean;
+}
+
+export interface ResumeTemplate {
+    id: string;
+    name: string;
+    description: string;
+    // Standard sections the on-screen / printed design shows, in its default order.
+    // Layouts place them with orderSections() (lib/resumeSections.ts), which applies the user's order,
+    // hidden sections and custom sections on top.
+    sections: TemplateSection[];
+    page: TemplatePageBehavior;
+    pdf: PdfLayout;
+    docx: DocxTheme;
+    // Preview pagination never splits li, p or headings. Mark anything else that must stay whole with
+    // data-keep, and rows that must share a page with what follows (entry headers) with data-keep-next.
+    render: React.FC<TemplateRenderProps>;
+    // The name block on its own, shared by the layout and the cover letter preview
+    header: React.FC<TemplateHeaderProps>;
+}
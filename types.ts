@@ -36,7 +36,23 @@ export interface JobApplication {
   dateAdded: string;
 }
 
-export interface EducationItem {
+// month is 1-12; without it the date is a bare year
+export interface ResumeDate {
+  year: number;
+  month?: number;
+}
+
+// Structured dates shared by experience, education and certifications (lib/dates.ts).
+// When set they win over the free-text date/year field, which is kept in sync for older readers.
+export interface DatedItem {
+  startDate?: ResumeDate | null;    // certifications: issued
+  endDate?: ResumeDate | null;      // certifications: expires
+  current?: boolean;
+}
+
+export type DateFormat = 'short' | 'long' | 'numeric' | 'year';
+
+export interface EducationItem extends DatedItem {
   id: number;
   degree: string;
   school: string;
@@ -44,7 +60,7 @@ export interface EducationItem {
   grade: string;
 }
 
-export interface ExperienceItem {
+export interface ExperienceItem extends DatedItem {
   id: number;
   role: string;
   company: string;
@@ -59,13 +75,34 @@ export interface LanguageItem {
   level: string;
 }
 
-export interface CertificationItem {
+export interface CertificationItem extends DatedItem {
   id: number;
   name: string;
   issuer: string;
   date: string;
 }
 
+export type StandardSection = 'summary' | 'experience' | 'education' | 'skills' | 'certifications' | 'languages';
+
+export type CustomSectionType = 'projects' | 'publications' | 'volunteering' | 'awards';
+
+// What title / subtitle hold depends on the section type (project + tech stack, award + issuer, ...)
+export interface CustomSectionEntry {
+  id: number;
+  title: string;
+  subtitle: string;
+  date: string;
+  url: string;
+  bullets: string[];
+}
+
+export interface CustomSection {
+  id: string;             // "custom-<timestamp>", never one of the StandardSection keys
+  type: CustomSectionType;
+  title: string;
+  entries: CustomSectionEntry[];
+}
+
 export interface ResumeData {
   fullName: string;
   phone: string;
@@ -81,4 +118,53 @@ export interface ResumeData {
   softSkills: string;
   certifications: CertificationItem[];
   languages: LanguageItem[];
+  customSections?: CustomSection[];
+  // Standard section keys and custom section ids, top to bottom. Unset means each template's own order.
+  sectionOrder?: string[];
+  hiddenSections?: string[];
+  dateFormat?: DateFormat;
+  // 'chronological' (default) lists entries newest first; 'manual' keeps them as entered
+  entryOrder?: 'chronological' | 'manual';
+}
+
+export interface ResumeSummary {
+  id: string;
+  name: string;
+  is_master: boolean;
+  parent_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+// A variant stores only what differs from its master; anything not set here
+// is read live from the master so master edits flow through.
+export interface VariantOverrides {
+  targetRole?: string;
+  summary?: string;
+  experienceOrder?: number[];
+  hiddenExperienceIds?: number[];
+  // Keyed by experience id. Plain strings are bullet text saved before refs carried a position.
+  hiddenBullets?: Record<number, (BulletRef | string)[]>;
+  bulletOrder?: Record<number, (BulletRef | string)[]>;
+}
+
+// A master bullet as a variant override saw it: its position in ExperienceItem.bullets and its text
+export interface BulletRef {
+  index: number;
+  text: string;
+}
+
+export interface StoredResume extends ResumeSummary {
+  data: ResumeData;
+  job_description: string | null;
+  overrides: VariantOverrides;
+  master?: { id: string; name: string; data: ResumeData; updated_at: string } | null;
+}
+
+export interface ResumeVersion {
+  id: string;
+  resume_id: string;
+  label: string | null;
+  data: ResumeData;
+  created_at: string;
 }